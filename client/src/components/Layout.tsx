@@ -1,6 +1,6 @@
 import React, { ReactNode } from 'react';
 import { useSimulation } from '@/contexts/SimulationContext';
-import { MemoryStick, HardDrive, BarChart } from 'lucide-react';
+import { MemoryStick, HardDrive, BarChart, Cpu, LayoutGrid } from 'lucide-react';
 
 interface LayoutProps {
   children: ReactNode;
@@ -48,6 +48,24 @@ export function Layout({ children }: LayoutProps) {
               <MemoryStick className="mr-1 h-5 w-5" />
               Virtual MemoryStick
             </button>
+            <button 
+              className={`px-6 py-3 font-medium flex items-center ${
+                activeTab === 'translation' ? 'text-primary border-b-2 border-primary' : 'text-[#757575] hover:text-primary'
+              }`}
+              onClick={() => setActiveTab('translation')}
+            >
+              <Cpu className="mr-1 h-5 w-5" />
+              Address Translation
+            </button>
+            <button 
+              className={`px-6 py-3 font-medium flex items-center ${
+                activeTab === 'allocation' ? 'text-primary border-b-2 border-primary' : 'text-[#757575] hover:text-primary'
+              }`}
+              onClick={() => setActiveTab('allocation')}
+            >
+              <LayoutGrid className="mr-1 h-5 w-5" />
+              Memory Allocation
+            </button>
             <button 
               className={`px-6 py-3 font-medium flex items-center ${
                 activeTab === 'disk' ? 'text-primary border-b-2 border-primary' : 'text-[#757575] hover:text-primary'
@@ -0,0 +1,353 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Play, RefreshCw, AlertCircle, Minimize2, LayoutGrid } from "lucide-react";
+import { useSimulation } from "@/contexts/SimulationContext";
+import {
+  AllocationResult,
+  AllocationStep,
+  FIT_STRATEGIES,
+  FitStrategy,
+  simulateContiguous,
+} from "@/lib/algorithms/contiguous";
+import { validateAllocationInput } from "@/lib/validators";
+import { BuddyPanel } from "./BuddyPanel";
+import { SlabPanel } from "./SlabPanel";
+
+const FIT_LABELS: Record<FitStrategy, string> = {
+  first: "First-Fit",
+  best: "Best-Fit",
+  worst: "Worst-Fit",
+  next: "Next-Fit",
+};
+
+// One color per process name, assigned in order of first appearance
+const PROCESS_COLORS = ["#3f51b5", "#4caf50", "#ff9800", "#9c27b0", "#00bcd4", "#795548", "#e91e63", "#607d8b"];
+
+interface MemoryBarProps {
+  step: AllocationStep;
+  memorySize: number;
+  colorOf: (process: string) => string;
+}
+
+// Memory layout after one request, with holes hatched and the next-fit pointer marked
+function MemoryBar({ step, memorySize, colorOf }: MemoryBarProps) {
+  return (
+    <div>
+      <div className="relative h-14 rounded-md overflow-hidden border">
+        {step.blocks.map((block) => (
+          <div
+            key={`block-${block.start}`}
+            className="absolute h-full flex flex-col items-center justify-center text-xs overflow-hidden border-r border-white"
+            style={{
+              left: `${(block.start / memorySize) * 100}%`,
+              width: `${(block.size / memorySize) * 100}%`,
+              backgroundColor: block.process ? colorOf(block.process) : undefined,
+              backgroundImage: block.process
+                ? undefined
+                : "repeating-linear-gradient(45deg, #f5f5f5, #f5f5f5 6px, #e0e0e0 6px, #e0e0e0 12px)",
+              color: block.process ? "white" : "#757575",
+              outline:
+                step.chosenHole === block.start && block.process ? "2px solid #212121" : undefined,
+              outlineOffset: "-2px",
+            }}
+            title={`${block.process ?? "Hole"}: ${block.start}-${block.start + block.size - 1} (${block.size})`}
+          >
+            <span className="font-medium">{block.process ?? "hole"}</span>
+            <span>{block.size}</span>
+          </div>
+        ))}
+        {step.pointer !== undefined && (
+          <div
+            className="absolute top-0 h-full w-0.5 bg-[#f44336]"
+            style={{ left: `${(step.pointer / memorySize) * 100}%` }}
+            title={`Next-fit pointer at ${step.pointer}`}
+          />
+        )}
+      </div>
+      <div className="flex justify-between text-xs text-[#757575] mt-1">
+        <span>0</span>
+        <span>{memorySize}</span>
+      </div>
+    </div>
+  );
+}
+
+export function AllocationTab() {
+  // Sections stay mounted so switching between them keeps their inputs and results
+  return (
+    <Tabs defaultValue="contiguous">
+      <TabsList className="mb-4">
+        <TabsTrigger value="contiguous">Contiguous</TabsTrigger>
+        <TabsTrigger value="buddy">Buddy System</TabsTrigger>
+        <TabsTrigger value="slab">Slab Allocator</TabsTrigger>
+      </TabsList>
+      <TabsContent value="contiguous" forceMount className="data-[state=inactive]:hidden">
+        <ContiguousPanel />
+      </TabsContent>
+      <TabsContent value="buddy" forceMount className="data-[state=inactive]:hidden">
+        <BuddyPanel />
+      </TabsContent>
+      <TabsContent value="slab" forceMount className="data-[state=inactive]:hidden">
+        <SlabPanel />
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+function ContiguousPanel() {
+  const { updateAllocationComparison } = useSimulation();
+  const [strategy, setStrategy] = useState<FitStrategy>("first");
+  const [memorySize, setMemorySize] = useState("1000");
+  const [requestText, setRequestText] = useState("");
+  const [error, setError] = useState("");
+  const [results, setResults] = useState<Record<FitStrategy, AllocationResult> | null>(null);
+  const [runSize, setRunSize] = useState(0);
+  const [selected, setSelected] = useState(0);
+
+  const run = (text: string) => {
+    const validation = validateAllocationInput(memorySize, text);
+    if (!validation.valid) {
+      setError(validation.message);
+      return;
+    }
+
+    setError("");
+
+    // Every strategy runs on the same requests so the comparison is like for like
+    const size = validation.memorySize!;
+    const all = {} as Record<FitStrategy, AllocationResult>;
+    FIT_STRATEGIES.forEach((fit) => {
+      all[fit] = simulateContiguous(size, validation.requests!, fit);
+    });
+
+    setResults(all);
+    setRunSize(size);
+    setSelected(validation.requests!.length - 1);
+    updateAllocationComparison(size, all);
+  };
+
+  const handleRun = () => run(requestText);
+
+  // Compaction on demand: add a compact request at the end and run again
+  const handleCompact = () => {
+    const text = requestText.trim() ? `${requestText.trim()}\ncompact` : "compact";
+    setRequestText(text);
+    run(text);
+  };
+
+  const handleReset = () => {
+    setStrategy("first");
+    setMemorySize("1000");
+    setRequestText("");
+    setError("");
+    setResults(null);
+    setSelected(0);
+  };
+
+  const result = results?.[strategy];
+  const step = result?.steps[selected];
+
+  const processNames: string[] = [];
+  result?.steps.forEach(({ request }) => {
+    if (request.type === "allocate" && !processNames.includes(request.process)) {
+      processNames.push(request.process);
+    }
+  });
+  const colorOf = (process: string) =>
+    PROCESS_COLORS[processNames.indexOf(process) % PROCESS_COLORS.length];
+
+  const describeRequest = (request: AllocationStep["request"]) =>
+    request.type === "allocate"
+      ? `${request.process} ${request.size}`
+      : request.type === "free"
+      ? `free ${request.process}`
+      : "compact";
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Input Panel */}
+      <Card className="lg:col-span-1">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Input Parameters</h2>
+
+          <div className="mb-4">
+            <Label htmlFor="fitStrategy" className="text-sm font-medium text-[#757575] mb-1">
+              Strategy
+            </Label>
+            <Select
+              value={strategy}
+              onValueChange={(value) => setStrategy(value as FitStrategy)}
+            >
+              <SelectTrigger id="fitStrategy" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FIT_STRATEGIES.map((fit) => (
+                  <SelectItem key={fit} value={fit}>
+                    {FIT_LABELS[fit]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="mb-4">
+            <Label htmlFor="memorySize" className="text-sm font-medium text-[#757575] mb-1">
+              Memory Size
+            </Label>
+            <Input
+              id="memorySize"
+              type="number"
+              min="1"
+              value={memorySize}
+              onChange={(e) => setMemorySize(e.target.value)}
+              className="w-full"
+            />
+          </div>
+
+          <div className="mb-6">
+            <Label htmlFor="allocationRequests" className="text-sm font-medium text-[#757575] mb-1">
+              Requests
+            </Label>
+            <Textarea
+              id="allocationRequests"
+              value={requestText}
+              onChange={(e) => setRequestText(e.target.value)}
+              placeholder={"P1 212\nP2 417\nfree P1\nP3 112\ncompact"}
+              className="w-full h-32 font-mono text-xs"
+            />
+            <p className="text-xs text-[#757575] mt-1">
+              One per line: "P1 212" allocates, "free P1" releases, "compact" compacts
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-[#f44336] bg-opacity-10 text-[#f44336] rounded-md flex">
+              <AlertCircle className="h-5 w-5 mr-2" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-4">
+            <Button onClick={handleRun} className="bg-primary text-white">
+              <Play className="h-4 w-4 mr-1" />
+              Run
+            </Button>
+            <Button onClick={handleReset} variant="outline">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+          </div>
+
+          <Button onClick={handleCompact} variant="outline" className="w-full mt-4">
+            <Minimize2 className="h-4 w-4 mr-1" />
+            Compact now
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Results Panel */}
+      <Card className="lg:col-span-2">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Simulation Results</h2>
+
+          {!result || !step ? (
+            <div className="text-center py-8 text-[#757575]">
+              <LayoutGrid className="h-16 w-16 mx-auto mb-2 text-[#757575]" />
+              <p>Configure parameters and click Run to start the simulation</p>
+            </div>
+          ) : (
+            <div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Free Memory</p>
+                  <p className="text-2xl font-medium">{step.freeMemory}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Largest Hole</p>
+                  <p className="text-2xl font-medium text-[#3f51b5]">{step.largestHole}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Holes</p>
+                  <p className="text-2xl font-medium">{step.holes}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">External Fragmentation</p>
+                  <p className="text-2xl font-medium text-[#f44336]">
+                    {(step.fragmentation * 100).toFixed(1)}%
+                  </p>
+                </div>
+              </div>
+
+              <h3 className="font-medium mb-2">
+                After step {selected + 1}: {describeRequest(step.request)}
+              </h3>
+              <div className="mb-2">
+                <MemoryBar step={step} memorySize={runSize} colorOf={colorOf} />
+              </div>
+              <p className={`text-sm mb-6 ${step.success ? "text-[#757575]" : "text-[#f44336]"}`}>
+                {step.message}
+                {step.holesSearched &&
+                  step.holesSearched.length > 0 &&
+                  ` — searched holes at ${step.holesSearched.join(", ")}`}
+              </p>
+
+              <h3 className="font-medium mb-2">Steps</h3>
+              <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="px-3 py-2 text-left">#</th>
+                      <th className="px-3 py-2 text-left">Request</th>
+                      <th className="px-3 py-2 text-left">Outcome</th>
+                      <th className="px-3 py-2 text-right">Holes</th>
+                      <th className="px-3 py-2 text-right">Fragmentation</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.steps.map((row, i) => (
+                      <tr
+                        key={`allocation-${i}`}
+                        className={`border-t cursor-pointer ${
+                          i === selected ? "bg-[#3f51b5] bg-opacity-10" : "hover:bg-gray-50"
+                        }`}
+                        onClick={() => setSelected(i)}
+                      >
+                        <td className="px-3 py-1">{i + 1}</td>
+                        <td className="px-3 py-1 font-mono">{describeRequest(row.request)}</td>
+                        <td className={`px-3 py-1 ${row.success ? "" : "text-[#f44336]"}`}>
+                          {row.message}
+                        </td>
+                        <td className="px-3 py-1 text-right">{row.holes}</td>
+                        <td className="px-3 py-1 text-right">
+                          {(row.fragmentation * 100).toFixed(1)}%
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-[#757575] mt-2">
+                Click a step to see memory after it.{" "}
+                {strategy === "next" && "The red line is the next-fit pointer. "}
+                All four strategies run on these requests; see the Comparison tab.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
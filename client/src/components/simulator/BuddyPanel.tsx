@@ -0,0 +1,280 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Play, RefreshCw, AlertCircle, Network } from "lucide-react";
+import { BuddyNode, BuddyResult, simulateBuddy } from "@/lib/algorithms/buddy";
+import { validateBuddyInput } from "@/lib/validators";
+import { usePlayback } from "@/hooks/use-playback";
+import { PlaybackControls } from "./PlaybackControls";
+
+// One color per process name, assigned in order of first appearance
+const PROCESS_COLORS = ["#3f51b5", "#4caf50", "#ff9800", "#9c27b0", "#00bcd4", "#795548", "#e91e63", "#607d8b"];
+
+// Every node of the split tree with its depth (0 is the whole of memory)
+function flattenTree(node: BuddyNode, depth = 0): { node: BuddyNode; depth: number }[] {
+  return [
+    { node, depth },
+    ...(node.children
+      ? [...flattenTree(node.children[0], depth + 1), ...flattenTree(node.children[1], depth + 1)]
+      : []),
+  ];
+}
+
+interface BuddyVisualizationProps {
+  result: BuddyResult;
+  memorySize: number;
+}
+
+function BuddyVisualization({ result, memorySize }: BuddyVisualizationProps) {
+  const playback = usePlayback(result.steps.length);
+  const step = result.steps[playback.currentStep];
+
+  const processNames: string[] = [];
+  result.steps.forEach(({ request }) => {
+    if (request.type === "allocate" && !processNames.includes(request.process)) {
+      processNames.push(request.process);
+    }
+  });
+  const colorOf = (process: string) =>
+    PROCESS_COLORS[processNames.indexOf(process) % PROCESS_COLORS.length];
+
+  const nodes = flattenTree(step.tree);
+  const depth = Math.max(...nodes.map((entry) => entry.depth));
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Allocated</p>
+          <p className="text-2xl font-medium">
+            {step.allocated} <span className="text-sm text-[#757575]">/ {memorySize}</span>
+          </p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Requested</p>
+          <p className="text-2xl font-medium text-[#3f51b5]">{step.requested}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Internal Fragmentation</p>
+          <p className="text-2xl font-medium text-[#f44336]">
+            {(step.internalFragmentation * 100).toFixed(1)}%
+          </p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Largest Free Block</p>
+          <p className="text-2xl font-medium text-[#4caf50]">{step.largestFree}</p>
+        </div>
+      </div>
+
+      <PlaybackControls playback={playback} title="Split Tree" />
+
+      <div className="bg-[#f9f9f9] p-4 rounded-md border border-gray-300 mb-2">
+        {Array.from({ length: depth + 1 }, (_, level) => (
+          <div key={`level-${level}`} className="flex items-center mb-1">
+            <div className="w-14 text-xs text-[#757575] shrink-0">{memorySize / 2 ** level}</div>
+            <div className="relative h-9 flex-1">
+              {nodes
+                .filter((entry) => entry.depth === level)
+                .map(({ node }) => {
+                  const isTarget =
+                    step.block?.start === node.start && step.block?.size === node.size;
+                  const style: React.CSSProperties = {
+                    left: `${(node.start / memorySize) * 100}%`,
+                    width: `${(node.size / memorySize) * 100}%`,
+                    outline: isTarget ? "2px solid #212121" : undefined,
+                    outlineOffset: "-2px",
+                  };
+
+                  if (node.children) {
+                    return (
+                      <div
+                        key={`node-${node.start}`}
+                        className="absolute h-full bg-[#e0e0e0] border border-white rounded-sm"
+                        style={style}
+                        title={`Split: ${node.start}-${node.start + node.size - 1}`}
+                      />
+                    );
+                  }
+
+                  if (!node.process) {
+                    return (
+                      <div
+                        key={`node-${node.start}`}
+                        className="absolute h-full border border-dashed border-[#9e9e9e] bg-white rounded-sm text-xs text-[#757575] flex items-center justify-center overflow-hidden"
+                        style={style}
+                        title={`Free: ${node.start}-${node.start + node.size - 1} (${node.size})`}
+                      >
+                        free
+                      </div>
+                    );
+                  }
+
+                  // Requested bytes are solid; the hatched remainder is internal fragmentation
+                  const used = ((node.requested ?? node.size) / node.size) * 100;
+                  return (
+                    <div
+                      key={`node-${node.start}`}
+                      className="absolute h-full border border-white rounded-sm text-xs text-white flex items-center justify-center overflow-hidden"
+                      style={{
+                        ...style,
+                        backgroundImage: `linear-gradient(to right, ${colorOf(node.process)} ${used}%, transparent ${used}%), repeating-linear-gradient(45deg, ${colorOf(node.process)}55, ${colorOf(node.process)}55 4px, #ffffff 4px, #ffffff 8px)`,
+                      }}
+                      title={`${node.process}: ${node.requested} of ${node.size} at ${node.start}`}
+                    >
+                      <span className="font-medium">{node.process}</span>
+                    </div>
+                  );
+                })}
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-[#757575] mb-4">
+        Each row is a block size. Grey blocks have been split; the hatched part of an allocated
+        block is internal fragmentation.
+      </p>
+
+      <div
+        className={`p-3 rounded-md text-sm border-l-4 ${
+          step.success ? "bg-gray-50 border-[#4caf50]" : "bg-[#ffebee] border-[#f44336]"
+        }`}
+      >
+        <p className="font-medium">{step.message}</p>
+        {step.splits.length > 0 && (
+          <p className="text-xs text-[#757575] mt-1">
+            Split {step.splits.map((size) => `${size} → ${size / 2} + ${size / 2}`).join(", ")}
+          </p>
+        )}
+        {step.merges.length > 0 && (
+          <p className="text-xs text-[#757575] mt-1">
+            Merged buddies into {step.merges.join(", then ")}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function BuddyPanel() {
+  const [memorySize, setMemorySize] = useState("1024");
+  const [minBlock, setMinBlock] = useState("64");
+  const [requestText, setRequestText] = useState("");
+  const [error, setError] = useState("");
+  const [result, setResult] = useState<BuddyResult | null>(null);
+  const [runSize, setRunSize] = useState(0);
+  const [runId, setRunId] = useState(0);
+
+  const handleRun = () => {
+    const validation = validateBuddyInput(memorySize, minBlock, requestText);
+    if (!validation.valid) {
+      setError(validation.message);
+      return;
+    }
+
+    setError("");
+    setResult(simulateBuddy(validation.memorySize!, validation.minBlock!, validation.requests!));
+    setRunSize(validation.memorySize!);
+    setRunId((id) => id + 1);
+  };
+
+  const handleReset = () => {
+    setMemorySize("1024");
+    setMinBlock("64");
+    setRequestText("");
+    setError("");
+    setResult(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Input Panel */}
+      <Card className="lg:col-span-1">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Input Parameters</h2>
+
+          <div className="mb-4 grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="buddyMemory" className="text-sm font-medium text-[#757575] mb-1">
+                Memory Size
+              </Label>
+              <Input
+                id="buddyMemory"
+                type="number"
+                min="1"
+                value={memorySize}
+                onChange={(e) => setMemorySize(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="buddyMinBlock" className="text-sm font-medium text-[#757575] mb-1">
+                Smallest Block
+              </Label>
+              <Input
+                id="buddyMinBlock"
+                type="number"
+                min="1"
+                value={minBlock}
+                onChange={(e) => setMinBlock(e.target.value)}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <Label htmlFor="buddyRequests" className="text-sm font-medium text-[#757575] mb-1">
+              Requests
+            </Label>
+            <Textarea
+              id="buddyRequests"
+              value={requestText}
+              onChange={(e) => setRequestText(e.target.value)}
+              placeholder={"A 70\nB 35\nC 80\nfree A\nD 60\nfree B\nfree D\nfree C"}
+              className="w-full h-32 font-mono text-xs"
+            />
+            <p className="text-xs text-[#757575] mt-1">
+              One per line: "A 70" allocates, "free A" releases. Both sizes must be powers of two.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-[#f44336] bg-opacity-10 text-[#f44336] rounded-md flex">
+              <AlertCircle className="h-5 w-5 mr-2" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-4">
+            <Button onClick={handleRun} className="bg-primary text-white">
+              <Play className="h-4 w-4 mr-1" />
+              Run
+            </Button>
+            <Button onClick={handleReset} variant="outline">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results Panel */}
+      <Card className="lg:col-span-2">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Simulation Results</h2>
+
+          {!result ? (
+            <div className="text-center py-8 text-[#757575]">
+              <Network className="h-16 w-16 mx-auto mb-2 text-[#757575]" />
+              <p>Configure parameters and click Run to start the simulation</p>
+            </div>
+          ) : (
+            <BuddyVisualization key={runId} result={result} memorySize={runSize} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
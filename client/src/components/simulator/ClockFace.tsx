@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from "react";
+import { MemoryStep } from "@/lib/algorithms/memory";
+
+interface ClockFaceProps {
+  step: MemoryStep;
+  showModifyBits?: boolean;
+  sweepDelay?: number; // ms per frame the hand passes over
+}
+
+const SIZE = 260;
+const CENTER = SIZE / 2;
+const RADIUS = 95;
+const NODE_RADIUS = 24;
+
+// Draws the frames as a circular buffer and replays the hand's sweep for one step,
+// clearing reference bits as it passes over them
+export function ClockFace({
+  step,
+  showModifyBits = false,
+  sweepDelay = 300,
+}: ClockFaceProps) {
+  const sweepPath = step.sweepPath ?? [];
+  const [progress, setProgress] = useState(sweepPath.length);
+
+  // Replay the sweep whenever a new step is shown
+  useEffect(() => {
+    if (sweepPath.length === 0) {
+      setProgress(0);
+      return;
+    }
+
+    setProgress(0);
+    let current = 0;
+    const timer = setInterval(() => {
+      current++;
+      setProgress(current);
+      if (current >= sweepPath.length) {
+        clearInterval(timer);
+      }
+    }, sweepDelay);
+
+    return () => clearInterval(timer);
+  }, [step, sweepDelay]);
+
+  const isComplete = progress >= sweepPath.length;
+  const frames = isComplete ? step.framesAfter : step.frames;
+  const modifyBits = isComplete ? step.modifyBitsAfter : step.modifyBits;
+
+  // Before the sweep finishes, show the original bits with the cleared ones so far zeroed
+  const clearedSoFar = new Set<number>(
+    sweepPath.filter((_, k) => k < progress && step.sweepClears?.[k])
+  );
+  const refBits = isComplete
+    ? step.refBitsAfter
+    : step.refBits?.map((bit, i) => (clearedSoFar.has(i) ? 0 : bit));
+
+  const handPosition = isComplete
+    ? step.pointerPositionAfter ?? 0
+    : progress === 0
+    ? step.pointerPosition ?? 0
+    : sweepPath[progress - 1];
+
+  const frameCount = step.frames.length;
+  const angleOf = (index: number) =>
+    (index / frameCount) * 2 * Math.PI - Math.PI / 2;
+  const positionOf = (index: number, radius: number) => ({
+    x: CENTER + radius * Math.cos(angleOf(index)),
+    y: CENTER + radius * Math.sin(angleOf(index)),
+  });
+
+  const hand = positionOf(handPosition, RADIUS - NODE_RADIUS - 6);
+
+  return (
+    <svg
+      width={SIZE}
+      height={SIZE}
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      className="mx-auto"
+    >
+      <circle
+        cx={CENTER}
+        cy={CENTER}
+        r={RADIUS}
+        fill="none"
+        stroke="#e0e0e0"
+        strokeWidth={2}
+        strokeDasharray="4 4"
+      />
+
+      {/* Hand */}
+      <line
+        x1={CENTER}
+        y1={CENTER}
+        x2={hand.x}
+        y2={hand.y}
+        stroke="#ff9800"
+        strokeWidth={3}
+        strokeLinecap="round"
+        style={{ transition: "all 0.2s ease-in-out" }}
+      />
+      <circle cx={CENTER} cy={CENTER} r={5} fill="#ff9800" />
+
+      {step.frames.map((_, frameIndex) => {
+        const { x, y } = positionOf(frameIndex, RADIUS);
+        const page = frames[frameIndex];
+        const refBit = refBits?.[frameIndex] ?? 0;
+        const isVictim =
+          isComplete && step.isFault && step.replacedFrame === frameIndex;
+        const justCleared = clearedSoFar.has(frameIndex);
+
+        return (
+          <g key={`clock-frame-${frameIndex}`}>
+            <circle
+              cx={x}
+              cy={y}
+              r={NODE_RADIUS}
+              fill={
+                isVictim ? "#ffebee" : page === -1 ? "#f5f5f5" : "#e8f5e9"
+              }
+              stroke={
+                frameIndex === handPosition
+                  ? "#ff9800"
+                  : page === step.reference
+                  ? "#ff4081"
+                  : "#bdbdbd"
+              }
+              strokeWidth={frameIndex === handPosition ? 3 : 1.5}
+            />
+            <text
+              x={x}
+              y={y - 3}
+              textAnchor="middle"
+              className="font-mono"
+              fontSize={14}
+              fill="#212121"
+            >
+              {page === -1 ? "-" : page}
+            </text>
+            <text
+              x={x}
+              y={y + 13}
+              textAnchor="middle"
+              className="font-mono"
+              fontSize={10}
+              fill={justCleared ? "#e65100" : "#757575"}
+              fontWeight={justCleared ? "bold" : "normal"}
+            >
+              {page === -1
+                ? `F${frameIndex}`
+                : showModifyBits
+                ? `(${refBit},${modifyBits?.[frameIndex] ?? 0})`
+                : `R=${refBit}`}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -6,17 +6,67 @@ import {
   CategoryScale, 
   LinearScale, 
   BarElement, 
+  LineElement,
+  PointElement,
+  LineController,
+  BarController,
   Title, 
   Tooltip, 
-  Legend 
+  Legend,
+  ChartData
 } from 'chart.js';
-import { Bar } from 'react-chartjs-2';
+import { Bar, Chart } from 'react-chartjs-2';
+import { StackDistancePanel } from './StackDistancePanel';
+
+// Memory algorithms shown in the comparison, in display order
+const memoryAlgorithms = [
+  { key: 'fifo', label: 'FIFO', color: '#ff9800' },
+  { key: 'lru', label: 'LRU', color: '#f44336' },
+  { key: 'arb', label: 'ARB', color: '#3f51b5' },
+  { key: 'clock', label: 'Clock', color: '#795548' },
+  { key: 'eclock', label: 'Enhanced Clock', color: '#607d8b' },
+  { key: 'lfu', label: 'LFU', color: '#4caf50' },
+  { key: 'mfu', label: 'MFU', color: '#9c27b0' },
+  { key: 'arc', label: 'ARC', color: '#00bcd4' },
+  { key: 'twoq', label: '2Q', color: '#e91e63' },
+  { key: 'lirs', label: 'LIRS', color: '#8bc34a' },
+  { key: 'clockpro', label: 'CLOCK-Pro', color: '#ffc107' },
+] as const;
+
+// Disk scheduling algorithms shown in the comparison, in display order
+const diskAlgorithms = [
+  { key: 'fcfs', label: 'FCFS', color: '#ff9800' },
+  { key: 'sstf', label: 'SSTF', color: '#4caf50' },
+  { key: 'scan', label: 'SCAN', color: '#009688' },
+  { key: 'look', label: 'LOOK', color: '#3f51b5' },
+  { key: 'cscan', label: 'C-SCAN', color: '#f44336' },
+  { key: 'clook', label: 'C-LOOK', color: '#9c27b0' },
+  { key: 'nstep', label: 'N-Step SCAN', color: '#795548' },
+  { key: 'fscan', label: 'FSCAN', color: '#607d8b' },
+  { key: 'deadline', label: 'Deadline', color: '#e91e63' },
+  { key: 'bfq', label: 'BFQ', color: '#00bcd4' },
+] as const;
+
+// Contiguous allocation strategies, in display order
+const allocationStrategies = [
+  { key: 'first', label: 'First-Fit', color: '#3f51b5' },
+  { key: 'best', label: 'Best-Fit', color: '#4caf50' },
+  { key: 'worst', label: 'Worst-Fit', color: '#f44336' },
+  { key: 'next', label: 'Next-Fit', color: '#ff9800' },
+] as const;
+
+const formatNs = (ns: number) =>
+  ns >= 1e6 ? `${(ns / 1e6).toFixed(2)} ms` : ns >= 1e3 ? `${(ns / 1e3).toFixed(2)} µs` : `${ns.toFixed(1)} ns`;
 
 // Register Chart.js components
 ChartJS.register(
   CategoryScale,
   LinearScale,
   BarElement,
+  LineElement,
+  PointElement,
+  LineController,
+  BarController,
   Title,
   Tooltip,
   Legend
@@ -24,24 +74,38 @@ ChartJS.register(
 
 export function ComparisonTab() {
   const { comparisonData } = useSimulation();
-  const memoryChartRef = useRef<ChartJS>(null);
-  const diskChartRef = useRef<ChartJS>(null);
+  const memoryChartRef = useRef<ChartJS<'bar' | 'line', number[], string>>(null);
+  const diskChartRef = useRef<ChartJS<'bar'>>(null);
+  const allocationChartRef = useRef<ChartJS<'bar'>>(null);
 
-  const hasMemoryData = comparisonData.lru !== null || comparisonData.arb !== null;
-  const hasDiskData = comparisonData.cscan !== null || comparisonData.look !== null;
+  const hasMemoryData =
+    comparisonData.opt !== null ||
+    memoryAlgorithms.some(({ key }) => comparisonData[key] !== null);
+  const hasDiskData = diskAlgorithms.some(({ key }) => comparisonData[key] !== null);
 
-  // Memory chart data
-  const memoryChartData = {
-    labels: ['LRU', 'ARB'],
+  // Memory chart data, with the optimal fault count drawn as a reference line
+  const memoryChartData: ChartData<'bar' | 'line', number[], string> = {
+    labels: memoryAlgorithms.map(({ label }) => label),
     datasets: [
       {
+        type: 'bar' as const,
         label: 'Page Faults',
-        data: [
-          comparisonData.lru?.faults || 0,
-          comparisonData.arb?.faults || 0
-        ],
-        backgroundColor: ['#f44336', '#3f51b5'],
-      }
+        data: memoryAlgorithms.map(({ key }) => comparisonData[key]?.faults || 0),
+        backgroundColor: memoryAlgorithms.map(({ color }) => color),
+      },
+      ...(comparisonData.opt
+        ? [
+            {
+              type: 'line' as const,
+              label: 'Optimal (OPT)',
+              data: memoryAlgorithms.map(() => comparisonData.opt!.faults),
+              borderColor: '#009688',
+              borderDash: [6, 4],
+              pointRadius: 0,
+              fill: false,
+            },
+          ]
+        : []),
     ],
   };
 
@@ -58,23 +122,54 @@ export function ComparisonTab() {
     },
   };
 
-  // Disk chart data
+  // Disk ranking by total service time, mean service time breaking ties (1 = fastest)
+  const timedDisk = diskAlgorithms
+    .filter(({ key }) => comparisonData[key]?.totalMs !== undefined)
+    .sort(
+      (a, b) =>
+        comparisonData[a.key]!.totalMs! - comparisonData[b.key]!.totalMs! ||
+        comparisonData[a.key]!.meanServiceMs! - comparisonData[b.key]!.meanServiceMs!
+    );
+  const diskRank = (key: (typeof diskAlgorithms)[number]['key']) => {
+    const index = timedDisk.findIndex((algorithm) => algorithm.key === key);
+    return index === -1 ? null : index + 1;
+  };
+
+  // Disk chart: seek distance against total service time
   const diskChartData = {
-    labels: ['C-SCAN', 'LOOK'],
+    labels: diskAlgorithms.map(({ label }) => label),
     datasets: [
       {
         label: 'Seek Distance',
-        data: [
-          comparisonData.cscan?.seekDistance || 0,
-          comparisonData.look?.seekDistance || 0
-        ],
-        backgroundColor: ['#f44336', '#3f51b5'],
-      }
+        data: diskAlgorithms.map(({ key }) => comparisonData[key]?.seekDistance || 0),
+        backgroundColor: diskAlgorithms.map(({ color }) => color),
+        yAxisID: 'y',
+      },
+      {
+        label: 'Total Service Time (ms)',
+        data: diskAlgorithms.map(({ key }) => comparisonData[key]?.totalMs || 0),
+        backgroundColor: '#bdbdbd',
+        yAxisID: 'y1',
+      },
     ],
   };
 
   const diskChartOptions = {
     responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      y: {
+        position: 'left' as const,
+        beginAtZero: true,
+        title: { display: true, text: 'Cylinders' },
+      },
+      y1: {
+        position: 'right' as const,
+        beginAtZero: true,
+        grid: { drawOnChartArea: false },
+        title: { display: true, text: 'Time (ms)' },
+      },
+    },
     plugins: {
       legend: {
         position: 'top' as const,
@@ -86,16 +181,69 @@ export function ComparisonTab() {
     },
   };
 
+  // Allocation chart: failed requests against average external fragmentation
+  const allocation = comparisonData.allocation;
+  const allocationChartData = {
+    labels: allocationStrategies.map(({ label }) => label),
+    datasets: [
+      {
+        label: 'Failed Requests',
+        data: allocationStrategies.map(({ key }) => allocation?.strategies[key].failures || 0),
+        backgroundColor: allocationStrategies.map(({ color }) => color),
+        yAxisID: 'y',
+      },
+      {
+        label: 'Avg. Fragmentation (%)',
+        data: allocationStrategies.map(({ key }) =>
+          (allocation?.strategies[key].averageFragmentation || 0) * 100
+        ),
+        backgroundColor: '#bdbdbd',
+        yAxisID: 'y1',
+      },
+    ],
+  };
+
+  const allocationChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      y: {
+        position: 'left' as const,
+        beginAtZero: true,
+        ticks: { precision: 0 },
+        title: { display: true, text: 'Failed Requests' },
+      },
+      y1: {
+        position: 'right' as const,
+        min: 0,
+        max: 100,
+        grid: { drawOnChartArea: false },
+        title: { display: true, text: 'Fragmentation (%)' },
+      },
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      title: {
+        display: true,
+        text: 'Allocation Strategy Comparison',
+      },
+    },
+  };
+
   // Calculate fault rates and efficiency percentages
   const calculateFaultRate = (faults: number, hits: number) => {
     if (faults + hits === 0) return 0;
     return (faults / (faults + hits)) * 100;
   };
 
-  const calculateEfficiency = (seekDistance: number, cylinders: number) => {
-    const maxPossible = cylinders * 2; // max theoretical seek distance
-    if (maxPossible === 0) return 0;
-    return ((1 - seekDistance / maxPossible) * 100);
+  // Extra faults relative to the optimal algorithm on the same input
+  const formatGapFromOptimal = (faults: number) => {
+    if (!comparisonData.opt) return '-';
+    const gap = faults - comparisonData.opt.faults;
+    if (comparisonData.opt.faults === 0) return `+${gap}`;
+    return `+${gap} (${((gap / comparisonData.opt.faults) * 100).toFixed(1)}%)`;
   };
 
   return (
@@ -122,43 +270,71 @@ export function ComparisonTab() {
                         <th className="px-4 py-2 text-right">Page Faults</th>
                         <th className="px-4 py-2 text-right">Page Hits</th>
                         <th className="px-4 py-2 text-right">Fault Rate</th>
+                        <th className="px-4 py-2 text-right">vs. OPT</th>
+                        <th className="px-4 py-2 text-right">I/O</th>
+                        <th className="px-4 py-2 text-right">EAT</th>
                       </tr>
                     </thead>
                     <tbody>
-                      <tr className="border-t">
-                        <td className="px-4 py-3">LRU</td>
-                        <td className="px-4 py-3 text-right">
-                          {comparisonData.lru?.faults || '-'}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          {comparisonData.lru?.hits || '-'}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          {comparisonData.lru 
-                            ? `${calculateFaultRate(comparisonData.lru.faults, comparisonData.lru.hits).toFixed(2)}%` 
-                            : '-'}
-                        </td>
-                      </tr>
-                      <tr className="border-t">
-                        <td className="px-4 py-3">ARB</td>
-                        <td className="px-4 py-3 text-right">
-                          {comparisonData.arb?.faults || '-'}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          {comparisonData.arb?.hits || '-'}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          {comparisonData.arb 
-                            ? `${calculateFaultRate(comparisonData.arb.faults, comparisonData.arb.hits).toFixed(2)}%` 
-                            : '-'}
-                        </td>
-                      </tr>
+                      {memoryAlgorithms.map(({ key, label }) => {
+                        const data = comparisonData[key];
+                        return (
+                          <tr key={key} className="border-t">
+                            <td className="px-4 py-3">{label}</td>
+                            <td className="px-4 py-3 text-right">
+                              {data?.faults ?? '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {data?.hits ?? '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {data 
+                                ? `${calculateFaultRate(data.faults, data.hits).toFixed(2)}%` 
+                                : '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {data ? formatGapFromOptimal(data.faults) : '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {data?.ioCount ?? '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right whitespace-nowrap">
+                              {data?.effectiveAccessTime !== undefined
+                                ? formatNs(data.effectiveAccessTime)
+                                : '-'}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                      {comparisonData.opt && (
+                        <tr className="border-t bg-teal-50">
+                          <td className="px-4 py-3">OPT (optimal)</td>
+                          <td className="px-4 py-3 text-right">{comparisonData.opt.faults}</td>
+                          <td className="px-4 py-3 text-right">{comparisonData.opt.hits}</td>
+                          <td className="px-4 py-3 text-right">
+                            {`${calculateFaultRate(comparisonData.opt.faults, comparisonData.opt.hits).toFixed(2)}%`}
+                          </td>
+                          <td className="px-4 py-3 text-right">Baseline</td>
+                          <td className="px-4 py-3 text-right">{comparisonData.opt.ioCount ?? '-'}</td>
+                          <td className="px-4 py-3 text-right whitespace-nowrap">
+                            {comparisonData.opt.effectiveAccessTime !== undefined
+                              ? formatNs(comparisonData.opt.effectiveAccessTime)
+                              : '-'}
+                          </td>
+                        </tr>
+                      )}
                     </tbody>
                   </table>
+                  <p className="text-xs text-[#757575] mt-2">
+                    I/O counts page reads (including prefetches) and write-backs. Only LRU, ARB
+                    and Enhanced Clock track dirty pages; the others are costed as if every
+                    page were clean.
+                  </p>
                 </div>
                 
                 <div className="mt-4 h-60">
-                  <Bar 
+                  <Chart 
+                    type="bar"
                     ref={memoryChartRef}
                     data={memoryChartData} 
                     options={memoryChartOptions}
@@ -184,36 +360,75 @@ export function ComparisonTab() {
                       <tr className="bg-gray-50">
                         <th className="px-4 py-2 text-left">Algorithm</th>
                         <th className="px-4 py-2 text-right">Seek Distance</th>
-                        <th className="px-4 py-2 text-right">Efficiency</th>
+                        <th className="px-4 py-2 text-right">Total Time</th>
+                        <th className="px-4 py-2 text-right">Mean Service</th>
+                        <th className="px-4 py-2 text-right">Mean Wait</th>
+                        <th className="px-4 py-2 text-right">Wait Var.</th>
+                        <th className="px-4 py-2 text-right">P95</th>
+                        <th className="px-4 py-2 text-right">P99</th>
+                        <th className="px-4 py-2 text-right">Max Wait</th>
+                        <th className="px-4 py-2 text-right">Max Bypassed</th>
+                        <th className="px-4 py-2 text-right">Rank</th>
                       </tr>
                     </thead>
                     <tbody>
-                      <tr className="border-t">
-                        <td className="px-4 py-3">C-SCAN</td>
-                        <td className="px-4 py-3 text-right">
-                          {comparisonData.cscan?.seekDistance || '-'}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          {comparisonData.cscan 
-                            ? `${calculateEfficiency(comparisonData.cscan.seekDistance, comparisonData.cscan.cylinders).toFixed(2)}%` 
-                            : '-'}
-                        </td>
-                      </tr>
-                      <tr className="border-t">
-                        <td className="px-4 py-3">LOOK</td>
-                        <td className="px-4 py-3 text-right">
-                          {comparisonData.look?.seekDistance || '-'}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          {comparisonData.look 
-                            ? `${calculateEfficiency(comparisonData.look.seekDistance, comparisonData.look.cylinders).toFixed(2)}%` 
-                            : '-'}
-                        </td>
-                      </tr>
+                      {diskAlgorithms.map(({ key, label }) => {
+                        const data = comparisonData[key];
+                        return (
+                          <tr key={key} className="border-t">
+                            <td className="px-4 py-3">{label}</td>
+                            <td className="px-4 py-3 text-right">
+                              {data?.seekDistance ?? '-'}
+                              {data?.wraparoundCounted === false && '*'}
+                            </td>
+                            <td className="px-4 py-3 text-right whitespace-nowrap">
+                              {data?.totalMs !== undefined ? `${data.totalMs.toFixed(2)} ms` : '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right whitespace-nowrap">
+                              {data?.meanServiceMs !== undefined
+                                ? `${data.meanServiceMs.toFixed(2)} ms`
+                                : '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {data?.waits ? data.waits.meanWait.toFixed(1) : '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {data?.waits ? data.waits.waitVariance.toFixed(0) : '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {data?.waits?.p95Wait ?? '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {data?.waits?.p99Wait ?? '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {data?.waits?.maxWait ?? '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {data?.waits?.maxBypassed ?? '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {diskRank(key) ?? '-'}
+                            </td>
+                          </tr>
+                        );
+                      })}
                     </tbody>
                   </table>
                 </div>
                 
+                {diskAlgorithms.some(({ key }) => comparisonData[key]?.wraparoundCounted === false) && (
+                  <p className="text-xs text-[#757575] mt-2">
+                    * Excludes the wraparound jump back to the other end of the disk
+                  </p>
+                )}
+                <p className="text-xs text-[#757575] mt-2">
+                  Times come from each run's drive timing model (seek, rotational latency and
+                  transfer), so rank runs made with the same drive settings and requests. Waits
+                  are in cylinders of head movement from arrival to service; a high maximum
+                  or bypass count with a low mean is the signature of starvation.
+                </p>
+                
                 <div className="mt-4 h-60">
                   <Bar 
                     ref={diskChartRef}
@@ -225,6 +440,71 @@ export function ComparisonTab() {
             )}
           </div>
         </div>
+
+        {/* Contiguous Allocation Comparison */}
+        <div className="mt-8 pt-6 border-t">
+          <h3 className="text-lg font-medium mb-4">Contiguous Allocation Strategies</h3>
+
+          {!allocation ? (
+            <div className="text-center py-6 text-[#757575] bg-gray-50 rounded-md">
+              <p>Run an allocation simulation to compare the four strategies</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="px-4 py-2 text-left">Strategy</th>
+                      <th className="px-4 py-2 text-right">Failed</th>
+                      <th className="px-4 py-2 text-right">Due to Fragmentation</th>
+                      <th className="px-4 py-2 text-right">Holes</th>
+                      <th className="px-4 py-2 text-right">Avg. Fragmentation</th>
+                      <th className="px-4 py-2 text-right">Utilization</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {allocationStrategies.map(({ key, label }) => {
+                      const data = allocation.strategies[key];
+                      return (
+                        <tr key={key} className="border-t">
+                          <td className="px-4 py-3">{label}</td>
+                          <td className="px-4 py-3 text-right">{data.failures}</td>
+                          <td className="px-4 py-3 text-right">{data.externalFailures}</td>
+                          <td className="px-4 py-3 text-right">{data.holes}</td>
+                          <td className="px-4 py-3 text-right">
+                            {`${(data.averageFragmentation * 100).toFixed(1)}%`}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            {`${(data.utilization * 100).toFixed(1)}%`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <p className="text-xs text-[#757575] mt-2">
+                  All strategies ran the same requests on {allocation.memorySize} units of
+                  memory. Holes, fragmentation and utilization are measured after the last request.
+                </p>
+              </div>
+
+              <div className="h-60">
+                <Bar
+                  ref={allocationChartRef}
+                  data={allocationChartData}
+                  options={allocationChartOptions}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* LRU Stack-Distance Analysis */}
+        <div className="mt-8 pt-6 border-t">
+          <h3 className="text-lg font-medium mb-2">LRU Stack-Distance Analysis</h3>
+          <StackDistancePanel />
+        </div>
       </CardContent>
     </Card>
   );
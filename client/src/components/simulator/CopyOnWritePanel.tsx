@@ -0,0 +1,377 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Play, RefreshCw, AlertCircle, Copy } from "lucide-react";
+import { CowEvent, CowResult, simulateCopyOnWrite } from "@/lib/algorithms/copyOnWrite";
+import { validateCopyOnWriteInput } from "@/lib/validators";
+import { usePlayback } from "@/hooks/use-playback";
+import { PlaybackControls } from "./PlaybackControls";
+import { FrameCell } from "./FrameCell";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import { Line } from "react-chartjs-2";
+
+// Register Chart.js components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+const describeEvent = (event: CowEvent) =>
+  event.type === "fork"
+    ? `fork ${event.parent} ${event.child}`
+    : event.type === "exit"
+    ? `exit ${event.process}`
+    : `${event.process} ${event.write ? "writes" : "reads"} page ${event.page}`;
+
+interface CopyOnWriteVisualizationProps {
+  result: CowResult;
+  frameCount: number;
+}
+
+function CopyOnWriteVisualization({ result, frameCount }: CopyOnWriteVisualizationProps) {
+  const playback = usePlayback(result.steps.length);
+  const { currentStep } = playback;
+  const step = result.steps[currentStep];
+
+  // Virtual page each frame holds, taken from any process that maps it
+  const framePages: (number | null)[] = step.refCounts.map(() => null);
+  step.processes.forEach((process) =>
+    process.pages.forEach((mapping, page) => {
+      framePages[mapping.frame] = page;
+    })
+  );
+
+  const copyFaults = result.steps
+    .slice(0, currentStep + 1)
+    .filter((s) => s.outcome === "copy-fault").length;
+
+  const chartData = {
+    labels: ["start", ...result.steps.map((_, i) => `${i + 1}`)],
+    datasets: [
+      {
+        label: "Frames used (copy-on-write)",
+        data: [result.initial.framesUsed, ...result.steps.map((s) => s.framesUsed)],
+        borderColor: "#3f51b5",
+        backgroundColor: "#3f51b5",
+        stepped: true,
+      },
+      {
+        label: "Frames used (eager copy)",
+        data: [result.initial.eagerFramesUsed, ...result.steps.map((s) => s.eagerFramesUsed)],
+        borderColor: "#ff9800",
+        backgroundColor: "#ff9800",
+        borderDash: [6, 4],
+        stepped: true,
+      },
+      {
+        label: "Physical frames",
+        data: [frameCount, ...result.steps.map(() => frameCount)],
+        borderColor: "#f44336",
+        borderDash: [2, 2],
+        pointRadius: 0,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      y: { beginAtZero: true, title: { display: true, text: "Frames" } },
+      x: { title: { display: true, text: "Event" } },
+    },
+    plugins: {
+      legend: { position: "top" as const },
+      title: { display: true, text: "Frames Consumed Over Time" },
+    },
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Frames Used</p>
+          <p className="text-2xl font-medium">
+            {step.framesUsed} <span className="text-sm text-[#757575]">/ {frameCount}</span>
+          </p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Eager Copy Would Use</p>
+          <p className="text-2xl font-medium text-[#ff9800]">{step.eagerFramesUsed}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Copy Faults</p>
+          <p className="text-2xl font-medium text-[#f44336]">
+            {copyFaults} <span className="text-sm text-[#757575]">/ {result.copies}</span>
+          </p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Peak Frames</p>
+          <p className="text-2xl font-medium text-[#3f51b5]">
+            {result.peakFrames}{" "}
+            <span className="text-sm text-[#757575]">vs. {result.eagerPeakFrames} eager</span>
+          </p>
+        </div>
+      </div>
+
+      <PlaybackControls playback={playback} title="Simulation Visualization" />
+
+      <div
+        className={`p-3 mb-4 rounded-md text-sm border-l-4 ${
+          !step.success
+            ? "bg-[#ffebee] border-[#f44336]"
+            : step.outcome === "copy-fault"
+            ? "bg-[#fff3e0] border-[#ff9800]"
+            : "bg-gray-50 border-[#4caf50]"
+        }`}
+      >
+        <span className="font-mono font-medium mr-2">{describeEvent(step.event)}</span>
+        {step.message}
+      </div>
+
+      <h3 className="font-medium mb-2">Physical Frames</h3>
+      <div className="overflow-x-auto bg-[#f9f9f9] p-4 rounded-md border border-gray-300 mb-2">
+        <div className="flex flex-wrap gap-y-3">
+          {step.refCounts.map((count, frame) => (
+            <div key={`frame-${frame}`} className="flex flex-col items-center">
+              <FrameCell
+                value={count === 0 ? null : framePages[frame]}
+                referenced={step.frame === frame}
+                replaced={step.outcome === "copy-fault" && step.frame === frame}
+                title={
+                  count === 0
+                    ? `Frame ${frame}: free`
+                    : `Frame ${frame}: page ${framePages[frame]}, mapped by ${count} process${
+                        count === 1 ? "" : "es"
+                      }`
+                }
+              >
+                {count > 0 && (
+                  <div
+                    className={`min-w-[18px] h-[18px] px-1 text-xs flex items-center justify-center rounded-full absolute bottom-1 right-1 text-white ${
+                      count > 1 ? "bg-[#ff9800]" : "bg-[#4caf50]"
+                    }`}
+                  >
+                    {count}
+                  </div>
+                )}
+                {step.copiedFrom === frame && (
+                  <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
+                    <div className="text-xs font-bold text-[#ff9800]">▼</div>
+                  </div>
+                )}
+              </FrameCell>
+              <span className="text-xs text-[#757575] mt-1">F{frame}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-[#757575] mb-6">
+        Each frame shows the virtual page it holds and how many processes map it; orange counts
+        are shared. The arrow marks the frame a copy fault copied from.
+      </p>
+
+      <h3 className="font-medium mb-2">Page Tables</h3>
+      <div className="overflow-x-auto mb-2">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="px-3 py-2 text-left">Process</th>
+              {step.processes[0]?.pages.map((_, page) => (
+                <th key={`page-${page}`} className="px-3 py-2 text-center">
+                  Page {page}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {step.processes.map((process) => (
+              <tr key={process.name} className="border-t">
+                <td className="px-3 py-2 font-medium">{process.name}</td>
+                {process.pages.map((mapping, page) => {
+                  const touched =
+                    step.event.type === "access" &&
+                    step.event.process === process.name &&
+                    step.event.page === page;
+                  return (
+                    <td
+                      key={`mapping-${page}`}
+                      className={`px-3 py-2 text-center font-mono ${
+                        mapping.cow ? "bg-[#fff3e0] text-[#e65100]" : ""
+                      } ${touched ? "ring-2 ring-inset ring-[#ff4081]" : ""}`}
+                    >
+                      F{mapping.frame}
+                      {mapping.cow && <span className="text-xs ml-0.5">(cow)</span>}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {step.processes.length === 0 && (
+          <p className="text-sm text-[#757575] text-center py-4">Every process has exited</p>
+        )}
+      </div>
+      <p className="text-xs text-[#757575] mb-6">
+        Shaded entries are mapped read-only copy-on-write: a write to one of them faults.
+      </p>
+
+      <div className="h-64">
+        <Line data={chartData} options={chartOptions} />
+      </div>
+    </div>
+  );
+}
+
+export function CopyOnWritePanel() {
+  const [parent, setParent] = useState("P0");
+  const [pages, setPages] = useState("4");
+  const [frames, setFrames] = useState("12");
+  const [eventText, setEventText] = useState("");
+  const [error, setError] = useState("");
+  const [result, setResult] = useState<CowResult | null>(null);
+  const [runFrames, setRunFrames] = useState(0);
+  const [runId, setRunId] = useState(0);
+
+  const handleRun = () => {
+    const validation = validateCopyOnWriteInput(parent, pages, frames, eventText);
+    if (!validation.valid) {
+      setError(validation.message);
+      return;
+    }
+
+    setError("");
+    setResult(simulateCopyOnWrite(validation.config!, validation.events!));
+    setRunFrames(validation.config!.frameCount);
+    setRunId((id) => id + 1);
+  };
+
+  const handleReset = () => {
+    setParent("P0");
+    setPages("4");
+    setFrames("12");
+    setEventText("");
+    setError("");
+    setResult(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Input Panel */}
+      <Card className="lg:col-span-1">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Input Parameters</h2>
+
+          <div className="mb-4 grid grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="cowParent" className="text-sm font-medium text-[#757575] mb-1">
+                Parent
+              </Label>
+              <Input
+                id="cowParent"
+                value={parent}
+                onChange={(e) => setParent(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cowPages" className="text-sm font-medium text-[#757575] mb-1">
+                Pages
+              </Label>
+              <Input
+                id="cowPages"
+                type="number"
+                min="1"
+                value={pages}
+                onChange={(e) => setPages(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cowFrames" className="text-sm font-medium text-[#757575] mb-1">
+                Frames
+              </Label>
+              <Input
+                id="cowFrames"
+                type="number"
+                min="1"
+                value={frames}
+                onChange={(e) => setFrames(e.target.value)}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <Label htmlFor="cowEvents" className="text-sm font-medium text-[#757575] mb-1">
+              Events
+            </Label>
+            <Textarea
+              id="cowEvents"
+              value={eventText}
+              onChange={(e) => setEventText(e.target.value)}
+              placeholder={"fork P0 P1\nP1 0\nP1 2w\nP0 2w\nfork P1 P2\nP2 1w\nexit P1"}
+              className="w-full h-32 font-mono text-xs"
+            />
+            <p className="text-xs text-[#757575] mt-1">
+              One per line: "fork P0 P1", "P1 2w" writes page 2, "P1 2" reads it, "exit P1".
+              The parent starts with every page loaded.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-[#f44336] bg-opacity-10 text-[#f44336] rounded-md flex">
+              <AlertCircle className="h-5 w-5 mr-2" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-4">
+            <Button onClick={handleRun} className="bg-primary text-white">
+              <Play className="h-4 w-4 mr-1" />
+              Run
+            </Button>
+            <Button onClick={handleReset} variant="outline">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results Panel */}
+      <Card className="lg:col-span-2">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Simulation Results</h2>
+
+          {!result ? (
+            <div className="text-center py-8 text-[#757575]">
+              <Copy className="h-16 w-16 mx-auto mb-2 text-[#757575]" />
+              <p>Configure parameters and click Run to start the simulation</p>
+            </div>
+          ) : (
+            <CopyOnWriteVisualization key={runId} result={result} frameCount={runFrames} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -19,77 +19,374 @@ import {
   ArrowLeft,
 } from "lucide-react";
 import { useSimulation } from "@/contexts/SimulationContext";
-import { DiskResult, simulateLOOK, simulateCSCAN } from "@/lib/algorithms/disk";
-import { validateDiskInput } from "@/lib/validators";
+import {
+  DiskAlgorithm,
+  DiskRequest,
+  DiskResult,
+  matchServedRequests,
+  simulateFCFS,
+  simulateSSTF,
+  simulateSCAN,
+  simulateLOOK,
+  simulateCSCAN,
+  simulateCLOOK,
+  simulateNStepSCAN,
+  simulateFSCAN,
+  simulateDeadline,
+  simulateBFQ,
+} from "@/lib/algorithms/disk";
+import { computeDiskMetrics, DiskMetrics } from "@/lib/algorithms/diskMetrics";
+import { computeDiskTiming, DiskTiming } from "@/lib/algorithms/diskTiming";
+import {
+  RaidConfig,
+  RaidLevel,
+  RaidRebuild,
+  RaidResult,
+  simulateRAID,
+  simulateRebuild,
+} from "@/lib/algorithms/raid";
+import {
+  GCPolicy,
+  SSDConfig,
+  SSDResult,
+  WearLeveling,
+  simulateSSD,
+} from "@/lib/algorithms/ssd";
+import {
+  validateBatchSize,
+  validateBFQOptions,
+  validateDeadlineOptions,
+  validateDiskInput,
+  validateDriveGeometry,
+  validateRaidConfig,
+  validateSSDConfig,
+} from "@/lib/validators";
 import { DiskVisualization } from "./DiskVisualization";
+import { RaidVisualization } from "./RaidVisualization";
+import { SSDVisualization } from "./SSDVisualization";
 import { Switch } from "@/components/ui/switch";
 
-// Define the available disk scheduling algorithms
-type DiskAlgorithm = "look" | "cscan";
+// Algorithms that read arrival times; the others see every request waiting from the start
+const arrivalAlgorithms: DiskAlgorithm[] = ["nstep", "fscan", "deadline", "bfq"];
+
+// Algorithms with a fixed sweep direction or none at all
+const undirectedAlgorithms: DiskAlgorithm[] = ["fcfs", "deadline", "bfq"];
+
+// A spinning disk, flash where the scheduler's order is replayed against an FTL, or an
+// array of spinning disks that each schedule their own share of the queue
+type DriveType = "hdd" | "ssd" | "raid";
+
+const algorithmLabels: Record<DiskAlgorithm, string> = {
+  fcfs: "FCFS",
+  sstf: "SSTF",
+  scan: "SCAN",
+  look: "LOOK",
+  cscan: "C-SCAN",
+  clook: "C-LOOK",
+  nstep: "N-Step SCAN",
+  fscan: "FSCAN",
+  deadline: "Deadline",
+  bfq: "BFQ",
+};
 
 export function DiskTab() {
   const { updateDiskComparison } = useSimulation();
+  const [driveType, setDriveType] = useState<DriveType>("hdd");
   const [algorithm, setAlgorithm] = useState<DiskAlgorithm>("look");
   const [totalCylinders, setTotalCylinders] = useState("");
   const [headPosition, setHeadPosition] = useState("");
   const [requestQueue, setRequestQueue] = useState("");
   const [initialDirection, setInitialDirection] = useState(true); // true = towards higher cylinders
+  const [countWraparound, setCountWraparound] = useState(false); // C-SCAN/C-LOOK: include the return jump in seek distance
+  const [batchSize, setBatchSize] = useState("3"); // N-Step SCAN: requests per batch
+  // Deadline: expiry times, batch length and write starvation limit
+  const [readExpire, setReadExpire] = useState("100");
+  const [writeExpire, setWriteExpire] = useState("500");
+  const [fifoBatch, setFifoBatch] = useState("4");
+  const [writesStarved, setWritesStarved] = useState("2");
+  const [budget, setBudget] = useState("2"); // BFQ: requests per process turn
+  // Drive geometry and seek curve for the timing model
+  const [rpm, setRpm] = useState("7200");
+  const [sectorsPerTrack, setSectorsPerTrack] = useState("63");
+  const [heads, setHeads] = useState("4");
+  const [settleMs, setSettleMs] = useState("0.5");
+  const [sqrtMs, setSqrtMs] = useState("0.25");
+  const [linearMs, setLinearMs] = useState("0.02");
+  const [seekThreshold, setSeekThreshold] = useState("50");
+  // SSD: flash layout, garbage collection and wear leveling
+  const [pagesPerBlock, setPagesPerBlock] = useState("4");
+  const [spareBlocks, setSpareBlocks] = useState("2");
+  const [gcThreshold, setGcThreshold] = useState("1");
+  const [gcPolicy, setGcPolicy] = useState<GCPolicy>("greedy");
+  const [wearLeveling, setWearLeveling] = useState<WearLeveling>("dynamic");
+  const [staticThreshold, setStaticThreshold] = useState("2");
+  const [passes, setPasses] = useState("10");
+  const [prefill, setPrefill] = useState(true);
+  // RAID: level, member count and the members marked failed
+  const [raidLevel, setRaidLevel] = useState<RaidLevel>("raid5");
+  const [raidDisks, setRaidDisks] = useState("4");
+  const [failedDisks, setFailedDisks] = useState("");
   const [error, setError] = useState("");
   const [result, setResult] = useState<DiskResult | null>(null);
+  const [requests, setRequests] = useState<DiskRequest[]>([]);
   const [showResults, setShowResults] = useState(false);
   const [cylinderCount, setCylinderCount] = useState(0);
+  const [timing, setTiming] = useState<DiskTiming | null>(null);
+  const [metrics, setMetrics] = useState<DiskMetrics | null>(null);
+  const [ssd, setSsd] = useState<{
+    config: SSDConfig;
+    algorithmName: string;
+    scheduled: SSDResult;
+    queued: SSDResult;
+  } | null>(null);
+  const [raid, setRaid] = useState<{
+    config: RaidConfig;
+    algorithmName: string;
+    result: RaidResult;
+    rebuild: RaidRebuild | null;
+  } | null>(null);
+  const [runId, setRunId] = useState(0);
 
   const handleRun = () => {
     // Validate inputs
     const validation = validateDiskInput(
       totalCylinders,
       headPosition,
-      requestQueue
+      requestQueue,
+      driveType !== "raid"
     );
     if (!validation.valid) {
       setError(validation.message);
       return;
     }
 
+    const batchValidation = validateBatchSize(batchSize);
+    if (algorithm === "nstep" && !batchValidation.valid) {
+      setError(batchValidation.message);
+      return;
+    }
+
+    const deadlineValidation = validateDeadlineOptions(
+      readExpire,
+      writeExpire,
+      fifoBatch,
+      writesStarved
+    );
+    if (algorithm === "deadline" && !deadlineValidation.valid) {
+      setError(deadlineValidation.message);
+      return;
+    }
+
+    const bfqValidation = validateBFQOptions(budget);
+    if (algorithm === "bfq" && !bfqValidation.valid) {
+      setError(bfqValidation.message);
+      return;
+    }
+
+    const ssdValidation = validateSSDConfig(
+      validation.cylinders!,
+      pagesPerBlock,
+      spareBlocks,
+      gcThreshold,
+      staticThreshold,
+      passes,
+      gcPolicy,
+      wearLeveling,
+      prefill
+    );
+    if (driveType === "ssd" && !ssdValidation.valid) {
+      setError(ssdValidation.message);
+      return;
+    }
+
+    const raidValidation = validateRaidConfig(
+      raidLevel,
+      raidDisks,
+      failedDisks,
+      validation.cylinders!,
+      validation.requests!
+    );
+    if (driveType === "raid" && !raidValidation.valid) {
+      setError(raidValidation.message);
+      return;
+    }
+
+    const geometryValidation = validateDriveGeometry(
+      rpm,
+      sectorsPerTrack,
+      heads,
+      settleMs,
+      sqrtMs,
+      linearMs,
+      seekThreshold,
+      validation.requests
+    );
+    if (driveType !== "ssd" && !geometryValidation.valid) {
+      setError(geometryValidation.message);
+      return;
+    }
+
     // Clear any previous errors
     setError("");
 
-    // Run the selected algorithm
-    let simulationResult: DiskResult;
+    // Run the selected algorithm on a queue: the whole request queue, or one RAID member's
+    const schedule = (queue: DiskRequest[]): DiskResult => {
+      const cylinderArray = queue.map((request) => request.cylinder);
+      switch (algorithm) {
+        case "fcfs":
+          return simulateFCFS(
+            validation.cylinders!,
+            validation.start!,
+            cylinderArray
+          );
+        case "sstf":
+          return simulateSSTF(
+            validation.cylinders!,
+            validation.start!,
+            cylinderArray,
+            initialDirection
+          );
+        case "scan":
+          return simulateSCAN(
+            validation.cylinders!,
+            validation.start!,
+            cylinderArray,
+            initialDirection
+          );
+        case "look":
+          return simulateLOOK(
+            validation.cylinders!,
+            validation.start!,
+            cylinderArray,
+            initialDirection
+          );
+        case "cscan":
+          return simulateCSCAN(
+            validation.cylinders!,
+            validation.start!,
+            cylinderArray,
+            initialDirection,
+            countWraparound
+          );
+        case "clook":
+          return simulateCLOOK(
+            validation.cylinders!,
+            validation.start!,
+            cylinderArray,
+            initialDirection,
+            countWraparound
+          );
+        case "nstep":
+          return simulateNStepSCAN(
+            validation.cylinders!,
+            validation.start!,
+            queue,
+            batchValidation.batchSize!,
+            initialDirection
+          );
+        case "fscan":
+          return simulateFSCAN(
+            validation.cylinders!,
+            validation.start!,
+            queue,
+            initialDirection
+          );
+        case "deadline":
+          return simulateDeadline(
+            validation.cylinders!,
+            validation.start!,
+            queue,
+            deadlineValidation.options!
+          );
+        case "bfq":
+          return simulateBFQ(
+            validation.cylinders!,
+            validation.start!,
+            queue,
+            bfqValidation.options!
+          );
+        default:
+          return simulateLOOK(
+            validation.cylinders!,
+            validation.start!,
+            cylinderArray,
+            initialDirection
+          );
+      }
+    };
 
-    switch (algorithm) {
-      case "look":
-        simulationResult = simulateLOOK(
-          validation.cylinders!,
-          validation.start!,
-          validation.requestArray!,
-          initialDirection
-        );
-        break;
-      case "cscan":
-        simulationResult = simulateCSCAN(
+    if (driveType === "raid") {
+      setRaid({
+        config: raidValidation.config!,
+        algorithmName: algorithmLabels[algorithm],
+        result: simulateRAID(
+          raidValidation.config!,
+          validation.requests!,
+          schedule,
+          geometryValidation.geometry!
+        ),
+        rebuild: simulateRebuild(
+          raidValidation.config!,
           validation.cylinders!,
-          validation.start!,
-          validation.requestArray!,
-          initialDirection
-        );
-        break;
-      default:
-        simulationResult = simulateLOOK(
-          validation.cylinders!,
-          validation.start!,
-          validation.requestArray!,
-          initialDirection
-        );
+          geometryValidation.geometry!
+        ),
+      });
+      setSsd(null);
+      setRunId((id) => id + 1);
+      setShowResults(true);
+      return;
+    }
+
+    const simulationResult = schedule(validation.requests!);
+
+    if (driveType === "ssd") {
+      // Replay the scheduler's service order on flash, next to the plain queue order
+      const served = matchServedRequests(simulationResult, validation.requests!).flat();
+      const queued = validation.requests!
+        .map((_, i) => i)
+        .sort((a, b) => validation.requests![a].arrival - validation.requests![b].arrival || a - b);
+      setRaid(null);
+      setSsd({
+        config: ssdValidation.config!,
+        algorithmName: algorithmLabels[algorithm],
+        scheduled: simulateSSD(validation.requests!, ssdValidation.config!, served),
+        queued: simulateSSD(validation.requests!, ssdValidation.config!, queued),
+      });
+      setRunId((id) => id + 1);
+      setShowResults(true);
+      return;
     }
 
+    const simulationTiming = computeDiskTiming(
+      simulationResult,
+      validation.requests!,
+      geometryValidation.geometry!
+    );
+
+    const simulationMetrics = computeDiskMetrics(
+      simulationResult,
+      validation.requests!,
+      arrivalAlgorithms.includes(algorithm)
+    );
+
     // Update results
     setResult(simulationResult);
+    setRequests(validation.requests!);
+    setTiming(simulationTiming);
+    setMetrics(simulationMetrics);
+    setSsd(null);
+    setRaid(null);
     setCylinderCount(validation.cylinders!);
     setShowResults(true);
 
     // Update comparison data
-    updateDiskComparison(algorithm, simulationResult, validation.cylinders!);
+    updateDiskComparison(
+      algorithm,
+      simulationResult,
+      validation.cylinders!,
+      simulationTiming,
+      simulationMetrics ?? undefined
+    );
   };
 
   const handleReset = () => {
@@ -99,6 +396,11 @@ export function DiskTab() {
     setError("");
     setShowResults(false);
     setResult(null);
+    setRequests([]);
+    setTiming(null);
+    setMetrics(null);
+    setSsd(null);
+    setRaid(null);
   };
 
   return (
@@ -108,6 +410,40 @@ export function DiskTab() {
         <CardContent className="pt-6">
           <h2 className="text-xl font-medium mb-4">Input Parameters</h2>
 
+          <div className="mb-4">
+            <Label
+              htmlFor="driveType"
+              className="text-sm font-medium text-[#757575] mb-1"
+            >
+              Drive Type
+            </Label>
+            <Select
+              value={driveType}
+              onValueChange={(value) => setDriveType(value as DriveType)}
+            >
+              <SelectTrigger id="driveType" className="w-full">
+                <SelectValue placeholder="Select drive type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="hdd">Hard Disk (seek-based)</SelectItem>
+                <SelectItem value="ssd">SSD (flash with FTL)</SelectItem>
+                <SelectItem value="raid">RAID Array</SelectItem>
+              </SelectContent>
+            </Select>
+            {driveType === "ssd" && (
+              <p className="text-xs text-[#757575] mt-1">
+                The scheduler below still orders the queue; that order is then
+                replayed on flash, where each cylinder is a logical page
+              </p>
+            )}
+            {driveType === "raid" && (
+              <p className="text-xs text-[#757575] mt-1">
+                Requests address logical blocks of the array; every member disk
+                runs the scheduler below on its own share of the work
+              </p>
+            )}
+          </div>
+
           <div className="mb-4">
             <Label
               htmlFor="diskAlgorithm"
@@ -123,46 +459,165 @@ export function DiskTab() {
                 <SelectValue placeholder="Select algorithm" />
               </SelectTrigger>
               <SelectContent>
+                <SelectItem value="fcfs">FCFS (First-Come, First-Served)</SelectItem>
+                <SelectItem value="sstf">SSTF (Shortest Seek Time First)</SelectItem>
+                <SelectItem value="scan">SCAN (Elevator)</SelectItem>
                 <SelectItem value="look">LOOK</SelectItem>
                 <SelectItem value="cscan">C-SCAN (Circular SCAN)</SelectItem>
+                <SelectItem value="clook">C-LOOK (Circular LOOK)</SelectItem>
+                <SelectItem value="nstep">N-Step SCAN</SelectItem>
+                <SelectItem value="fscan">FSCAN</SelectItem>
+                <SelectItem value="deadline">Deadline (read/write queues)</SelectItem>
+                <SelectItem value="bfq">BFQ (Budget Fair Queueing)</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
-          <div className="mb-4">
-            <Label
-              htmlFor="initialDirection"
-              className="text-sm font-medium text-[#757575] mb-1"
-            >
-              Initial Direction
-            </Label>
-            <div className="flex items-center justify-between mt-2 p-3 border rounded-md">
-              <div className="flex items-center">
-                {initialDirection ? (
-                  <ArrowRight className="h-5 w-5 mr-2 text-[#3f51b5]" />
-                ) : (
-                  <ArrowLeft className="h-5 w-5 mr-2 text-[#3f51b5]" />
-                )}
+          {/* FCFS serves requests in arrival order and Deadline/BFQ always sweep upwards */}
+          {!undirectedAlgorithms.includes(algorithm) && (
+            <div className="mb-4">
+              <Label
+                htmlFor="initialDirection"
+                className="text-sm font-medium text-[#757575] mb-1"
+              >
+                {algorithm === "sstf" ? "Tie-Break Direction" : "Initial Direction"}
+              </Label>
+              <div className="flex items-center justify-between mt-2 p-3 border rounded-md">
+                <div className="flex items-center">
+                  {initialDirection ? (
+                    <ArrowRight className="h-5 w-5 mr-2 text-[#3f51b5]" />
+                  ) : (
+                    <ArrowLeft className="h-5 w-5 mr-2 text-[#3f51b5]" />
+                  )}
+                  <span>
+                    {initialDirection
+                      ? "Towards higher cylinder numbers"
+                      : "Towards lower cylinder numbers"}
+                  </span>
+                </div>
+                <Switch
+                  id="initialDirection"
+                  checked={initialDirection}
+                  onCheckedChange={setInitialDirection}
+                />
+              </div>
+              {algorithm === "sstf" && (
+                <p className="text-xs text-[#757575] mt-1">
+                  Used when two pending requests are equally close to the head
+                </p>
+              )}
+            </div>
+          )}
+
+          {algorithm === "nstep" && (
+            <div className="mb-4">
+              <Label
+                htmlFor="batchSize"
+                className="text-sm font-medium text-[#757575] mb-1"
+              >
+                Batch Size (N)
+              </Label>
+              <Input
+                id="batchSize"
+                type="number"
+                min="1"
+                value={batchSize}
+                onChange={(e) => setBatchSize(e.target.value)}
+                className="w-full"
+              />
+              <p className="text-xs text-[#757575] mt-1">
+                Requests frozen into each batch, in arrival order
+              </p>
+            </div>
+          )}
+
+          {algorithm === "deadline" && (
+            <div className="mb-4 grid grid-cols-2 gap-3">
+              {[
+                { id: "readExpire", label: "Read Expiry", value: readExpire, set: setReadExpire },
+                { id: "writeExpire", label: "Write Expiry", value: writeExpire, set: setWriteExpire },
+                { id: "fifoBatch", label: "FIFO Batch", value: fifoBatch, set: setFifoBatch },
+                { id: "writesStarved", label: "Writes Starved", value: writesStarved, set: setWritesStarved },
+              ].map(({ id, label, value, set }) => (
+                <div key={id}>
+                  <Label htmlFor={id} className="text-sm font-medium text-[#757575] mb-1">
+                    {label}
+                  </Label>
+                  <Input
+                    id={id}
+                    type="number"
+                    min="0"
+                    value={value}
+                    onChange={(e) => set(e.target.value)}
+                    className="w-full"
+                  />
+                </div>
+              ))}
+              <p className="col-span-2 text-xs text-[#757575] -mt-1">
+                Expiry times use the arrival time scale; writes starved is the
+                number of read batches allowed while writes wait
+              </p>
+            </div>
+          )}
+
+          {algorithm === "bfq" && (
+            <div className="mb-4">
+              <Label
+                htmlFor="budget"
+                className="text-sm font-medium text-[#757575] mb-1"
+              >
+                Budget per Turn
+              </Label>
+              <Input
+                id="budget"
+                type="number"
+                min="1"
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+                className="w-full"
+              />
+              <p className="text-xs text-[#757575] mt-1">
+                Requests a process may have served before the disk moves on
+              </p>
+            </div>
+          )}
+
+          {(algorithm === "cscan" || algorithm === "clook") && (
+            <div className="mb-4">
+              <Label
+                htmlFor="countWraparound"
+                className="text-sm font-medium text-[#757575] mb-1"
+              >
+                Wraparound Seek
+              </Label>
+              <div className="flex items-center justify-between mt-2 p-3 border rounded-md">
                 <span>
-                  {initialDirection
-                    ? "Towards higher cylinder numbers"
-                    : "Towards lower cylinder numbers"}
+                  {countWraparound
+                    ? "Counted in the seek distance"
+                    : "Not counted in the seek distance"}
                 </span>
+                <Switch
+                  id="countWraparound"
+                  checked={countWraparound}
+                  onCheckedChange={setCountWraparound}
+                />
               </div>
-              <Switch
-                id="initialDirection"
-                checked={initialDirection}
-                onCheckedChange={setInitialDirection}
-              />
+              <p className="text-xs text-[#757575] mt-1">
+                The return jump serves no requests; textbooks differ on whether it counts
+              </p>
             </div>
-          </div>
+          )}
 
           <div className="mb-4">
             <Label
               htmlFor="totalCylinders"
               className="text-sm font-medium text-[#757575] mb-1"
             >
-              Total Cylinders
+              {driveType === "ssd"
+                ? "Logical Pages"
+                : driveType === "raid"
+                ? "Cylinders per Disk"
+                : "Total Cylinders"}
             </Label>
             <Input
               id="totalCylinders"
@@ -199,6 +654,183 @@ export function DiskTab() {
             </p>
           </div>
 
+          {driveType === "raid" && (
+            <div className="mb-4">
+              <Label
+                htmlFor="raidLevel"
+                className="text-sm font-medium text-[#757575] mb-1"
+              >
+                RAID Level
+              </Label>
+              <Select
+                value={raidLevel}
+                onValueChange={(value) => setRaidLevel(value as RaidLevel)}
+              >
+                <SelectTrigger id="raidLevel" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="raid0">RAID 0 (striping)</SelectItem>
+                  <SelectItem value="raid1">RAID 1 (mirroring)</SelectItem>
+                  <SelectItem value="raid4">RAID 4 (dedicated parity)</SelectItem>
+                  <SelectItem value="raid5">RAID 5 (rotating parity)</SelectItem>
+                  <SelectItem value="raid6">RAID 6 (dual parity)</SelectItem>
+                  <SelectItem value="raid10">RAID 10 (striped mirrors)</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="grid grid-cols-2 gap-3 mt-3">
+                <div>
+                  <Label htmlFor="raidDisks" className="text-xs text-[#757575]">
+                    Disks
+                  </Label>
+                  <Input
+                    id="raidDisks"
+                    type="number"
+                    min="2"
+                    value={raidDisks}
+                    onChange={(e) => setRaidDisks(e.target.value)}
+                    className="w-full"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="failedDisks" className="text-xs text-[#757575]">
+                    Failed Disks
+                  </Label>
+                  <Input
+                    id="failedDisks"
+                    type="text"
+                    value={failedDisks}
+                    onChange={(e) => setFailedDisks(e.target.value)}
+                    placeholder="e.g., 2"
+                    className="w-full"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-[#757575] mt-1">
+                Disks are numbered from 0; list failed ones separated by commas
+                to see degraded operation and a rebuild
+              </p>
+            </div>
+          )}
+
+          {driveType === "ssd" && (
+            <div className="mb-4">
+              <Label className="text-sm font-medium text-[#757575] mb-1">
+                Flash Layout
+              </Label>
+              <div className="grid grid-cols-3 gap-3 mt-2">
+                {[
+                  { id: "pagesPerBlock", label: "Pages/Block", value: pagesPerBlock, set: setPagesPerBlock },
+                  { id: "spareBlocks", label: "Spare Blocks", value: spareBlocks, set: setSpareBlocks },
+                  { id: "gcThreshold", label: "GC Threshold", value: gcThreshold, set: setGcThreshold },
+                  { id: "staticThreshold", label: "Static WL Gap", value: staticThreshold, set: setStaticThreshold },
+                  { id: "passes", label: "Passes", value: passes, set: setPasses },
+                ].map(({ id, label, value, set }) => (
+                  <div key={id}>
+                    <Label htmlFor={id} className="text-xs text-[#757575]">
+                      {label}
+                    </Label>
+                    <Input
+                      id={id}
+                      type="number"
+                      min="0"
+                      value={value}
+                      onChange={(e) => set(e.target.value)}
+                      className="w-full"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-[#757575] mt-1">
+                Garbage collection runs while fewer than GC threshold blocks
+                are free; passes replays the queue to build up wear
+              </p>
+
+              <div className="grid grid-cols-2 gap-3 mt-3">
+                <div>
+                  <Label htmlFor="gcPolicy" className="text-xs text-[#757575]">
+                    Garbage Collector
+                  </Label>
+                  <Select
+                    value={gcPolicy}
+                    onValueChange={(value) => setGcPolicy(value as GCPolicy)}
+                  >
+                    <SelectTrigger id="gcPolicy" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="greedy">Greedy</SelectItem>
+                      <SelectItem value="costbenefit">Cost-Benefit</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="wearLeveling" className="text-xs text-[#757575]">
+                    Wear Leveling
+                  </Label>
+                  <Select
+                    value={wearLeveling}
+                    onValueChange={(value) => setWearLeveling(value as WearLeveling)}
+                  >
+                    <SelectTrigger id="wearLeveling" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      <SelectItem value="dynamic">Dynamic</SelectItem>
+                      <SelectItem value="static">Static</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between mt-3 p-3 border rounded-md">
+                <Label htmlFor="prefill" className="text-sm">
+                  Start with every logical page written
+                </Label>
+                <Switch id="prefill" checked={prefill} onCheckedChange={setPrefill} />
+              </div>
+            </div>
+          )}
+
+          {driveType !== "ssd" && (
+            <div className="mb-4">
+              <Label className="text-sm font-medium text-[#757575] mb-1">
+                Drive Timing Model
+              </Label>
+              <div className="grid grid-cols-3 gap-3 mt-2">
+                {[
+                  { id: "rpm", label: "RPM", value: rpm, set: setRpm },
+                  { id: "sectorsPerTrack", label: "Sectors/Track", value: sectorsPerTrack, set: setSectorsPerTrack },
+                  { id: "heads", label: "Heads", value: heads, set: setHeads },
+                  { id: "settleMs", label: "Settle (ms)", value: settleMs, set: setSettleMs },
+                  { id: "sqrtMs", label: "√ Term (ms)", value: sqrtMs, set: setSqrtMs },
+                  { id: "linearMs", label: "Linear (ms/cyl)", value: linearMs, set: setLinearMs },
+                  { id: "seekThreshold", label: "Threshold (cyl)", value: seekThreshold, set: setSeekThreshold },
+                ].map(({ id, label, value, set }) => (
+                  <div key={id}>
+                    <Label htmlFor={id} className="text-xs text-[#757575]">
+                      {label}
+                    </Label>
+                    <Input
+                      id={id}
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={value}
+                      onChange={(e) => set(e.target.value)}
+                      className="w-full"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-[#757575] mt-1">
+                Seek time is settle + √ term × √distance up to the threshold,
+                plus the linear term per cylinder beyond it
+              </p>
+            </div>
+          )}
+
           <div className="mb-6">
             <Label
               htmlFor="requestQueue"
@@ -211,11 +843,18 @@ export function DiskTab() {
               type="text"
               value={requestQueue}
               onChange={(e) => setRequestQueue(e.target.value)}
-              placeholder="e.g., 82,170,43,140,24,16,190"
+              placeholder="e.g., P1/82:10,P2/170w,43:200,140,P1/24@10,16:5w@20"
               className="w-full"
             />
             <p className="text-xs text-[#757575] mt-1">
-              Enter comma-separated cylinder numbers
+              Enter comma-separated requests as [process/]cylinder[:sector][r|w][@time]:
+              the owner process, the sector (numbered across all heads), read
+              or write, and the arrival time (the head moves one cylinder per
+              time unit). Only N-Step SCAN, FSCAN, Deadline and BFQ use
+              arrival times; the other algorithms treat every request as
+              waiting from the start, so their waits are only shown when
+              no request has an arrival time. On an SSD or RAID array, w
+              marks a write and anything else is a read
             </p>
           </div>
 
@@ -249,13 +888,32 @@ export function DiskTab() {
               <HardDrive className="h-16 w-16 mx-auto mb-2 text-[#757575]" />
               <p>Configure parameters and click Run to start the simulation</p>
             </div>
+          ) : raid ? (
+            <RaidVisualization
+              key={runId}
+              result={raid.result}
+              rebuild={raid.rebuild}
+              config={raid.config}
+              algorithmName={raid.algorithmName}
+            />
+          ) : ssd ? (
+            <SSDVisualization
+              key={runId}
+              result={ssd.scheduled}
+              arrivalResult={ssd.queued}
+              algorithmName={ssd.algorithmName}
+              config={ssd.config}
+            />
           ) : (
             result && (
               <DiskVisualization
                 result={result}
+                requests={requests}
                 cylinders={cylinderCount}
                 algorithm={algorithm}
                 initialDirection={initialDirection}
+                timing={timing}
+                metrics={metrics}
               />
             )
           )}
@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useRef } from "react";
-import { DiskResult } from "@/lib/algorithms/disk";
+import { DiskAlgorithm, DiskRequest, DiskResult } from "@/lib/algorithms/disk";
+import { DiskMetrics } from "@/lib/algorithms/diskMetrics";
+import { DiskTiming } from "@/lib/algorithms/diskTiming";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import {
@@ -20,11 +22,12 @@ import {
   LinearScale,
   PointElement,
   LineElement,
+  BarElement,
   Title,
   Tooltip,
   Legend,
 } from "chart.js";
-import { Line } from "react-chartjs-2";
+import { Bar, Line } from "react-chartjs-2";
 
 // Register Chart.js components
 ChartJS.register(
@@ -32,6 +35,7 @@ ChartJS.register(
   LinearScale,
   PointElement,
   LineElement,
+  BarElement,
   Title,
   Tooltip,
   Legend
@@ -39,16 +43,44 @@ ChartJS.register(
 
 interface DiskVisualizationProps {
   result: DiskResult;
+  requests?: DiskRequest[]; // The parsed queue, for labelling dispatches
   cylinders: number;
-  algorithm: "cscan" | "look";
-  initialDirection?: boolean; // true = towards higher cylinders, false = towards lower cylinders
+  algorithm: DiskAlgorithm;
+  initialDirection?: boolean; // true = towards higher cylinders, false = towards lower cylinders (SSTF: tie-break direction)
+  timing?: DiskTiming | null;
+  metrics?: DiskMetrics | null;
 }
 
+// Buckets in the wait-time histogram
+const HISTOGRAM_BUCKETS = 8;
+
+const formatMs = (ms: number) => `${ms.toFixed(2)} ms`;
+
+const algorithmNames: Record<DiskAlgorithm, string> = {
+  fcfs: "FCFS",
+  sstf: "SSTF",
+  scan: "SCAN",
+  look: "LOOK",
+  cscan: "C-SCAN",
+  clook: "C-LOOK",
+  nstep: "N-Step SCAN",
+  fscan: "FSCAN",
+  deadline: "Deadline",
+  bfq: "BFQ",
+};
+
+// Short label for a request, e.g. "P1/82w"
+const requestLabel = (request: DiskRequest) =>
+  `${request.process ? `${request.process}/` : ""}${request.cylinder}${request.write ? "w" : "r"}`;
+
 export function DiskVisualization({
   result,
+  requests = [],
   cylinders,
   algorithm,
   initialDirection = true,
+  timing,
+  metrics,
 }: DiskVisualizationProps) {
   const [animationStep, setAnimationStep] = useState(1); // Start with 1 to include initial position
   const [isPlaying, setIsPlaying] = useState(false);
@@ -72,23 +104,12 @@ export function DiskVisualization({
     const directions: { position: number; type: "up" | "down" | "jump" }[] = [];
     const seq = result.sequence;
 
-    // Add direction changes based on algorithm
-    if (algorithm === "cscan") {
-      // Find the jump from highest to lowest (wrap around) or lowest to highest
-      for (let i = 1; i < seq.length; i++) {
-        if (
-          (initialDirection &&
-            seq[i] < seq[i - 1] &&
-            seq[i - 1] - seq[i] > cylinders / 2) ||
-          (!initialDirection &&
-            seq[i] > seq[i - 1] &&
-            seq[i] - seq[i - 1] > cylinders / 2)
-        ) {
-          directions.push({ position: i, type: "jump" });
-          break;
-        }
-      }
-    } else if (algorithm === "look") {
+    // Wraparound jumps are marked by the algorithm itself
+    if (result.jumps) {
+      result.jumps.forEach((position) =>
+        directions.push({ position, type: "jump" })
+      );
+    } else if (algorithm === "look" || algorithm === "scan") {
       // Find the change in direction
       for (let i = 1; i < seq.length - 1; i++) {
         if (
@@ -192,6 +213,7 @@ export function DiskVisualization({
   if (animationStep > 1) {
     // Calculate seek distance up to current step
     for (let i = 1; i < animationStep; i++) {
+      if (!result.wraparoundCounted && result.jumps?.includes(i)) continue;
       seekDistanceSoFar += Math.abs(
         result.sequence[i] - result.sequence[i - 1]
       );
@@ -228,7 +250,7 @@ export function DiskVisualization({
     ),
     datasets: [
       {
-        label: algorithm === "cscan" ? "C-SCAN Path" : "LOOK Path",
+        label: `${algorithmNames[algorithm]} Path`,
         data: result.sequence,
         borderColor: "#3f51b5",
         backgroundColor: pointBackgroundColors,
@@ -247,7 +269,7 @@ export function DiskVisualization({
               return "rgba(0, 0, 0, 0)";
             }
 
-            // Check for direction changes (for C-SCAN's jump)
+            // Check for wraparound jumps (C-SCAN and C-LOOK)
             const jumpPoint = directionChanges.find(
               (d) =>
                 d.type === "jump" &&
@@ -262,7 +284,7 @@ export function DiskVisualization({
             return "#3f51b5";
           },
           borderDash: (ctx: any) => {
-            // If this segment is a jump in C-SCAN, make it dashed
+            // If this segment is a wraparound jump, make it dashed
             const jumpPoint = directionChanges.find(
               (d) =>
                 d.type === "jump" &&
@@ -306,7 +328,7 @@ export function DiskVisualization({
       },
       title: {
         display: true,
-        text: `${algorithm === "cscan" ? "C-SCAN" : "LOOK"} Disk Scheduling`,
+        text: `${algorithmNames[algorithm]} Disk Scheduling`,
       },
       tooltip: {
         callbacks: {
@@ -318,6 +340,46 @@ export function DiskVisualization({
     },
   };
 
+  // Wait-time histogram: equal-width buckets from 0 to the longest wait
+  const bucketWidth = Math.max(1, Math.ceil((metrics?.maxWait ?? 0) / HISTOGRAM_BUCKETS));
+  const histogramCounts = new Array(HISTOGRAM_BUCKETS).fill(0);
+  metrics?.requests.forEach((request) => {
+    histogramCounts[Math.min(HISTOGRAM_BUCKETS - 1, Math.floor(request.wait / bucketWidth))]++;
+  });
+  const histogramData = {
+    labels: histogramCounts.map(
+      (_, i) => `${i * bucketWidth}-${(i + 1) * bucketWidth}`
+    ),
+    datasets: [
+      {
+        label: "Requests",
+        data: histogramCounts,
+        // Shade the buckets at or beyond the 95th percentile: the starved requests
+        backgroundColor: histogramCounts.map((_, i) =>
+          metrics && (i + 1) * bucketWidth > metrics.p95Wait ? "#f44336" : "#3f51b5"
+        ),
+      },
+    ],
+  };
+  const histogramOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { title: { display: true, text: "Wait (cylinders of head movement)" } },
+      y: { beginAtZero: true, ticks: { precision: 0 } },
+    },
+    plugins: {
+      legend: { display: false },
+      title: { display: true, text: "Starvation Histogram" },
+    },
+  };
+
+  // Timing model: the step the head has just completed
+  const timingStep = timing?.steps[animationStep - 1];
+
+  // Batching algorithms: queue state at the current position
+  const queueStep = result.queue?.[animationStep - 1];
+
   // Get the initial direction arrow
   const DirectionArrow = initialDirection ? ArrowRight : ArrowLeft;
 
@@ -341,18 +403,125 @@ export function DiskVisualization({
               {animationStep > 0 ? result.sequence[animationStep - 1] : "-"}
             </p>
           </div>
+          {timingStep && timing && (
+            <>
+              <div className="bg-gray-50 p-4 rounded-md">
+                <p className="text-sm text-[#757575]">Service Time So Far</p>
+                <p className="text-2xl font-medium text-[#3f51b5]">
+                  {formatMs(timingStep.finishMs)}{" "}
+                  <span className="text-sm text-[#757575]">
+                    / {formatMs(timing.totalMs)}
+                  </span>
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-md">
+                <p className="text-sm text-[#757575]">This Step</p>
+                <p className="text-sm text-[#424242] mt-1">
+                  Seek {formatMs(timingStep.seekMs)} · Rotation{" "}
+                  {formatMs(timingStep.rotationalMs)} · Transfer{" "}
+                  {formatMs(timingStep.transferMs)}
+                </p>
+              </div>
+            </>
+          )}
         </div>
       </div>
 
-      <div className="mb-4 px-4 py-2 bg-blue-50 rounded-md border border-blue-200 flex items-center">
-        <DirectionArrow className="h-5 w-5 mr-2 text-blue-600" />
-        <span className="text-sm text-blue-700">
-          Initial Direction:{" "}
-          {initialDirection
-            ? "Towards higher cylinder numbers"
-            : "Towards lower cylinder numbers"}
-        </span>
-      </div>
+      {algorithm !== "fcfs" && !result.dispatches && (
+        <div className="mb-4 px-4 py-2 bg-blue-50 rounded-md border border-blue-200 flex items-center">
+          <DirectionArrow className="h-5 w-5 mr-2 text-blue-600" />
+          <span className="text-sm text-blue-700">
+            {algorithm === "sstf" ? "Ties Broken" : "Initial Direction"}:{" "}
+            {initialDirection
+              ? "Towards higher cylinder numbers"
+              : "Towards lower cylinder numbers"}
+          </span>
+        </div>
+      )}
+
+      {queueStep && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium mb-2">Request Queues</h3>
+          <div className="bg-gray-50 p-4 rounded-md text-sm space-y-2">
+            <p className="text-[#757575]">
+              Time {queueStep.time}
+              {queueStep.batch > 0 ? ` - serving batch ${queueStep.batch}` : " - no batch yet"}
+            </p>
+            {[
+              { label: "Active batch", requests: queueStep.active, waiting: false },
+              { label: "Waiting queue", requests: queueStep.waiting, waiting: true },
+            ].map(({ label, requests, waiting }) => (
+              <div key={label} className="flex items-center flex-wrap">
+                <span className="text-xs text-[#757575] w-28 shrink-0">{label}</span>
+                {requests.length === 0 ? (
+                  <span className="text-xs text-[#9e9e9e]">empty</span>
+                ) : (
+                  requests.map((request, i) => (
+                    <div
+                      key={`${label}-${i}`}
+                      className={`px-2 py-1 m-0.5 rounded font-mono text-sm ${
+                        waiting
+                          ? "border border-dashed border-gray-400 text-[#757575]"
+                          : "bg-[#3f51b5] bg-opacity-10 text-[#3f51b5]"
+                      }`}
+                      title={`Arrived at time ${request.arrival}`}
+                    >
+                      {request.cylinder}
+                    </div>
+                  ))
+                )}
+              </div>
+            ))}
+            <p className="text-xs text-[#757575]">
+              Requests that arrive during a batch wait for a later one, however
+              close they are to the head
+            </p>
+          </div>
+        </div>
+      )}
+
+      {result.dispatches && result.dispatches.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium mb-2">Dispatches</h3>
+          <div className="overflow-x-auto max-h-64 overflow-y-auto border rounded-md">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-[#757575]">Step</th>
+                  <th className="px-3 py-2 text-left font-medium text-[#757575]">Time</th>
+                  <th className="px-3 py-2 text-left font-medium text-[#757575]">Request</th>
+                  <th className="px-3 py-2 text-left font-medium text-[#757575]">Queue</th>
+                  <th className="px-3 py-2 text-left font-medium text-[#757575]">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.dispatches.map((dispatch, i) => (
+                  <tr
+                    key={i}
+                    className={`border-t ${
+                      i + 2 === animationStep
+                        ? "bg-[#3f51b5] bg-opacity-10"
+                        : i + 2 > animationStep
+                        ? "text-[#9e9e9e]"
+                        : ""
+                    }`}
+                  >
+                    <td className="px-3 py-1">{i + 2}</td>
+                    <td className="px-3 py-1">{dispatch.time}</td>
+                    <td className="px-3 py-1 font-mono">
+                      {requests[dispatch.request]
+                        ? requestLabel(requests[dispatch.request])
+                        : result.sequence[i + 1]}
+                    </td>
+                    <td className="px-3 py-1">{dispatch.queue}</td>
+                    <td className="px-3 py-1">{dispatch.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
 
       <div className="mb-6">
         <div className="flex items-center justify-between mb-4">
@@ -418,7 +587,6 @@ export function DiskVisualization({
         </div>
 
         <div className="bg-gray-50 p-4 rounded-md" style={{ height: "300px" }}>
-          {/* @ts-ignore - Chart.js typing issues */}
           <Line data={chartData} options={chartOptions} />
         </div>
 
@@ -438,6 +606,130 @@ export function DiskVisualization({
         </div>
       </div>
 
+      {timing && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium mb-2">Service Times</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-3">
+            {[
+              { label: "Mean Service Time", value: timing.meanServiceMs },
+              { label: "Seek", value: timing.seekMs },
+              { label: "Rotational Latency", value: timing.rotationalMs },
+              { label: "Transfer", value: timing.transferMs },
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-gray-50 p-4 rounded-md">
+                <p className="text-sm text-[#757575]">{label}</p>
+                <p className="text-xl font-medium text-[#3f51b5]">{formatMs(value)}</p>
+              </div>
+            ))}
+          </div>
+          <div className="bg-gray-50 p-4 rounded-md overflow-x-auto max-h-64">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-[#757575]">
+                  <th className="px-3 py-1 text-left">Cylinder</th>
+                  <th className="px-3 py-1 text-left">Sector</th>
+                  <th className="px-3 py-1 text-right">Seek</th>
+                  <th className="px-3 py-1 text-right">Rotation</th>
+                  <th className="px-3 py-1 text-right">Transfer</th>
+                  <th className="px-3 py-1 text-right">Finished At</th>
+                </tr>
+              </thead>
+              <tbody>
+                {timing.steps.map((step, index) => (
+                  <tr
+                    key={`timing-${index}`}
+                    className={`border-t font-mono ${
+                      index === animationStep - 1
+                        ? "bg-[#4caf50] bg-opacity-10 font-bold"
+                        : index >= animationStep
+                          ? "text-gray-400"
+                          : ""
+                    }`}
+                  >
+                    <td className="px-3 py-1">
+                      {step.cylinder}
+                      {index === 0 && <span className="ml-1 text-xs font-sans">(start)</span>}
+                    </td>
+                    <td className="px-3 py-1">{step.sector ?? "-"}</td>
+                    <td className="px-3 py-1 text-right">{formatMs(step.seekMs)}</td>
+                    <td className="px-3 py-1 text-right">{formatMs(step.rotationalMs)}</td>
+                    <td className="px-3 py-1 text-right">{formatMs(step.transferMs)}</td>
+                    <td className="px-3 py-1 text-right">{formatMs(step.finishMs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-[#757575] mt-2">
+            Rows without a sector are trips to the end of the disk, which serve no
+            request. The wraparound jump always takes time, even when it is left
+            out of the seek distance
+          </p>
+        </div>
+      )}
+
+      {metrics && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium mb-2">Request Waits</h3>
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-3 mb-3">
+            {[
+              { label: "Mean", value: metrics.meanWait.toFixed(1) },
+              { label: "Variance", value: metrics.waitVariance.toFixed(1) },
+              { label: "95th Pct.", value: metrics.p95Wait },
+              { label: "99th Pct.", value: metrics.p99Wait },
+              { label: "Max", value: metrics.maxWait },
+              { label: "Max Bypassed", value: metrics.maxBypassed },
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-gray-50 p-3 rounded-md">
+                <p className="text-xs text-[#757575]">{label}</p>
+                <p className="text-lg font-medium text-[#3f51b5]">{value}</p>
+              </div>
+            ))}
+          </div>
+          <div className="h-48 mb-3">
+            <Bar data={histogramData} options={histogramOptions} />
+          </div>
+          <div className="bg-gray-50 p-4 rounded-md overflow-x-auto max-h-64">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-[#757575]">
+                  <th className="px-3 py-1 text-left">#</th>
+                  <th className="px-3 py-1 text-left">Cylinder</th>
+                  <th className="px-3 py-1 text-right">Arrival</th>
+                  <th className="px-3 py-1 text-right">Served At</th>
+                  <th className="px-3 py-1 text-right">Wait</th>
+                  <th className="px-3 py-1 text-right">Bypassed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {metrics.requests.map((request) => (
+                  <tr
+                    key={`wait-${request.index}`}
+                    className={`border-t font-mono ${
+                      request.wait > metrics.p95Wait || request.wait === metrics.maxWait
+                        ? "text-[#f44336]"
+                        : ""
+                    }`}
+                  >
+                    <td className="px-3 py-1">{request.index + 1}</td>
+                    <td className="px-3 py-1">{request.cylinder}</td>
+                    <td className="px-3 py-1 text-right">{request.arrival}</td>
+                    <td className="px-3 py-1 text-right">{request.servedAt}</td>
+                    <td className="px-3 py-1 text-right">{request.wait}</td>
+                    <td className="px-3 py-1 text-right">{request.bypassed}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-[#757575] mt-2">
+            Waits are measured in head movement (one unit per cylinder), the
+            same scale as arrival times. A request is bypassed each time a later
+            one is served before it; red rows are the longest waits
+          </p>
+        </div>
+      )}
+
       <div className="mb-6">
         <h3 className="text-lg font-medium mb-2">Request Sequence</h3>
         <div className="bg-gray-50 p-4 rounded-md overflow-x-auto">
@@ -467,7 +759,7 @@ export function DiskVisualization({
               >
                 {index === 0 && <span className="mr-1 text-xs">Start</span>}
                 {cylinder}
-                {index > 0 && index < result.sequence.length - 1 && (
+                {index > 0 && (
                   <>
                     {directionChanges.some(
                       (d) => d.position === index && d.type === "jump"
@@ -498,6 +790,148 @@ export function DiskVisualization({
         </div>
       </div>
 
+      {algorithm === "fcfs" && (
+        <div className="mb-4 p-4 bg-amber-50 rounded-md border border-amber-200">
+          <h4 className="font-medium text-amber-800 mb-2">
+            FCFS Algorithm Explanation
+          </h4>
+          <p className="text-sm text-amber-700 mb-2">
+            The FCFS (First-Come, First-Served) algorithm serves requests in
+            the order they arrive:
+          </p>
+          <ul className="list-disc list-inside text-sm text-amber-700">
+            <li>No request is reordered, so every request is eventually served</li>
+            <li>
+              The head may swing back and forth across the disk between
+              distant requests
+            </li>
+            <li>
+              It is simple and fair, but usually has the largest total seek
+              distance
+            </li>
+          </ul>
+        </div>
+      )}
+
+      {algorithm === "sstf" && (
+        <div className="mb-4 p-4 bg-green-50 rounded-md border border-green-200">
+          <h4 className="font-medium text-green-800 mb-2">
+            SSTF Algorithm Explanation
+          </h4>
+          <p className="text-sm text-green-700 mb-2">
+            The SSTF (Shortest Seek Time First) algorithm always serves the
+            pending request closest to the head:
+          </p>
+          <ul className="list-disc list-inside text-sm text-green-700">
+            <li>Each move is the shortest available, which keeps seek distance low</li>
+            <li>
+              Requests far from a busy region can wait indefinitely
+              (starvation)
+            </li>
+            <li>
+              When two requests are equally close, the one{" "}
+              {initialDirection
+                ? "towards higher cylinder numbers"
+                : "towards lower cylinder numbers"}{" "}
+              is served first
+            </li>
+          </ul>
+        </div>
+      )}
+
+      {(algorithm === "nstep" || algorithm === "fscan") && (
+        <div className="mb-4 p-4 bg-amber-50 rounded-md border border-amber-200">
+          <h4 className="font-medium text-amber-800 mb-2">
+            {algorithm === "nstep" ? "N-Step SCAN" : "FSCAN"} Algorithm
+            Explanation
+          </h4>
+          <p className="text-sm text-amber-700 mb-2">
+            {algorithm === "nstep"
+              ? "N-Step SCAN splits the queue into batches of at most N requests, in arrival order:"
+              : "FSCAN keeps two queues and swaps them whenever a sweep ends:"}
+          </p>
+          <ul className="list-disc list-inside text-sm text-amber-700">
+            <li>
+              {algorithm === "nstep"
+                ? "The next N waiting requests are frozen into a batch when the previous batch is done"
+                : "Every request waiting when a sweep starts is frozen into its batch"}
+            </li>
+            <li>
+              Each batch is swept in the current direction, reversing at its
+              last request
+            </li>
+            <li>
+              New arrivals join the waiting queue, so they cannot starve the
+              requests already in the batch
+            </li>
+            <li>
+              When no requests are waiting, the head stays put until the next
+              one arrives
+            </li>
+          </ul>
+        </div>
+      )}
+
+      {algorithm === "deadline" && (
+        <div className="mb-4 p-4 bg-rose-50 rounded-md border border-rose-200">
+          <h4 className="font-medium text-rose-800 mb-2">
+            Deadline Scheduler Explanation
+          </h4>
+          <p className="text-sm text-rose-700 mb-2">
+            The Deadline scheduler keeps reads and writes apart, each in a
+            sorted queue and a FIFO queue with an expiry time per request:
+          </p>
+          <ul className="list-disc list-inside text-sm text-rose-700">
+            <li>
+              Requests are dispatched in batches, following the sorted queue
+              upwards from the head like a one-way elevator
+            </li>
+            <li>
+              Reads are preferred when a batch ends, unless writes have been
+              passed over too many times
+            </li>
+            <li>
+              A new batch starts from the oldest request instead when it has
+              expired, so no request waits far beyond its deadline
+            </li>
+            <li>
+              Reads expire much sooner than writes, because a process usually
+              blocks on a read but not on a write
+            </li>
+          </ul>
+        </div>
+      )}
+
+      {algorithm === "bfq" && (
+        <div className="mb-4 p-4 bg-cyan-50 rounded-md border border-cyan-200">
+          <h4 className="font-medium text-cyan-800 mb-2">
+            BFQ Scheduler Explanation
+          </h4>
+          <p className="text-sm text-cyan-700 mb-2">
+            BFQ (Budget Fair Queueing) gives every process its own queue and
+            shares the disk between them:
+          </p>
+          <ul className="list-disc list-inside text-sm text-cyan-700">
+            <li>
+              The process with the lowest virtual time gets the disk for up to
+              a budget of requests
+            </li>
+            <li>
+              Each request served advances its process's virtual time, so busy
+              processes take turns with light ones
+            </li>
+            <li>
+              A process returning from idle starts level with the others
+              instead of claiming the time it missed
+            </li>
+            <li>
+              Within a turn, the process's requests are served upwards from the
+              head like a one-way elevator
+            </li>
+          </ul>
+        </div>
+      )}
+
       {algorithm === "cscan" && (
         <div className="mb-4 p-4 bg-purple-50 rounded-md border border-purple-200">
           <h4 className="font-medium text-purple-800 mb-2">
@@ -520,6 +954,11 @@ export function DiskVisualization({
               This "circular" motion gives all cylinders equal treatment,
               preventing starvation of requests
             </li>
+            <li>
+              The return jump is{" "}
+              {result.wraparoundCounted ? "included in" : "excluded from"} the
+              seek distance
+            </li>
             <li>
               Initial direction:{" "}
               {initialDirection
@@ -534,6 +973,69 @@ export function DiskVisualization({
         </div>
       )}
 
+      {algorithm === "scan" && (
+        <div className="mb-4 p-4 bg-teal-50 rounded-md border border-teal-200">
+          <h4 className="font-medium text-teal-800 mb-2">
+            SCAN (Elevator) Algorithm Explanation
+          </h4>
+          <p className="text-sm text-teal-700 mb-2">
+            The SCAN algorithm moves the arm like an elevator, sweeping across
+            the disk and back:
+          </p>
+          <ul className="list-disc list-inside text-sm text-teal-700">
+            <li>
+              The disk arm services requests in one direction and continues to
+              the end of the disk
+            </li>
+            <li>
+              It then reverses and services the remaining requests on the way
+              back
+            </li>
+            <li>
+              Requests just behind the arm wait for a full sweep, while those
+              in the middle are visited twice as often as the edges
+            </li>
+            <li>
+              Initial direction:{" "}
+              {initialDirection
+                ? "Towards higher cylinder numbers"
+                : "Towards lower cylinder numbers"}
+            </li>
+          </ul>
+        </div>
+      )}
+
+      {algorithm === "clook" && (
+        <div className="mb-4 p-4 bg-indigo-50 rounded-md border border-indigo-200">
+          <h4 className="font-medium text-indigo-800 mb-2">
+            C-LOOK Algorithm Explanation
+          </h4>
+          <p className="text-sm text-indigo-700 mb-2">
+            The C-LOOK (Circular LOOK) algorithm combines the circular sweep of
+            C-SCAN with LOOK's early turn:
+          </p>
+          <ul className="list-disc list-inside text-sm text-indigo-700 mb-2">
+            <li>
+              The disk arm services requests in one direction until the last
+              request in that direction
+            </li>
+            <li>
+              It then jumps straight to the furthest request at the other end
+              and continues in the same direction
+            </li>
+            <li>
+              The return jump is{" "}
+              {result.wraparoundCounted ? "included in" : "excluded from"} the
+              seek distance
+            </li>
+          </ul>
+          <div className="flex items-center text-xs text-indigo-700">
+            <span className="inline-block border-t border-dashed border-indigo-400 w-4 mr-1"></span>
+            The dashed line in the chart shows the jump back to the first request
+          </div>
+        </div>
+      )}
+
       {algorithm === "look" && (
         <div className="mb-4 p-4 bg-blue-50 rounded-md border border-blue-200">
           <h4 className="font-medium text-blue-800 mb-2">
@@ -0,0 +1,154 @@
+import React from "react";
+import { FaultCurvePoint } from "@/lib/algorithms/belady";
+import { MemoryAlgorithm } from "@/lib/algorithms/memory";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  ScriptableLineSegmentContext,
+} from "chart.js";
+import { Line } from "react-chartjs-2";
+import { AlertTriangle, TrendingDown } from "lucide-react";
+
+// Register Chart.js components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface FaultCurveChartProps {
+  curve: FaultCurvePoint[];
+  algorithm: MemoryAlgorithm;
+}
+
+export function FaultCurveChart({ curve, algorithm }: FaultCurveChartProps) {
+  const anomalies = curve.filter((point) => point.isAnomaly);
+
+  const chartData = {
+    labels: curve.map((point) => `${point.frames}`),
+    datasets: [
+      {
+        label: `${algorithm.toUpperCase()} Page Faults`,
+        data: curve.map((point) => point.faults),
+        borderColor: "#3f51b5",
+        pointBackgroundColor: curve.map((point) =>
+          point.isAnomaly ? "#f44336" : "#3f51b5"
+        ),
+        pointRadius: curve.map((point) => (point.isAnomaly ? 8 : 5)),
+        segment: {
+          // Rising segments are where adding a frame made things worse
+          borderColor: (ctx: ScriptableLineSegmentContext) =>
+            ctx.p1.parsed.y > ctx.p0.parsed.y ? "#f44336" : "#3f51b5",
+          borderDash: (ctx: ScriptableLineSegmentContext) =>
+            ctx.p1.parsed.y > ctx.p0.parsed.y ? [6, 4] : undefined,
+        },
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: {
+        title: {
+          display: true,
+          text: "Number of Frames",
+        },
+      },
+      y: {
+        title: {
+          display: true,
+          text: "Page Faults",
+        },
+        beginAtZero: true,
+      },
+    },
+    plugins: {
+      legend: {
+        position: "top" as const,
+      },
+      title: {
+        display: true,
+        text: "Page Faults vs. Number of Frames",
+      },
+    },
+  };
+
+  return (
+    <div>
+      <div className="mb-4 bg-gray-50 p-4 rounded-md" style={{ height: "300px" }}>
+        <Line data={chartData} options={chartOptions} />
+      </div>
+
+      {anomalies.length > 0 ? (
+        <div className="mb-4 p-4 bg-[#ffebee] rounded-md border border-[#f44336] border-opacity-30">
+          <div className="flex items-center font-medium text-[#c62828] mb-2">
+            <AlertTriangle className="h-5 w-5 mr-2" />
+            Belady's anomaly detected
+          </div>
+          <ul className="list-disc list-inside text-sm text-[#c62828]">
+            {anomalies.map((point) => (
+              <li key={`anomaly-${point.frames}`}>
+                {point.frames - 1} → {point.frames} frames: faults rose from{" "}
+                {curve[point.frames - 2].faults} to {point.faults}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <div className="mb-4 p-4 bg-[#e8f5e9] rounded-md flex items-center text-sm text-[#2e7d32]">
+          <TrendingDown className="h-5 w-5 mr-2" />
+          No anomaly: faults never increase as frames are added for this
+          reference string
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="px-4 py-2 text-left">Frames</th>
+              <th className="px-4 py-2 text-right">Page Faults</th>
+              <th className="px-4 py-2 text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {curve.map((point, i) => (
+              <tr
+                key={`curve-${point.frames}`}
+                className={`border-t ${point.isAnomaly ? "bg-[#ffebee]" : ""}`}
+              >
+                <td className="px-4 py-2">{point.frames}</td>
+                <td className="px-4 py-2 text-right">{point.faults}</td>
+                <td className="px-4 py-2 text-right">
+                  {i === 0
+                    ? "-"
+                    : point.faults - curve[i - 1].faults > 0
+                    ? `+${point.faults - curve[i - 1].faults}`
+                    : point.faults - curve[i - 1].faults}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-[#757575] mt-4">
+        Stack algorithms such as LRU and OPT never show the anomaly, because the
+        pages kept with n frames are always a subset of those kept with n + 1.
+        FIFO has no such property.
+      </p>
+    </div>
+  );
+}
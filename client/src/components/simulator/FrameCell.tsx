@@ -0,0 +1,34 @@
+import React from "react";
+
+interface FrameCellProps {
+  value: React.ReactNode | null; // Contents of the frame; null for an empty frame
+  referenced?: boolean; // Holds the page referenced at this step
+  replaced?: boolean; // Loaded by a fault at this step
+  pulse?: boolean;
+  title?: string;
+  children?: React.ReactNode; // Corner badges, positioned absolutely
+}
+
+// One physical frame in a frame grid
+export function FrameCell({
+  value,
+  referenced = false,
+  replaced = false,
+  pulse = false,
+  title,
+  children,
+}: FrameCellProps) {
+  return (
+    <div
+      className={`w-[50px] h-[50px] mx-1 flex items-center justify-center border font-mono relative ${
+        pulse ? "animate-pulse" : ""
+      } ${referenced ? "border-[#ff4081] border-2" : "border-gray-300"} ${
+        replaced ? "bg-[#ffebee]" : value === null ? "bg-gray-100" : "bg-[#e8f5e9]"
+      }`}
+      title={title}
+    >
+      {value === null ? "-" : value}
+      {children}
+    </div>
+  );
+}
@@ -4,19 +4,78 @@ import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Play, RefreshCw, AlertCircle } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Play, RefreshCw, AlertCircle, Search } from 'lucide-react';
 import { useSimulation } from '@/contexts/SimulationContext';
-import { MemoryResult, simulateLRU, simulateARB } from '@/lib/algorithms/memory';
-import { validateMemoryInput } from '@/lib/validators';
+import {
+  MemoryAlgorithm,
+  MemoryResult,
+  MemoryRunOptions,
+  runMemoryAlgorithm,
+  simulateOPT,
+  TieBreakPolicy,
+} from '@/lib/algorithms/memory';
+import { FaultCurvePoint, findFIFOAnomaly, simulateFaultCurve } from '@/lib/algorithms/belady';
+import { PagingCost, computePagingCost } from '@/lib/algorithms/pagingCost';
+import {
+  validateMemoryInput,
+  validateARBOptions,
+  validateCountingOptions,
+  validatePagingOptions,
+} from '@/lib/validators';
 import { MemoryVisualization } from './MemoryVisualization';
+import { FaultCurveChart } from './FaultCurveChart';
+import { WorkingSetPanel } from './WorkingSetPanel';
+import { MultiprogrammingPanel } from './MultiprogrammingPanel';
+import { CopyOnWritePanel } from './CopyOnWritePanel';
+
+// Run once with a fixed frame count, or sweep every frame count from 1 to N
+type MemoryMode = 'single' | 'curve';
 
 export function MemoryTab() {
+  // Sections stay mounted so switching between them keeps their inputs and results
+  return (
+    <Tabs defaultValue="replacement">
+      <TabsList className="mb-4">
+        <TabsTrigger value="replacement">Page Replacement</TabsTrigger>
+        <TabsTrigger value="working-set">Working Set &amp; PFF</TabsTrigger>
+        <TabsTrigger value="multiprogramming">Multiprogramming</TabsTrigger>
+        <TabsTrigger value="copy-on-write">Copy-on-Write</TabsTrigger>
+      </TabsList>
+      <TabsContent value="replacement" forceMount className="data-[state=inactive]:hidden">
+        <PageReplacementPanel />
+      </TabsContent>
+      <TabsContent value="working-set" forceMount className="data-[state=inactive]:hidden">
+        <WorkingSetPanel />
+      </TabsContent>
+      <TabsContent value="multiprogramming" forceMount className="data-[state=inactive]:hidden">
+        <MultiprogrammingPanel />
+      </TabsContent>
+      <TabsContent value="copy-on-write" forceMount className="data-[state=inactive]:hidden">
+        <CopyOnWritePanel />
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+function PageReplacementPanel() {
   const { updateMemoryComparison } = useSimulation();
-  const [algorithm, setAlgorithm] = useState<'lru' | 'arb'>('lru');
+  const [algorithm, setAlgorithm] = useState<MemoryAlgorithm>('lru');
+  const [mode, setMode] = useState<MemoryMode>('single');
   const [frames, setFrames] = useState('');
   const [referenceString, setReferenceString] = useState('');
+  const [historyBits, setHistoryBits] = useState('8');
+  const [shiftInterval, setShiftInterval] = useState('1');
+  const [tieBreak, setTieBreak] = useState<TieBreakPolicy>('fifo');
+  const [decayInterval, setDecayInterval] = useState('');
+  const [prefetch, setPrefetch] = useState('');
+  const [hitNs, setHitNs] = useState('100');
+  const [faultMs, setFaultMs] = useState('8');
+  const [writeBackMs, setWriteBackMs] = useState('8');
   const [error, setError] = useState('');
   const [result, setResult] = useState<MemoryResult | null>(null);
+  const [cost, setCost] = useState<PagingCost | null>(null);
+  const [curve, setCurve] = useState<FaultCurvePoint[] | null>(null);
   const [showResults, setShowResults] = useState(false);
 
   const handleRun = () => {
@@ -27,31 +86,107 @@ export function MemoryTab() {
       return;
     }
 
+    const arbValidation = validateARBOptions(historyBits, shiftInterval);
+    if (algorithm === 'arb' && !arbValidation.valid) {
+      setError(arbValidation.message);
+      return;
+    }
+
+    const countingValidation = validateCountingOptions(decayInterval);
+    if ((algorithm === 'lfu' || algorithm === 'mfu') && !countingValidation.valid) {
+      setError(countingValidation.message);
+      return;
+    }
+
+    const pagingValidation = validatePagingOptions(prefetch, hitNs, faultMs, writeBackMs);
+    if (!pagingValidation.valid) {
+      setError(pagingValidation.message);
+      return;
+    }
+
     // Clear any previous errors
     setError('');
 
-    // Run the selected algorithm
-    let simulationResult: MemoryResult;
-    if (algorithm === 'lru') {
-      simulationResult = simulateLRU(validation.frameCount!, validation.refArray!);
-    } else {
-      simulationResult = simulateARB(validation.frameCount!, validation.refArray!);
+    const options: MemoryRunOptions = {
+      writes: validation.writeArray,
+      prefetch: pagingValidation.prefetch,
+      arb: {
+        historyBits: arbValidation.historyBits,
+        shiftInterval: arbValidation.shiftInterval,
+      },
+      counting: { tieBreak, decayInterval: countingValidation.decayInterval },
+    };
+
+    if (mode === 'curve') {
+      // Sweep frame counts 1..N on the same reference string
+      setCurve(simulateFaultCurve(algorithm, validation.frameCount!, validation.refArray!, options));
+      setResult(null);
+      setShowResults(true);
+      return;
     }
 
+    // Run the selected algorithm
+    const simulationResult = runMemoryAlgorithm(
+      algorithm,
+      validation.frameCount!,
+      validation.refArray!,
+      options
+    );
+
+    const costModel = pagingValidation.costModel!;
+    const simulationCost = computePagingCost(simulationResult, costModel);
+
     // Update results
     setResult(simulationResult);
+    setCost(simulationCost);
+    setCurve(null);
     setShowResults(true);
 
     // Update comparison data
-    updateMemoryComparison(algorithm, simulationResult);
+    updateMemoryComparison(algorithm, simulationResult, simulationCost);
+
+    // Keep the optimal baseline in sync with the latest input so the
+    // comparison always measures against the same reference string
+    if (algorithm !== 'opt') {
+      const optResult = simulateOPT(validation.frameCount!, validation.refArray!);
+      updateMemoryComparison('opt', optResult, computePagingCost(optResult, costModel));
+    }
+  };
+
+  const handleFindAnomaly = () => {
+    const example = findFIFOAnomaly();
+    if (!example) {
+      setError('No anomaly found this time - try again');
+      return;
+    }
+
+    // Show the example as a FIFO fault curve
+    setError('');
+    setAlgorithm('fifo');
+    setMode('curve');
+    setFrames(String(example.maxFrames));
+    setReferenceString(example.refString.join(' '));
+    setCurve(simulateFaultCurve('fifo', example.maxFrames, example.refString));
+    setResult(null);
+    setShowResults(true);
   };
 
   const handleReset = () => {
     setFrames('');
     setReferenceString('');
+    setHistoryBits('8');
+    setShiftInterval('1');
+    setTieBreak('fifo');
+    setDecayInterval('');
+    setPrefetch('');
+    setHitNs('100');
+    setFaultMs('8');
+    setWriteBackMs('8');
     setError('');
     setShowResults(false);
     setResult(null);
+    setCost(null);
+    setCurve(null);
   };
 
   return (
@@ -65,20 +200,48 @@ export function MemoryTab() {
             <Label htmlFor="memoryAlgorithm" className="text-sm font-medium text-[#757575] mb-1">Algorithm</Label>
             <Select 
               value={algorithm} 
-              onValueChange={(value) => setAlgorithm(value as 'lru' | 'arb')}
+              onValueChange={(value) => setAlgorithm(value as MemoryAlgorithm)}
             >
               <SelectTrigger id="memoryAlgorithm" className="w-full">
                 <SelectValue placeholder="Select algorithm" />
               </SelectTrigger>
               <SelectContent>
+                <SelectItem value="fifo">First-In, First-Out (FIFO)</SelectItem>
                 <SelectItem value="lru">Least Recently Used (LRU)</SelectItem>
                 <SelectItem value="arb">Additional Reference Bit (ARB)</SelectItem>
+                <SelectItem value="opt">Optimal (OPT / Belady's MIN)</SelectItem>
+                <SelectItem value="clock">Clock (Second-Chance)</SelectItem>
+                <SelectItem value="eclock">Enhanced Second-Chance (Clock with dirty bits)</SelectItem>
+                <SelectItem value="lfu">Least Frequently Used (LFU)</SelectItem>
+                <SelectItem value="mfu">Most Frequently Used (MFU)</SelectItem>
+                <SelectItem value="arc">Adaptive Replacement Cache (ARC)</SelectItem>
+                <SelectItem value="twoq">2Q</SelectItem>
+                <SelectItem value="lirs">Low Inter-reference Recency Set (LIRS)</SelectItem>
+                <SelectItem value="clockpro">CLOCK-Pro</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          
+          <div className="mb-4">
+            <Label htmlFor="memoryMode" className="text-sm font-medium text-[#757575] mb-1">Mode</Label>
+            <Select 
+              value={mode} 
+              onValueChange={(value) => setMode(value as MemoryMode)}
+            >
+              <SelectTrigger id="memoryMode" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="single">Single run</SelectItem>
+                <SelectItem value="curve">Faults vs. frames (1 to N)</SelectItem>
               </SelectContent>
             </Select>
           </div>
           
           <div className="mb-4">
-            <Label htmlFor="frames" className="text-sm font-medium text-[#757575] mb-1">Number of Frames</Label>
+            <Label htmlFor="frames" className="text-sm font-medium text-[#757575] mb-1">
+              {mode === 'curve' ? 'Maximum Frames (N)' : 'Number of Frames'}
+            </Label>
             <Input 
               id="frames" 
               type="number" 
@@ -91,6 +254,127 @@ export function MemoryTab() {
             <p className="text-xs text-[#757575] mt-1">Enter a positive integer value</p>
           </div>
           
+          {algorithm === 'arb' && (
+            <div className="mb-4 grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="historyBits" className="text-sm font-medium text-[#757575] mb-1">History Bits</Label>
+                <Input 
+                  id="historyBits" 
+                  type="number" 
+                  min="1" 
+                  max="32" 
+                  value={historyBits}
+                  onChange={(e) => setHistoryBits(e.target.value)}
+                  className="w-full" 
+                />
+                <p className="text-xs text-[#757575] mt-1">Register width, 1-32</p>
+              </div>
+              <div>
+                <Label htmlFor="shiftInterval" className="text-sm font-medium text-[#757575] mb-1">Shift Interval</Label>
+                <Input 
+                  id="shiftInterval" 
+                  type="number" 
+                  min="1" 
+                  value={shiftInterval}
+                  onChange={(e) => setShiftInterval(e.target.value)}
+                  className="w-full" 
+                />
+                <p className="text-xs text-[#757575] mt-1">References per timer tick</p>
+              </div>
+            </div>
+          )}
+          
+          {(algorithm === 'lfu' || algorithm === 'mfu') && (
+            <div className="mb-4 grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="tieBreak" className="text-sm font-medium text-[#757575] mb-1">Tie-Breaking</Label>
+                <Select 
+                  value={tieBreak} 
+                  onValueChange={(value) => setTieBreak(value as TieBreakPolicy)}
+                >
+                  <SelectTrigger id="tieBreak" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fifo">FIFO among ties</SelectItem>
+                    <SelectItem value="lru">LRU among ties</SelectItem>
+                    <SelectItem value="lowest-index">Lowest frame index</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="decayInterval" className="text-sm font-medium text-[#757575] mb-1">Counter Decay</Label>
+                <Input 
+                  id="decayInterval" 
+                  type="number" 
+                  min="0" 
+                  value={decayInterval}
+                  onChange={(e) => setDecayInterval(e.target.value)}
+                  placeholder="Off"
+                  className="w-full" 
+                />
+                <p className="text-xs text-[#757575] mt-1">Halve counters every N references</p>
+              </div>
+            </div>
+          )}
+          
+          {(algorithm === 'lru' || algorithm === 'arb') && (
+            <div className="mb-4">
+              <Label htmlFor="prefetch" className="text-sm font-medium text-[#757575] mb-1">Prefetch Pages</Label>
+              <Input 
+                id="prefetch" 
+                type="number" 
+                min="0" 
+                value={prefetch}
+                onChange={(e) => setPrefetch(e.target.value)}
+                placeholder="Off"
+                className="w-full" 
+              />
+              <p className="text-xs text-[#757575] mt-1">On a fault, also read the next k pages</p>
+            </div>
+          )}
+          
+          {mode === 'single' && (
+            <div className="mb-4 grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="hitNs" className="text-sm font-medium text-[#757575] mb-1">Hit (ns)</Label>
+                <Input 
+                  id="hitNs" 
+                  type="number" 
+                  min="0" 
+                  value={hitNs}
+                  onChange={(e) => setHitNs(e.target.value)}
+                  className="w-full" 
+                />
+              </div>
+              <div>
+                <Label htmlFor="faultMs" className="text-sm font-medium text-[#757575] mb-1">Fault (ms)</Label>
+                <Input 
+                  id="faultMs" 
+                  type="number" 
+                  min="0" 
+                  step="0.1"
+                  value={faultMs}
+                  onChange={(e) => setFaultMs(e.target.value)}
+                  className="w-full" 
+                />
+              </div>
+              <div>
+                <Label htmlFor="writeBackMs" className="text-sm font-medium text-[#757575] mb-1">Write-back (ms)</Label>
+                <Input 
+                  id="writeBackMs" 
+                  type="number" 
+                  min="0" 
+                  step="0.1"
+                  value={writeBackMs}
+                  onChange={(e) => setWriteBackMs(e.target.value)}
+                  className="w-full" 
+                />
+              </div>
+              <p className="col-span-3 text-xs text-[#757575] -mt-2">Cost model for effective access time</p>
+            </div>
+          )}
+          
           <div className="mb-6">
             <Label htmlFor="referenceString" className="text-sm font-medium text-[#757575] mb-1">Reference String</Label>
             <Input 
@@ -101,7 +385,7 @@ export function MemoryTab() {
               placeholder="e.g., 7 0 1 2 0 3 0 4 2 3"
               className="w-full" 
             />
-            <p className="text-xs text-[#757575] mt-1">Enter space-separated page numbers</p>
+            <p className="text-xs text-[#757575] mt-1">Enter space-separated page numbers (append w for a write, e.g. 3w)</p>
           </div>
           
           {error && (
@@ -121,6 +405,13 @@ export function MemoryTab() {
               Reset
             </Button>
           </div>
+          
+          {mode === 'curve' && (
+            <Button onClick={handleFindAnomaly} variant="outline" className="w-full mt-4">
+              <Search className="h-4 w-4 mr-1" />
+              Find an anomaly (FIFO)
+            </Button>
+          )}
         </CardContent>
       </Card>
       
@@ -134,8 +425,10 @@ export function MemoryTab() {
               <Memory className="h-16 w-16 mx-auto mb-2 text-[#757575]" />
               <p>Configure parameters and click Run to start the simulation</p>
             </div>
+          ) : curve ? (
+            <FaultCurveChart curve={curve} algorithm={algorithm} />
           ) : result && (
-            <MemoryVisualization result={result} algorithm={algorithm} />
+            <MemoryVisualization result={result} algorithm={algorithm} cost={cost} />
           )}
         </CardContent>
       </Card>
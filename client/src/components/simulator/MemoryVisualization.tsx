@@ -1,85 +1,88 @@
-import React, { useState, useEffect, useRef } from "react";
-import { MemoryResult, MemoryStep } from "@/lib/algorithms/memory";
-import { Button } from "@/components/ui/button";
-import { Slider } from "@/components/ui/slider";
+import React, { useState } from "react";
+import {
+  MemoryAlgorithm,
+  MemoryResult,
+  MemoryStep,
+} from "@/lib/algorithms/memory";
+import { PagingCost } from "@/lib/algorithms/pagingCost";
+import { usePlayback } from "@/hooks/use-playback";
+import { ClockFace } from "./ClockFace";
+import { FrameCell } from "./FrameCell";
+import { PlaybackControls } from "./PlaybackControls";
 import {
-  Play,
-  Pause,
-  SkipBack,
-  SkipForward,
   ChevronRight,
   RotateCw,
   ArrowRightCircle,
   RefreshCcw,
   Clock,
+  ListOrdered,
+  Telescope,
 } from "lucide-react";
 
 interface MemoryVisualizationProps {
   result: MemoryResult;
-  algorithm: "lru" | "arb";
+  algorithm: MemoryAlgorithm;
+  cost?: PagingCost | null;
 }
 
+// Format a duration in ns with a unit suited to its size
+const formatNs = (ns: number) =>
+  ns >= 1e6 ? `${(ns / 1e6).toFixed(2)} ms` : ns >= 1e3 ? `${(ns / 1e3).toFixed(2)} µs` : `${ns.toFixed(1)} ns`;
+
+// How the list-based policies (ARC, 2Q, LIRS, CLOCK-Pro) work, shown under their lists
+const policyExplanations: Partial<Record<MemoryAlgorithm, { title: string; points: string[] }>> = {
+  arc: {
+    title: "Adaptive Replacement Cache (ARC) Explanation",
+    points: [
+      "T1 holds pages referenced once recently, T2 pages referenced at least twice",
+      "B1 and B2 remember the pages most recently evicted from T1 and T2, without holding frames",
+      "A fault on a page in B1 grows the target size p of T1; a fault on a page in B2 shrinks it",
+      "On a fault, the LRU page of T1 is evicted while T1 is larger than p, otherwise the LRU page of T2",
+    ],
+  },
+  twoq: {
+    title: "2Q Explanation",
+    points: [
+      "New pages enter A1in, a small FIFO of about a quarter of the frames",
+      "Pages pushed out of A1in are remembered in the ghost queue A1out",
+      "Only a page referenced again while in A1out is promoted to Am, the main LRU list",
+      "Pages touched once by a scan therefore never displace the pages in Am",
+    ],
+  },
+  lirs: {
+    title: "Low Inter-reference Recency Set (LIRS) Explanation",
+    points: [
+      "LIR pages have a short reuse distance and always stay resident",
+      "HIR pages share a few frames; the resident ones wait in queue Q, first in line for eviction",
+      "Stack S orders pages by recency and also keeps evicted HIR pages",
+      "An HIR page referenced while still in S becomes LIR, and the oldest LIR page is demoted",
+    ],
+  },
+  clockpro: {
+    title: "CLOCK-Pro Explanation",
+    points: [
+      "Resident pages are hot or cold; all pages sit on one clock with three hands",
+      "The cold hand evicts unreferenced cold pages but keeps them on the clock as test entries",
+      "A fault on a page still in its test period makes it hot and raises the cold page target",
+      "The hot hand demotes unreferenced hot pages; test periods that expire unused lower the target",
+    ],
+  },
+};
+
 export function MemoryVisualization({
   result,
   algorithm,
+  cost,
 }: MemoryVisualizationProps) {
-  const [currentStep, setCurrentStep] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [playbackSpeed, setPlaybackSpeed] = useState(1);
-  const animationRef = useRef<number | null>(null);
   const [highlightedFrame, setHighlightedFrame] = useState<number | null>(null);
   const [showBitReset, setShowBitReset] = useState(false);
 
-  const BASE_DELAY = 1000;
-
-  useEffect(() => {
-    return () => {
-      if (animationRef.current !== null) {
-        cancelAnimationFrame(animationRef.current);
-      }
-    };
-  }, []);
-
-  useEffect(() => {
-    if (!isPlaying) {
-      if (animationRef.current !== null) {
-        cancelAnimationFrame(animationRef.current);
-        animationRef.current = null;
-      }
-      return;
-    }
-
-    const startTime = Date.now();
-    let lastStepTime = startTime;
-
-    const animate = () => {
-      const now = Date.now();
-      const elapsed = now - lastStepTime;
-      const stepDelay = BASE_DELAY / playbackSpeed;
-
-      if (elapsed >= stepDelay) {
-        lastStepTime = now;
-
-        if (currentStep < result.steps.length - 1) {
-          setCurrentStep((prev) => prev + 1);
-          animateStep(result.steps[currentStep + 1]);
-        } else {
-          setIsPlaying(false);
-          return;
-        }
-      }
-
-      animationRef.current = requestAnimationFrame(animate);
-    };
-
-    animationRef.current = requestAnimationFrame(animate);
-
-    return () => {
-      if (animationRef.current !== null) {
-        cancelAnimationFrame(animationRef.current);
-      }
-    };
-  }, [isPlaying, currentStep, playbackSpeed, result.steps]);
+  const isClock = algorithm === "clock" || algorithm === "eclock";
+  const historyBits = result.historyBits ?? 8;
+  const shiftInterval = result.shiftInterval ?? 1;
+  // Algorithms that display a single reference bit per frame
+  const showsRefBits = algorithm === "arb" || isClock;
+  const isCounting = algorithm === "lfu" || algorithm === "mfu";
 
   const animateStep = (step: MemoryStep) => {
     if (step.replacedFrame !== undefined) {
@@ -89,7 +92,7 @@ export function MemoryVisualization({
       setHighlightedFrame(frameIndex);
     }
 
-    if (algorithm === "arb" && step.resetBits) {
+    if ((algorithm === "arb" && step.resetBits) || step.decayed) {
       setShowBitReset(true);
       setTimeout(() => {
         setShowBitReset(false);
@@ -101,39 +104,10 @@ export function MemoryVisualization({
     }, 500);
   };
 
-  const handlePlay = () => {
-    if (currentStep === result.steps.length - 1) {
-      setCurrentStep(0);
-    }
-    setIsPlaying(true);
-  };
-
-  const handlePause = () => {
-    setIsPlaying(false);
-  };
-
-  const handleReset = () => {
-    setIsPlaying(false);
-    setCurrentStep(0);
-  };
-
-  const handleStepForward = () => {
-    if (currentStep < result.steps.length - 1) {
-      setCurrentStep((prev) => prev + 1);
-      animateStep(result.steps[currentStep + 1]);
-    }
-  };
-
-  const handleStepBack = () => {
-    if (currentStep > 0) {
-      setCurrentStep((prev) => prev - 1);
-    }
-  };
-
-  const handleSliderChange = (value: number[]) => {
-    setCurrentStep(value[0]);
-    setIsPlaying(false);
-  };
+  const playback = usePlayback(result.steps.length, (next) =>
+    animateStep(result.steps[next])
+  );
+  const { currentStep, playbackSpeed } = playback;
 
   const step = result.steps[currentStep];
 
@@ -151,11 +125,70 @@ export function MemoryVisualization({
     return position + 1;
   };
 
+  const getFIFOPosition = (frameIndex: number) => {
+    if (!step.queueOrder || step.framesAfter[frameIndex] === -1) return null;
+    const position = step.queueOrder.indexOf(frameIndex);
+    if (position === -1) return null;
+    return position + 1;
+  };
+
+  // Render an ARB history register as a fixed-width bit string, grouped in bytes
+  const formatHistory = (value: number) =>
+    value
+      .toString(2)
+      .padStart(historyBits, "0")
+      .replace(/\B(?=(\d{8})+(?!\d))/g, " ");
+
+  // Frames ranked by history register, lowest first (the next ARB victim)
+  const arbRanking = step.historyAfter
+    ? step.framesAfter
+        .map((_, j) => j)
+        .filter((j) => step.framesAfter[j] !== -1)
+        .sort((a, b) => step.historyAfter![a] - step.historyAfter![b] || a - b)
+    : [];
+
+  const arbReplacements = result.steps.filter((s) => s.lruVictim !== undefined);
+  const arbMatchesLRU = arbReplacements.filter(
+    (s) => s.lruVictim === s.replacedFrame
+  ).length;
+
+  const formatNextUse = (distance: number | null | undefined) =>
+    distance === null || distance === undefined ? "∞" : `${distance}`;
+
+  // OPT victims are chosen from the frames as they were before the reference
+  const optReplaced =
+    algorithm === "opt" &&
+    step.isFault &&
+    step.replacedFrame !== undefined &&
+    !step.frames.includes(-1);
+
   const getFrameTooltip = (frameIndex: number) => {
-    if (algorithm === "lru" && step.orderOfUse) {
+    if (isCounting && step.framesAfter[frameIndex] !== -1) {
+      return `Reference count: ${step.countsAfter?.[frameIndex] ?? 0}`;
+    } else if (algorithm === "opt" && step.framesAfter[frameIndex] !== -1) {
+      const distance = step.nextUseAfter?.[frameIndex];
+      return distance === null || distance === undefined
+        ? "Next use: never (first candidate for replacement)"
+        : `Next use: in ${distance} reference${distance === 1 ? "" : "s"}`;
+    } else if (algorithm === "fifo" && step.queueOrder) {
+      const position = getFIFOPosition(frameIndex);
+      if (position === null) return "";
+      return `Queue position: ${position} of ${step.queueOrder.length} (1 = next to be evicted)`;
+    } else if (algorithm === "lru" && step.orderOfUse) {
       const rank = getLRURank(frameIndex);
       if (rank === null) return "";
       return `Usage rank: ${rank} of ${step.orderOfUse.length} (lower = less recently used)`;
+    } else if (isClock && step.framesAfter[frameIndex] !== -1) {
+      const refBit = step.refBitsAfter?.[frameIndex] ?? 0;
+      if (algorithm === "eclock") {
+        const modifyBit = step.modifyBitsAfter?.[frameIndex] ?? 0;
+        return `(Reference, Modify) = (${refBit}, ${modifyBit}) - class ${
+          refBit * 2 + modifyBit
+        }`;
+      }
+      return `Reference bit: ${refBit}${
+        refBit === 1 ? " (gets a second chance)" : " (next victim candidate)"
+      }`;
     } else if (algorithm === "arb" && step.framesAfter[frameIndex] !== -1) {
       // For ARB, show the reference bit value information
       const bitValue =
@@ -163,6 +196,12 @@ export function MemoryVisualization({
           ? "1 (recently used)"
           : "0 (not recently used)";
       return `MSB (Most Significant Bit): ${bitValue}`;
+    } else if (step.cacheLists && step.framesAfter[frameIndex] !== -1) {
+      const page = step.framesAfter[frameIndex];
+      const lists = step.cacheLists
+        .filter((list) => !list.ghost && list.pages.includes(page))
+        .map((list) => list.name);
+      return `In ${lists.join(", ")}`;
     }
     return "";
   };
@@ -187,70 +226,54 @@ export function MemoryVisualization({
             </p>
           </div>
         </div>
-      </div>
 
-      <div className="mb-6">
-        <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-medium">Simulation Visualization</h3>
-          <div className="flex space-x-2">
-            <div className="bg-[#e0e0e0] text-[#424242] text-sm py-1 px-2 rounded">
-              Step {currentStep + 1} of {result.steps.length}
+        {cost && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+            <div className="bg-gray-50 p-4 rounded-md">
+              <p className="text-sm text-[#757575]">Disk Reads</p>
+              <p className="text-2xl font-medium">{cost.reads}</p>
+              {result.prefetches !== undefined && result.prefetches > 0 && (
+                <p className="text-xs text-[#757575]">
+                  {result.prefetches} prefetched, {result.prefetchHits} used
+                </p>
+              )}
+            </div>
+            <div className="bg-gray-50 p-4 rounded-md">
+              <p className="text-sm text-[#757575]">Write-Backs</p>
+              <p className="text-2xl font-medium text-[#ff9800]">
+                {result.writeBacks === undefined ? "-" : cost.writes}
+              </p>
+            </div>
+            <div className="bg-gray-50 p-4 rounded-md">
+              <p className="text-sm text-[#757575]">Total I/O</p>
+              <p className="text-2xl font-medium">{cost.ioCount}</p>
+            </div>
+            <div className="bg-gray-50 p-4 rounded-md">
+              <p className="text-sm text-[#757575]">Effective Access Time</p>
+              <p className="text-2xl font-medium text-[#3f51b5]">
+                {formatNs(cost.effectiveAccessTime)}
+              </p>
             </div>
-            <select
-              className="bg-white border border-gray-300 text-[#424242] text-sm p-1 rounded"
-              value={playbackSpeed}
-              onChange={(e) => setPlaybackSpeed(Number(e.target.value))}
-            >
-              <option value={0.5}>0.5x</option>
-              <option value={1}>1x</option>
-              <option value={2}>2x</option>
-              <option value={4}>4x</option>
-            </select>
           </div>
-        </div>
+        )}
 
-        <div className="mb-4">
-          <Slider
-            value={[currentStep]}
-            min={0}
-            max={result.steps.length - 1}
-            step={1}
-            onValueChange={handleSliderChange}
-          />
-        </div>
+        {((step.prefetched && step.prefetched.length > 0) ||
+          (step.writtenBack && step.writtenBack.length > 0) ||
+          step.prefetchHit) && (
+          <p className="text-sm text-[#424242] mt-3">
+            {step.prefetchHit && `Page ${step.reference} was brought in by prefetch. `}
+            {step.writtenBack &&
+              step.writtenBack.length > 0 &&
+              `Dirty page${step.writtenBack.length === 1 ? "" : "s"} ${step.writtenBack.join(", ")} written back. `}
+            {step.prefetched &&
+              step.prefetched.length > 0 &&
+              `Prefetched page${step.prefetched.length === 1 ? "" : "s"} ${step.prefetched.join(", ")}.`}
+          </p>
+        )}
+      </div>
 
-        <div className="flex justify-center space-x-4 mb-6">
-          <Button variant="outline" onClick={handleReset} size="icon">
-            <RotateCw className="h-4 w-4" />
-          </Button>
-          <Button
-            variant="outline"
-            onClick={handleStepBack}
-            size="icon"
-            disabled={currentStep === 0}
-          >
-            <SkipBack className="h-4 w-4" />
-          </Button>
-          {isPlaying ? (
-            <Button onClick={handlePause} className="bg-primary text-white">
-              <Pause className="h-4 w-4 mr-1" />
-              Pause
-            </Button>
-          ) : (
-            <Button onClick={handlePlay} className="bg-primary text-white">
-              <Play className="h-4 w-4 mr-1" />
-              Play
-            </Button>
-          )}
-          <Button
-            variant="outline"
-            onClick={handleStepForward}
-            size="icon"
-            disabled={currentStep === result.steps.length - 1}
-          >
-            <SkipForward className="h-4 w-4" />
-          </Button>
-        </div>
+      <div className="mb-6">
+        <PlaybackControls playback={playback} title="Simulation Visualization" />
 
         <div className="overflow-x-auto bg-[#f9f9f9] p-4 rounded-md border border-gray-300">
           <div className="flex flex-col">
@@ -287,38 +310,32 @@ export function MemoryVisualization({
                   >
                     <div className="w-16 flex items-center justify-center font-mono font-medium">
                       {stepItem.reference}
+                      {stepItem.isWrite && (
+                        <span className="text-xs text-[#f44336]">w</span>
+                      )}
                     </div>
 
                     {stepItem.framesAfter.map((frame, frameIndex) => (
-                      <div
+                      <FrameCell
                         key={`frame-${stepIndex}-${frameIndex}`}
-                        className={`w-[50px] h-[50px] mx-1 flex items-center justify-center border font-mono relative ${
-                          stepIndex === currentStep &&
-                          frameIndex === highlightedFrame
-                            ? "animate-pulse"
-                            : ""
-                        } ${
-                          frame === stepItem.reference
-                            ? "border-[#ff4081] border-2"
-                            : "border-gray-300"
-                        } ${
+                        value={frame === -1 ? null : frame}
+                        referenced={frame === stepItem.reference}
+                        replaced={
                           stepItem.isFault &&
                           stepIndex === currentStep &&
                           stepItem.replacedFrame === frameIndex
-                            ? "bg-[#ffebee]"
-                            : frame === -1
-                            ? "bg-gray-100"
-                            : "bg-[#e8f5e9]"
-                        }`}
+                        }
+                        pulse={
+                          stepIndex === currentStep &&
+                          frameIndex === highlightedFrame
+                        }
                         title={
                           stepIndex === currentStep
                             ? getFrameTooltip(frameIndex)
                             : ""
                         }
                       >
-                        {frame === -1 ? "-" : frame}
-
-                        {algorithm === "arb" &&
+                        {showsRefBits &&
                           stepItem.refBitsAfter &&
                           frame !== -1 && (
                             <div
@@ -340,6 +357,53 @@ export function MemoryVisualization({
                             </div>
                           )}
 
+                        {isCounting &&
+                          frame !== -1 &&
+                          stepItem.countsAfter && (
+                            <div
+                              className={`min-w-[18px] h-[18px] px-1 text-xs flex items-center justify-center rounded-full absolute bottom-1 right-1 ${
+                                algorithm === "lfu" ? "bg-[#4caf50]" : "bg-[#9c27b0]"
+                              } text-white ${
+                                showBitReset &&
+                                stepIndex === currentStep &&
+                                stepItem.decayed
+                                  ? "animate-pulse"
+                                  : ""
+                              }`}
+                            >
+                              {stepItem.countsAfter[frameIndex]}
+                            </div>
+                          )}
+
+                        {algorithm === "opt" &&
+                          stepIndex === currentStep &&
+                          frame !== -1 &&
+                          stepItem.nextUseAfter && (
+                            <div className="min-w-[18px] h-[18px] px-1 text-xs flex items-center justify-center rounded-full absolute bottom-1 right-1 bg-teal-600 text-white">
+                              {formatNextUse(stepItem.nextUseAfter[frameIndex])}
+                            </div>
+                          )}
+
+                        {algorithm === "fifo" &&
+                          stepIndex === currentStep &&
+                          frame !== -1 &&
+                          stepItem.queueOrder && (
+                            <div className="w-[18px] h-[18px] text-xs flex items-center justify-center rounded-full absolute bottom-1 right-1 bg-[#ff9800] text-white">
+                              {stepItem.queueOrder.indexOf(frameIndex) + 1}
+                            </div>
+                          )}
+
+                        {algorithm === "fifo" &&
+                          stepIndex === currentStep &&
+                          stepItem.queueOrder?.[0] === frameIndex &&
+                          !stepItem.framesAfter.includes(-1) && (
+                            <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
+                              <div className="text-xs font-bold text-[#ff9800]">
+                                ▼
+                              </div>
+                            </div>
+                          )}
+
                         {algorithm === "lru" &&
                           stepIndex === currentStep &&
                           frame !== -1 &&
@@ -349,7 +413,26 @@ export function MemoryVisualization({
                             </div>
                           )}
 
-                        {algorithm === "arb" &&
+                        {stepItem.prefetched?.includes(frame) && (
+                          <div
+                            className="w-[18px] h-[18px] text-xs flex items-center justify-center rounded-full absolute top-1 left-1 bg-[#00bcd4] text-white"
+                            title="Prefetched"
+                          >
+                            P
+                          </div>
+                        )}
+
+                        {stepItem.modifyBitsAfter?.[frameIndex] === 1 &&
+                          frame !== -1 && (
+                            <div
+                              className="w-[18px] h-[18px] text-xs flex items-center justify-center rounded-full absolute bottom-1 left-1 bg-[#f44336] text-white"
+                              title="Modify (dirty) bit"
+                            >
+                              D
+                            </div>
+                          )}
+
+                        {isClock &&
                           stepItem.pointerPositionAfter === frameIndex && (
                             <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
                               <div className="text-xs font-bold text-[#ff9800]">
@@ -357,7 +440,7 @@ export function MemoryVisualization({
                               </div>
                             </div>
                           )}
-                      </div>
+                      </FrameCell>
                     ))}
 
                     <div className="ml-4 w-24 flex items-center justify-center">
@@ -381,6 +464,464 @@ export function MemoryVisualization({
         </div>
       </div>
 
+      {isCounting && step.counts && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium mb-2">Frequency Counters</h3>
+          <div className="bg-gray-50 p-4 rounded-md text-sm text-[#424242] space-y-1">
+            {step.decayed && (
+              <p className="text-amber-700">
+                Counters were halved before this reference (decay)
+              </p>
+            )}
+            <p className="font-mono">
+              {step.frames
+                .map((page, j) =>
+                  page === -1 ? `F${j}: -` : `F${j}: page ${page} ×${step.counts![j]}`
+                )
+                .join("   ")}
+            </p>
+            {!step.isFault ? (
+              <p>Hit on page {step.reference}: its counter is incremented.</p>
+            ) : step.frames.includes(-1) ? (
+              <p>Page {step.reference} was loaded into a free frame with a count of 1.</p>
+            ) : (
+              <p>
+                {`Frame ${step.replacedFrame} had the ${
+                  algorithm === "lfu" ? "lowest" : "highest"
+                } count (${step.counts[step.replacedFrame!]})`}
+                {step.tiedFrames
+                  ? `, tied with frames ${step.tiedFrames
+                      .filter((j) => j !== step.replacedFrame)
+                      .join(", ")} - the tie was broken by the selected policy`
+                  : ""}
+                {`, so page ${step.frames[step.replacedFrame!]} was replaced.`}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {algorithm === "arb" && step.historyAfter && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium mb-2">History Registers</h3>
+          <div className="bg-gray-50 p-4 rounded-md overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-[#757575]">
+                  <th className="px-3 py-1 text-left">Frame</th>
+                  <th className="px-3 py-1 text-left">Page</th>
+                  <th className="px-3 py-1 text-left">
+                    History ({historyBits} bits, MSB first)
+                  </th>
+                  <th className="px-3 py-1 text-right">ARB Rank</th>
+                  <th className="px-3 py-1 text-right">LRU Rank</th>
+                </tr>
+              </thead>
+              <tbody>
+                {step.framesAfter.map((page, frameIndex) => (
+                  <tr key={`history-${frameIndex}`} className="border-t">
+                    <td className="px-3 py-1">Frame {frameIndex}</td>
+                    <td className="px-3 py-1 font-mono">
+                      {page === -1 ? "-" : page}
+                    </td>
+                    <td className="px-3 py-1 font-mono whitespace-nowrap">
+                      {page === -1 ? (
+                        "-"
+                      ) : (
+                        <>
+                          <span className="text-[#4caf50] font-bold">
+                            {formatHistory(step.historyAfter![frameIndex])[0]}
+                          </span>
+                          {formatHistory(step.historyAfter![frameIndex]).slice(1)}
+                        </>
+                      )}
+                    </td>
+                    <td className="px-3 py-1 text-right">
+                      {page === -1 ? "-" : arbRanking.indexOf(frameIndex) + 1}
+                    </td>
+                    <td className="px-3 py-1 text-right">
+                      {page === -1 || !step.orderOfUse
+                        ? "-"
+                        : step.orderOfUse.indexOf(frameIndex) + 1}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-[#757575] mt-2">
+              Rank 1 is the next page each policy would evict.
+              {arbReplacements.length > 0 &&
+                ` Over the whole run, ARB evicted the same page as exact LRU in ${arbMatchesLRU} of ${arbReplacements.length} replacements - widen the register to make aging track LRU more closely.`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {isClock && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium mb-2">Circular Buffer</h3>
+          <div className="bg-gray-50 p-4 rounded-md grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+            <ClockFace
+              step={step}
+              showModifyBits={algorithm === "eclock"}
+              sweepDelay={300 / playbackSpeed}
+            />
+            <div className="text-sm text-[#424242] space-y-2">
+              {!step.isFault ? (
+                <p>
+                  Hit on page {step.reference}: its reference bit
+                  {step.isWrite ? " and modify bit are" : " is"} set and the
+                  hand stays on frame {step.pointerPositionAfter}.
+                </p>
+              ) : step.sweepPath && step.sweepPath.length > 0 ? (
+                <>
+                  <p>
+                    The hand swept{" "}
+                    <span className="font-mono">
+                      {step.sweepPath.map((f) => `F${f}`).join(" → ")}
+                    </span>
+                  </p>
+                  <p>
+                    {step.sweepClears?.some(Boolean)
+                      ? `Reference bits cleared (second chances): ${step.sweepPath
+                          .filter((_, k) => step.sweepClears?.[k])
+                          .map((f) => `F${f}`)
+                          .join(", ")}`
+                      : "No reference bits needed clearing"}
+                  </p>
+                  <p>
+                    Page {step.frames[step.replacedFrame!]} in frame{" "}
+                    {step.replacedFrame} was replaced by page {step.reference}
+                    {algorithm === "eclock" && step.victimClass !== undefined
+                      ? ` (class ${step.victimClass}${
+                          step.writeBack ? ", dirty - written back to disk" : ", clean"
+                        })`
+                      : ""}
+                  </p>
+                </>
+              ) : (
+                <p>
+                  Page {step.reference} was loaded into free frame{" "}
+                  {step.replacedFrame}.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {algorithm === "opt" && step.nextUse && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium mb-2">Look-Ahead</h3>
+          <div className="bg-gray-50 p-4 rounded-md overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-[#757575]">
+                  <th className="px-3 py-1 text-left">Frame</th>
+                  <th className="px-3 py-1 text-left">Page</th>
+                  <th className="px-3 py-1 text-right">Next Use (references ahead)</th>
+                  <th className="px-3 py-1 text-left"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {step.frames.map((page, frameIndex) => (
+                  <tr
+                    key={`lookahead-${frameIndex}`}
+                    className={`border-t ${
+                      optReplaced && step.replacedFrame === frameIndex
+                        ? "bg-[#ffebee]"
+                        : ""
+                    }`}
+                  >
+                    <td className="px-3 py-1">Frame {frameIndex}</td>
+                    <td className="px-3 py-1 font-mono">
+                      {page === -1 ? "-" : page}
+                    </td>
+                    <td className="px-3 py-1 text-right font-mono">
+                      {page === -1 ? "-" : formatNextUse(step.nextUse![frameIndex])}
+                    </td>
+                    <td className="px-3 py-1 text-xs">
+                      {optReplaced && step.replacedFrame === frameIndex && (
+                        <span className="text-[#f44336] font-medium">
+                          Victim (used furthest in the future)
+                        </span>
+                      )}
+                      {!step.isFault && page === step.reference && (
+                        <span className="text-[#4caf50] font-medium">
+                          Referenced now
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-[#757575] mt-2">
+              {!step.isFault
+                ? `Page ${step.reference} is already resident, so nothing is replaced`
+                : optReplaced
+                ? `Page ${step.frames[step.replacedFrame!]} is replaced because no other resident page is needed later`
+                : `Page ${step.reference} is loaded into a free frame`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {isCounting && (
+        <div className="mb-4 p-4 bg-green-50 rounded-md border border-green-200">
+          <h4 className="font-medium text-green-800 mb-2">
+            {algorithm === "lfu"
+              ? "Least Frequently Used (LFU) Explanation"
+              : "Most Frequently Used (MFU) Explanation"}
+          </h4>
+          <p className="text-sm text-green-700 mb-2">
+            Counting-based algorithms keep a reference counter for every
+            resident page:
+          </p>
+          <ul className="list-disc list-inside text-sm text-green-700 mb-2">
+            <li>A page's counter starts at 1 when it is loaded</li>
+            <li>Every hit on the page increments its counter</li>
+            <li>
+              {algorithm === "lfu"
+                ? "LFU replaces the page with the smallest count, assuming heavily used pages will be needed again"
+                : "MFU replaces the page with the largest count, assuming a page with a small count was just brought in"}
+            </li>
+            <li>
+              Ties are broken by the selected policy: oldest load (FIFO), least
+              recent use (LRU) or lowest frame index
+            </li>
+            <li>
+              Optional decay halves every counter periodically, so pages that
+              were popular long ago do not stay resident forever
+            </li>
+          </ul>
+          <div className="flex items-center text-xs text-green-700 bg-green-100 p-2 rounded">
+            <RefreshCcw className="h-4 w-4 mr-1 text-green-700" />
+            The numbers in the frames show each page's reference count
+          </div>
+        </div>
+      )}
+
+      {algorithm === "clock" && (
+        <div className="mb-4 p-4 bg-orange-50 rounded-md border border-orange-200">
+          <h4 className="font-medium text-orange-800 mb-2">
+            Clock (Second-Chance) Algorithm Explanation
+          </h4>
+          <p className="text-sm text-orange-700 mb-2">
+            The Clock algorithm approximates LRU with one reference bit per
+            frame and a hand that sweeps the frames in a circle:
+          </p>
+          <ul className="list-disc list-inside text-sm text-orange-700 mb-2">
+            <li>When a page is referenced, its reference bit is set to 1</li>
+            <li>
+              On a page fault, the hand inspects the frame it points to
+            </li>
+            <li>
+              If the bit is 1, the page gets a second chance: the bit is
+              cleared and the hand advances
+            </li>
+            <li>
+              The first page found with a bit of 0 is replaced, and the hand
+              moves past it
+            </li>
+          </ul>
+          <div className="flex items-center text-xs text-orange-700 bg-orange-100 p-2 rounded">
+            <RotateCw className="h-4 w-4 mr-1 text-orange-700" />
+            Watch the hand sweep the circular buffer - bits it clears are shown
+            in bold orange
+          </div>
+        </div>
+      )}
+
+      {algorithm === "eclock" && (
+        <div className="mb-4 p-4 bg-orange-50 rounded-md border border-orange-200">
+          <h4 className="font-medium text-orange-800 mb-2">
+            Enhanced Second-Chance Algorithm Explanation
+          </h4>
+          <p className="text-sm text-orange-700 mb-2">
+            The enhanced algorithm also considers whether a page has been
+            modified, because evicting a dirty page costs a disk write:
+          </p>
+          <ul className="list-disc list-inside text-sm text-orange-700 mb-2">
+            <li>
+              Each page falls into a class by its (reference, modify) bits:
+              (0,0) best, (0,1), (1,0), (1,1) worst
+            </li>
+            <li>
+              The hand first looks for a (0,0) page without changing any bits
+            </li>
+            <li>
+              If none is found, it looks for a (0,1) page, clearing reference
+              bits as it passes
+            </li>
+            <li>
+              These passes repeat until a victim is found, so clean pages are
+              preferred over dirty ones
+            </li>
+          </ul>
+          <div className="flex items-center text-xs text-orange-700 bg-orange-100 p-2 rounded">
+            <RotateCw className="h-4 w-4 mr-1 text-orange-700" />
+            Mark writes in the reference string with a "w" suffix (e.g. 3w) to
+            set the modify bit
+          </div>
+        </div>
+      )}
+
+      {algorithm === "opt" && (
+        <div className="mb-4 p-4 bg-teal-50 rounded-md border border-teal-200">
+          <h4 className="font-medium text-teal-800 mb-2">
+            Optimal (OPT) Algorithm Explanation
+          </h4>
+          <p className="text-sm text-teal-700 mb-2">
+            The optimal algorithm (Belady's MIN) replaces the page that will not
+            be used for the longest time:
+          </p>
+          <ul className="list-disc list-inside text-sm text-teal-700 mb-2">
+            <li>
+              On a page fault, it looks ahead in the reference string to find
+              when each resident page is needed next
+            </li>
+            <li>
+              The page whose next use is furthest away (or never comes) is
+              replaced
+            </li>
+            <li>
+              It produces the fewest possible page faults for a given number of
+              frames
+            </li>
+            <li>
+              It cannot be implemented in a real system because future
+              references are unknown, so it is used as a benchmark
+            </li>
+          </ul>
+          <div className="flex items-center text-xs text-teal-700 bg-teal-100 p-2 rounded">
+            <Telescope className="h-4 w-4 mr-1 text-teal-700" />
+            The numbers in the frames show how many references ahead each page
+            is used again (∞ = never)
+          </div>
+        </div>
+      )}
+
+      {algorithm === "fifo" && step.queueOrder && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium mb-2">FIFO Queue</h3>
+          <div className="bg-gray-50 p-4 rounded-md overflow-x-auto">
+            <div className="flex items-center">
+              <span className="text-xs text-[#757575] mr-2">Front</span>
+              {step.queueOrder.map((frameIndex, position) => (
+                <div
+                  key={`queue-${frameIndex}`}
+                  className={`px-3 py-2 m-1 rounded font-mono text-sm flex flex-col items-center ${
+                    position === 0 && !step.framesAfter.includes(-1)
+                      ? "bg-[#ff9800] bg-opacity-20 text-[#e65100] font-bold"
+                      : "bg-[#3f51b5] bg-opacity-10 text-[#3f51b5]"
+                  }`}
+                >
+                  {step.framesAfter[frameIndex]}
+                  <span className="text-[10px] font-normal">
+                    Frame {frameIndex}
+                  </span>
+                </div>
+              ))}
+              <span className="text-xs text-[#757575] ml-2">Back</span>
+            </div>
+            <p className="text-xs text-[#757575] mt-2">
+              {step.framesAfter.includes(-1)
+                ? "Free frames remain, so the next fault will not evict a page"
+                : `Next to be evicted: page ${
+                    step.framesAfter[step.queueOrder[0]]
+                  } in frame ${step.queueOrder[0]}`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {step.cacheLists && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium mb-2">Policy Lists</h3>
+          <div className="bg-gray-50 p-4 rounded-md overflow-x-auto space-y-2">
+            {step.cacheLists.map((list) => (
+              <div key={list.name} className="flex items-center">
+                <span className="text-xs text-[#757575] w-44 shrink-0">{list.name}</span>
+                {list.pages.length === 0 ? (
+                  <span className="text-xs text-[#9e9e9e]">empty</span>
+                ) : (
+                  list.pages.map((page) => (
+                    <div
+                      key={`${list.name}-${page}`}
+                      className={`px-2 py-1 m-0.5 rounded font-mono text-sm ${
+                        list.ghost
+                          ? "border border-dashed border-gray-400 text-[#9e9e9e]"
+                          : page === step.reference
+                            ? "bg-[#ff4081] bg-opacity-20 text-[#c2185b] font-bold"
+                            : "bg-[#3f51b5] bg-opacity-10 text-[#3f51b5]"
+                      }`}
+                    >
+                      {page}
+                    </div>
+                  ))
+                )}
+              </div>
+            ))}
+            {step.adaptiveTarget !== undefined && (
+              <p className="text-xs text-[#757575]">
+                {algorithm === "arc"
+                  ? `Target size of T1 (p): ${Number(step.adaptiveTarget.toFixed(2))} of ${step.framesAfter.length} frames`
+                  : `Cold page target: ${step.adaptiveTarget} of ${step.framesAfter.length} frames`}
+              </p>
+            )}
+            <p className="text-xs text-[#757575]">
+              Dashed entries are history only: the page is remembered but holds no frame
+            </p>
+          </div>
+        </div>
+      )}
+
+      {policyExplanations[algorithm] && (
+        <div className="mb-4 p-4 bg-indigo-50 rounded-md border border-indigo-200">
+          <h4 className="font-medium text-indigo-800 mb-2">
+            {policyExplanations[algorithm]!.title}
+          </h4>
+          <ul className="list-disc list-inside text-sm text-indigo-700">
+            {policyExplanations[algorithm]!.points.map((point) => (
+              <li key={point}>{point}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {algorithm === "fifo" && (
+        <div className="mb-4 p-4 bg-amber-50 rounded-md border border-amber-200">
+          <h4 className="font-medium text-amber-800 mb-2">
+            First-In, First-Out (FIFO) Explanation
+          </h4>
+          <p className="text-sm text-amber-700 mb-2">
+            The FIFO algorithm replaces the page that has been in memory the
+            longest:
+          </p>
+          <ul className="list-disc list-inside text-sm text-amber-700 mb-2">
+            <li>Pages are queued in the order they are loaded into frames</li>
+            <li>
+              A page hit does not change the queue, so heavily used pages can
+              still be evicted
+            </li>
+            <li>
+              On a page fault with no free frame, the page at the front of the
+              queue is replaced and the new page joins the back
+            </li>
+            <li>
+              FIFO is cheap to implement but can suffer from Belady's anomaly
+              (more frames causing more faults)
+            </li>
+          </ul>
+          <div className="flex items-center text-xs text-amber-700 bg-amber-100 p-2 rounded">
+            <ListOrdered className="h-4 w-4 mr-1 text-amber-700" />
+            The numbers in the frames show the queue position (1 = next to be
+            evicted, marked with ▼)
+          </div>
+        </div>
+      )}
+
       {algorithm === "arb" && (
         <div className="mb-4 p-4 bg-blue-50 rounded-md border border-blue-200">
           <h4 className="font-medium text-blue-800 mb-2">
@@ -392,13 +933,15 @@ export function MemoryVisualization({
           </p>
           <ul className="list-disc list-inside text-sm text-blue-700 mb-2">
             <li>
-              Each page has an 8-bit history register that records access
-              patterns
+              Each page has a {historyBits}-bit history register that records
+              access patterns
             </li>
             <li>When a page is accessed, its highest bit (MSB) is set to 1</li>
             <li>
-              On every reference, all history registers are shifted right by one
-              bit
+              {shiftInterval === 1
+                ? "On every reference"
+                : `Every ${shiftInterval} references (one timer tick)`}
+              , all history registers are shifted right by one bit
             </li>
             <li>
               This creates a history of page usage where more significant bits
@@ -415,7 +958,7 @@ export function MemoryVisualization({
           </ul>
           <div className="flex items-center text-xs text-blue-700 bg-blue-100 p-2 rounded">
             <RefreshCcw className="h-4 w-4 mr-1 text-amber-700" />
-            Watch for the bit shift animation that occurs on each reference -
+            Watch for the bit shift animation that occurs on each timer tick -
             this is when history bits are moved right and new access information
             becomes the most significant bit
           </div>
@@ -464,12 +1007,56 @@ export function MemoryVisualization({
           <span className="inline-block w-3 h-3 bg-[#e8f5e9] border border-[#4caf50] mr-1"></span>
           Page hit
         </div>
+        {isClock && (
+          <div className="flex items-center text-xs text-[#757575]">
+            <div className="w-4 h-4 rounded-full bg-[#4caf50] text-white mr-1 flex items-center justify-center text-[10px]">
+              1
+            </div>
+            Reference bit (▼ = clock hand)
+          </div>
+        )}
+        {algorithm === "eclock" && (
+          <div className="flex items-center text-xs text-[#757575]">
+            <div className="w-4 h-4 rounded-full bg-[#f44336] text-white mr-1 flex items-center justify-center text-[10px]">
+              D
+            </div>
+            Modify (dirty) bit
+          </div>
+        )}
         {algorithm === "arb" && (
           <div className="flex items-center text-xs text-[#757575]">
             <div className="w-4 h-4 rounded-full bg-[#4caf50] text-white mr-1 flex items-center justify-center text-[10px]">
               1
             </div>
-            Reference bit (MSB from 8-bit history register)
+            Reference bit (MSB from {historyBits}-bit history register)
+          </div>
+        )}
+        {isCounting && (
+          <div className="flex items-center text-xs text-[#757575]">
+            <div
+              className={`w-4 h-4 rounded-full ${
+                algorithm === "lfu" ? "bg-[#4caf50]" : "bg-[#9c27b0]"
+              } text-white mr-1 flex items-center justify-center text-[10px]`}
+            >
+              2
+            </div>
+            Reference count
+          </div>
+        )}
+        {algorithm === "opt" && (
+          <div className="flex items-center text-xs text-[#757575]">
+            <div className="w-4 h-4 rounded-full bg-teal-600 text-white mr-1 flex items-center justify-center text-[10px]">
+              ∞
+            </div>
+            Next use distance (references ahead)
+          </div>
+        )}
+        {algorithm === "fifo" && (
+          <div className="flex items-center text-xs text-[#757575]">
+            <div className="w-4 h-4 rounded-full bg-[#ff9800] text-white mr-1 flex items-center justify-center text-[10px]">
+              1
+            </div>
+            Queue position (1 = next to be evicted)
           </div>
         )}
         {algorithm === "lru" && (
@@ -0,0 +1,483 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Play, RefreshCw, AlertCircle, Layers } from "lucide-react";
+import {
+  FrameAllocation,
+  MultiprogrammingResult,
+  ProcessSpec,
+  ReplacementScope,
+  SharedReplacementPolicy,
+  simulateMultiprogramming,
+  simulateThrashing,
+  ThrashingPoint,
+} from "@/lib/algorithms/multiprogramming";
+import {
+  validateMultiprogrammingInput,
+  validateThrashingOptions,
+} from "@/lib/validators";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  TooltipItem,
+} from "chart.js";
+import { Line } from "react-chartjs-2";
+
+// Register Chart.js components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+// One color per process, reused if there are more processes than colors
+const PROCESS_COLORS = ["#3f51b5", "#4caf50", "#ff9800", "#9c27b0", "#00bcd4", "#795548"];
+
+const processColor = (process: number) =>
+  PROCESS_COLORS[process % PROCESS_COLORS.length];
+
+export function MultiprogrammingPanel() {
+  const [processText, setProcessText] = useState("");
+  const [frames, setFrames] = useState("");
+  const [allocation, setAllocation] = useState<FrameAllocation>("equal");
+  const [scope, setScope] = useState<ReplacementScope>("local");
+  const [policy, setPolicy] = useState<SharedReplacementPolicy>("lru");
+  const [quantum, setQuantum] = useState("2");
+  const [order, setOrder] = useState("");
+  const [maxDegree, setMaxDegree] = useState("8");
+  const [faultServiceTime, setFaultServiceTime] = useState("20");
+  const [error, setError] = useState("");
+  const [processes, setProcesses] = useState<ProcessSpec[]>([]);
+  const [result, setResult] = useState<MultiprogrammingResult | null>(null);
+  const [thrashing, setThrashing] = useState<ThrashingPoint[] | null>(null);
+
+  const handleRun = () => {
+    const validation = validateMultiprogrammingInput(processText, frames, quantum, order);
+    if (!validation.valid) {
+      setError(validation.message);
+      return;
+    }
+
+    const thrashingValidation = validateThrashingOptions(maxDegree, faultServiceTime);
+    if (!thrashingValidation.valid) {
+      setError(thrashingValidation.message);
+      return;
+    }
+
+    setError("");
+    const options = {
+      totalFrames: validation.totalFrames!,
+      allocation,
+      scope,
+      policy,
+      quantum: validation.quantum!,
+      order: validation.order,
+    };
+
+    setProcesses(validation.processes!);
+    setResult(simulateMultiprogramming(validation.processes!, options));
+    setThrashing(
+      simulateThrashing(validation.processes!, {
+        ...options,
+        maxDegree: thrashingValidation.maxDegree!,
+        faultServiceTime: thrashingValidation.faultServiceTime!,
+      })
+    );
+  };
+
+  const handleReset = () => {
+    setProcessText("");
+    setFrames("");
+    setAllocation("equal");
+    setScope("local");
+    setPolicy("lru");
+    setQuantum("2");
+    setOrder("");
+    setMaxDegree("8");
+    setFaultServiceTime("20");
+    setError("");
+    setProcesses([]);
+    setResult(null);
+    setThrashing(null);
+  };
+
+  const chartData = {
+    labels: thrashing?.map((point) => `${point.degree}`) ?? [],
+    datasets: [
+      {
+        label: "CPU Utilization (%)",
+        data: thrashing?.map((point) => point.utilization * 100) ?? [],
+        borderColor: "#3f51b5",
+        backgroundColor: "#3f51b5",
+        pointRadius: 5,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: {
+        title: { display: true, text: "Degree of Multiprogramming" },
+      },
+      y: {
+        title: { display: true, text: "CPU Utilization (%)" },
+        min: 0,
+        max: 100,
+      },
+    },
+    plugins: {
+      legend: { display: false },
+      title: { display: true, text: "Degree of Multiprogramming vs. CPU Utilization" },
+      tooltip: {
+        callbacks: {
+          afterLabel: (context: TooltipItem<"line">) => {
+            const point = thrashing![context.dataIndex];
+            return `${point.faults} faults in ${point.references} references`;
+          },
+        },
+      },
+    },
+  };
+
+  // Utilization peak, after which adding processes only makes things worse
+  const peak = thrashing?.reduce(
+    (best, point) => (point.utilization > best.utilization ? point : best),
+    thrashing[0]
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Input Panel */}
+      <Card className="lg:col-span-1">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Input Parameters</h2>
+
+          <div className="mb-4">
+            <Label htmlFor="mpProcesses" className="text-sm font-medium text-[#757575] mb-1">
+              Processes
+            </Label>
+            <Textarea
+              id="mpProcesses"
+              value={processText}
+              onChange={(e) => setProcessText(e.target.value)}
+              placeholder={"P1: 1 2 3 1 2 4 1 2\nP2/2: 7 8 7 9 7 8"}
+              className="w-full h-24 font-mono text-xs"
+            />
+            <p className="text-xs text-[#757575] mt-1">
+              One process per line as name: pages, with an optional /priority
+            </p>
+          </div>
+
+          <div className="mb-4 grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="mpFrames" className="text-sm font-medium text-[#757575] mb-1">
+                Total Frames
+              </Label>
+              <Input
+                id="mpFrames"
+                type="number"
+                min="1"
+                value={frames}
+                onChange={(e) => setFrames(e.target.value)}
+                placeholder="e.g., 6"
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="mpPolicy" className="text-sm font-medium text-[#757575] mb-1">
+                Replacement
+              </Label>
+              <Select
+                value={policy}
+                onValueChange={(value) => setPolicy(value as SharedReplacementPolicy)}
+              >
+                <SelectTrigger id="mpPolicy" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lru">LRU</SelectItem>
+                  <SelectItem value="arb">ARB</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="mpAllocation" className="text-sm font-medium text-[#757575] mb-1">
+                Allocation
+              </Label>
+              <Select
+                value={allocation}
+                onValueChange={(value) => setAllocation(value as FrameAllocation)}
+              >
+                <SelectTrigger id="mpAllocation" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="equal">Equal</SelectItem>
+                  <SelectItem value="proportional">Proportional</SelectItem>
+                  <SelectItem value="priority">Priority</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="mpScope" className="text-sm font-medium text-[#757575] mb-1">
+                Scope
+              </Label>
+              <Select
+                value={scope}
+                onValueChange={(value) => setScope(value as ReplacementScope)}
+              >
+                <SelectTrigger id="mpScope" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="local">Local</SelectItem>
+                  <SelectItem value="global">Global</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="mpQuantum" className="text-sm font-medium text-[#757575] mb-1">
+                Quantum
+              </Label>
+              <Input
+                id="mpQuantum"
+                type="number"
+                min="1"
+                value={quantum}
+                onChange={(e) => setQuantum(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="mpOrder" className="text-sm font-medium text-[#757575] mb-1">
+                Order
+              </Label>
+              <Input
+                id="mpOrder"
+                type="text"
+                value={order}
+                onChange={(e) => setOrder(e.target.value)}
+                placeholder="Round-robin"
+                className="w-full"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-[#757575] mb-4">
+            Each turn runs a quantum of references. Order lists process names to
+            visit cyclically, e.g. P1 P1 P2
+          </p>
+
+          <h3 className="font-medium mb-2">Thrashing Demo</h3>
+          <div className="mb-6 grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="mpMaxDegree" className="text-sm font-medium text-[#757575] mb-1">
+                Max Degree
+              </Label>
+              <Input
+                id="mpMaxDegree"
+                type="number"
+                min="1"
+                value={maxDegree}
+                onChange={(e) => setMaxDegree(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="mpServiceTime" className="text-sm font-medium text-[#757575] mb-1">
+                Fault Service Time
+              </Label>
+              <Input
+                id="mpServiceTime"
+                type="number"
+                min="1"
+                value={faultServiceTime}
+                onChange={(e) => setFaultServiceTime(e.target.value)}
+                className="w-full"
+              />
+              <p className="text-xs text-[#757575] mt-1">In reference times</p>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-[#f44336] bg-opacity-10 text-[#f44336] rounded-md flex">
+              <AlertCircle className="h-5 w-5 mr-2" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-4">
+            <Button onClick={handleRun} className="bg-primary text-white">
+              <Play className="h-4 w-4 mr-1" />
+              Run
+            </Button>
+            <Button onClick={handleReset} variant="outline">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results Panel */}
+      <Card className="lg:col-span-2">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Simulation Results</h2>
+
+          {!result || !thrashing ? (
+            <div className="text-center py-8 text-[#757575]">
+              <Layers className="h-16 w-16 mx-auto mb-2 text-[#757575]" />
+              <p>Configure parameters and click Run to start the simulation</p>
+            </div>
+          ) : (
+            <div>
+              <div className="overflow-x-auto mb-4">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="px-4 py-2 text-left">Process</th>
+                      <th className="px-4 py-2 text-right">Priority</th>
+                      <th className="px-4 py-2 text-right">Allocated</th>
+                      <th className="px-4 py-2 text-right">Resident at End</th>
+                      <th className="px-4 py-2 text-right">Faults</th>
+                      <th className="px-4 py-2 text-right">Fault Rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.processes.map((stats, i) => (
+                      <tr key={`process-${i}`} className="border-t">
+                        <td className="px-4 py-2 font-medium" style={{ color: processColor(i) }}>
+                          {processes[i].name}
+                        </td>
+                        <td className="px-4 py-2 text-right">{processes[i].priority}</td>
+                        <td className="px-4 py-2 text-right">
+                          {scope === "local" ? stats.allocatedFrames : "-"}
+                        </td>
+                        <td className="px-4 py-2 text-right">{stats.residentFrames}</td>
+                        <td className="px-4 py-2 text-right text-[#f44336]">{stats.faults}</td>
+                        <td className="px-4 py-2 text-right">
+                          {stats.faults + stats.hits === 0
+                            ? "-"
+                            : `${((stats.faults / (stats.faults + stats.hits)) * 100).toFixed(1)}%`}
+                        </td>
+                      </tr>
+                    ))}
+                    <tr className="border-t bg-gray-50 font-medium">
+                      <td className="px-4 py-2">Total</td>
+                      <td className="px-4 py-2"></td>
+                      <td className="px-4 py-2 text-right">{frames}</td>
+                      <td className="px-4 py-2"></td>
+                      <td className="px-4 py-2 text-right text-[#f44336]">{result.faults}</td>
+                      <td className="px-4 py-2 text-right">
+                        {result.steps.length === 0
+                          ? "-"
+                          : `${((result.faults / result.steps.length) * 100).toFixed(1)}%`}
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              <h3 className="font-medium mb-2">Shared Frames Over Time</h3>
+              <div className="overflow-x-auto mb-2">
+                <table className="text-xs border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="px-2 py-1 text-left text-[#757575]">Ref</th>
+                      {result.steps.map((step) => (
+                        <th
+                          key={`ref-${step.time}`}
+                          className="px-2 py-1 font-mono"
+                          style={{ color: processColor(step.process) }}
+                        >
+                          {step.reference}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.steps[0]?.frames.map((_, frame) => (
+                      <tr key={`frame-${frame}`}>
+                        <td className="px-2 py-1 text-[#757575]">F{frame}</td>
+                        {result.steps.map((step) => {
+                          const owner = step.frames[frame];
+                          const changed = step.isFault && step.frameIndex === frame;
+                          return (
+                            <td
+                              key={`cell-${frame}-${step.time}`}
+                              className={`px-2 py-1 border text-center font-mono ${
+                                changed ? "bg-[#f44336] bg-opacity-10" : ""
+                              } ${changed && step.stolen ? "border-[#f44336]" : ""}`}
+                              style={owner ? { color: processColor(owner.process) } : undefined}
+                              title={
+                                changed && step.victim
+                                  ? `Evicted ${processes[step.victim.process].name}:${step.victim.page}`
+                                  : undefined
+                              }
+                            >
+                              {owner ? owner.page : ""}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                    <tr>
+                      <td className="px-2 py-1 text-[#757575]">Fault</td>
+                      {result.steps.map((step) => (
+                        <td
+                          key={`fault-${step.time}`}
+                          className="px-2 py-1 text-center text-[#f44336]"
+                        >
+                          {step.isFault ? (step.stolen ? "S" : "F") : ""}
+                        </td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-[#757575] mb-6">
+                Column headers and cells are colored by process. F marks a page
+                fault and S a fault that took a frame from another process
+                (global replacement only).
+              </p>
+
+              <div className="mb-4 bg-gray-50 p-4 rounded-md" style={{ height: "280px" }}>
+                <Line data={chartData} options={chartOptions} />
+              </div>
+              {peak && (
+                <p className="text-sm text-[#757575]">
+                  Utilization peaks at {(peak.utilization * 100).toFixed(1)}% with{" "}
+                  {peak.degree} process{peak.degree === 1 ? "" : "es"}. Beyond that
+                  the processes' working sets no longer fit in {frames} frames,
+                  faults queue at the paging device and the CPU sits idle
+                  (thrashing).
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
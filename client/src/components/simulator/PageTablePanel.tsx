@@ -0,0 +1,382 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Play, RefreshCw, AlertCircle, Table2 } from "lucide-react";
+import {
+  AddressSpace,
+  PageTableResult,
+  PageTableStructure,
+  simulatePageTables,
+} from "@/lib/algorithms/pageTables";
+import { validatePageTableInput } from "@/lib/validators";
+
+const STRUCTURE_LABELS: Record<PageTableStructure, string> = {
+  conventional: "Conventional (per process)",
+  inverted: "Inverted (linear search)",
+  anchored: "Inverted + hash anchor table",
+  hashed: "Hashed page table",
+};
+
+// One color per process, reused if there are more processes than colors
+const PROCESS_COLORS = ["#3f51b5", "#4caf50", "#ff9800", "#9c27b0", "#00bcd4", "#795548"];
+
+const processColor = (process: number) =>
+  PROCESS_COLORS[process % PROCESS_COLORS.length];
+
+const toHex = (value: number) => `0x${value.toString(16).toUpperCase()}`;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : bytes >= 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${bytes} B`;
+
+export function PageTablePanel() {
+  const [processText, setProcessText] = useState("");
+  const [addressBits, setAddressBits] = useState("16");
+  const [pageSize, setPageSize] = useState("256");
+  const [levels, setLevels] = useState("2");
+  const [frames, setFrames] = useState("8");
+  const [buckets, setBuckets] = useState("4");
+  const [entryBytes, setEntryBytes] = useState("4");
+  const [error, setError] = useState("");
+  const [spaces, setSpaces] = useState<AddressSpace[]>([]);
+  const [result, setResult] = useState<PageTableResult | null>(null);
+
+  const handleRun = () => {
+    const validation = validatePageTableInput(
+      processText,
+      addressBits,
+      pageSize,
+      levels,
+      frames,
+      buckets,
+      entryBytes
+    );
+    if (!validation.valid) {
+      setError(validation.message);
+      return;
+    }
+
+    setError("");
+    setSpaces(validation.spaces!);
+    setResult(
+      simulatePageTables(validation.spaces!, {
+        addressBits: validation.addressBits!,
+        pageSize: validation.pageSize!,
+        levels: validation.levels!,
+        frameCount: validation.frameCount!,
+        buckets: validation.buckets!,
+        entryBytes: validation.entryBytes!,
+      })
+    );
+  };
+
+  const handleReset = () => {
+    setProcessText("");
+    setAddressBits("16");
+    setPageSize("256");
+    setLevels("2");
+    setFrames("8");
+    setBuckets("4");
+    setEntryBytes("4");
+    setError("");
+    setSpaces([]);
+    setResult(null);
+  };
+
+  const pageLabel = (process: number, page: number) => (
+    <span style={{ color: processColor(process) }}>
+      {spaces[process]?.name}:{page}
+    </span>
+  );
+
+  // Smallest table and shortest average search, highlighted in the comparison
+  const smallest = result ? Math.min(...result.summaries.map((s) => s.bytes)) : 0;
+  const fastest = result ? Math.min(...result.summaries.map((s) => s.averageSearch)) : 0;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Input Panel */}
+      <Card className="lg:col-span-1">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Input Parameters</h2>
+
+          <div className="mb-4">
+            <Label htmlFor="ptProcesses" className="text-sm font-medium text-[#757575] mb-1">
+              Processes
+            </Label>
+            <Textarea
+              id="ptProcesses"
+              value={processText}
+              onChange={(e) => setProcessText(e.target.value)}
+              placeholder={"P1: 0x1A3F 0x1A40 0x3F00\nP2: 0x1A00 0x2200 0x0100"}
+              className="w-full h-24 font-mono text-xs"
+            />
+            <p className="text-xs text-[#757575] mt-1">
+              One process per line as name: addresses (decimal or 0x hex)
+            </p>
+          </div>
+
+          <div className="mb-4 grid grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="ptAddressBits" className="text-sm font-medium text-[#757575] mb-1">
+                Address Bits
+              </Label>
+              <Input
+                id="ptAddressBits"
+                type="number"
+                min="2"
+                max="52"
+                value={addressBits}
+                onChange={(e) => setAddressBits(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="ptPageSize" className="text-sm font-medium text-[#757575] mb-1">
+                Page Size
+              </Label>
+              <Input
+                id="ptPageSize"
+                type="number"
+                min="1"
+                value={pageSize}
+                onChange={(e) => setPageSize(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="ptLevels" className="text-sm font-medium text-[#757575] mb-1">
+                Levels
+              </Label>
+              <Input
+                id="ptLevels"
+                type="number"
+                min="1"
+                max="4"
+                value={levels}
+                onChange={(e) => setLevels(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="ptFrames" className="text-sm font-medium text-[#757575] mb-1">
+                Frames
+              </Label>
+              <Input
+                id="ptFrames"
+                type="number"
+                min="1"
+                value={frames}
+                onChange={(e) => setFrames(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="ptBuckets" className="text-sm font-medium text-[#757575] mb-1">
+                Buckets
+              </Label>
+              <Input
+                id="ptBuckets"
+                type="number"
+                min="1"
+                value={buckets}
+                onChange={(e) => setBuckets(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="ptEntryBytes" className="text-sm font-medium text-[#757575] mb-1">
+                Entry Bytes
+              </Label>
+              <Input
+                id="ptEntryBytes"
+                type="number"
+                min="1"
+                value={entryBytes}
+                onChange={(e) => setEntryBytes(e.target.value)}
+                className="w-full"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-[#757575] mb-6">
+            Levels apply to the conventional table. Pages are loaded on first
+            use and replaced FIFO when all frames are full.
+          </p>
+
+          {error && (
+            <div className="mb-4 p-3 bg-[#f44336] bg-opacity-10 text-[#f44336] rounded-md flex">
+              <AlertCircle className="h-5 w-5 mr-2" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-4">
+            <Button onClick={handleRun} className="bg-primary text-white">
+              <Play className="h-4 w-4 mr-1" />
+              Run
+            </Button>
+            <Button onClick={handleReset} variant="outline">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results Panel */}
+      <Card className="lg:col-span-2">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Simulation Results</h2>
+
+          {!result ? (
+            <div className="text-center py-8 text-[#757575]">
+              <Table2 className="h-16 w-16 mx-auto mb-2 text-[#757575]" />
+              <p>Configure parameters and click Run to start the simulation</p>
+            </div>
+          ) : (
+            <div>
+              <h3 className="font-medium mb-2">Space/Time Trade-off</h3>
+              <div className="overflow-x-auto mb-6">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="px-4 py-2 text-left">Structure</th>
+                      <th className="px-4 py-2 text-right">Entries</th>
+                      <th className="px-4 py-2 text-right">Memory</th>
+                      <th className="px-4 py-2 text-right">Avg. Search</th>
+                      <th className="px-4 py-2 text-right">Max Search</th>
+                      <th className="px-4 py-2 text-right">Collisions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.summaries.map((summary) => (
+                      <tr key={summary.structure} className="border-t">
+                        <td className="px-4 py-2 font-medium">{STRUCTURE_LABELS[summary.structure]}</td>
+                        <td className="px-4 py-2 text-right">{summary.entries}</td>
+                        <td className={`px-4 py-2 text-right ${summary.bytes === smallest ? "text-[#4caf50] font-medium" : ""}`}>
+                          {formatBytes(summary.bytes)}
+                        </td>
+                        <td className={`px-4 py-2 text-right ${summary.averageSearch === fastest ? "text-[#4caf50] font-medium" : ""}`}>
+                          {summary.averageSearch.toFixed(2)}
+                        </td>
+                        <td className="px-4 py-2 text-right">{summary.maxSearch}</td>
+                        <td className="px-4 py-2 text-right">
+                          {summary.structure === "anchored" || summary.structure === "hashed"
+                            ? summary.collisions
+                            : "-"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                <div>
+                  <h3 className="font-medium mb-2">Hashed Page Table</h3>
+                  <div className="space-y-1 text-xs font-mono">
+                    {result.hashedChains.map((chain, bucket) => (
+                      <div key={`bucket-${bucket}`} className="flex items-center flex-wrap">
+                        <span className="w-10 text-[#757575]">[{bucket}]</span>
+                        {chain.length === 0 ? (
+                          <span className="text-[#757575]">∅</span>
+                        ) : (
+                          chain.map((entry, i) => (
+                            <span key={`entry-${bucket}-${i}`} className="flex items-center">
+                              {i > 0 && <span className="mx-1 text-[#757575]">→</span>}
+                              <span className="border rounded px-1 bg-gray-50">
+                                {pageLabel(entry.process, entry.page)} ⇒ F{entry.frame}
+                              </span>
+                            </span>
+                          ))
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <h3 className="font-medium mb-2">Inverted Page Table</h3>
+                  <div className="space-y-1 text-xs font-mono">
+                    {result.invertedTable.map((entry, frame) => (
+                      <div key={`ipt-${frame}`} className="flex items-center">
+                        <span className="w-10 text-[#757575]">F{frame}</span>
+                        <span className="border rounded px-1 bg-gray-50">
+                          {entry ? pageLabel(entry.process, entry.page) : "free"}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-[#757575] mt-2">
+                    Anchor chains:{" "}
+                    {result.anchorChains
+                      .map((chain, bucket) => `[${bucket}] ${chain.length === 0 ? "∅" : chain.map((f) => `F${f}`).join(" → ")}`)
+                      .join(", ")}
+                  </p>
+                </div>
+              </div>
+
+              <h3 className="font-medium mb-2">Lookups</h3>
+              <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="px-3 py-2 text-left">Process</th>
+                      <th className="px-3 py-2 text-left">Address</th>
+                      <th className="px-3 py-2 text-right">Page</th>
+                      <th className="px-3 py-2 text-right">Frame</th>
+                      <th className="px-3 py-2 text-right">Bucket</th>
+                      <th className="px-3 py-2 text-right">Conv.</th>
+                      <th className="px-3 py-2 text-right">Inverted</th>
+                      <th className="px-3 py-2 text-right">Anchored</th>
+                      <th className="px-3 py-2 text-right">Hashed</th>
+                      <th className="px-3 py-2 text-left">Notes</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.steps.map((step, i) => (
+                      <tr key={`lookup-${i}`} className={`border-t ${step.isFault ? "bg-[#f44336] bg-opacity-5" : ""}`}>
+                        <td className="px-3 py-1" style={{ color: processColor(step.process) }}>
+                          {spaces[step.process]?.name}
+                        </td>
+                        <td className="px-3 py-1 font-mono">{toHex(step.virtualAddress)}</td>
+                        <td className="px-3 py-1 text-right">{step.pageNumber}</td>
+                        <td className="px-3 py-1 text-right">{step.frame}</td>
+                        <td className="px-3 py-1 text-right">{step.bucket}</td>
+                        <td className="px-3 py-1 text-right">{step.searchLengths.conventional}</td>
+                        <td className="px-3 py-1 text-right">{step.searchLengths.inverted}</td>
+                        <td className="px-3 py-1 text-right">{step.searchLengths.anchored}</td>
+                        <td className="px-3 py-1 text-right">{step.searchLengths.hashed}</td>
+                        <td className="px-3 py-1 text-xs">
+                          {step.isFault && <span className="text-[#f44336]">fault</span>}
+                          {step.collision && <span className="text-[#ff9800]"> collision</span>}
+                          {step.evicted && (
+                            <span className="text-[#757575]">
+                              {" "}evicted {pageLabel(step.evicted.process, step.evicted.page)}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-[#757575] mt-2">
+                Search columns count the entries examined (page-table levels read
+                for the conventional table). Buckets are (process × 31 + page)
+                mod {result.hashedChains.length}. The conventional table grows with the address space
+                touched, while the inverted table is fixed at one entry per frame
+                but must be searched.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Play, Pause, SkipBack, SkipForward, RotateCw } from "lucide-react";
+import { Playback } from "@/hooks/use-playback";
+
+interface PlaybackControlsProps {
+  playback: Playback;
+  title: string;
+}
+
+// Heading with step counter and speed, timeline slider, and transport buttons
+export function PlaybackControls({ playback, title }: PlaybackControlsProps) {
+  const { currentStep, stepCount, isPlaying, playbackSpeed } = playback;
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium">{title}</h3>
+        <div className="flex space-x-2">
+          <div className="bg-[#e0e0e0] text-[#424242] text-sm py-1 px-2 rounded">
+            Step {currentStep + 1} of {stepCount}
+          </div>
+          <select
+            className="bg-white border border-gray-300 text-[#424242] text-sm p-1 rounded"
+            value={playbackSpeed}
+            onChange={(e) => playback.setPlaybackSpeed(Number(e.target.value))}
+          >
+            <option value={0.5}>0.5x</option>
+            <option value={1}>1x</option>
+            <option value={2}>2x</option>
+            <option value={4}>4x</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <Slider
+          value={[currentStep]}
+          min={0}
+          max={stepCount - 1}
+          step={1}
+          onValueChange={(value) => playback.seek(value[0])}
+        />
+      </div>
+
+      <div className="flex justify-center space-x-4 mb-6">
+        <Button variant="outline" onClick={playback.reset} size="icon">
+          <RotateCw className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          onClick={playback.stepBack}
+          size="icon"
+          disabled={currentStep === 0}
+        >
+          <SkipBack className="h-4 w-4" />
+        </Button>
+        {isPlaying ? (
+          <Button onClick={playback.pause} className="bg-primary text-white">
+            <Pause className="h-4 w-4 mr-1" />
+            Pause
+          </Button>
+        ) : (
+          <Button onClick={playback.play} className="bg-primary text-white">
+            <Play className="h-4 w-4 mr-1" />
+            Play
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          onClick={playback.stepForward}
+          size="icon"
+          disabled={currentStep === stepCount - 1}
+        >
+          <SkipForward className="h-4 w-4" />
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,398 @@
+import React, { useState } from "react";
+import {
+  RaidCellKind,
+  RaidConfig,
+  RaidRebuild,
+  RaidResult,
+  stripeLayout,
+} from "@/lib/algorithms/raid";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import { Line } from "react-chartjs-2";
+
+// Register Chart.js components
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend);
+
+interface RaidVisualizationProps {
+  result: RaidResult;
+  rebuild: RaidRebuild | null;
+  config: RaidConfig;
+  algorithmName: string;
+}
+
+// One color per member disk, reused past the end
+const DISK_COLORS = ["#3f51b5", "#4caf50", "#ff9800", "#9c27b0", "#00bcd4", "#795548"];
+
+const cellStyles: Record<RaidCellKind, string> = {
+  data: "bg-[#3f51b5] bg-opacity-10 text-[#3f51b5]",
+  mirror: "bg-[#00bcd4] bg-opacity-10 text-[#00838f]",
+  parity: "bg-[#ff9800] bg-opacity-20 text-[#e65100]",
+  q: "bg-[#9c27b0] bg-opacity-10 text-[#9c27b0]",
+};
+
+const levelNames: Record<RaidConfig["level"], string> = {
+  raid0: "RAID 0",
+  raid1: "RAID 1",
+  raid4: "RAID 4",
+  raid5: "RAID 5",
+  raid6: "RAID 6",
+  raid10: "RAID 10",
+};
+
+// Most stripes shown in the layout, lowest first
+const MAX_LAYOUT_ROWS = 12;
+
+// Points plotted on the rebuild timeline
+const REBUILD_SAMPLES = 50;
+
+const formatMs = (ms: number) => `${ms.toFixed(2)} ms`;
+
+export function RaidVisualization({ result, rebuild, config, algorithmName }: RaidVisualizationProps) {
+  const [selected, setSelected] = useState(0);
+  const plan = result.plans[selected];
+
+  const stripes = Array.from(new Set(result.plans.map((p) => p.stripe)))
+    .sort((a, b) => a - b)
+    .slice(0, MAX_LAYOUT_ROWS);
+  const ioAt = (disk: number, stripe: number) =>
+    plan && plan.stripe === stripe ? plan.ios.filter((io) => io.disk === disk) : [];
+
+  const activeDisks = result.disks.filter((run) => run.result);
+  const longest = Math.max(1, ...activeDisks.map((run) => run.result!.sequence.length));
+  const headData = {
+    labels: Array.from({ length: longest }, (_, i) => i),
+    datasets: activeDisks.map((run) => ({
+      label: `Disk ${run.disk}`,
+      data: run.result!.sequence,
+      borderColor: DISK_COLORS[run.disk % DISK_COLORS.length],
+      backgroundColor: DISK_COLORS[run.disk % DISK_COLORS.length],
+      pointRadius: 3,
+      tension: 0,
+    })),
+  };
+
+  const headOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { title: { display: true, text: "Request Sequence" } },
+      y: { title: { display: true, text: "Cylinder (Stripe)" }, min: 0 },
+    },
+    plugins: {
+      legend: { position: "top" as const },
+      title: { display: true, text: `${algorithmName} on Each Member Disk` },
+    },
+  };
+
+  // Thin the rebuild steps to a readable number of points
+  const every = rebuild ? Math.max(1, Math.ceil(rebuild.steps.length / REBUILD_SAMPLES)) : 1;
+  const samples = rebuild
+    ? rebuild.steps.filter((_, i) => i % every === 0 || i === rebuild.steps.length - 1)
+    : [];
+  const rebuildData = {
+    datasets: [
+      {
+        label: "Stripes rebuilt",
+        data: samples.map((step) => ({
+          x: step.finishMs / 1000,
+          y: ((step.stripe + 1) / rebuild!.steps.length) * 100,
+        })),
+        borderColor: "#4caf50",
+        backgroundColor: "#4caf50",
+        pointRadius: 0,
+      },
+    ],
+  };
+
+  const rebuildOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { type: "linear" as const, title: { display: true, text: "Time (s)" }, min: 0 },
+      y: { title: { display: true, text: "Rebuilt (%)" }, min: 0, max: 100 },
+    },
+    plugins: {
+      legend: { display: false },
+      title: { display: true, text: `Rebuilding Disk ${rebuild?.disks.join(", ")}` },
+    },
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Member Reads / Writes</p>
+          <p className="text-2xl font-medium">
+            {result.reads} / {result.writes}
+          </p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Disk I/Os per Request</p>
+          <p className="text-2xl font-medium text-[#3f51b5]">
+            {result.plans.length === 0
+              ? "0"
+              : ((result.reads + result.writes) / result.plans.length).toFixed(2)}
+          </p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Array Time</p>
+          <p className="text-2xl font-medium">{formatMs(result.arrayMs)}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Lost Requests</p>
+          <p
+            className={`text-2xl font-medium ${
+              result.lostRequests > 0 ? "text-[#f44336]" : "text-[#4caf50]"
+            }`}
+          >
+            {result.lostRequests}
+          </p>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <h3 className="text-lg font-medium mb-2">Stripe Layout</h3>
+        <div className="overflow-x-auto">
+          <table className="text-sm border-separate" style={{ borderSpacing: "4px" }}>
+            <thead>
+              <tr>
+                <th className="px-2 text-left font-medium text-[#757575]">Stripe</th>
+                {Array.from({ length: config.disks }, (_, d) => (
+                  <th
+                    key={d}
+                    className={`px-2 font-medium ${
+                      config.failed.includes(d) ? "text-[#f44336] line-through" : "text-[#757575]"
+                    }`}
+                  >
+                    Disk {d}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {stripes.map((stripe) => (
+                <tr key={stripe}>
+                  <td className="px-2 text-[#757575]">{stripe}</td>
+                  {stripeLayout(config, stripe).map((cell, d) => {
+                    const ios = ioAt(d, stripe);
+                    return (
+                      <td
+                        key={d}
+                        className={`px-2 py-1 rounded text-center font-mono w-16 ${
+                          config.failed.includes(d) ? "bg-[#f44336] bg-opacity-10 text-[#9e9e9e]" : cellStyles[cell.kind]
+                        } ${ios.length > 0 ? "ring-2 ring-[#212121]" : ""}`}
+                        title={
+                          cell.kind === "data" || cell.kind === "mirror"
+                            ? `Disk ${d}, cylinder ${stripe}: ${cell.kind === "mirror" ? "copy of " : ""}block ${cell.block}`
+                            : `Disk ${d}, cylinder ${stripe}: ${cell.kind === "q" ? "Q syndrome" : "parity"}`
+                        }
+                      >
+                        {cell.kind === "parity"
+                          ? "P"
+                          : cell.kind === "q"
+                          ? "Q"
+                          : `${cell.block}${cell.kind === "mirror" ? "′" : ""}`}
+                        {ios.length > 0 && (
+                          <span className="block text-[10px] text-[#212121]">
+                            {ios.map((io) => (io.write ? "W" : "R")).join(" ")}
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-[#757575] mt-2">
+          Stripe s sits on cylinder s of every disk. P is parity, Q the second
+          RAID 6 syndrome and ′ a mirror copy. The outlined cells are the disk
+          I/Os of the selected request
+        </p>
+      </div>
+
+      <div className="mb-6">
+        <h3 className="text-lg font-medium mb-2">Request Mapping</h3>
+        <div className="overflow-x-auto max-h-64 overflow-y-auto border rounded-md">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-[#757575]">#</th>
+                <th className="px-3 py-2 text-left font-medium text-[#757575]">Block</th>
+                <th className="px-3 py-2 text-left font-medium text-[#757575]">Stripe</th>
+                <th className="px-3 py-2 text-left font-medium text-[#757575]">Handling</th>
+                <th className="px-3 py-2 text-left font-medium text-[#757575]">Disk I/Os</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.plans.map((p, i) => (
+                <tr
+                  key={i}
+                  onClick={() => setSelected(i)}
+                  className={`border-t cursor-pointer ${
+                    i === selected ? "bg-[#3f51b5] bg-opacity-10" : "hover:bg-gray-50"
+                  } ${p.lost ? "text-[#f44336]" : ""}`}
+                >
+                  <td className="px-3 py-1">{i + 1}</td>
+                  <td className="px-3 py-1 font-mono">
+                    {p.block}
+                    {p.write ? "w" : "r"}
+                  </td>
+                  <td className="px-3 py-1">{p.stripe}</td>
+                  <td className="px-3 py-1">{p.mode}</td>
+                  <td className="px-3 py-1 font-mono">
+                    {p.ios.map((io) => `${io.write ? "W" : "R"}${io.disk}`).join(" ") || "-"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-[#757575] mt-2">
+          Click a request to outline its disk I/Os in the layout. R2 is a read
+          on disk 2, W2 a write
+        </p>
+      </div>
+
+      <div className="mb-6">
+        <h3 className="text-lg font-medium mb-2">Member Disks</h3>
+        <div className="overflow-x-auto border rounded-md mb-4">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-[#757575]">Disk</th>
+                <th className="px-3 py-2 text-left font-medium text-[#757575]">I/Os</th>
+                <th className="px-3 py-2 text-left font-medium text-[#757575]">Seek Distance</th>
+                <th className="px-3 py-2 text-left font-medium text-[#757575]">Busy Time</th>
+                <th className="px-3 py-2 text-left font-medium text-[#757575]">Head Path</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.disks.map((run) => (
+                <tr key={run.disk} className="border-t">
+                  <td className="px-3 py-1" style={{ color: DISK_COLORS[run.disk % DISK_COLORS.length] }}>
+                    Disk {run.disk}
+                  </td>
+                  {run.failed ? (
+                    <td colSpan={4} className="px-3 py-1 text-[#f44336]">
+                      Failed
+                    </td>
+                  ) : (
+                    <>
+                      <td className="px-3 py-1">{run.requests.length}</td>
+                      <td className="px-3 py-1">{run.result?.seekDistance ?? 0}</td>
+                      <td className="px-3 py-1">{formatMs(run.timing?.totalMs ?? 0)}</td>
+                      <td className="px-3 py-1 font-mono text-xs">
+                        {run.result ? run.result.sequence.join(" → ") : "idle"}
+                      </td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {activeDisks.length > 0 && (
+          <div className="bg-gray-50 p-4 rounded-md" style={{ height: "260px" }}>
+            <Line data={headData} options={headOptions} />
+          </div>
+        )}
+      </div>
+
+      {config.failed.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium mb-2">Rebuild Timeline</h3>
+          {rebuild ? (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Reads from Survivors</p>
+                  <p className="text-2xl font-medium">{rebuild.reads}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Writes to Replacements</p>
+                  <p className="text-2xl font-medium">{rebuild.writes}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Rebuild Time</p>
+                  <p className="text-2xl font-medium text-[#f44336]">
+                    {(rebuild.totalMs / 1000).toFixed(2)} s
+                  </p>
+                </div>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-md" style={{ height: "220px" }}>
+                <Line data={rebuildData} options={rebuildOptions} />
+              </div>
+              <p className="text-xs text-[#757575] mt-2">
+                Every stripe is read from disk{" "}
+                {Array.from(new Set(rebuild.steps.flatMap((step) => step.sources))).join(", ")}{" "}
+                and written to the replacement, one block per cylinder. Until
+                it finishes, every read of a lost block is a degraded read
+              </p>
+            </>
+          ) : (
+            <div className="p-3 bg-[#f44336] bg-opacity-10 text-[#f44336] rounded-md text-sm">
+              {levelNames[config.level]} cannot rebuild from these failures: the
+              data on the failed disks is lost
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="mb-4 p-4 bg-indigo-50 rounded-md border border-indigo-200">
+        <h4 className="font-medium text-indigo-800 mb-2">
+          {levelNames[config.level]} Explanation
+        </h4>
+        <ul className="list-disc list-inside text-sm text-indigo-700">
+          {config.level === "raid0" && (
+            <>
+              <li>Blocks are striped across every disk, so all of them serve requests in parallel</li>
+              <li>There is no redundancy: losing any disk loses the blocks on it</li>
+            </>
+          )}
+          {config.level === "raid1" && (
+            <>
+              <li>Every disk holds a full copy, so reads can go to any of them</li>
+              <li>Each write goes to every copy; the array survives all but one disk failing</li>
+            </>
+          )}
+          {(config.level === "raid4" || config.level === "raid5" || config.level === "raid6") && (
+            <>
+              <li>
+                {config.level === "raid4"
+                  ? "One disk holds the parity of every stripe, so every write queues on it"
+                  : config.level === "raid5"
+                  ? "Parity rotates across the disks, so no single disk takes every parity update"
+                  : "Two independent syndromes, P and Q, rotate across the disks and survive any two failures"}
+              </li>
+              <li>
+                A small write reads the old data and parity, then writes both back:{" "}
+                {config.level === "raid6" ? "six" : "four"} disk I/Os for one block
+              </li>
+              <li>
+                A read from a failed disk is rebuilt from the rest of the
+                stripe, costing one read per surviving data disk
+              </li>
+            </>
+          )}
+          {config.level === "raid10" && (
+            <>
+              <li>Neighbouring disks form mirrored pairs and blocks are striped across the pairs</li>
+              <li>The array survives one failure per pair; rebuilding copies a single partner</li>
+            </>
+          )}
+          <li>Each member disk orders its own queue with {algorithmName}</li>
+        </ul>
+      </div>
+    </div>
+  );
+}
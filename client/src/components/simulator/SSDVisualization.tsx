@@ -0,0 +1,241 @@
+import React from "react";
+import { SSDConfig, SSDResult, validPages } from "@/lib/algorithms/ssd";
+import { usePlayback } from "@/hooks/use-playback";
+import { PlaybackControls } from "./PlaybackControls";
+
+interface SSDVisualizationProps {
+  result: SSDResult; // Requests served in the scheduler's order
+  arrivalResult: SSDResult; // The same requests in queue order
+  algorithmName: string;
+  config: SSDConfig;
+}
+
+const formatUs = (us: number) => (us >= 1000 ? `${(us / 1000).toFixed(2)} ms` : `${us} µs`);
+
+export function SSDVisualization({
+  result,
+  arrivalResult,
+  algorithmName,
+  config,
+}: SSDVisualizationProps) {
+  const { pagesPerBlock } = config;
+  const playback = usePlayback(result.steps.length);
+  const step = result.steps[playback.currentStep];
+  const erasedBlocks = step.erases.map((erase) => erase.block);
+
+  const eraseCounts = step.blocks.map((block) => block.eraseCount);
+  const maxErases = Math.max(...eraseCounts);
+  const minErases = Math.min(...eraseCounts);
+
+  const flashWrites = result.hostWrites + result.gcWrites + result.wearLevelingWrites;
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Write Amplification</p>
+          <p className="text-2xl font-medium text-[#3f51b5]">
+            {result.writeAmplification.toFixed(2)}
+          </p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Host / Flash Writes</p>
+          <p className="text-2xl font-medium">
+            {result.hostWrites} / {flashWrites}
+          </p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Block Erases</p>
+          <p className="text-2xl font-medium text-[#f44336]">{result.erases}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Flash Busy Time</p>
+          <p className="text-2xl font-medium">{formatUs(result.totalUs)}</p>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <h3 className="text-lg font-medium mb-2">Does Request Order Matter?</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[
+            { label: `${algorithmName} order`, run: result },
+            { label: "Queue order", run: arrivalResult },
+          ].map(({ label, run }) => (
+            <div key={label} className="bg-gray-50 p-4 rounded-md">
+              <p className="text-sm text-[#757575]">{label}</p>
+              <p className="text-2xl font-medium">{formatUs(run.totalUs)}</p>
+              <p className="text-xs text-[#757575] mt-1">
+                {run.hostReads} reads, {run.hostWrites} writes, {run.erases} erases
+              </p>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-[#757575] mt-2">
+          Flash has no head to move: a read or program costs the same at any
+          address, so reordering requests by address saves nothing. Any
+          difference comes from garbage collection, which depends on which
+          pages are still valid, not on how far apart they are.
+        </p>
+      </div>
+
+      <PlaybackControls playback={playback} title="Flash Blocks" />
+
+      <div className="p-3 mb-4 rounded-md text-sm border-l-4 bg-gray-50 border-[#3f51b5]">
+        <p>
+          {config.passes > 1 && `Pass ${step.pass}, `}Request {step.request + 1}:{" "}
+          {step.message} ({formatUs(step.timeUs)})
+        </p>
+        {step.erases.map((erase, i) => (
+          <p key={i} className="text-xs text-[#757575] mt-1">
+            {erase.wearLeveling ? "Wear leveling" : "Garbage collection"} erased
+            block {erase.block} ({erase.reason}), moving {erase.moved} valid
+            page{erase.moved === 1 ? "" : "s"}
+          </p>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-4 md:grid-cols-8 gap-2 mb-2">
+        {step.blocks.map((block, b) => (
+          <div
+            key={`block-${b}`}
+            className={`bg-white border rounded-sm p-1 ${
+              erasedBlocks.includes(b) ? "border-[#ff9800] border-2" : "border-gray-300"
+            }`}
+            title={`Block ${b}: ${validPages(block)} valid, erased ${block.eraseCount} times`}
+          >
+            <p className="text-[10px] text-[#757575] mb-1">block {b}</p>
+            <div className="flex flex-wrap gap-0.5">
+              {block.pages.map((page, p) => {
+                const ppn = b * pagesPerBlock + p;
+                return (
+                  <div
+                    key={`page-${p}`}
+                    className={`w-5 h-5 rounded-sm text-[9px] flex items-center justify-center ${
+                      ppn === step.ppn ? "ring-2 ring-[#212121]" : ""
+                    } ${
+                      page === null
+                        ? "bg-[#e0e0e0]"
+                        : page === "invalid"
+                        ? "bg-[#f44336] bg-opacity-30"
+                        : "bg-[#3f51b5] text-white"
+                    }`}
+                    title={
+                      page === null
+                        ? `Page ${ppn}: free`
+                        : page === "invalid"
+                        ? `Page ${ppn}: invalid`
+                        : `Page ${ppn}: logical page ${page}`
+                    }
+                  >
+                    {typeof page === "number" ? page : ""}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-[#757575] mb-6">
+        <span className="flex items-center">
+          <span className="inline-block w-3 h-3 rounded-sm bg-[#3f51b5] mr-1"></span>
+          Valid (logical page)
+        </span>
+        <span className="flex items-center">
+          <span className="inline-block w-3 h-3 rounded-sm bg-[#f44336] bg-opacity-30 mr-1"></span>
+          Invalid
+        </span>
+        <span className="flex items-center">
+          <span className="inline-block w-3 h-3 rounded-sm bg-[#e0e0e0] mr-1"></span>
+          Free
+        </span>
+        <span className="flex items-center">
+          <span className="inline-block w-3 h-3 rounded-sm border-2 border-[#ff9800] mr-1"></span>
+          Erased this step
+        </span>
+      </div>
+
+      <div className="mb-6">
+        <h3 className="text-lg font-medium mb-2">Erase Counts</h3>
+        <div className="grid grid-cols-8 md:grid-cols-12 gap-1">
+          {eraseCounts.map((count, b) => (
+            <div
+              key={`wear-${b}`}
+              className="h-8 rounded-sm border border-gray-200 text-[10px] flex items-center justify-center"
+              style={{
+                backgroundColor: `rgba(244, 67, 54, ${maxErases === 0 ? 0 : count / maxErases})`,
+                color: maxErases > 0 && count / maxErases > 0.5 ? "white" : "#424242",
+              }}
+              title={`Block ${b}: erased ${count} times`}
+            >
+              {count}
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-[#757575] mt-2">
+          Least worn block: {minErases} erases · most worn: {maxErases} · spread:{" "}
+          {maxErases - minErases}. A drive wears out when its most worn block does.
+        </p>
+      </div>
+
+      <div className="mb-6">
+        <h3 className="text-lg font-medium mb-2">FTL Mapping Table</h3>
+        <div className="overflow-x-auto max-h-48 overflow-y-auto border rounded-md">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-[#757575]">Logical Page</th>
+                <th className="px-3 py-2 text-left font-medium text-[#757575]">Physical Page</th>
+                <th className="px-3 py-2 text-left font-medium text-[#757575]">Block</th>
+              </tr>
+            </thead>
+            <tbody>
+              {step.mapping.map((ppn, lpn) =>
+                ppn === null ? null : (
+                  <tr
+                    key={lpn}
+                    className={`border-t ${lpn === step.lpn ? "bg-[#3f51b5] bg-opacity-10" : ""}`}
+                  >
+                    <td className="px-3 py-1">{lpn}</td>
+                    <td className="px-3 py-1">{ppn}</td>
+                    <td className="px-3 py-1">{Math.floor(ppn / pagesPerBlock)}</td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="mb-4 p-4 bg-teal-50 rounded-md border border-teal-200">
+        <h4 className="font-medium text-teal-800 mb-2">How the SSD Works</h4>
+        <ul className="list-disc list-inside text-sm text-teal-700">
+          <li>
+            Flash is read and programmed a page at a time, but can only be
+            erased a whole block at a time
+          </li>
+          <li>
+            A page cannot be overwritten, so the flash translation layer (FTL)
+            writes the new copy to a free page and updates its mapping table
+          </li>
+          <li>
+            Garbage collection copies the valid pages out of a victim block
+            and erases it; those extra copies are the write amplification
+          </li>
+          <li>
+            {config.gcPolicy === "greedy"
+              ? "Greedy collection picks the block with the most invalid pages, the fewest to copy"
+              : "Cost-benefit collection weighs free space gained against the copying cost, favouring blocks whose data has not changed for a while"}
+          </li>
+          <li>
+            Each block survives a limited number of erases:{" "}
+            {config.wearLeveling === "none"
+              ? "without wear leveling, free blocks are reused in the order they were erased"
+              : config.wearLeveling === "dynamic"
+              ? "dynamic wear leveling writes to the least-erased free block"
+              : `static wear leveling also moves cold data off a block once it falls more than ${config.staticThreshold} erases behind`}
+          </li>
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Play, RefreshCw, AlertCircle, ShieldAlert, Boxes } from "lucide-react";
+import {
+  SegmentationFault,
+  SegmentationMode,
+  SegmentationResult,
+  SegmentEntry,
+  simulateSegmentation,
+} from "@/lib/algorithms/segmentation";
+import { validateSegmentationInput } from "@/lib/validators";
+
+// One color per segment, reused if there are more segments than colors
+const SEGMENT_COLORS = ["#3f51b5", "#4caf50", "#ff9800", "#9c27b0", "#00bcd4", "#795548"];
+
+const segmentColor = (segment: number) =>
+  SEGMENT_COLORS[segment % SEGMENT_COLORS.length];
+
+const FAULT_LABELS: Record<SegmentationFault["kind"], string> = {
+  "invalid-segment": "Invalid segment",
+  "limit-violation": "Limit violation",
+  "protection-fault": "Protection fault",
+};
+
+const formatPermissions = (entry: SegmentEntry) =>
+  `${entry.read ? "r" : "-"}${entry.write ? "w" : "-"}${entry.execute ? "x" : "-"}`;
+
+export function SegmentationPanel() {
+  const [mode, setMode] = useState<SegmentationMode>("segmentation");
+  const [segmentText, setSegmentText] = useState("");
+  const [addressText, setAddressText] = useState("");
+  const [pageSize, setPageSize] = useState("256");
+  const [frames, setFrames] = useState("4");
+  const [error, setError] = useState("");
+  const [segments, setSegments] = useState<SegmentEntry[]>([]);
+  const [runMode, setRunMode] = useState<SegmentationMode>("segmentation");
+  const [result, setResult] = useState<SegmentationResult | null>(null);
+
+  const handleRun = () => {
+    const validation = validateSegmentationInput(
+      segmentText,
+      addressText,
+      mode,
+      pageSize,
+      frames
+    );
+    if (!validation.valid) {
+      setError(validation.message);
+      return;
+    }
+
+    setError("");
+    setSegments(validation.segments!);
+    setRunMode(mode);
+    setResult(
+      simulateSegmentation(validation.segments!, validation.addresses!, {
+        mode,
+        pageSize: validation.pageSize,
+        frameCount: validation.frameCount,
+      })
+    );
+  };
+
+  const handleReset = () => {
+    setMode("segmentation");
+    setSegmentText("");
+    setAddressText("");
+    setPageSize("256");
+    setFrames("4");
+    setError("");
+    setSegments([]);
+    setResult(null);
+  };
+
+  // Physical extent shown by the memory map (pure segmentation)
+  const memoryEnd = Math.max(1, ...segments.map((entry) => entry.base + entry.limit));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Input Panel */}
+      <Card className="lg:col-span-1">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Input Parameters</h2>
+
+          <div className="mb-4">
+            <Label htmlFor="segmentationMode" className="text-sm font-medium text-[#757575] mb-1">
+              Mode
+            </Label>
+            <Select
+              value={mode}
+              onValueChange={(value) => setMode(value as SegmentationMode)}
+            >
+              <SelectTrigger id="segmentationMode" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="segmentation">Pure segmentation</SelectItem>
+                <SelectItem value="segmented-paging">Segmented paging</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="mb-4">
+            <Label htmlFor="segmentTable" className="text-sm font-medium text-[#757575] mb-1">
+              Segment Table
+            </Label>
+            <Textarea
+              id="segmentTable"
+              value={segmentText}
+              onChange={(e) => setSegmentText(e.target.value)}
+              placeholder={"code 1400 1000 rx\ndata 6300 400 rw\nstack 4300 1100 rw"}
+              className="w-full h-24 font-mono text-xs"
+            />
+            <p className="text-xs text-[#757575] mt-1">
+              One segment per line: name, base, limit and permissions (r, w, x or -).
+              {mode === "segmented-paging" && " Bases are ignored when segments are paged."}
+            </p>
+          </div>
+
+          <div className="mb-4">
+            <Label htmlFor="logicalAddresses" className="text-sm font-medium text-[#757575] mb-1">
+              Logical Addresses
+            </Label>
+            <Textarea
+              id="logicalAddresses"
+              value={addressText}
+              onChange={(e) => setAddressText(e.target.value)}
+              placeholder="e.g., 0:430x 1:10w 2:500 1:400 0:20w 3:5"
+              className="w-full h-16 font-mono text-xs"
+            />
+            <p className="text-xs text-[#757575] mt-1">
+              segment:offset, followed by r, w or x for the access type (read by default)
+            </p>
+          </div>
+
+          {mode === "segmented-paging" && (
+            <div className="mb-4 grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="segPageSize" className="text-sm font-medium text-[#757575] mb-1">
+                  Page Size
+                </Label>
+                <Input
+                  id="segPageSize"
+                  type="number"
+                  min="1"
+                  value={pageSize}
+                  onChange={(e) => setPageSize(e.target.value)}
+                  className="w-full"
+                />
+              </div>
+              <div>
+                <Label htmlFor="segFrames" className="text-sm font-medium text-[#757575] mb-1">
+                  Frames
+                </Label>
+                <Input
+                  id="segFrames"
+                  type="number"
+                  min="1"
+                  value={frames}
+                  onChange={(e) => setFrames(e.target.value)}
+                  className="w-full"
+                />
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-4 p-3 bg-[#f44336] bg-opacity-10 text-[#f44336] rounded-md flex">
+              <AlertCircle className="h-5 w-5 mr-2" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-4 mt-6">
+            <Button onClick={handleRun} className="bg-primary text-white">
+              <Play className="h-4 w-4 mr-1" />
+              Run
+            </Button>
+            <Button onClick={handleReset} variant="outline">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results Panel */}
+      <Card className="lg:col-span-2">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Simulation Results</h2>
+
+          {!result ? (
+            <div className="text-center py-8 text-[#757575]">
+              <Boxes className="h-16 w-16 mx-auto mb-2 text-[#757575]" />
+              <p>Configure parameters and click Run to start the simulation</p>
+            </div>
+          ) : (
+            <div>
+              <div className="grid grid-cols-3 gap-4 mb-4">
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Translated</p>
+                  <p className="text-2xl font-medium text-[#4caf50]">{result.translated}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Traps</p>
+                  <p className="text-2xl font-medium text-[#f44336]">{result.traps}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Page Faults</p>
+                  <p className="text-2xl font-medium text-[#ff9800]">
+                    {runMode === "segmented-paging" ? result.pageFaults : "-"}
+                  </p>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto mb-4">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="px-4 py-2 text-left">Segment</th>
+                      <th className="px-4 py-2 text-left">Name</th>
+                      {runMode === "segmentation" && <th className="px-4 py-2 text-right">Base</th>}
+                      <th className="px-4 py-2 text-right">Limit</th>
+                      <th className="px-4 py-2 text-center">Protection</th>
+                      {runMode === "segmented-paging" && <th className="px-4 py-2 text-left">Page Table</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {segments.map((entry, i) => (
+                      <tr key={`segment-${i}`} className="border-t">
+                        <td className="px-4 py-2">{i}</td>
+                        <td className="px-4 py-2 font-medium" style={{ color: segmentColor(i) }}>
+                          {entry.name}
+                        </td>
+                        {runMode === "segmentation" && <td className="px-4 py-2 text-right">{entry.base}</td>}
+                        <td className="px-4 py-2 text-right">{entry.limit}</td>
+                        <td className="px-4 py-2 text-center font-mono">{formatPermissions(entry)}</td>
+                        {runMode === "segmented-paging" && (
+                          <td className="px-4 py-2 font-mono text-xs">
+                            {result.pageTables && result.pageTables[i].size > 0
+                              ? Array.from(result.pageTables[i].entries())
+                                  .sort((a, b) => a[0] - b[0])
+                                  .map(([page, frame]) => `p${page}→F${frame}`)
+                                  .join(", ")
+                              : "empty"}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {runMode === "segmentation" && (
+                <div className="mb-6">
+                  <h3 className="font-medium mb-2">Physical Memory</h3>
+                  <div className="relative h-10 bg-gray-100 rounded-md overflow-hidden">
+                    {segments.map((entry, i) => (
+                      <div
+                        key={`map-${i}`}
+                        className="absolute h-full text-white text-xs flex items-center justify-center overflow-hidden opacity-80 border-x border-white"
+                        style={{
+                          left: `${(entry.base / memoryEnd) * 100}%`,
+                          width: `${(entry.limit / memoryEnd) * 100}%`,
+                          backgroundColor: segmentColor(i),
+                        }}
+                        title={`${entry.name}: ${entry.base}-${entry.base + entry.limit - 1}`}
+                      >
+                        {entry.name}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-between text-xs text-[#757575] mt-1">
+                    <span>0</span>
+                    <span>{memoryEnd}</span>
+                  </div>
+                </div>
+              )}
+
+              <h3 className="font-medium mb-2">Step Timeline</h3>
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {result.steps.map((step, i) => {
+                  const entry = segments[step.address.segment];
+                  return (
+                    <div
+                      key={`step-${i}`}
+                      className={`p-3 rounded-md text-sm border-l-4 ${
+                        step.fault ? "bg-[#ffebee] border-[#f44336]" : "bg-gray-50 border-[#4caf50]"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-mono">
+                          {i + 1}. ({step.address.segment}, {step.address.offset}){" "}
+                          <span className="text-[#757575]">{step.address.access}</span>
+                        </span>
+                        {step.fault ? (
+                          <span className="flex items-center text-[#c62828] font-medium">
+                            <ShieldAlert className="h-4 w-4 mr-1" />
+                            {FAULT_LABELS[step.fault.kind]}
+                          </span>
+                        ) : (
+                          <span className="font-mono font-medium">→ {step.physicalAddress}</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-[#757575] mt-1">
+                        {step.fault
+                          ? `Trap: ${step.fault.message}`
+                          : runMode === "segmentation"
+                          ? `${entry.name}: ${step.address.offset} < ${entry.limit}, so ${entry.base} + ${step.address.offset} = ${step.physicalAddress}`
+                          : `${entry.name}: page ${step.page}, offset ${step.pageOffset} → frame ${step.frame}` +
+                            (step.pageFault
+                              ? ` (page fault${
+                                  step.evicted
+                                    ? `, evicted ${segments[step.evicted.segment].name} page ${step.evicted.page}`
+                                    : ""
+                                })`
+                              : "")}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Play, RefreshCw, AlertCircle, Layers } from "lucide-react";
+import { SlabResult, SlabState, simulateSlab, slabState } from "@/lib/algorithms/slab";
+import { validateSlabInput } from "@/lib/validators";
+import { usePlayback } from "@/hooks/use-playback";
+import { PlaybackControls } from "./PlaybackControls";
+
+// One color per cache, reused if there are more caches than colors
+const CACHE_COLORS = ["#3f51b5", "#4caf50", "#ff9800", "#9c27b0", "#00bcd4", "#795548"];
+
+const SLAB_STATES: { state: SlabState; label: string }[] = [
+  { state: "full", label: "Full" },
+  { state: "partial", label: "Partial" },
+  { state: "empty", label: "Empty" },
+];
+
+interface SlabVisualizationProps {
+  result: SlabResult;
+  slabSize: number;
+}
+
+function SlabVisualization({ result, slabSize }: SlabVisualizationProps) {
+  const playback = usePlayback(result.steps.length);
+  const step = result.steps[playback.currentStep];
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Slab Memory</p>
+          <p className="text-2xl font-medium">{step.slabMemory}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Live Objects</p>
+          <p className="text-2xl font-medium text-[#3f51b5]">{step.liveBytes}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Unused in Slabs</p>
+          <p className="text-2xl font-medium text-[#f44336]">
+            {(step.fragmentation * 100).toFixed(1)}%
+          </p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <p className="text-sm text-[#757575]">Slabs Created</p>
+          <p className="text-2xl font-medium">{result.slabsCreated}</p>
+        </div>
+      </div>
+
+      <PlaybackControls playback={playback} title="Caches" />
+
+      <div
+        className={`p-3 mb-4 rounded-md text-sm border-l-4 ${
+          step.success ? "bg-gray-50 border-[#4caf50]" : "bg-[#ffebee] border-[#f44336]"
+        }`}
+      >
+        {step.message}
+      </div>
+
+      <div className="space-y-4">
+        {step.caches.map((cache, c) => {
+          const color = CACHE_COLORS[c % CACHE_COLORS.length];
+          const waste = slabSize - cache.objectsPerSlab * cache.objectSize;
+          return (
+            <div key={cache.name} className="bg-[#f9f9f9] p-4 rounded-md border border-gray-300">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium" style={{ color }}>
+                  {cache.name}
+                </span>
+                <span className="text-xs text-[#757575]">
+                  {cache.objectSize} B objects, {cache.objectsPerSlab} per slab
+                  {waste > 0 && `, ${waste} B left over per slab`}
+                </span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {SLAB_STATES.map(({ state, label }) => {
+                  const slabs = cache.slabs.filter((slab) => slabState(slab) === state);
+                  return (
+                    <div key={state}>
+                      <p className="text-xs text-[#757575] mb-1">
+                        {label} ({slabs.length})
+                      </p>
+                      <div className="space-y-2">
+                        {slabs.map((slab) => (
+                          <div key={`slab-${slab.id}`} className="bg-white border rounded-sm p-1">
+                            <p className="text-[10px] text-[#757575] mb-1">slab {slab.id}</p>
+                            <div className="flex flex-wrap gap-0.5">
+                              {slab.objects.map((object, index) => {
+                                const isTarget =
+                                  step.slot?.cache === cache.name &&
+                                  step.slot.slab === slab.id &&
+                                  step.slot.index === index;
+                                return (
+                                  <div
+                                    key={`slot-${index}`}
+                                    className={`w-3 h-3 rounded-sm ${
+                                      isTarget ? "ring-2 ring-[#212121]" : ""
+                                    }`}
+                                    style={{ backgroundColor: object ? color : "#e0e0e0" }}
+                                    title={object ? `Slot ${index}: ${object}` : `Slot ${index}: free`}
+                                  />
+                                );
+                              })}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-[#757575] mt-2">
+        Allocations fill partial slabs first, then empty ones, and create a slab only when every
+        slab in the cache is full. Hover a slot to see its object.
+      </p>
+    </div>
+  );
+}
+
+export function SlabPanel() {
+  const [cacheText, setCacheText] = useState("");
+  const [slabSize, setSlabSize] = useState("4096");
+  const [requestText, setRequestText] = useState("");
+  const [error, setError] = useState("");
+  const [result, setResult] = useState<SlabResult | null>(null);
+  const [runSlabSize, setRunSlabSize] = useState(0);
+  const [runId, setRunId] = useState(0);
+
+  const handleRun = () => {
+    const validation = validateSlabInput(cacheText, slabSize, requestText);
+    if (!validation.valid) {
+      setError(validation.message);
+      return;
+    }
+
+    setError("");
+    setResult(simulateSlab(validation.caches!, validation.slabSize!, validation.requests!));
+    setRunSlabSize(validation.slabSize!);
+    setRunId((id) => id + 1);
+  };
+
+  const handleReset = () => {
+    setCacheText("");
+    setSlabSize("4096");
+    setRequestText("");
+    setError("");
+    setResult(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Input Panel */}
+      <Card className="lg:col-span-1">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Input Parameters</h2>
+
+          <div className="mb-4">
+            <Label htmlFor="slabSize" className="text-sm font-medium text-[#757575] mb-1">
+              Slab Size
+            </Label>
+            <Input
+              id="slabSize"
+              type="number"
+              min="1"
+              value={slabSize}
+              onChange={(e) => setSlabSize(e.target.value)}
+              className="w-full"
+            />
+          </div>
+
+          <div className="mb-4">
+            <Label htmlFor="slabCaches" className="text-sm font-medium text-[#757575] mb-1">
+              Caches
+            </Label>
+            <Textarea
+              id="slabCaches"
+              value={cacheText}
+              onChange={(e) => setCacheText(e.target.value)}
+              placeholder={"inode 600\ndentry 192\ntask 1700"}
+              className="w-full h-20 font-mono text-xs"
+            />
+            <p className="text-xs text-[#757575] mt-1">One cache per line: name and object size</p>
+          </div>
+
+          <div className="mb-6">
+            <Label htmlFor="slabRequests" className="text-sm font-medium text-[#757575] mb-1">
+              Requests
+            </Label>
+            <Textarea
+              id="slabRequests"
+              value={requestText}
+              onChange={(e) => setRequestText(e.target.value)}
+              placeholder={"task t1\ninode i1\ninode i2\ntask t2\ntask t3\nfree t1\nfree t2\nshrink"}
+              className="w-full h-32 font-mono text-xs"
+            />
+            <p className="text-xs text-[#757575] mt-1">
+              One per line: "inode i1" allocates object i1 from the inode cache, "free i1"
+              releases it, "shrink" releases empty slabs
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-[#f44336] bg-opacity-10 text-[#f44336] rounded-md flex">
+              <AlertCircle className="h-5 w-5 mr-2" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-4">
+            <Button onClick={handleRun} className="bg-primary text-white">
+              <Play className="h-4 w-4 mr-1" />
+              Run
+            </Button>
+            <Button onClick={handleReset} variant="outline">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results Panel */}
+      <Card className="lg:col-span-2">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Simulation Results</h2>
+
+          {!result ? (
+            <div className="text-center py-8 text-[#757575]">
+              <Layers className="h-16 w-16 mx-auto mb-2 text-[#757575]" />
+              <p>Configure parameters and click Run to start the simulation</p>
+            </div>
+          ) : (
+            <SlabVisualization key={runId} result={result} slabSize={runSlabSize} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
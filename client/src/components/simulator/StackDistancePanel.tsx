@@ -0,0 +1,287 @@
+import React, { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Play, Shuffle, AlertCircle } from "lucide-react";
+import {
+  computeMissRatioCurve,
+  computeStackDistances,
+  generateReferenceString,
+  MissRatioPoint,
+  StackDistanceResult,
+} from "@/lib/algorithms/stackDistance";
+import { validateMemoryInput } from "@/lib/validators";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  TooltipItem,
+} from "chart.js";
+import { Bar, Line } from "react-chartjs-2";
+
+// Register Chart.js components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+// Depths beyond this are grouped into one bar to keep the histogram readable
+const MAX_HISTOGRAM_BARS = 64;
+
+export function StackDistancePanel() {
+  const [referenceString, setReferenceString] = useState("");
+  const [maxFrames, setMaxFrames] = useState("");
+  const [generateLength, setGenerateLength] = useState("100000");
+  const [generatePages, setGeneratePages] = useState("500");
+  const [error, setError] = useState("");
+  const [analysis, setAnalysis] = useState<StackDistanceResult | null>(null);
+  const [curve, setCurve] = useState<MissRatioPoint[] | null>(null);
+  const [elapsedMs, setElapsedMs] = useState(0);
+
+  const handleAnalyze = () => {
+    const validation = validateMemoryInput(maxFrames, referenceString);
+    if (!validation.valid) {
+      setError(validation.message);
+      return;
+    }
+    setError("");
+
+    const start = performance.now();
+    const result = computeStackDistances(validation.refArray!);
+    const missRatioCurve = computeMissRatioCurve(result, validation.frameCount!);
+    setElapsedMs(performance.now() - start);
+
+    setAnalysis(result);
+    setCurve(missRatioCurve);
+  };
+
+  const handleGenerate = () => {
+    const length = parseInt(generateLength);
+    const pages = parseInt(generatePages);
+    if (!length || length <= 0 || !pages || pages <= 0) {
+      setError("Length and page count must be positive integers");
+      return;
+    }
+    setError("");
+    setReferenceString(generateReferenceString(length, pages).join(" "));
+    if (!maxFrames) {
+      setMaxFrames(String(pages));
+    }
+  };
+
+  // Histogram bars for depths 1..MAX_HISTOGRAM_BARS, the rest grouped together
+  const histogramLabels: string[] = [];
+  const histogramValues: number[] = [];
+  if (analysis) {
+    const { histogram } = analysis;
+    const shown = Math.min(histogram.length - 1, MAX_HISTOGRAM_BARS);
+    for (let d = 1; d <= shown; d++) {
+      histogramLabels.push(`${d}`);
+      histogramValues.push(histogram[d]);
+    }
+    if (histogram.length - 1 > MAX_HISTOGRAM_BARS) {
+      histogramLabels.push(`>${MAX_HISTOGRAM_BARS}`);
+      histogramValues.push(
+        histogram.slice(MAX_HISTOGRAM_BARS + 1).reduce((a, b) => a + b, 0)
+      );
+    }
+    histogramLabels.push("∞ (cold)");
+    histogramValues.push(analysis.coldMisses);
+  }
+
+  const histogramData = {
+    labels: histogramLabels,
+    datasets: [
+      {
+        label: "References",
+        data: histogramValues,
+        backgroundColor: histogramLabels.map((label) =>
+          label.startsWith("∞") ? "#f44336" : "#3f51b5"
+        ),
+      },
+    ],
+  };
+
+  const histogramOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { title: { display: true, text: "LRU Stack Distance" } },
+      y: { title: { display: true, text: "References" }, beginAtZero: true },
+    },
+    plugins: {
+      legend: { display: false },
+      title: { display: true, text: "Stack-Distance Histogram" },
+    },
+  };
+
+  const curveData = {
+    labels: curve?.map((point) => `${point.frames}`) ?? [],
+    datasets: [
+      {
+        label: "Miss Ratio",
+        data: curve?.map((point) => point.missRatio * 100) ?? [],
+        borderColor: "#f44336",
+        backgroundColor: "#f44336",
+        pointRadius: curve && curve.length > 50 ? 0 : 3,
+      },
+    ],
+  };
+
+  const curveOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { title: { display: true, text: "Number of Frames" } },
+      y: {
+        title: { display: true, text: "Miss Ratio (%)" },
+        min: 0,
+        max: 100,
+      },
+    },
+    plugins: {
+      legend: { display: false },
+      title: { display: true, text: "LRU Miss-Ratio Curve" },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<"line">) => {
+            const point = curve![context.dataIndex];
+            return `${point.faults} faults (${(point.missRatio * 100).toFixed(2)}%)`;
+          },
+        },
+      },
+    },
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-[#757575] mb-4">
+        Computes LRU fault counts for every frame count in a single pass, using
+        each reference's stack distance (its depth in the LRU stack). This
+        scales to reference strings with hundreds of thousands of entries.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4">
+        <div className="lg:col-span-2">
+          <Label
+            htmlFor="stackReferenceString"
+            className="text-sm font-medium text-[#757575] mb-1"
+          >
+            Reference String
+          </Label>
+          <Textarea
+            id="stackReferenceString"
+            value={referenceString}
+            onChange={(e) => setReferenceString(e.target.value)}
+            placeholder="e.g., 7 0 1 2 0 3 0 4 2 3"
+            className="w-full h-24 font-mono text-xs"
+          />
+        </div>
+        <div>
+          <Label
+            htmlFor="stackMaxFrames"
+            className="text-sm font-medium text-[#757575] mb-1"
+          >
+            Maximum Frames
+          </Label>
+          <Input
+            id="stackMaxFrames"
+            type="number"
+            min="1"
+            value={maxFrames}
+            onChange={(e) => setMaxFrames(e.target.value)}
+            placeholder="e.g., 10"
+            className="w-full mb-2"
+          />
+          <p className="text-xs text-[#757575] mb-1">
+            Generator: length and distinct pages
+          </p>
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <Input
+              aria-label="Generated length"
+              type="number"
+              min="1"
+              value={generateLength}
+              onChange={(e) => setGenerateLength(e.target.value)}
+              title="Generated length"
+            />
+            <Input
+              aria-label="Generated distinct pages"
+              type="number"
+              min="1"
+              value={generatePages}
+              onChange={(e) => setGeneratePages(e.target.value)}
+              title="Distinct pages"
+            />
+          </div>
+          <div className="flex space-x-2">
+            <Button onClick={handleAnalyze} className="bg-primary text-white">
+              <Play className="h-4 w-4 mr-1" />
+              Analyze
+            </Button>
+            <Button onClick={handleGenerate} variant="outline">
+              <Shuffle className="h-4 w-4 mr-1" />
+              Generate
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-[#f44336] bg-opacity-10 text-[#f44336] rounded-md flex">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      {analysis && curve && (
+        <div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div className="bg-gray-50 p-4 rounded-md">
+              <p className="text-sm text-[#757575]">References</p>
+              <p className="text-2xl font-medium">{analysis.references}</p>
+            </div>
+            <div className="bg-gray-50 p-4 rounded-md">
+              <p className="text-sm text-[#757575]">Distinct Pages</p>
+              <p className="text-2xl font-medium">{analysis.distinctPages}</p>
+            </div>
+            <div className="bg-gray-50 p-4 rounded-md">
+              <p className="text-sm text-[#757575]">Cold Misses</p>
+              <p className="text-2xl font-medium text-[#f44336]">
+                {analysis.coldMisses}
+              </p>
+            </div>
+            <div className="bg-gray-50 p-4 rounded-md">
+              <p className="text-sm text-[#757575]">Analysis Time</p>
+              <p className="text-2xl font-medium text-[#3f51b5]">
+                {elapsedMs.toFixed(1)} ms
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="bg-gray-50 p-4 rounded-md" style={{ height: "280px" }}>
+              <Bar data={histogramData} options={histogramOptions} />
+            </div>
+            <div className="bg-gray-50 p-4 rounded-md" style={{ height: "280px" }}>
+              <Line data={curveData} options={curveOptions} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,491 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Play, RefreshCw, AlertCircle, Cpu } from "lucide-react";
+import {
+  simulateTranslation,
+  TLBPolicy,
+  TranslationConfig,
+  TranslationReplacement,
+  TranslationResult,
+} from "@/lib/algorithms/addressTranslation";
+import { validateLatencies, validateTranslationInput } from "@/lib/validators";
+import { PageTablePanel } from "./PageTablePanel";
+import { SegmentationPanel } from "./SegmentationPanel";
+
+// Colors for the page-number fields of each level, outermost first
+const LEVEL_COLORS = ["#3f51b5", "#9c27b0", "#00bcd4", "#795548"];
+
+const toHex = (value: number) => `0x${value.toString(16).toUpperCase()}`;
+
+const formatNs = (ns: number) =>
+  ns >= 1e6 ? `${(ns / 1e6).toFixed(3)} ms` : `${ns.toFixed(1)} ns`;
+
+export function TranslationTab() {
+  // Sections stay mounted so switching between them keeps their inputs and results
+  return (
+    <Tabs defaultValue="tlb">
+      <TabsList className="mb-4">
+        <TabsTrigger value="tlb">TLB &amp; Multi-Level Tables</TabsTrigger>
+        <TabsTrigger value="structures">Inverted &amp; Hashed Tables</TabsTrigger>
+        <TabsTrigger value="segmentation">Segmentation</TabsTrigger>
+      </TabsList>
+      <TabsContent value="tlb" forceMount className="data-[state=inactive]:hidden">
+        <TLBTranslationPanel />
+      </TabsContent>
+      <TabsContent value="structures" forceMount className="data-[state=inactive]:hidden">
+        <PageTablePanel />
+      </TabsContent>
+      <TabsContent value="segmentation" forceMount className="data-[state=inactive]:hidden">
+        <SegmentationPanel />
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+function TLBTranslationPanel() {
+  const [addresses, setAddresses] = useState("");
+  const [addressBits, setAddressBits] = useState("16");
+  const [pageSize, setPageSize] = useState("256");
+  const [levels, setLevels] = useState("2");
+  const [frames, setFrames] = useState("4");
+  const [tlbSize, setTlbSize] = useState("4");
+  const [tlbPolicy, setTlbPolicy] = useState<TLBPolicy>("lru");
+  const [replacement, setReplacement] = useState<TranslationReplacement>("lru");
+  const [tlbNs, setTlbNs] = useState("10");
+  const [memoryNs, setMemoryNs] = useState("100");
+  const [faultMs, setFaultMs] = useState("8");
+  const [error, setError] = useState("");
+  const [result, setResult] = useState<TranslationResult | null>(null);
+  // Settings of the last run, so the explanation matches the results even after edits
+  const [config, setConfig] = useState<TranslationConfig | null>(null);
+  const [selected, setSelected] = useState(0);
+
+  const handleRun = () => {
+    const validation = validateTranslationInput(
+      addresses,
+      addressBits,
+      pageSize,
+      levels,
+      frames,
+      tlbSize
+    );
+    if (!validation.valid) {
+      setError(validation.message);
+      return;
+    }
+
+    const latencies = validateLatencies(tlbNs, memoryNs, faultMs);
+    if (!latencies.valid) {
+      setError(latencies.message);
+      return;
+    }
+
+    setError("");
+    const runConfig: TranslationConfig = {
+      addressBits: validation.addressBits!,
+      pageSize: validation.pageSize!,
+      levels: validation.levels!,
+      frameCount: validation.frameCount!,
+      tlbSize: validation.tlbSize!,
+      tlbPolicy,
+      replacement,
+      latencies: {
+        tlbNs: latencies.tlbNs!,
+        memoryNs: latencies.memoryNs!,
+        faultNs: latencies.faultNs!,
+      },
+    };
+    setConfig(runConfig);
+    setResult(simulateTranslation(validation.addressArray!, runConfig));
+    setSelected(0);
+  };
+
+  const handleReset = () => {
+    setAddresses("");
+    setAddressBits("16");
+    setPageSize("256");
+    setLevels("2");
+    setFrames("4");
+    setTlbSize("4");
+    setTlbPolicy("lru");
+    setReplacement("lru");
+    setTlbNs("10");
+    setMemoryNs("100");
+    setFaultMs("8");
+    setError("");
+    setResult(null);
+    setConfig(null);
+  };
+
+  const step = result?.steps[selected];
+  const references = result?.steps.length ?? 0;
+  const tlbHitRatio = references === 0 ? 0 : (result?.tlbHits ?? 0) / references;
+  const faultRate = references === 0 ? 0 : (result?.pageFaults ?? 0) / references;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Input Panel */}
+      <Card className="lg:col-span-1">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Input Parameters</h2>
+
+          <div className="mb-4">
+            <Label htmlFor="virtualAddresses" className="text-sm font-medium text-[#757575] mb-1">
+              Virtual Addresses
+            </Label>
+            <Textarea
+              id="virtualAddresses"
+              value={addresses}
+              onChange={(e) => setAddresses(e.target.value)}
+              placeholder="e.g., 0x1A3F 0x1A40 4660 0x3F00"
+              className="w-full h-20 font-mono text-xs"
+            />
+            <p className="text-xs text-[#757575] mt-1">Decimal, or hex with a 0x prefix</p>
+          </div>
+
+          <div className="mb-4 grid grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="addressBits" className="text-sm font-medium text-[#757575] mb-1">
+                Address Bits
+              </Label>
+              <Input
+                id="addressBits"
+                type="number"
+                min="2"
+                max="52"
+                value={addressBits}
+                onChange={(e) => setAddressBits(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="pageSize" className="text-sm font-medium text-[#757575] mb-1">
+                Page Size
+              </Label>
+              <Input
+                id="pageSize"
+                type="number"
+                min="1"
+                value={pageSize}
+                onChange={(e) => setPageSize(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tableLevels" className="text-sm font-medium text-[#757575] mb-1">
+                Levels
+              </Label>
+              <Input
+                id="tableLevels"
+                type="number"
+                min="1"
+                max="4"
+                value={levels}
+                onChange={(e) => setLevels(e.target.value)}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          <div className="mb-4 grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="translationFrames" className="text-sm font-medium text-[#757575] mb-1">
+                Physical Frames
+              </Label>
+              <Input
+                id="translationFrames"
+                type="number"
+                min="1"
+                value={frames}
+                onChange={(e) => setFrames(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="translationReplacement" className="text-sm font-medium text-[#757575] mb-1">
+                Replacement
+              </Label>
+              <Select
+                value={replacement}
+                onValueChange={(value) => setReplacement(value as TranslationReplacement)}
+              >
+                <SelectTrigger id="translationReplacement" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lru">LRU</SelectItem>
+                  <SelectItem value="arb">ARB</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="tlbSize" className="text-sm font-medium text-[#757575] mb-1">
+                TLB Entries
+              </Label>
+              <Input
+                id="tlbSize"
+                type="number"
+                min="0"
+                value={tlbSize}
+                onChange={(e) => setTlbSize(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tlbPolicy" className="text-sm font-medium text-[#757575] mb-1">
+                TLB Policy
+              </Label>
+              <Select
+                value={tlbPolicy}
+                onValueChange={(value) => setTlbPolicy(value as TLBPolicy)}
+              >
+                <SelectTrigger id="tlbPolicy" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lru">LRU</SelectItem>
+                  <SelectItem value="fifo">FIFO</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <h3 className="font-medium mb-2">Latencies</h3>
+          <div className="mb-6 grid grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="tlbLatency" className="text-sm font-medium text-[#757575] mb-1">
+                TLB (ns)
+              </Label>
+              <Input
+                id="tlbLatency"
+                type="number"
+                min="0"
+                value={tlbNs}
+                onChange={(e) => setTlbNs(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="memoryLatency" className="text-sm font-medium text-[#757575] mb-1">
+                Memory (ns)
+              </Label>
+              <Input
+                id="memoryLatency"
+                type="number"
+                min="0"
+                value={memoryNs}
+                onChange={(e) => setMemoryNs(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="faultLatency" className="text-sm font-medium text-[#757575] mb-1">
+                Fault (ms)
+              </Label>
+              <Input
+                id="faultLatency"
+                type="number"
+                min="0"
+                value={faultMs}
+                onChange={(e) => setFaultMs(e.target.value)}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-[#f44336] bg-opacity-10 text-[#f44336] rounded-md flex">
+              <AlertCircle className="h-5 w-5 mr-2" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-4">
+            <Button onClick={handleRun} className="bg-primary text-white">
+              <Play className="h-4 w-4 mr-1" />
+              Run
+            </Button>
+            <Button onClick={handleReset} variant="outline">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results Panel */}
+      <Card className="lg:col-span-2">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Simulation Results</h2>
+
+          {!result || !config || !step ? (
+            <div className="text-center py-8 text-[#757575]">
+              <Cpu className="h-16 w-16 mx-auto mb-2 text-[#757575]" />
+              <p>Configure parameters and click Run to start the simulation</p>
+            </div>
+          ) : (
+            <div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">TLB Hit Ratio</p>
+                  <p className="text-2xl font-medium text-[#4caf50]">
+                    {(tlbHitRatio * 100).toFixed(1)}%
+                  </p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Page Faults</p>
+                  <p className="text-2xl font-medium text-[#f44336]">{result.pageFaults}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Effective Access Time</p>
+                  <p className="text-2xl font-medium text-[#3f51b5]">
+                    {formatNs(result.effectiveAccessTime)}
+                  </p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Page-Table Pages</p>
+                  <p className="text-2xl font-medium">{result.pageTablePages}</p>
+                </div>
+              </div>
+
+              <div className="mb-4 p-3 bg-gray-50 rounded-md text-sm font-mono text-[#757575]">
+                EAT = {config.tlbSize > 0 && `${config.latencies.tlbNs} + `}
+                {(1 - tlbHitRatio).toFixed(3)} × {config.levels} × {config.latencies.memoryNs}
+                {" + "}
+                {config.latencies.memoryNs} + {faultRate.toFixed(3)} × {formatNs(config.latencies.faultNs)}
+                {" = "}
+                {formatNs(result.effectiveAccessTime)}
+              </div>
+
+              {/* Address layout of the selected reference */}
+              <h3 className="font-medium mb-2">
+                Reference {selected + 1}: {toHex(step.virtualAddress)}
+              </h3>
+              <div className="flex mb-2 rounded-md overflow-hidden text-white text-sm text-center">
+                {result.levelBits.map((bits, level) => (
+                  <div
+                    key={`field-${level}`}
+                    className="py-2 px-1"
+                    style={{ flex: bits, backgroundColor: LEVEL_COLORS[level] }}
+                  >
+                    <div className="text-xs opacity-80">
+                      {result.levelBits.length === 1 ? "Page" : `Level ${level + 1}`} ({bits} bits)
+                    </div>
+                    <div className="font-mono">{step.levelIndexes[level]}</div>
+                  </div>
+                ))}
+                <div
+                  className="py-2 px-1 bg-[#757575]"
+                  style={{ flex: result.offsetBits }}
+                >
+                  <div className="text-xs opacity-80">Offset ({result.offsetBits} bits)</div>
+                  <div className="font-mono">{step.offset}</div>
+                </div>
+              </div>
+
+              <div className="mb-4 text-sm">
+                <p>
+                  Page {step.pageNumber}, offset {step.offset}:{" "}
+                  {step.tlbHit ? (
+                    <span className="text-[#4caf50]">TLB hit</span>
+                  ) : (
+                    <span className="text-[#ff9800]">
+                      TLB miss, walked{" "}
+                      {step.walk
+                        .map(
+                          (walk) =>
+                            `L${walk.level}[${walk.index}]${walk.tableCreated ? " (new table)" : ""}`
+                        )
+                        .join(" → ")}
+                    </span>
+                  )}
+                  {step.pageFault && (
+                    <span className="text-[#f44336]">
+                      , page fault
+                      {step.evictedPage !== undefined && ` (evicted page ${step.evictedPage}`}
+                      {step.evictedPage !== undefined &&
+                        (step.tlbInvalidated ? ", TLB entry invalidated)" : ")")}
+                    </span>
+                  )}
+                </p>
+                <p>
+                  Frame {step.frame} × {config.pageSize} + {step.offset} ={" "}
+                  <span className="font-mono font-medium">{toHex(step.physicalAddress)}</span>{" "}
+                  in {formatNs(step.accessTime)}
+                </p>
+                <p className="text-[#757575] mt-1">
+                  TLB after:{" "}
+                  {step.tlbAfter.length === 0
+                    ? "empty"
+                    : step.tlbAfter.map((entry) => `${entry.page}→${entry.frame}`).join(", ")}
+                  {step.tlbEvicted !== undefined && ` (pushed out page ${step.tlbEvicted})`}
+                </p>
+              </div>
+
+              <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="px-3 py-2 text-left">#</th>
+                      <th className="px-3 py-2 text-left">Virtual</th>
+                      <th className="px-3 py-2 text-right">Page</th>
+                      <th className="px-3 py-2 text-left">Indexes</th>
+                      <th className="px-3 py-2 text-right">Offset</th>
+                      <th className="px-3 py-2 text-center">TLB</th>
+                      <th className="px-3 py-2 text-center">Fault</th>
+                      <th className="px-3 py-2 text-right">Frame</th>
+                      <th className="px-3 py-2 text-left">Physical</th>
+                      <th className="px-3 py-2 text-right">Time</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.steps.map((row, i) => (
+                      <tr
+                        key={`translation-${i}`}
+                        className={`border-t cursor-pointer ${
+                          i === selected ? "bg-[#3f51b5] bg-opacity-10" : "hover:bg-gray-50"
+                        }`}
+                        onClick={() => setSelected(i)}
+                      >
+                        <td className="px-3 py-1">{i + 1}</td>
+                        <td className="px-3 py-1 font-mono">{toHex(row.virtualAddress)}</td>
+                        <td className="px-3 py-1 text-right">{row.pageNumber}</td>
+                        <td className="px-3 py-1 font-mono">{row.levelIndexes.join(" / ")}</td>
+                        <td className="px-3 py-1 text-right">{row.offset}</td>
+                        <td className={`px-3 py-1 text-center ${row.tlbHit ? "text-[#4caf50]" : "text-[#ff9800]"}`}>
+                          {row.tlbHit ? "Hit" : "Miss"}
+                        </td>
+                        <td className="px-3 py-1 text-center text-[#f44336]">
+                          {row.pageFault ? "Yes" : ""}
+                        </td>
+                        <td className="px-3 py-1 text-right">{row.frame}</td>
+                        <td className="px-3 py-1 font-mono">{toHex(row.physicalAddress)}</td>
+                        <td className="px-3 py-1 text-right">{formatNs(row.accessTime)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-[#757575] mt-2">
+                Click a row to inspect it. Residency is decided by the{" "}
+                {config.replacement.toUpperCase()} engine on the page numbers.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Play, RefreshCw, AlertCircle, Activity } from "lucide-react";
+import {
+  PFFResult,
+  simulatePFF,
+  simulateWorkingSet,
+  WorkingSetResult,
+} from "@/lib/algorithms/workingSet";
+import { validatePFFOptions, validateWorkingSetInput } from "@/lib/validators";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import { Line } from "react-chartjs-2";
+
+// Register Chart.js components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+export function WorkingSetPanel() {
+  const [referenceString, setReferenceString] = useState("");
+  const [delta, setDelta] = useState("4");
+  const [initialFrames, setInitialFrames] = useState("3");
+  const [lowerThreshold, setLowerThreshold] = useState("20");
+  const [upperThreshold, setUpperThreshold] = useState("50");
+  const [rateWindow, setRateWindow] = useState("5");
+  const [error, setError] = useState("");
+  const [workingSet, setWorkingSet] = useState<WorkingSetResult | null>(null);
+  const [pff, setPFF] = useState<PFFResult | null>(null);
+
+  const handleRun = () => {
+    const validation = validateWorkingSetInput(delta, referenceString);
+    if (!validation.valid) {
+      setError(validation.message);
+      return;
+    }
+
+    const pffValidation = validatePFFOptions(
+      initialFrames,
+      lowerThreshold,
+      upperThreshold,
+      rateWindow
+    );
+    if (!pffValidation.valid) {
+      setError(pffValidation.message);
+      return;
+    }
+
+    setError("");
+    setWorkingSet(simulateWorkingSet(validation.refArray!, validation.delta!));
+    setPFF(
+      simulatePFF(validation.refArray!, {
+        initialFrames: pffValidation.initialFrames!,
+        lowerThreshold: pffValidation.lowerThreshold!,
+        upperThreshold: pffValidation.upperThreshold!,
+        window: pffValidation.window!,
+      })
+    );
+  };
+
+  const handleReset = () => {
+    setReferenceString("");
+    setDelta("4");
+    setInitialFrames("3");
+    setLowerThreshold("20");
+    setUpperThreshold("50");
+    setRateWindow("5");
+    setError("");
+    setWorkingSet(null);
+    setPFF(null);
+  };
+
+  const steps = workingSet?.steps ?? [];
+  const denseTimeline = steps.length > 60;
+
+  const chartData = {
+    labels: steps.map((step) => `${step.time + 1}`),
+    datasets: [
+      {
+        label: "Working-Set Size",
+        data: steps.map((step) => step.size),
+        borderColor: "#3f51b5",
+        backgroundColor: "#3f51b5",
+        pointBackgroundColor: steps.map((step) =>
+          step.isFault ? "#f44336" : "#3f51b5"
+        ),
+        pointRadius: denseTimeline ? 0 : 4,
+        stepped: true,
+        yAxisID: "y",
+      },
+      {
+        label: "PFF Allocated Frames",
+        data: pff?.steps.map((step) => step.allocatedFrames) ?? [],
+        borderColor: "#4caf50",
+        backgroundColor: "#4caf50",
+        pointRadius: denseTimeline ? 0 : 3,
+        stepped: true,
+        yAxisID: "y",
+      },
+      {
+        label: "PFF Fault Rate (%)",
+        data: pff?.steps.map((step) => step.faultRate * 100) ?? [],
+        borderColor: "#ff9800",
+        backgroundColor: "#ff9800",
+        borderDash: [6, 4],
+        pointRadius: 0,
+        yAxisID: "y1",
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: "index" as const,
+      intersect: false,
+    },
+    scales: {
+      x: {
+        title: { display: true, text: "Time (reference number)" },
+      },
+      y: {
+        position: "left" as const,
+        title: { display: true, text: "Frames / Pages" },
+        beginAtZero: true,
+        ticks: { precision: 0 },
+      },
+      y1: {
+        position: "right" as const,
+        title: { display: true, text: "Fault Rate (%)" },
+        min: 0,
+        max: 100,
+        grid: { drawOnChartArea: false },
+      },
+    },
+    plugins: {
+      legend: { position: "top" as const },
+      title: { display: true, text: "Allocation Over Time" },
+    },
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Input Panel */}
+      <Card className="lg:col-span-1">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Input Parameters</h2>
+
+          <div className="mb-4">
+            <Label htmlFor="wsReferenceString" className="text-sm font-medium text-[#757575] mb-1">
+              Reference String
+            </Label>
+            <Textarea
+              id="wsReferenceString"
+              value={referenceString}
+              onChange={(e) => setReferenceString(e.target.value)}
+              placeholder="e.g., 1 2 1 3 1 2 4 5 6 5 4 6 5 1 2 1"
+              className="w-full h-20 font-mono text-xs"
+            />
+            <p className="text-xs text-[#757575] mt-1">Enter space-separated page numbers</p>
+          </div>
+
+          <h3 className="font-medium mb-2">Working Set</h3>
+          <div className="mb-4">
+            <Label htmlFor="wsDelta" className="text-sm font-medium text-[#757575] mb-1">
+              Window Size (Δ)
+            </Label>
+            <Input
+              id="wsDelta"
+              type="number"
+              min="1"
+              value={delta}
+              onChange={(e) => setDelta(e.target.value)}
+              className="w-full"
+            />
+            <p className="text-xs text-[#757575] mt-1">Pages used in the last Δ references stay resident</p>
+          </div>
+
+          <h3 className="font-medium mb-2">Page-Fault Frequency</h3>
+          <div className="mb-4 grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="pffInitialFrames" className="text-sm font-medium text-[#757575] mb-1">
+                Initial Frames
+              </Label>
+              <Input
+                id="pffInitialFrames"
+                type="number"
+                min="1"
+                value={initialFrames}
+                onChange={(e) => setInitialFrames(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="pffWindow" className="text-sm font-medium text-[#757575] mb-1">
+                Rate Window
+              </Label>
+              <Input
+                id="pffWindow"
+                type="number"
+                min="1"
+                value={rateWindow}
+                onChange={(e) => setRateWindow(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="pffLower" className="text-sm font-medium text-[#757575] mb-1">
+                Lower (%)
+              </Label>
+              <Input
+                id="pffLower"
+                type="number"
+                min="0"
+                max="100"
+                value={lowerThreshold}
+                onChange={(e) => setLowerThreshold(e.target.value)}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <Label htmlFor="pffUpper" className="text-sm font-medium text-[#757575] mb-1">
+                Upper (%)
+              </Label>
+              <Input
+                id="pffUpper"
+                type="number"
+                min="0"
+                max="100"
+                value={upperThreshold}
+                onChange={(e) => setUpperThreshold(e.target.value)}
+                className="w-full"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-[#757575] mb-6">
+            On each fault, a fault rate above the upper threshold adds a frame
+            and one below the lower threshold releases a frame
+          </p>
+
+          {error && (
+            <div className="mb-4 p-3 bg-[#f44336] bg-opacity-10 text-[#f44336] rounded-md flex">
+              <AlertCircle className="h-5 w-5 mr-2" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-4">
+            <Button onClick={handleRun} className="bg-primary text-white">
+              <Play className="h-4 w-4 mr-1" />
+              Run
+            </Button>
+            <Button onClick={handleReset} variant="outline">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results Panel */}
+      <Card className="lg:col-span-2">
+        <CardContent className="pt-6">
+          <h2 className="text-xl font-medium mb-4">Simulation Results</h2>
+
+          {!workingSet || !pff ? (
+            <div className="text-center py-8 text-[#757575]">
+              <Activity className="h-16 w-16 mx-auto mb-2 text-[#757575]" />
+              <p>Configure parameters and click Run to start the simulation</p>
+            </div>
+          ) : (
+            <div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Working-Set Faults</p>
+                  <p className="text-2xl font-medium text-[#f44336]">{workingSet.faults}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Avg. Working Set</p>
+                  <p className="text-2xl font-medium text-[#3f51b5]">
+                    {workingSet.averageSize.toFixed(2)}
+                    <span className="text-sm text-[#757575]"> (peak {workingSet.peakSize})</span>
+                  </p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">PFF Faults</p>
+                  <p className="text-2xl font-medium text-[#f44336]">{pff.faults}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <p className="text-sm text-[#757575]">Avg. PFF Frames</p>
+                  <p className="text-2xl font-medium text-[#4caf50]">
+                    {pff.averageFrames.toFixed(2)}
+                    <span className="text-sm text-[#757575]"> (peak {pff.peakFrames})</span>
+                  </p>
+                </div>
+              </div>
+
+              <div className="mb-4 bg-gray-50 p-4 rounded-md" style={{ height: "320px" }}>
+                <Line data={chartData} options={chartOptions} />
+              </div>
+
+              <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="px-3 py-2 text-left">t</th>
+                      <th className="px-3 py-2 text-left">Ref</th>
+                      <th className="px-3 py-2 text-left">Working Set</th>
+                      <th className="px-3 py-2 text-left">PFF Resident</th>
+                      <th className="px-3 py-2 text-right">Rate</th>
+                      <th className="px-3 py-2 text-left">Allocation</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {workingSet.steps.map((step, i) => {
+                      const pffStep = pff.steps[i];
+                      return (
+                        <tr key={`ws-${i}`} className="border-t">
+                          <td className="px-3 py-1">{step.time + 1}</td>
+                          <td className="px-3 py-1 font-mono">{step.reference}</td>
+                          <td className={`px-3 py-1 font-mono ${step.isFault ? "text-[#f44336]" : ""}`}>
+                            {`{${step.workingSet.join(", ")}}`}
+                          </td>
+                          <td className={`px-3 py-1 font-mono ${pffStep.isFault ? "text-[#f44336]" : ""}`}>
+                            {`{${pffStep.residentPages.join(", ")}}`}
+                            {pffStep.evicted && (
+                              <span className="text-[#757575]"> evicted {pffStep.evicted.join(", ")}</span>
+                            )}
+                          </td>
+                          <td className="px-3 py-1 text-right">{(pffStep.faultRate * 100).toFixed(0)}%</td>
+                          <td className="px-3 py-1">
+                            {pffStep.allocatedFrames}
+                            {pffStep.adjustment === "grow" && (
+                              <span className="ml-1 text-[#4caf50]">▲ grow</span>
+                            )}
+                            {pffStep.adjustment === "shrink" && (
+                              <span className="ml-1 text-[#ff9800]">▼ shrink</span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <p className="text-xs text-[#757575] mt-4">
+                Red entries are page faults. The working-set model keeps exactly
+                the pages used in the last Δ references, while PFF replaces pages
+                LRU within its allocation and only resizes it when a fault occurs.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
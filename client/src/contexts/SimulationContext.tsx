@@ -1,50 +1,137 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { MemoryResult } from '@/lib/algorithms/memory';
-import { DiskResult } from '@/lib/algorithms/disk';
+import { MemoryAlgorithm, MemoryResult } from '@/lib/algorithms/memory';
+import { PagingCost } from '@/lib/algorithms/pagingCost';
+import { DiskAlgorithm, DiskResult } from '@/lib/algorithms/disk';
+import { DiskWaitSummary } from '@/lib/algorithms/diskMetrics';
+import { DiskTiming } from '@/lib/algorithms/diskTiming';
+import { AllocationResult, AllocationSummary, FitStrategy, summarizeAllocation } from '@/lib/algorithms/contiguous';
+
+interface MemoryComparison {
+  faults: number;
+  hits: number;
+  ioCount?: number; // Page reads plus write-backs, when the run was costed
+  effectiveAccessTime?: number; // ns
+}
+
+interface DiskComparison {
+  seekDistance: number;
+  cylinders: number;
+  wraparoundCounted?: boolean; // C-SCAN/C-LOOK: whether seekDistance includes the return jump
+  totalMs?: number; // Service time under the drive timing model
+  meanServiceMs?: number;
+  waits?: DiskWaitSummary; // Per-request wait and fairness metrics
+}
 
 interface ComparisonData {
-  lru: { faults: number; hits: number } | null;
-  arb: { faults: number; hits: number } | null;
-  cscan: { seekDistance: number; cylinders: number } | null;
-  look: { seekDistance: number; cylinders: number } | null;
+  fifo: MemoryComparison | null;
+  lru: MemoryComparison | null;
+  arb: MemoryComparison | null;
+  opt: MemoryComparison | null;
+  clock: MemoryComparison | null;
+  eclock: MemoryComparison | null;
+  lfu: MemoryComparison | null;
+  mfu: MemoryComparison | null;
+  arc: MemoryComparison | null;
+  twoq: MemoryComparison | null;
+  lirs: MemoryComparison | null;
+  clockpro: MemoryComparison | null;
+  fcfs: DiskComparison | null;
+  sstf: DiskComparison | null;
+  scan: DiskComparison | null;
+  look: DiskComparison | null;
+  cscan: DiskComparison | null;
+  clook: DiskComparison | null;
+  nstep: DiskComparison | null;
+  fscan: DiskComparison | null;
+  deadline: DiskComparison | null;
+  bfq: DiskComparison | null;
+  allocation: { memorySize: number; strategies: Record<FitStrategy, AllocationSummary> } | null;
 }
 
 interface SimulationContextType {
   comparisonData: ComparisonData;
-  updateMemoryComparison: (algorithm: 'lru' | 'arb', result: MemoryResult) => void;
-  updateDiskComparison: (algorithm: 'cscan' | 'look', result: DiskResult, cylinders: number) => void;
-  activeTab: 'memory' | 'disk' | 'comparison';
-  setActiveTab: (tab: 'memory' | 'disk' | 'comparison') => void;
+  updateMemoryComparison: (algorithm: MemoryAlgorithm, result: MemoryResult, cost?: PagingCost) => void;
+  updateDiskComparison: (algorithm: DiskAlgorithm, result: DiskResult, cylinders: number, timing?: DiskTiming, metrics?: DiskWaitSummary) => void;
+  updateAllocationComparison: (memorySize: number, results: Record<FitStrategy, AllocationResult>) => void;
+  activeTab: 'memory' | 'translation' | 'allocation' | 'disk' | 'comparison';
+  setActiveTab: (tab: 'memory' | 'translation' | 'allocation' | 'disk' | 'comparison') => void;
 }
 
 const SimulationContext = createContext<SimulationContextType | undefined>(undefined);
 
 export function SimulationProvider({ children }: { children: ReactNode }) {
   const [comparisonData, setComparisonData] = useState<ComparisonData>({
+    fifo: null,
     lru: null,
     arb: null,
-    cscan: null,
+    opt: null,
+    clock: null,
+    eclock: null,
+    lfu: null,
+    mfu: null,
+    arc: null,
+    twoq: null,
+    lirs: null,
+    clockpro: null,
+    fcfs: null,
+    sstf: null,
+    scan: null,
     look: null,
+    cscan: null,
+    clook: null,
+    nstep: null,
+    fscan: null,
+    deadline: null,
+    bfq: null,
+    allocation: null,
   });
   
-  const [activeTab, setActiveTab] = useState<'memory' | 'disk' | 'comparison'>('memory');
+  const [activeTab, setActiveTab] = useState<'memory' | 'translation' | 'allocation' | 'disk' | 'comparison'>('memory');
 
-  function updateMemoryComparison(algorithm: 'lru' | 'arb', result: MemoryResult) {
+  function updateMemoryComparison(algorithm: MemoryAlgorithm, result: MemoryResult, cost?: PagingCost) {
     setComparisonData(prev => ({
       ...prev,
       [algorithm]: {
         faults: result.faults,
         hits: result.hits,
+        ioCount: cost?.ioCount,
+        effectiveAccessTime: cost?.effectiveAccessTime,
       },
     }));
   }
 
-  function updateDiskComparison(algorithm: 'cscan' | 'look', result: DiskResult, cylinders: number) {
+  function updateDiskComparison(algorithm: DiskAlgorithm, result: DiskResult, cylinders: number, timing?: DiskTiming, metrics?: DiskWaitSummary) {
     setComparisonData(prev => ({
       ...prev,
       [algorithm]: {
         seekDistance: result.seekDistance,
         cylinders,
+        wraparoundCounted: result.wraparoundCounted,
+        totalMs: timing?.totalMs,
+        meanServiceMs: timing?.meanServiceMs,
+        waits: metrics && {
+          meanWait: metrics.meanWait,
+          waitVariance: metrics.waitVariance,
+          p95Wait: metrics.p95Wait,
+          p99Wait: metrics.p99Wait,
+          maxWait: metrics.maxWait,
+          maxBypassed: metrics.maxBypassed,
+        },
+      },
+    }));
+  }
+
+  function updateAllocationComparison(memorySize: number, results: Record<FitStrategy, AllocationResult>) {
+    setComparisonData(prev => ({
+      ...prev,
+      allocation: {
+        memorySize,
+        strategies: {
+          first: summarizeAllocation(results.first, memorySize),
+          best: summarizeAllocation(results.best, memorySize),
+          worst: summarizeAllocation(results.worst, memorySize),
+          next: summarizeAllocation(results.next, memorySize),
+        },
       },
     }));
   }
@@ -55,6 +142,7 @@ export function SimulationProvider({ children }: { children: ReactNode }) {
         comparisonData, 
         updateMemoryComparison, 
         updateDiskComparison,
+        updateAllocationComparison,
         activeTab,
         setActiveTab 
       }}
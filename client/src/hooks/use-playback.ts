@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from "react";
+
+const BASE_DELAY = 1000;
+
+export interface Playback {
+  currentStep: number;
+  stepCount: number;
+  isPlaying: boolean;
+  playbackSpeed: number;
+  setPlaybackSpeed: (speed: number) => void;
+  play: () => void;
+  pause: () => void;
+  reset: () => void;
+  stepForward: () => void;
+  stepBack: () => void;
+  seek: (step: number) => void;
+}
+
+// Step-through playback of a simulation timeline: play, pause, step, speed and seek.
+// onAdvance runs whenever playback moves forward by one step (while playing or on
+// "step forward"), so a visualization can animate that step
+export function usePlayback(
+  stepCount: number,
+  onAdvance?: (step: number) => void
+): Playback {
+  const [currentStep, setCurrentStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  const animationRef = useRef<number | null>(null);
+  const onAdvanceRef = useRef(onAdvance);
+  onAdvanceRef.current = onAdvance;
+
+  useEffect(() => {
+    return () => {
+      if (animationRef.current !== null) {
+        cancelAnimationFrame(animationRef.current);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isPlaying) {
+      if (animationRef.current !== null) {
+        cancelAnimationFrame(animationRef.current);
+        animationRef.current = null;
+      }
+      return;
+    }
+
+    let lastStepTime = Date.now();
+
+    const animate = () => {
+      const now = Date.now();
+      const elapsed = now - lastStepTime;
+      const stepDelay = BASE_DELAY / playbackSpeed;
+
+      if (elapsed >= stepDelay) {
+        lastStepTime = now;
+
+        if (currentStep < stepCount - 1) {
+          setCurrentStep((prev) => prev + 1);
+          onAdvanceRef.current?.(currentStep + 1);
+        } else {
+          setIsPlaying(false);
+          return;
+        }
+      }
+
+      animationRef.current = requestAnimationFrame(animate);
+    };
+
+    animationRef.current = requestAnimationFrame(animate);
+
+    return () => {
+      if (animationRef.current !== null) {
+        cancelAnimationFrame(animationRef.current);
+      }
+    };
+  }, [isPlaying, currentStep, playbackSpeed, stepCount]);
+
+  const play = () => {
+    if (currentStep === stepCount - 1) {
+      setCurrentStep(0);
+    }
+    setIsPlaying(true);
+  };
+
+  const pause = () => {
+    setIsPlaying(false);
+  };
+
+  const reset = () => {
+    setIsPlaying(false);
+    setCurrentStep(0);
+  };
+
+  const stepForward = () => {
+    if (currentStep < stepCount - 1) {
+      setCurrentStep((prev) => prev + 1);
+      onAdvanceRef.current?.(currentStep + 1);
+    }
+  };
+
+  const stepBack = () => {
+    if (currentStep > 0) {
+      setCurrentStep((prev) => prev - 1);
+    }
+  };
+
+  const seek = (step: number) => {
+    setCurrentStep(step);
+    setIsPlaying(false);
+  };
+
+  return {
+    currentStep: Math.min(currentStep, Math.max(0, stepCount - 1)),
+    stepCount,
+    isPlaying,
+    playbackSpeed,
+    setPlaybackSpeed,
+    play,
+    pause,
+    reset,
+    stepForward,
+    stepBack,
+    seek,
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { simulate2Q, simulateARC, simulateClockPro, simulateLIRS } from "./adaptive";
+import { MemoryResult, simulateLRU, simulateOPT } from "./memory";
+
+const policies: [string, (frameCount: number, refString: number[]) => MemoryResult][] = [
+  ["ARC", simulateARC],
+  ["2Q", simulate2Q],
+  ["LIRS", simulateLIRS],
+  ["CLOCK-Pro", simulateClockPro],
+];
+
+const textbook = [7, 0, 1, 2, 0, 3, 0, 4, 2, 3, 0, 3, 2, 1, 2, 0, 1, 7, 0, 1];
+
+// Two hot pages, then a one-time scan that LRU lets flush them out
+const scan = [1, 2, 1, 2, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 1, 2];
+
+describe("adaptive page replacement", () => {
+  it.each(policies)("counts every reference once and stays within the frames (%s)", (_, simulate) => {
+    const result = simulate(3, textbook);
+    expect(result.faults + result.hits).toBe(textbook.length);
+    expect(result.faults).toBeGreaterThanOrEqual(simulateOPT(3, textbook).faults);
+    result.steps.forEach((step) => {
+      expect(step.framesAfter.filter((page) => page !== -1).length).toBeLessThanOrEqual(3);
+    });
+  });
+
+  it.each(policies)("only takes compulsory faults when every page fits (%s)", (_, simulate) => {
+    expect(simulate(6, textbook).faults).toBe(new Set(textbook).size);
+  });
+
+  it.each(policies.filter(([name]) => name !== "2Q"))("keeps hot pages through a scan (%s)", (_, simulate) => {
+    const result = simulate(4, scan);
+    expect(simulateLRU(4, scan).faults).toBe(12);
+    expect(result.faults).toBe(10);
+    expect(result.steps.slice(-2).every((step) => !step.isFault)).toBe(true);
+  });
+
+  it("adapts the ARC target when a ghost in B1 is referenced", () => {
+    const result = simulateARC(2, [1, 2, 1, 3, 1, 2]);
+    const step = result.steps[5];
+    expect(result.faults).toBe(4);
+    expect(step.adaptiveTarget).toBe(1);
+    // Evicts page 1 from T2, where LRU would have evicted page 3
+    expect(step.frames[step.replacedFrame!]).toBe(1);
+  });
+
+  it("promotes a page found in 2Q's A1out to Am", () => {
+    // Page 1 leaves A1in for A1out after the scan, then is re-referenced while its ghost is
+    // the oldest in A1out
+    const refs = [1, 2, 3, 4, 5, 6, 1, 7, 8, 9, 10, 11, 1];
+    const result = simulate2Q(4, refs);
+    expect(result.steps[refs.length - 1].isFault).toBe(false);
+    expect(result.faults).toBe(12);
+    expect(simulateLRU(4, refs).faults).toBe(13);
+  });
+});
@@ -0,0 +1,421 @@
+import { CacheList, MemoryResult, MemoryStep } from "./memory";
+
+// Pages sit in fixed frame slots so the frame grid stays stable while the policies
+// reorder their own lists. A victim's frame is reused for the page that replaces it
+function createFrameTable(frameCount: number) {
+  const frames: number[] = new Array(frameCount).fill(-1);
+  return {
+    frames,
+    load(page: number, victim?: number) {
+      const index = frames.indexOf(victim === undefined ? -1 : victim);
+      frames[index] = page;
+      return index;
+    },
+  };
+}
+
+function startStep(page: number, frames: number[]): MemoryStep {
+  return { reference: page, frames: [...frames], framesAfter: [], isFault: false };
+}
+
+const remove = (list: number[], page: number) => {
+  const index = list.indexOf(page);
+  if (index !== -1) list.splice(index, 1);
+};
+
+// ARC (Adaptive Replacement Cache, Megiddo & Modha)
+// T1 holds pages seen once recently and T2 pages seen at least twice; B1 and B2 remember
+// the pages most recently evicted from each. A hit in B1 means T1 was too small, so the
+// target size p of T1 grows; a hit in B2 shrinks it. Lists are kept LRU first
+export function simulateARC(frameCount: number, refString: number[]): MemoryResult {
+  const c = frameCount;
+  const { frames, load } = createFrameTable(c);
+  const t1: number[] = [];
+  const t2: number[] = [];
+  const b1: number[] = [];
+  const b2: number[] = [];
+  let p = 0;
+
+  const result: MemoryResult = { steps: [], faults: 0, hits: 0 };
+
+  // Evict the LRU page of T1 or T2 into its ghost list, as directed by the target p
+  const replace = (inB2: boolean) => {
+    if (t1.length > 0 && (t1.length > p || (inB2 && t1.length === p))) {
+      const victim = t1.shift()!;
+      b1.push(victim);
+      return victim;
+    }
+    const victim = t2.shift()!;
+    b2.push(victim);
+    return victim;
+  };
+
+  for (const page of refString) {
+    const step = startStep(page, frames);
+    let victim: number | undefined;
+    const full = t1.length + t2.length >= c;
+
+    if (t1.includes(page) || t2.includes(page)) {
+      // Case I: hit - the page has now been seen twice, so it moves to T2
+      result.hits++;
+      remove(t1, page);
+      remove(t2, page);
+      t2.push(page);
+    } else {
+      result.faults++;
+      step.isFault = true;
+
+      if (b1.includes(page)) {
+        // Case II: recently evicted from T1 - favour recency
+        p = Math.min(c, p + Math.max(b2.length / b1.length, 1));
+        if (full) victim = replace(false);
+        remove(b1, page);
+        t2.push(page);
+      } else if (b2.includes(page)) {
+        // Case III: recently evicted from T2 - favour frequency
+        p = Math.max(0, p - Math.max(b1.length / b2.length, 1));
+        if (full) victim = replace(true);
+        remove(b2, page);
+        t2.push(page);
+      } else {
+        // Case IV: a new page
+        if (t1.length + b1.length === c) {
+          if (t1.length < c) {
+            b1.shift();
+            if (full) victim = replace(false);
+          } else {
+            victim = t1.shift();
+          }
+        } else if (t1.length + t2.length + b1.length + b2.length >= c) {
+          if (t1.length + t2.length + b1.length + b2.length === 2 * c) b2.shift();
+          if (full) victim = replace(false);
+        }
+        t1.push(page);
+      }
+
+      step.replacedFrame = load(page, victim);
+    }
+
+    step.framesAfter = [...frames];
+    step.cacheLists = [
+      { name: "T1 (recent)", pages: [...t1] },
+      { name: "T2 (frequent)", pages: [...t2] },
+      { name: "B1 (ghost of T1)", pages: [...b1], ghost: true },
+      { name: "B2 (ghost of T2)", pages: [...b2], ghost: true },
+    ];
+    step.adaptiveTarget = p;
+    result.steps.push(step);
+  }
+
+  return result;
+}
+
+// 2Q (Johnson & Shasha, full version)
+// New pages enter A1in, a FIFO of about a quarter of the frames. Pages pushed out of
+// A1in are remembered in the ghost FIFO A1out; only a page re-referenced while in A1out
+// is promoted to Am, the main LRU list. Scanned-once pages therefore never reach Am
+export function simulate2Q(frameCount: number, refString: number[]): MemoryResult {
+  const kin = Math.max(1, Math.round(frameCount / 4));
+  const kout = Math.max(1, Math.round(frameCount / 2));
+  const { frames, load } = createFrameTable(frameCount);
+  const a1in: number[] = []; // Oldest first
+  const a1out: number[] = []; // Oldest first
+  const am: number[] = []; // LRU first
+
+  const result: MemoryResult = { steps: [], faults: 0, hits: 0 };
+
+  // Free a frame: trim A1in if it is over its share (or Am is empty), else evict from Am
+  const reclaim = () => {
+    if (a1in.length + am.length < frameCount) return undefined;
+    if (a1in.length > kin || am.length === 0) {
+      const victim = a1in.shift()!;
+      a1out.push(victim);
+      if (a1out.length > kout) a1out.shift();
+      return victim;
+    }
+    return am.shift();
+  };
+
+  for (const page of refString) {
+    const step = startStep(page, frames);
+
+    if (am.includes(page)) {
+      result.hits++;
+      remove(am, page);
+      am.push(page);
+    } else if (a1in.includes(page)) {
+      // Correlated re-reference: left where it is
+      result.hits++;
+    } else {
+      result.faults++;
+      step.isFault = true;
+      // Check A1out before reclaiming, which may push the page's ghost out of it
+      const promoted = a1out.includes(page);
+      if (promoted) remove(a1out, page);
+      const victim = reclaim();
+
+      if (promoted) {
+        am.push(page);
+      } else {
+        a1in.push(page);
+      }
+
+      step.replacedFrame = load(page, victim);
+    }
+
+    step.framesAfter = [...frames];
+    step.cacheLists = [
+      { name: `A1in (FIFO, ${kin})`, pages: [...a1in] },
+      { name: "Am (LRU)", pages: [...am] },
+      { name: `A1out (ghost, ${kout})`, pages: [...a1out], ghost: true },
+    ];
+    result.steps.push(step);
+  }
+
+  return result;
+}
+
+// LIRS (Low Inter-reference Recency Set, Jiang & Zhang)
+// Pages with a short reuse distance are LIR and always resident; the rest are HIR, and
+// only a few frames (here one in ten, at least one) hold resident HIR pages in queue Q.
+// The recency stack S also keeps non-resident HIR pages, so a page that returns while
+// still in S has proved a short reuse distance and becomes LIR in place of the oldest one
+export function simulateLIRS(frameCount: number, refString: number[]): MemoryResult {
+  const hirSize = Math.max(1, Math.floor(frameCount / 10));
+  const lirSize = frameCount - hirSize;
+  const { frames, load } = createFrameTable(frameCount);
+  const stack: number[] = []; // Bottom first
+  const queue: number[] = []; // Resident HIR pages, next victim first
+  const lir = new Set<number>();
+  const resident = new Set<number>();
+
+  const result: MemoryResult = { steps: [], faults: 0, hits: 0 };
+
+  // Drop HIR entries from the bottom of S until an LIR page is at the bottom
+  const prune = () => {
+    while (stack.length > 0 && !lir.has(stack[0])) stack.shift();
+  };
+
+  const moveToTop = (page: number) => {
+    remove(stack, page);
+    stack.push(page);
+  };
+
+  // Make a page LIR, demoting the bottom LIR pages to resident HIR if there are too many
+  const promote = (page: number) => {
+    lir.add(page);
+    remove(queue, page);
+    while (lir.size > lirSize) {
+      const bottom = stack.find((entry) => lir.has(entry))!;
+      lir.delete(bottom);
+      queue.push(bottom);
+    }
+    prune();
+  };
+
+  for (const page of refString) {
+    const step = startStep(page, frames);
+    const inStack = stack.includes(page);
+
+    if (lir.has(page)) {
+      result.hits++;
+      moveToTop(page);
+      prune();
+    } else if (resident.has(page)) {
+      // Resident HIR page
+      result.hits++;
+      moveToTop(page);
+      if (inStack) {
+        promote(page);
+      } else {
+        remove(queue, page);
+        queue.push(page);
+      }
+    } else {
+      result.faults++;
+      step.isFault = true;
+
+      let victim: number | undefined;
+      if (resident.size >= frameCount) {
+        victim = queue.shift()!;
+        resident.delete(victim);
+      }
+      resident.add(page);
+      moveToTop(page);
+
+      if (victim === undefined && lir.size < lirSize) {
+        // Warm-up: the first pages fill the LIR set
+        lir.add(page);
+      } else if (inStack) {
+        promote(page);
+      } else {
+        queue.push(page);
+      }
+
+      step.replacedFrame = load(page, victim);
+    }
+
+    step.framesAfter = [...frames];
+    step.cacheLists = [
+      { name: "Stack S (bottom first)", pages: [...stack] },
+      { name: `LIR (${lirSize})`, pages: stack.filter((entry) => lir.has(entry)) },
+      { name: `Q: resident HIR (${hirSize})`, pages: [...queue] },
+      {
+        name: "Non-resident HIR in S",
+        pages: stack.filter((entry) => !resident.has(entry)),
+        ghost: true,
+      },
+    ];
+    result.steps.push(step);
+  }
+
+  return result;
+}
+
+interface ClockProEntry {
+  page: number;
+  hot: boolean;
+  resident: boolean; // Cold pages stay on the clock as non-resident test entries after eviction
+  referenced: boolean;
+}
+
+// CLOCK-Pro (Jiang, Chen & Zhang)
+// An approximation of LIRS on a single clock. Resident pages are hot or cold; a cold page
+// that is referenced again while its test period lasts becomes hot. Three hands sweep the
+// clock: the cold hand evicts unreferenced cold pages (keeping them as non-resident test
+// entries), the hot hand demotes unreferenced hot pages, and the test hand ends the oldest
+// test periods. The cold-page target grows when a test entry is re-referenced and shrinks
+// when a test period expires unused
+export function simulateClockPro(frameCount: number, refString: number[]): MemoryResult {
+  const { frames, load } = createFrameTable(frameCount);
+  const clock: ClockProEntry[] = [];
+  const hands = { hot: 0, cold: 0, test: 0 };
+  const maxColdTarget = Math.max(1, frameCount - 1);
+  let coldTarget = 1; // Starts favouring hot pages; test-period hits earn the cold pages more room
+
+  const result: MemoryResult = { steps: [], faults: 0, hits: 0 };
+
+  const count = (match: (entry: ClockProEntry) => boolean) => clock.filter(match).length;
+  const hotCount = () => count((entry) => entry.resident && entry.hot);
+  const residentCount = () => count((entry) => entry.resident);
+  const testCount = () => count((entry) => !entry.resident);
+
+  const advance = (hand: keyof typeof hands) => {
+    hands[hand] = clock.length === 0 ? 0 : (hands[hand] + 1) % clock.length;
+  };
+
+  const removeAt = (index: number) => {
+    clock.splice(index, 1);
+    (Object.keys(hands) as (keyof typeof hands)[]).forEach((hand) => {
+      if (hands[hand] > index) hands[hand]--;
+      if (hands[hand] >= clock.length) hands[hand] = 0;
+    });
+  };
+
+  // New entries go just behind the hot hand, the head of the clock
+  const insert = (entry: ClockProEntry) => {
+    const index = clock.length === 0 ? 0 : hands.hot;
+    clock.splice(index, 0, entry);
+    if (clock.length > 1) {
+      (Object.keys(hands) as (keyof typeof hands)[]).forEach((hand) => {
+        if (hands[hand] >= index) hands[hand]++;
+      });
+    }
+  };
+
+  // End the test period of the next non-resident entry
+  const runHandTest = () => {
+    for (let scanned = 0; scanned < clock.length; scanned++) {
+      const entry = clock[hands.test];
+      if (!entry.resident) {
+        removeAt(hands.test);
+        coldTarget = Math.max(1, coldTarget - 1);
+        return;
+      }
+      advance("test");
+    }
+  };
+
+  // Demote one unreferenced hot page to cold, clearing reference bits on the way
+  const runHandHot = () => {
+    for (let scanned = 0; scanned < 2 * clock.length + 1; scanned++) {
+      const entry = clock[hands.hot];
+      if (entry.resident && entry.hot) {
+        if (entry.referenced) {
+          entry.referenced = false;
+        } else {
+          entry.hot = false;
+          advance("hot");
+          return;
+        }
+      }
+      advance("hot");
+    }
+  };
+
+  // Evict one unreferenced cold page; referenced cold pages are promoted to hot
+  const runHandCold = () => {
+    for (let scanned = 0; scanned < 4 * clock.length + 4; scanned++) {
+      const index = hands.cold;
+      const entry = clock[index];
+      advance("cold");
+      if (!entry.resident || entry.hot) continue;
+
+      if (entry.referenced) {
+        entry.hot = true;
+        entry.referenced = false;
+        while (hotCount() > frameCount - coldTarget) runHandHot();
+        continue;
+      }
+
+      entry.resident = false;
+      while (testCount() > frameCount) runHandTest();
+      return entry.page;
+    }
+    return undefined;
+  };
+
+  for (const page of refString) {
+    const step = startStep(page, frames);
+    const index = clock.findIndex((entry) => entry.page === page);
+    const entry = index === -1 ? undefined : clock[index];
+
+    if (entry && entry.resident) {
+      result.hits++;
+      entry.referenced = true;
+    } else {
+      result.faults++;
+      step.isFault = true;
+
+      // Make room first, so the hands never land on the entry being added
+      const victim = residentCount() >= frameCount ? runHandCold() : undefined;
+
+      // Re-find the test entry: the cold hand may have ended its test period
+      const testIndex = clock.findIndex((candidate) => candidate.page === page);
+      if (testIndex !== -1) {
+        // Re-referenced during its test period: short reuse distance, so it becomes hot
+        coldTarget = Math.min(maxColdTarget, coldTarget + 1);
+        removeAt(testIndex);
+        insert({ page, hot: true, resident: true, referenced: false });
+        while (hotCount() > frameCount - coldTarget) runHandHot();
+      } else {
+        insert({ page, hot: false, resident: true, referenced: false });
+      }
+
+      step.replacedFrame = load(page, victim);
+    }
+
+    // Lists in clock order starting from the hot hand
+    const ordered = clock.map((_, k) => clock[(hands.hot + k) % clock.length]);
+    step.framesAfter = [...frames];
+    step.cacheLists = [
+      { name: "Hot", pages: ordered.filter((e) => e.resident && e.hot).map((e) => e.page) },
+      { name: "Cold (resident)", pages: ordered.filter((e) => e.resident && !e.hot).map((e) => e.page) },
+      { name: "Test (non-resident)", pages: ordered.filter((e) => !e.resident).map((e) => e.page), ghost: true },
+    ];
+    step.adaptiveTarget = coldTarget;
+    result.steps.push(step);
+  }
+
+  return result;
+}
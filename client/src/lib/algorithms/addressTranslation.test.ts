@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  simulateTranslation,
+  splitAddress,
+  splitAddressBits,
+  TranslationConfig,
+} from "./addressTranslation";
+
+// 16-bit addresses with 256-byte pages: 8 offset bits and two 4-bit page-table levels
+const config: TranslationConfig = {
+  addressBits: 16,
+  pageSize: 256,
+  levels: 2,
+  frameCount: 2,
+  tlbSize: 4,
+  tlbPolicy: "lru",
+  replacement: "lru",
+  latencies: { tlbNs: 1, memoryNs: 100, faultNs: 10000 },
+};
+
+describe("splitAddressBits", () => {
+  it("gives leftover page-number bits to the outermost level", () => {
+    expect(splitAddressBits(32, 4096, 2)).toEqual({ offsetBits: 12, levelBits: [10, 10] });
+    expect(splitAddressBits(32, 4096, 3)).toEqual({ offsetBits: 12, levelBits: [8, 6, 6] });
+  });
+});
+
+describe("splitAddress", () => {
+  it("splits the page number into one index per level", () => {
+    expect(splitAddress(0x1234, 8, [4, 4])).toEqual({ pageNumber: 0x12, offset: 0x34, levelIndexes: [1, 2] });
+  });
+
+  it("handles addresses wider than 32 bits", () => {
+    const { pageNumber, offset } = splitAddress(2 ** 40 + 5, 12, [14, 14]);
+    expect(pageNumber).toBe(2 ** 28);
+    expect(offset).toBe(5);
+  });
+});
+
+describe("simulateTranslation", () => {
+  // Pages 1, 2, 1, 3, 2, then page 0x12 under another outer entry
+  const addresses = [0x0110, 0x0220, 0x0130, 0x0340, 0x0250, 0x1234];
+  const result = simulateTranslation(addresses, config);
+
+  it("keeps the offset and maps the page to its frame", () => {
+    result.steps.forEach((step, i) => {
+      expect(step.offset).toBe(step.virtualAddress % config.pageSize);
+      expect(step.physicalAddress).toBe(step.frame * config.pageSize + step.offset);
+      expect(result.memory.steps[i].framesAfter[step.frame]).toBe(step.pageNumber);
+    });
+  });
+
+  it("walks every level on a TLB miss only", () => {
+    expect(result.steps.map((step) => step.tlbHit)).toEqual([false, false, true, false, false, false]);
+    expect(result.steps[2].walk).toEqual([]);
+    expect(result.steps[0].walk).toEqual([
+      { level: 1, index: 0, tableCreated: false },
+      { level: 2, index: 1, tableCreated: true },
+    ]);
+    expect(result.steps[5].walk[1].tableCreated).toBe(true);
+    expect(result.pageTablePages).toBe(3);
+  });
+
+  it("drops an evicted page's TLB entry", () => {
+    // Page 3 evicts page 2 from memory, so page 2's translation must go even though the
+    // TLB has room for it
+    const eviction = result.steps[3];
+    expect(eviction.evictedPage).toBe(2);
+    expect(eviction.tlbInvalidated).toBe(true);
+    expect(eviction.tlbAfter.map((entry) => entry.page)).toEqual([1, 3]);
+    expect(result.steps[4].tlbHit).toBe(false);
+    expect(result.steps[4].pageFault).toBe(true);
+  });
+
+  it("charges the TLB, each level, any fault and the data access", () => {
+    expect(result.steps.map((step) => step.accessTime)).toEqual([10301, 10301, 101, 10301, 10301, 10301]);
+    expect(result.effectiveAccessTime).toBeCloseTo((5 * 10301 + 101) / 6);
+  });
+});
@@ -0,0 +1,227 @@
+import { MemoryResult, simulateARB, simulateLRU } from "./memory";
+
+export type TLBPolicy = "lru" | "fifo";
+export type TranslationReplacement = "lru" | "arb";
+
+export interface TranslationLatencies {
+  tlbNs: number; // One TLB lookup
+  memoryNs: number; // One main-memory access (each page-table level costs one)
+  faultNs: number; // Servicing one page fault
+}
+
+export interface TranslationConfig {
+  addressBits: number; // Width of a virtual address
+  pageSize: number; // Bytes per page, a power of two
+  levels: number; // Page-table levels the page number is split across
+  frameCount: number; // Physical frames available to the process
+  tlbSize: number; // TLB entries (0 disables the TLB)
+  tlbPolicy: TLBPolicy;
+  replacement: TranslationReplacement;
+  latencies: TranslationLatencies;
+}
+
+export interface TLBEntry {
+  page: number;
+  frame: number;
+}
+
+export interface PageTableWalkStep {
+  level: number; // 1 = outermost table
+  index: number; // Entry read at this level
+  tableCreated: boolean; // The table at this level did not exist before this reference
+}
+
+export interface TranslationStep {
+  virtualAddress: number;
+  pageNumber: number;
+  offset: number;
+  levelIndexes: number[]; // Page number split into one index per level, outermost first
+  tlbHit: boolean;
+  walk: PageTableWalkStep[]; // Empty on a TLB hit
+  pageFault: boolean;
+  frame: number;
+  physicalAddress: number;
+  evictedPage?: number; // Page the replacement engine evicted to make room
+  tlbInvalidated?: boolean; // The evicted page's TLB entry was removed
+  tlbEvicted?: number; // Page whose entry was pushed out of a full TLB
+  tlbAfter: TLBEntry[]; // TLB contents after this reference, oldest first (next victim)
+  accessTime: number; // Nanoseconds spent on this reference
+}
+
+export interface TranslationResult {
+  steps: TranslationStep[];
+  offsetBits: number;
+  levelBits: number[]; // Bits of the page number used by each level, outermost first
+  tlbHits: number;
+  tlbMisses: number;
+  pageFaults: number;
+  pageTablePages: number; // Tables allocated by the end of the run
+  effectiveAccessTime: number; // Mean nanoseconds per reference
+  memory: MemoryResult; // Replacement engine run on the page numbers
+}
+
+// Bits used for the offset and for each page-table level
+// Page-number bits are shared evenly between the levels; any leftover bits go to the
+// outermost table, as in the usual two-level 10/10/12 split of a 32-bit address
+export function splitAddressBits(
+  addressBits: number,
+  pageSize: number,
+  levels: number
+): { offsetBits: number; levelBits: number[] } {
+  const offsetBits = Math.round(Math.log2(pageSize));
+  const pageBits = addressBits - offsetBits;
+  const base = Math.floor(pageBits / levels);
+  const levelBits = Array.from({ length: levels }, (_, i) =>
+    i === 0 ? pageBits - base * (levels - 1) : base
+  );
+  return { offsetBits, levelBits };
+}
+
+// Page number, offset and per-level indexes of one virtual address
+// Uses arithmetic rather than bitwise operators so addresses wider than 32 bits work
+export function splitAddress(
+  address: number,
+  offsetBits: number,
+  levelBits: number[]
+): { pageNumber: number; offset: number; levelIndexes: number[] } {
+  const pageSize = 2 ** offsetBits;
+  const pageNumber = Math.floor(address / pageSize);
+  const offset = address % pageSize;
+
+  const levelIndexes: number[] = [];
+  let remaining = pageNumber;
+  for (let level = levelBits.length - 1; level >= 0; level--) {
+    const entries = 2 ** levelBits[level];
+    levelIndexes.unshift(remaining % entries);
+    remaining = Math.floor(remaining / entries);
+  }
+
+  return { pageNumber, offset, levelIndexes };
+}
+
+// Translate a sequence of virtual addresses
+// The TLB is checked first; on a miss every page-table level is read from memory. Which
+// pages are resident is decided by running the LRU or ARB replacement engine on the page
+// numbers, so a fault here is exactly a fault there. When the engine evicts a page its
+// TLB entry is invalidated so the TLB never maps a page that is no longer in memory
+export function simulateTranslation(
+  addresses: number[],
+  config: TranslationConfig
+): TranslationResult {
+  const { offsetBits, levelBits } = splitAddressBits(
+    config.addressBits,
+    config.pageSize,
+    config.levels
+  );
+  const split = addresses.map((address) =>
+    splitAddress(address, offsetBits, levelBits)
+  );
+
+  const pageNumbers = split.map((parts) => parts.pageNumber);
+  const memory =
+    config.replacement === "arb"
+      ? simulateARB(config.frameCount, pageNumbers)
+      : simulateLRU(config.frameCount, pageNumbers);
+
+  // TLB entries in victim order: oldest first for FIFO, least recently used first for LRU
+  let tlb: TLBEntry[] = [];
+  // Inner tables exist once a page under their prefix has been touched; the root always does
+  const tables = new Set<string>();
+  const { tlbNs, memoryNs, faultNs } = config.latencies;
+
+  const result: TranslationResult = {
+    steps: [],
+    offsetBits,
+    levelBits,
+    tlbHits: 0,
+    tlbMisses: 0,
+    pageFaults: 0,
+    pageTablePages: 1,
+    effectiveAccessTime: 0,
+    memory,
+  };
+  let totalTime = 0;
+
+  addresses.forEach((virtualAddress, i) => {
+    const { pageNumber, offset, levelIndexes } = split[i];
+    const memoryStep = memory.steps[i];
+    const frame = memoryStep.framesAfter.indexOf(pageNumber);
+
+    const step: TranslationStep = {
+      virtualAddress,
+      pageNumber,
+      offset,
+      levelIndexes,
+      tlbHit: false,
+      walk: [],
+      pageFault: memoryStep.isFault,
+      frame,
+      physicalAddress: frame * config.pageSize + offset,
+      tlbAfter: [],
+      accessTime: 0,
+    };
+
+    const tlbIndex =
+      config.tlbSize > 0 ? tlb.findIndex((entry) => entry.page === pageNumber) : -1;
+    let time = config.tlbSize > 0 ? tlbNs : 0;
+
+    if (tlbIndex !== -1) {
+      result.tlbHits++;
+      step.tlbHit = true;
+      if (config.tlbPolicy === "lru") {
+        // Move to the most recently used end
+        tlb = [...tlb.slice(0, tlbIndex), ...tlb.slice(tlbIndex + 1), tlb[tlbIndex]];
+      }
+    } else {
+      result.tlbMisses++;
+
+      // One memory access per level to read the page-table entries
+      for (let level = 0; level < config.levels; level++) {
+        const prefix = levelIndexes.slice(0, level).join("/");
+        const tableCreated = level > 0 && !tables.has(prefix);
+        if (tableCreated) {
+          tables.add(prefix);
+          result.pageTablePages++;
+        }
+        step.walk.push({ level: level + 1, index: levelIndexes[level], tableCreated });
+        time += memoryNs;
+      }
+
+      if (memoryStep.isFault) {
+        result.pageFaults++;
+        time += faultNs;
+
+        // The engine's victim leaves memory, so its translation must leave the TLB
+        const replacedFrame = memoryStep.replacedFrame;
+        const evicted =
+          replacedFrame !== undefined ? memoryStep.frames[replacedFrame] : -1;
+        if (evicted !== -1 && evicted !== undefined) {
+          step.evictedPage = evicted;
+          const before = tlb.length;
+          tlb = tlb.filter((entry) => entry.page !== evicted);
+          step.tlbInvalidated = tlb.length < before;
+        }
+      }
+
+      // Cache the translation, pushing out the TLB's victim when it is full
+      if (config.tlbSize > 0) {
+        if (tlb.length >= config.tlbSize) {
+          step.tlbEvicted = tlb[0].page;
+          tlb = tlb.slice(1);
+        }
+        tlb = [...tlb, { page: pageNumber, frame }];
+      }
+    }
+
+    // Finally the data itself is read
+    time += memoryNs;
+    step.accessTime = time;
+    step.tlbAfter = tlb;
+    totalTime += time;
+    result.steps.push(step);
+  });
+
+  result.effectiveAccessTime =
+    addresses.length === 0 ? 0 : totalTime / addresses.length;
+  return result;
+}
@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { findFIFOAnomaly, simulateFaultCurve } from "./belady";
+
+const belady = [1, 2, 3, 4, 1, 2, 5, 1, 2, 3, 4, 5];
+
+// Make Math.random draw the given pages, out of pageCount, in order and then repeat
+const drawPages = (pages: number[], pageCount: number) => {
+  let next = 0;
+  vi.spyOn(Math, "random").mockImplementation(() => (pages[next++ % pages.length] + 0.5) / pageCount);
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("simulateFaultCurve", () => {
+  it("flags the FIFO anomaly going from 3 to 4 frames", () => {
+    const curve = simulateFaultCurve("fifo", 5, belady);
+    expect(curve.map((point) => point.faults)).toEqual([12, 12, 9, 10, 5]);
+    expect(curve.filter((point) => point.isAnomaly).map((point) => point.frames)).toEqual([4]);
+  });
+
+  it.each(["lru", "opt"] as const)("finds no anomaly for a stack algorithm (%s)", (algorithm) => {
+    const curve = simulateFaultCurve(algorithm, 5, belady);
+    expect(curve.some((point) => point.isAnomaly)).toBe(false);
+  });
+});
+
+describe("findFIFOAnomaly", () => {
+  it("returns the string and the frame counts where faults went up", () => {
+    drawPages(belady.map((page) => page - 1), 5);
+    const example = findFIFOAnomaly({ length: 12, pageCount: 5, maxFrames: 4, attempts: 1 });
+    expect(example).toEqual({ refString: belady.map((page) => page - 1), maxFrames: 4, anomalyAt: [4] });
+  });
+
+  it("gives up after the attempt budget", () => {
+    drawPages([0, 1, 2, 3], 5);
+    expect(findFIFOAnomaly({ length: 12, pageCount: 5, maxFrames: 4, attempts: 3 })).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  MemoryAlgorithm,
+  MemoryRunOptions,
+  runMemoryAlgorithm,
+} from "./memory";
+
+export interface FaultCurvePoint {
+  frames: number;
+  faults: number;
+  isAnomaly: boolean; // More faults than with one frame fewer (Belady's anomaly)
+}
+
+export interface AnomalyExample {
+  refString: number[];
+  maxFrames: number;
+  anomalyAt: number[]; // Frame counts where faults went up
+}
+
+export interface AnomalySearchOptions {
+  length?: number; // Reference string length (default 25)
+  pageCount?: number; // Distinct pages to draw from (default 5)
+  maxFrames?: number; // Largest frame count to test (default 5)
+  attempts?: number; // Random strings to try before giving up (default 20000)
+}
+
+// Run one algorithm for every frame count from 1 to maxFrames on the same reference string
+export function simulateFaultCurve(
+  algorithm: MemoryAlgorithm,
+  maxFrames: number,
+  refString: number[],
+  options: MemoryRunOptions = {}
+): FaultCurvePoint[] {
+  const curve: FaultCurvePoint[] = [];
+
+  for (let frames = 1; frames <= maxFrames; frames++) {
+    const { faults } = runMemoryAlgorithm(algorithm, frames, refString, options);
+    const previous = curve[curve.length - 1];
+    curve.push({
+      frames,
+      faults,
+      isAnomaly: previous !== undefined && faults > previous.faults,
+    });
+  }
+
+  return curve;
+}
+
+// Search random reference strings for one where FIFO suffers Belady's anomaly
+// Returns null if no anomaly turns up within the attempt budget
+export function findFIFOAnomaly(
+  options: AnomalySearchOptions = {}
+): AnomalyExample | null {
+  const length = options.length ?? 25;
+  const pageCount = options.pageCount ?? 5;
+  const maxFrames = options.maxFrames ?? 5;
+  const attempts = options.attempts ?? 20000;
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const refString = Array.from({ length }, () =>
+      Math.floor(Math.random() * pageCount)
+    );
+    const curve = simulateFaultCurve("fifo", maxFrames, refString);
+    const anomalyAt = curve.filter((p) => p.isAnomaly).map((p) => p.frames);
+
+    if (anomalyAt.length > 0) {
+      return { refString, maxFrames, anomalyAt };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { buddyBlockSize, simulateBuddy } from "./buddy";
+
+describe("buddyBlockSize", () => {
+  it("rounds up to a power of two no smaller than the minimum block", () => {
+    expect(buddyBlockSize(100, 64)).toBe(128);
+    expect(buddyBlockSize(128, 64)).toBe(128);
+    expect(buddyBlockSize(10, 64)).toBe(64);
+  });
+});
+
+describe("simulateBuddy", () => {
+  const result = simulateBuddy(1024, 64, [
+    { type: "allocate", process: "A", size: 100 },
+    { type: "allocate", process: "B", size: 240 },
+    { type: "allocate", process: "C", size: 64 },
+    { type: "free", process: "A" },
+    { type: "free", process: "C" },
+    { type: "free", process: "B" },
+  ]);
+
+  it("splits the smallest free block that fits", () => {
+    expect(result.steps[0].splits).toEqual([1024, 512, 256]);
+    expect(result.steps[0].block).toEqual({ start: 0, size: 128 });
+    expect(result.steps[1].splits).toEqual([]);
+    expect(result.steps[1].block).toEqual({ start: 256, size: 256 });
+    expect(result.steps[2].splits).toEqual([128]);
+    expect(result.steps[2].block).toEqual({ start: 128, size: 64 });
+  });
+
+  it("reports internal fragmentation from the rounded-up blocks", () => {
+    expect(result.steps[2].allocated).toBe(448);
+    expect(result.steps[2].requested).toBe(404);
+    expect(result.steps[2].internalFragmentation).toBeCloseTo(1 - 404 / 448);
+  });
+
+  it("merges free buddies back up the tree", () => {
+    // A's buddy is still split around C, so nothing merges until C is freed
+    expect(result.steps[3].merges).toEqual([]);
+    expect(result.steps[4].merges).toEqual([128, 256]);
+    expect(result.steps[5].merges).toEqual([512, 1024]);
+    expect(result.steps[5].tree.children).toBeUndefined();
+    expect(result.steps[5].largestFree).toBe(1024);
+  });
+
+  it("fails requests larger than memory", () => {
+    const failed = simulateBuddy(1024, 64, [{ type: "allocate", process: "A", size: 2000 }]);
+    expect(failed.failures).toBe(1);
+    expect(failed.steps[0].success).toBe(false);
+  });
+});
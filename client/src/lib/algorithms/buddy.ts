@@ -0,0 +1,168 @@
+import { AllocationRequest } from "./contiguous";
+
+export interface BuddyNode {
+  start: number;
+  size: number;
+  process: string | null; // Owner of an allocated leaf
+  requested?: number; // Bytes the owner asked for; the rest of the block is internal fragmentation
+  children?: [BuddyNode, BuddyNode]; // Set when the block has been split into two buddies
+}
+
+export interface BuddyStep {
+  request: AllocationRequest;
+  tree: BuddyNode; // Split tree after this request
+  success: boolean;
+  message: string;
+  block?: { start: number; size: number }; // Block allocated or freed
+  splits: number[]; // Sizes of the blocks split to satisfy an allocation, largest first
+  merges: number[]; // Sizes of the blocks rebuilt by merging free buddies, smallest first
+  allocated: number; // Total size of allocated blocks
+  requested: number; // Total bytes requested by the owners of those blocks
+  internalFragmentation: number; // 1 - requested / allocated
+  freeMemory: number;
+  largestFree: number;
+}
+
+export interface BuddyResult {
+  steps: BuddyStep[];
+  failures: number;
+  peakInternalFragmentation: number;
+}
+
+// Smallest power-of-two block, no smaller than minBlock, that holds size bytes
+export function buddyBlockSize(size: number, minBlock: number): number {
+  let block = minBlock;
+  while (block < size) block *= 2;
+  return block;
+}
+
+function cloneTree(node: BuddyNode): BuddyNode {
+  return {
+    ...node,
+    children: node.children
+      ? [cloneTree(node.children[0]), cloneTree(node.children[1])]
+      : undefined,
+  };
+}
+
+// Leaves of the tree in address order
+function leaves(node: BuddyNode): BuddyNode[] {
+  return node.children ? [...leaves(node.children[0]), ...leaves(node.children[1])] : [node];
+}
+
+// Path from the root to the leaf owned by a process
+function findOwner(node: BuddyNode, process: string): BuddyNode[] | null {
+  if (!node.children) return node.process === process ? [node] : null;
+  for (const child of node.children) {
+    const path = findOwner(child, process);
+    if (path) return [node, ...path];
+  }
+  return null;
+}
+
+// Run allocate/free requests against a buddy allocator
+// An allocation rounds up to a power of two and takes the smallest free block that fits,
+// lowest address first, splitting it in halves until it is the right size. Freeing a
+// block merges it with its buddy for as long as the buddy is also free
+export function simulateBuddy(
+  memorySize: number,
+  minBlock: number,
+  requests: AllocationRequest[]
+): BuddyResult {
+  const root: BuddyNode = { start: 0, size: memorySize, process: null };
+  const result: BuddyResult = { steps: [], failures: 0, peakInternalFragmentation: 0 };
+
+  for (const request of requests) {
+    const step: Pick<BuddyStep, "request" | "success" | "message" | "block" | "splits" | "merges"> = {
+      request,
+      success: true,
+      message: "",
+      splits: [],
+      merges: [],
+    };
+
+    if (request.type === "allocate") {
+      const blockSize = buddyBlockSize(request.size, minBlock);
+      const free = leaves(root).filter((leaf) => leaf.process === null && leaf.size >= blockSize);
+
+      if (findOwner(root, request.process)) {
+        step.success = false;
+        step.message = `${request.process} is already allocated`;
+      } else if (free.length === 0) {
+        step.success = false;
+        step.message =
+          blockSize > memorySize
+            ? `${request.size} needs a ${blockSize} block, larger than memory`
+            : `No free block of ${blockSize} or larger for ${request.size}`;
+      } else {
+        let node = free.reduce((best, leaf) => (leaf.size < best.size ? leaf : best));
+        while (node.size > blockSize) {
+          const half = node.size / 2;
+          step.splits.push(node.size);
+          node.children = [
+            { start: node.start, size: half, process: null },
+            { start: node.start + half, size: half, process: null },
+          ];
+          node = node.children[0];
+        }
+        node.process = request.process;
+        node.requested = request.size;
+        step.block = { start: node.start, size: node.size };
+        step.message = `${request.process} (${request.size}) given ${node.size} at ${node.start}`;
+      }
+    } else if (request.type === "free") {
+      const path = findOwner(root, request.process);
+      if (!path) {
+        step.success = false;
+        step.message = `${request.process} is not allocated`;
+      } else {
+        const leaf = path[path.length - 1];
+        step.block = { start: leaf.start, size: leaf.size };
+        leaf.process = null;
+        leaf.requested = undefined;
+
+        // Walk back up, merging while both halves are free and unsplit
+        for (let i = path.length - 2; i >= 0; i--) {
+          const [left, right] = path[i].children!;
+          if (left.children || right.children || left.process || right.process) break;
+          path[i].children = undefined;
+          step.merges.push(path[i].size);
+        }
+
+        step.message =
+          `${request.process} freed ${leaf.size} at ${leaf.start}` +
+          (step.merges.length > 0
+            ? `, merged up to ${step.merges[step.merges.length - 1]}`
+            : "");
+      }
+    } else {
+      step.success = false;
+      step.message = "The buddy system does not compact memory";
+    }
+
+    if (!step.success) result.failures++;
+
+    const current = leaves(root);
+    const used = current.filter((leaf) => leaf.process !== null);
+    const allocated = used.reduce((sum, leaf) => sum + leaf.size, 0);
+    const requested = used.reduce((sum, leaf) => sum + (leaf.requested ?? 0), 0);
+    const holes = current.filter((leaf) => leaf.process === null);
+    const internalFragmentation = allocated === 0 ? 0 : 1 - requested / allocated;
+    result.peakInternalFragmentation = Math.max(
+      result.peakInternalFragmentation,
+      internalFragmentation
+    );
+
+    result.steps.push({
+      ...step,
+      tree: cloneTree(root),
+      allocated,
+      requested,
+      internalFragmentation,
+      freeMemory: memorySize - allocated,
+      largestFree: Math.max(0, ...holes.map((leaf) => leaf.size)),
+    });
+  }
+
+  return result;
+}
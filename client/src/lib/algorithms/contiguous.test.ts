@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { AllocationRequest, FitStrategy, simulateContiguous, summarizeAllocation } from "./contiguous";
+
+const allocate = (process: string, size: number): AllocationRequest => ({ type: "allocate", process, size });
+const free = (process: string): AllocationRequest => ({ type: "free", process });
+
+// Fill 1000 bytes, then free B and D: holes of 300 at 100 and 150 at 600
+const fragmented: AllocationRequest[] = [
+  allocate("A", 100),
+  allocate("B", 300),
+  allocate("C", 200),
+  allocate("D", 150),
+  allocate("E", 250),
+  free("B"),
+  free("D"),
+];
+
+describe("simulateContiguous", () => {
+  it.each([
+    ["first", 100, [100]],
+    ["best", 600, [100, 600]],
+    ["worst", 100, [100, 600]],
+    ["next", 100, [100]],
+  ] as [FitStrategy, number, number[]][])("chooses a hole with %s fit", (strategy, chosen, searched) => {
+    const result = simulateContiguous(1000, [...fragmented, allocate("F", 120)], strategy);
+    const step = result.steps[result.steps.length - 1];
+    expect(step.chosenHole).toBe(chosen);
+    expect(step.holesSearched).toEqual(searched);
+  });
+
+  it.each([
+    ["first", 0],
+    ["best", 0],
+    ["worst", 400],
+    ["next", 400],
+  ] as [FitStrategy, number][])("resumes next fit from the last placement (%s fit)", (strategy, chosen) => {
+    // A's hole at 0 lies behind the pointer left by B
+    const result = simulateContiguous(1000, [allocate("A", 100), allocate("B", 300), free("A"), allocate("C", 50)], strategy);
+    expect(result.steps[3].chosenHole).toBe(chosen);
+  });
+
+  it("coalesces freed neighbours into one hole", () => {
+    const result = simulateContiguous(1000, [...fragmented, free("C")], "first");
+    const holes = result.steps[result.steps.length - 1].blocks.filter((block) => block.process === null);
+    expect(holes).toEqual([{ start: 100, size: 650, process: null }]);
+  });
+
+  it("reports external fragmentation and counts the bytes compaction moves", () => {
+    const result = simulateContiguous(
+      1000,
+      [...fragmented, allocate("F", 400), { type: "compact" }, allocate("F", 400)],
+      "first"
+    );
+    const [failed, compact, placed] = result.steps.slice(-3);
+    expect(failed.externalFailure).toBe(true);
+    expect(failed.fragmentation).toBeCloseTo(1 - 300 / 450);
+    // A stays put; C and E slide down
+    expect(compact.moved).toBe(450);
+    expect(compact.blocks.map((block) => [block.start, block.process])).toEqual([
+      [0, "A"],
+      [100, "C"],
+      [300, "E"],
+      [550, null],
+    ]);
+    expect(placed.chosenHole).toBe(550);
+    expect(result.externalFailures).toBe(1);
+    expect(summarizeAllocation(result, 1000).utilization).toBeCloseTo(0.95);
+  });
+});
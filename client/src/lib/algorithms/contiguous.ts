@@ -0,0 +1,238 @@
+export type FitStrategy = "first" | "best" | "worst" | "next";
+
+export type AllocationRequest =
+  | { type: "allocate"; process: string; size: number }
+  | { type: "free"; process: string }
+  | { type: "compact" };
+
+export interface MemoryBlock {
+  start: number;
+  size: number;
+  process: string | null; // null for a hole
+}
+
+export interface AllocationStep {
+  request: AllocationRequest;
+  blocks: MemoryBlock[]; // Memory layout after this request, in address order
+  success: boolean;
+  message: string;
+  holesSearched?: number[]; // Start addresses of the holes examined, in search order
+  chosenHole?: number; // Start of the hole the process was placed in
+  externalFailure?: boolean; // Enough free memory in total, but no single hole was large enough
+  moved?: number; // Bytes copied by compaction
+  pointer?: number; // Next-fit: address the next search starts from
+  freeMemory: number;
+  largestHole: number;
+  holes: number;
+  fragmentation: number; // External fragmentation: 1 - largest hole / total free memory
+}
+
+export interface AllocationResult {
+  steps: AllocationStep[];
+  failures: number;
+  externalFailures: number;
+  moved: number; // Total bytes copied by compaction
+  averageFragmentation: number;
+}
+
+export interface AllocationSummary {
+  failures: number;
+  externalFailures: number;
+  holes: number;
+  fragmentation: number; // After the last request
+  averageFragmentation: number;
+  utilization: number; // Fraction of memory allocated after the last request
+}
+
+export const FIT_STRATEGIES: FitStrategy[] = ["first", "best", "worst", "next"];
+
+// Merge a hole with any neighbouring holes
+function coalesce(blocks: MemoryBlock[]): MemoryBlock[] {
+  const merged: MemoryBlock[] = [];
+  for (const block of blocks) {
+    const last = merged[merged.length - 1];
+    if (last && last.process === null && block.process === null) {
+      last.size += block.size;
+    } else {
+      merged.push({ ...block });
+    }
+  }
+  return merged;
+}
+
+// Holes in the order a strategy examines them
+// Next-fit starts at the first hole at or after the pointer and wraps around
+function searchOrder(
+  holes: MemoryBlock[],
+  strategy: FitStrategy,
+  pointer: number
+): MemoryBlock[] {
+  if (strategy !== "next") return holes;
+  const startIndex = holes.findIndex((hole) => hole.start + hole.size > pointer);
+  if (startIndex <= 0) return holes;
+  return [...holes.slice(startIndex), ...holes.slice(0, startIndex)];
+}
+
+// Pick a hole for the request
+// First and next fit stop at the first hole that is large enough; best fit takes the
+// smallest such hole and worst fit the largest, both scanning the whole list
+function chooseHole(
+  holes: MemoryBlock[],
+  size: number,
+  strategy: FitStrategy
+): { hole?: MemoryBlock; searched: number[] } {
+  const searched: number[] = [];
+  let chosen: MemoryBlock | undefined;
+
+  for (const hole of holes) {
+    searched.push(hole.start);
+    if (hole.size < size) continue;
+
+    if (strategy === "first" || strategy === "next") {
+      return { hole, searched };
+    }
+    if (
+      !chosen ||
+      (strategy === "best" && hole.size < chosen.size) ||
+      (strategy === "worst" && hole.size > chosen.size)
+    ) {
+      chosen = hole;
+    }
+  }
+
+  return { hole: chosen, searched };
+}
+
+// Run a sequence of allocate/free/compact requests against one block of memory
+// Freed blocks merge with neighbouring holes. Compaction slides every allocated block
+// down to address 0, in address order, leaving a single hole at the top
+export function simulateContiguous(
+  memorySize: number,
+  requests: AllocationRequest[],
+  strategy: FitStrategy
+): AllocationResult {
+  let blocks: MemoryBlock[] = [{ start: 0, size: memorySize, process: null }];
+  let pointer = 0;
+
+  const result: AllocationResult = {
+    steps: [],
+    failures: 0,
+    externalFailures: 0,
+    moved: 0,
+    averageFragmentation: 0,
+  };
+  let totalFragmentation = 0;
+
+  for (const request of requests) {
+    const step: Omit<
+      AllocationStep,
+      "blocks" | "freeMemory" | "largestHole" | "holes" | "fragmentation"
+    > = { request, success: true, message: "" };
+
+    if (request.type === "allocate") {
+      const holes = blocks.filter((block) => block.process === null);
+      const ordered = searchOrder(holes, strategy, pointer);
+      const { hole, searched } = chooseHole(ordered, request.size, strategy);
+
+      if (blocks.some((block) => block.process === request.process)) {
+        step.success = false;
+        step.message = `${request.process} is already allocated`;
+      } else if (!hole) {
+        step.holesSearched = searched;
+        const free = holes.reduce((sum, h) => sum + h.size, 0);
+        step.success = false;
+        step.externalFailure = free >= request.size;
+        step.message = step.externalFailure
+          ? `No hole fits ${request.size} although ${free} is free (external fragmentation)`
+          : `Not enough free memory for ${request.size} (${free} free)`;
+        if (step.externalFailure) result.externalFailures++;
+      } else {
+        // Split the hole: the process takes its low end
+        const index = blocks.indexOf(hole);
+        const placed: MemoryBlock = {
+          start: hole.start,
+          size: request.size,
+          process: request.process,
+        };
+        const remainder: MemoryBlock[] =
+          hole.size > request.size
+            ? [{ start: hole.start + request.size, size: hole.size - request.size, process: null }]
+            : [];
+        blocks = [...blocks.slice(0, index), placed, ...remainder, ...blocks.slice(index + 1)];
+        step.holesSearched = searched;
+        pointer = (placed.start + placed.size) % memorySize;
+        step.chosenHole = hole.start;
+        step.message = `${request.process} (${request.size}) placed at ${hole.start}`;
+      }
+    } else if (request.type === "free") {
+      const index = blocks.findIndex((block) => block.process === request.process);
+      if (index === -1) {
+        step.success = false;
+        step.message = `${request.process} is not allocated`;
+      } else {
+        const freed = blocks[index];
+        blocks = coalesce(
+          blocks.map((block, i) => (i === index ? { ...block, process: null } : block))
+        );
+        step.message = `${request.process} freed ${freed.size} at ${freed.start}`;
+      }
+    } else {
+      // Slide allocated blocks down, counting the bytes that have to be copied
+      let address = 0;
+      let moved = 0;
+      const compacted: MemoryBlock[] = [];
+      for (const block of blocks) {
+        if (block.process === null) continue;
+        if (block.start !== address) moved += block.size;
+        compacted.push({ ...block, start: address });
+        address += block.size;
+      }
+      if (address < memorySize) {
+        compacted.push({ start: address, size: memorySize - address, process: null });
+      }
+      blocks = compacted;
+      pointer = address % memorySize;
+      step.moved = moved;
+      result.moved += moved;
+      step.message = `Compacted memory, moving ${moved}`;
+    }
+
+    if (!step.success) result.failures++;
+
+    const holes = blocks.filter((block) => block.process === null);
+    const freeMemory = holes.reduce((sum, hole) => sum + hole.size, 0);
+    const largestHole = Math.max(0, ...holes.map((hole) => hole.size));
+    const fragmentation = freeMemory === 0 ? 0 : 1 - largestHole / freeMemory;
+    totalFragmentation += fragmentation;
+
+    result.steps.push({
+      ...step,
+      blocks: blocks.map((block) => ({ ...block })),
+      pointer: strategy === "next" ? pointer : undefined,
+      freeMemory,
+      largestHole,
+      holes: holes.length,
+      fragmentation,
+    });
+  }
+
+  result.averageFragmentation =
+    requests.length === 0 ? 0 : totalFragmentation / requests.length;
+  return result;
+}
+
+// Headline numbers for the strategy comparison
+export function summarizeAllocation(
+  result: AllocationResult,
+  memorySize: number
+): AllocationSummary {
+  const last = result.steps[result.steps.length - 1];
+  return {
+    failures: result.failures,
+    externalFailures: result.externalFailures,
+    holes: last ? last.holes : 1,
+    fragmentation: last ? last.fragmentation : 0,
+    averageFragmentation: result.averageFragmentation,
+    utilization: last ? (memorySize - last.freeMemory) / memorySize : 0,
+  };
+}
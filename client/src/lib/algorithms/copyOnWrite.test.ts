@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { simulateCopyOnWrite } from "./copyOnWrite";
+
+describe("simulateCopyOnWrite", () => {
+  const result = simulateCopyOnWrite({ parent: "P", pages: 3, frameCount: 6 }, [
+    { type: "fork", parent: "P", child: "C" },
+    { type: "access", process: "C", page: 0, write: false },
+    { type: "access", process: "C", page: 0, write: true },
+    { type: "access", process: "P", page: 0, write: true },
+    { type: "access", process: "P", page: 0, write: true },
+    { type: "exit", process: "C" },
+    { type: "access", process: "P", page: 1, write: true },
+  ]);
+
+  it("shares every page after a fork", () => {
+    const fork = result.steps[0];
+    expect(fork.refCounts).toEqual([2, 2, 2, 0, 0, 0]);
+    expect(fork.framesUsed).toBe(3);
+    expect(fork.eagerFramesUsed).toBe(6);
+    expect(fork.processes.every((process) => process.pages.every((mapping) => mapping.cow))).toBe(true);
+  });
+
+  it("copies a shared page on the first write only", () => {
+    expect(result.steps.map((step) => step.outcome)).toEqual([
+      "fork",
+      "read",
+      "copy-fault",
+      "cow-reuse",
+      "write",
+      "exit",
+      "cow-reuse",
+    ]);
+    expect(result.steps[2].copiedFrom).toBe(0);
+    expect(result.steps[2].frame).toBe(3);
+    expect(result.cowFaults).toBe(3);
+    expect(result.copies).toBe(1);
+    expect(result.peakFrames).toBe(4);
+    expect(result.eagerPeakFrames).toBe(6);
+  });
+
+  it("frees only the frames whose last mapping goes away on exit", () => {
+    expect(result.steps[5].freed).toEqual([3]);
+    expect(result.steps[5].refCounts).toEqual([1, 1, 1, 0, 0, 0]);
+  });
+
+  it("fails a copy fault when no frame is free", () => {
+    const full = simulateCopyOnWrite({ parent: "P", pages: 2, frameCount: 2 }, [
+      { type: "fork", parent: "P", child: "C" },
+      { type: "access", process: "C", page: 1, write: true },
+    ]);
+    expect(full.steps[1].success).toBe(false);
+    expect(full.cowFaults).toBe(1);
+    expect(full.copies).toBe(0);
+  });
+});
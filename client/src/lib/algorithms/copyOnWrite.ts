@@ -0,0 +1,182 @@
+export type CowEvent =
+  | { type: "fork"; parent: string; child: string }
+  | { type: "access"; process: string; page: number; write: boolean }
+  | { type: "exit"; process: string };
+
+export type CowOutcome = "fork" | "exit" | "read" | "write" | "copy-fault" | "cow-reuse";
+
+export interface PageMapping {
+  frame: number;
+  cow: boolean; // Mapped read-only and shared; a write must fault first
+}
+
+export interface CowProcess {
+  name: string;
+  pages: PageMapping[]; // Indexed by virtual page number
+}
+
+export interface CowConfig {
+  parent: string; // Process that exists at the start, with every page loaded
+  pages: number; // Virtual pages per process
+  frameCount: number; // Physical frames
+}
+
+export interface CowStep {
+  event: CowEvent;
+  success: boolean;
+  message: string;
+  outcome?: CowOutcome;
+  frame?: number; // Frame the access ended up using
+  copiedFrom?: number; // Copy fault: the shared frame that was copied
+  freed?: number[]; // Exit: frames whose last mapping went away
+  processes: CowProcess[]; // Page tables after this event
+  refCounts: number[]; // Mappings per frame after this event (0 = free)
+  framesUsed: number;
+  eagerFramesUsed: number; // Frames a fork that copies every page up front would be using
+}
+
+export interface CowResult {
+  initial: Pick<CowStep, "processes" | "refCounts" | "framesUsed" | "eagerFramesUsed">;
+  steps: CowStep[];
+  cowFaults: number; // Writes to copy-on-write pages
+  copies: number; // Of those, the ones that had to copy the page
+  peakFrames: number;
+  eagerPeakFrames: number;
+}
+
+// Run fork/access/exit events with copy-on-write fork
+// fork() gives the child a copy of the parent's page table rather than of its pages: every
+// page of both processes is marked copy-on-write and its frame gains a reference. Reads of
+// shared pages need nothing. A write to a copy-on-write page faults; if other processes
+// still share the frame, the page is copied into a newly allocated frame, and if the writer
+// is the last sharer it simply becomes writable again
+export function simulateCopyOnWrite(config: CowConfig, events: CowEvent[]): CowResult {
+  const refCounts: number[] = new Array(config.frameCount).fill(0);
+  const processes: CowProcess[] = [
+    {
+      name: config.parent,
+      pages: Array.from({ length: config.pages }, (_, page) => ({ frame: page, cow: false })),
+    },
+  ];
+  for (let page = 0; page < config.pages; page++) refCounts[page] = 1;
+
+  const snapshot = () => {
+    const framesUsed = refCounts.filter((count) => count > 0).length;
+    const eagerFramesUsed = processes.length * config.pages;
+    return {
+      processes: processes.map((process) => ({
+        name: process.name,
+        pages: process.pages.map((mapping) => ({ ...mapping })),
+      })),
+      refCounts: [...refCounts],
+      framesUsed,
+      eagerFramesUsed,
+    };
+  };
+
+  const initial = snapshot();
+  const result: CowResult = {
+    initial,
+    steps: [],
+    cowFaults: 0,
+    copies: 0,
+    peakFrames: initial.framesUsed,
+    eagerPeakFrames: initial.eagerFramesUsed,
+  };
+
+  const find = (name: string) => processes.find((process) => process.name === name);
+
+  for (const event of events) {
+    const step: Pick<
+      CowStep,
+      "event" | "success" | "message" | "outcome" | "frame" | "copiedFrom" | "freed"
+    > = { event, success: true, message: "" };
+
+    if (event.type === "fork") {
+      const parent = find(event.parent);
+      if (!parent) {
+        step.success = false;
+        step.message = `${event.parent} does not exist`;
+      } else if (find(event.child)) {
+        step.success = false;
+        step.message = `${event.child} already exists`;
+      } else {
+        parent.pages.forEach((mapping) => {
+          mapping.cow = true;
+          refCounts[mapping.frame]++;
+        });
+        processes.push({
+          name: event.child,
+          pages: parent.pages.map((mapping) => ({ ...mapping })),
+        });
+        step.outcome = "fork";
+        step.message = `${event.parent} forked ${event.child}; ${parent.pages.length} pages now shared copy-on-write`;
+      }
+    } else if (event.type === "exit") {
+      const index = processes.findIndex((process) => process.name === event.process);
+      if (index === -1) {
+        step.success = false;
+        step.message = `${event.process} does not exist`;
+      } else {
+        step.freed = [];
+        processes[index].pages.forEach((mapping) => {
+          refCounts[mapping.frame]--;
+          if (refCounts[mapping.frame] === 0) step.freed!.push(mapping.frame);
+        });
+        processes.splice(index, 1);
+        step.outcome = "exit";
+        step.message = `${event.process} exited, freeing ${step.freed.length} frame${
+          step.freed.length === 1 ? "" : "s"
+        }`;
+      }
+    } else {
+      const process = find(event.process);
+      const mapping = process?.pages[event.page];
+      if (!process || !mapping) {
+        step.success = false;
+        step.message = process
+          ? `${event.process} has no page ${event.page}`
+          : `${event.process} does not exist`;
+      } else if (!event.write) {
+        step.outcome = "read";
+        step.frame = mapping.frame;
+        step.message = `${event.process} read page ${event.page} in frame ${mapping.frame}`;
+      } else if (!mapping.cow) {
+        step.outcome = "write";
+        step.frame = mapping.frame;
+        step.message = `${event.process} wrote private page ${event.page} in frame ${mapping.frame}`;
+      } else if (refCounts[mapping.frame] === 1) {
+        // Last sharer: no copy needed, the page just becomes writable
+        result.cowFaults++;
+        mapping.cow = false;
+        step.outcome = "cow-reuse";
+        step.frame = mapping.frame;
+        step.message = `${event.process} is the last sharer of frame ${mapping.frame}; page ${event.page} made writable without copying`;
+      } else {
+        result.cowFaults++;
+        const frame = refCounts.indexOf(0);
+        if (frame === -1) {
+          step.success = false;
+          step.message = `Copy fault on page ${event.page} of ${event.process}, but no frame is free`;
+        } else {
+          result.copies++;
+          refCounts[mapping.frame]--;
+          refCounts[frame] = 1;
+          step.copiedFrom = mapping.frame;
+          mapping.frame = frame;
+          mapping.cow = false;
+          step.outcome = "copy-fault";
+          step.frame = frame;
+          step.message = `Copy fault: ${event.process} page ${event.page} copied from frame ${step.copiedFrom} to frame ${frame}`;
+        }
+      }
+    }
+
+    const state = snapshot();
+    result.peakFrames = Math.max(result.peakFrames, state.framesUsed);
+    result.eagerPeakFrames = Math.max(result.eagerPeakFrames, state.eagerFramesUsed);
+    result.steps.push({ ...step, ...state });
+  }
+
+  return result;
+}
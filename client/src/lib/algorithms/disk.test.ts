@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import {
+  DiskRequest,
+  simulateBFQ,
+  simulateCLOOK,
+  simulateDeadline,
+  simulateFCFS,
+  simulateFSCAN,
+  simulateNStepSCAN,
+  simulateSCAN,
+  simulateSSTF,
+} from "./disk";
+
+// Queue from Silberschatz et al., Operating System Concepts: 200 cylinders, head at 53
+const textbook = [98, 183, 37, 122, 14, 124, 65, 67];
+
+describe("simulateFCFS", () => {
+  it("serves requests in queue order", () => {
+    const result = simulateFCFS(200, 53, textbook);
+    expect(result.sequence).toEqual([53, ...textbook]);
+    expect(result.seekDistance).toBe(640);
+  });
+});
+
+describe("simulateSSTF", () => {
+  it("serves the closest request next", () => {
+    const result = simulateSSTF(200, 53, textbook);
+    expect(result.sequence).toEqual([53, 65, 67, 37, 14, 98, 122, 124, 183]);
+    expect(result.seekDistance).toBe(236);
+  });
+
+  it("breaks ties towards the preferred direction", () => {
+    expect(simulateSSTF(200, 50, [40, 60]).sequence).toEqual([50, 60, 40]);
+    expect(simulateSSTF(200, 50, [40, 60], false).sequence).toEqual([50, 40, 60]);
+  });
+});
+
+describe("simulateSCAN", () => {
+  it("travels to the end of the disk before reversing", () => {
+    const result = simulateSCAN(200, 53, textbook, false);
+    expect(result.sequence).toEqual([53, 37, 14, 0, 65, 67, 98, 122, 124, 183]);
+    expect(result.stops).toEqual([3]);
+    expect(result.seekDistance).toBe(236);
+  });
+});
+
+describe("simulateCLOOK", () => {
+  it("jumps from the last request back to the furthest one", () => {
+    const result = simulateCLOOK(200, 53, textbook);
+    expect(result.sequence).toEqual([53, 65, 67, 98, 122, 124, 183, 14, 37]);
+    expect(result.jumps).toEqual([7]);
+    expect(result.seekDistance).toBe(153);
+  });
+
+  it("counts the jump only when asked to", () => {
+    expect(simulateCLOOK(200, 53, textbook, true, true).seekDistance).toBe(322);
+  });
+});
+
+// 55 and 52 arrive while the first sweep is under way, close to the head's path
+const arriving: DiskRequest[] = [
+  { cylinder: 90, arrival: 0 },
+  { cylinder: 10, arrival: 0 },
+  { cylinder: 60, arrival: 0 },
+  { cylinder: 55, arrival: 5 },
+  { cylinder: 52, arrival: 6 },
+];
+
+describe("simulateNStepSCAN", () => {
+  it("sweeps batches of N requests in arrival order", () => {
+    const result = simulateNStepSCAN(200, 50, arriving, 2);
+    expect(result.sequence).toEqual([50, 90, 10, 55, 60, 52]);
+    expect(result.queue!.map((step) => step.batch)).toEqual([0, 1, 1, 2, 2, 3]);
+    expect(result.queue!.map((step) => step.time)).toEqual([0, 40, 120, 165, 170, 178]);
+  });
+});
+
+describe("simulateFSCAN", () => {
+  it("holds requests that arrive during a sweep for the next one", () => {
+    const result = simulateFSCAN(200, 50, arriving);
+    expect(result.sequence).toEqual([50, 60, 90, 10, 52, 55]);
+    expect(result.queue![1].waiting.map((request) => request.cylinder)).toEqual([55, 52]);
+    expect(result.seekDistance).toBe(165);
+  });
+});
+
+describe("simulateDeadline", () => {
+  const reads: DiskRequest[] = [10, 60, 80, 120, 150].map((cylinder) => ({ cylinder, arrival: 0 }));
+
+  it("serves a batch in sorted order and restarts from the oldest once it expires", () => {
+    const result = simulateDeadline(200, 50, reads, {
+      readExpire: 20,
+      writeExpire: 500,
+      fifoBatch: 2,
+      writesStarved: 2,
+    });
+    expect(result.sequence).toEqual([50, 60, 80, 10, 120, 150]);
+    expect(result.dispatches!.map((dispatch) => dispatch.queue)).toEqual([
+      "read sorted",
+      "read sorted",
+      "read FIFO",
+      "read sorted",
+      "read FIFO",
+    ]);
+  });
+
+  it("serves a write once it has been passed over writesStarved times", () => {
+    const requests: DiskRequest[] = [
+      ...[60, 70, 80].map((cylinder) => ({ cylinder, arrival: 0 })),
+      { cylinder: 55, arrival: 0, write: true },
+    ];
+    const result = simulateDeadline(200, 50, requests, {
+      readExpire: 1000,
+      writeExpire: 1000,
+      fifoBatch: 1,
+      writesStarved: 2,
+    });
+    expect(result.dispatches!.map((dispatch) => dispatch.request)).toEqual([0, 1, 3, 2]);
+  });
+});
+
+describe("simulateBFQ", () => {
+  it("hands the disk to each process for its budget in turn", () => {
+    const requests: DiskRequest[] = [
+      ...[60, 70, 80, 90].map((cylinder) => ({ cylinder, arrival: 0, process: "A" })),
+      ...[100, 110].map((cylinder) => ({ cylinder, arrival: 0, process: "B" })),
+    ];
+    const result = simulateBFQ(200, 50, requests, { budget: 2 });
+    expect(result.dispatches!.map((dispatch) => dispatch.queue)).toEqual([
+      "A queue",
+      "A queue",
+      "B queue",
+      "B queue",
+      "A queue",
+      "A queue",
+    ]);
+    // Dispatch times include the seek, so they grow with the head's travel
+    expect(result.dispatches!.map((dispatch) => dispatch.time)).toEqual([10, 20, 50, 60, 90, 100]);
+  });
+});
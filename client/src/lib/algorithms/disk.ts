@@ -1,7 +1,212 @@
+export type DiskAlgorithm =
+  | "fcfs"
+  | "sstf"
+  | "scan"
+  | "look"
+  | "cscan"
+  | "clook"
+  | "nstep"
+  | "fscan"
+  | "deadline"
+  | "bfq";
+
+// A request that joins the queue at a given time. The head moves one cylinder per time
+// unit, so times and seek distances share a scale
+export interface DiskRequest {
+  cylinder: number;
+  arrival: number;
+  sector?: number; // Sector within the cylinder, counted across all heads (default 0)
+  process?: string; // Owner, for per-process scheduling (default "P0")
+  write?: boolean; // Write request; reads are the default
+}
+
+// Queue state after the head reaches a position in the sequence (batching algorithms)
+export interface DiskQueueStep {
+  time: number; // When the head arrived here
+  batch: number; // Batch the request served here belongs to (0 = starting position)
+  active: DiskRequest[]; // Requests of the current batch still to be served
+  waiting: DiskRequest[]; // Requests that have arrived but are held for a later batch
+}
+
 export interface DiskResult {
   sequence: number[];
   seekDistance: number;
   path?: number[][]; // For visualization of the seek path
+  jumps?: number[]; // C-SCAN/C-LOOK: indexes i where the move from sequence[i - 1] to sequence[i] is a wraparound jump
+  wraparoundCounted?: boolean; // Whether the jumps were included in seekDistance
+  queue?: DiskQueueStep[]; // N-Step SCAN/FSCAN: queue state for each entry of sequence
+  stops?: number[]; // SCAN/C-SCAN: indexes of sequence entries that are disk ends rather than requests
+  dispatches?: DiskDispatch[]; // Deadline/BFQ: which queue served each entry of sequence after the start, and why
+}
+
+// One dispatch decision of a queue-based scheduler (Deadline, BFQ)
+export interface DiskDispatch {
+  request: number; // Index into the request queue
+  time: number; // When the head reached the request
+  queue: string; // Queue the request was taken from
+  reason: string;
+}
+
+export interface DeadlineOptions {
+  readExpire: number; // Time a read may wait before it is served from the FIFO queue
+  writeExpire: number;
+  fifoBatch: number; // Requests dispatched in one direction before choosing again
+  writesStarved: number; // Read batches allowed while writes wait
+}
+
+export interface BFQOptions {
+  budget: number; // Requests a process may have served per turn
+}
+
+// Match the entries of a schedule's sequence to the requests they served
+// Returns, for each entry, the indexes into requests it served: none for the starting
+// position and the disk ends SCAN/C-SCAN travel to, one for every other entry. Requests for
+// the same cylinder are matched earliest arrival first, then in queue order. Requests at
+// the start cylinder that an algorithm serves without moving are assigned to entry 0
+export function matchServedRequests(result: DiskResult, requests: DiskRequest[]): number[][] {
+  // Queue-based schedulers record the request behind every dispatch
+  if (result.dispatches) {
+    return [[], ...result.dispatches.map((dispatch) => [dispatch.request])];
+  }
+
+  const unmatched = requests
+    .map((request, index) => ({ request, index }))
+    .sort((a, b) => a.request.arrival - b.request.arrival || a.index - b.index);
+
+  const take = (cylinder: number) => {
+    const position = unmatched.findIndex(({ request }) => request.cylinder === cylinder);
+    return position === -1 ? [] : [unmatched.splice(position, 1)[0].index];
+  };
+
+  const served = result.sequence.map((cylinder, i) =>
+    i === 0 || result.stops?.includes(i) ? [] : take(cylinder)
+  );
+  served[0] = unmatched
+    .filter(({ request }) => request.cylinder === result.sequence[0])
+    .map(({ index }) => index);
+
+  return served;
+}
+
+// FCFS (First-Come, First-Served) Disk Scheduling Algorithm
+// Serves requests in the order they arrived, however far apart they are
+export function simulateFCFS(
+  cylinders: number,
+  start: number,
+  requests: number[]
+): DiskResult {
+  const result: DiskResult = {
+    sequence: [start],
+    seekDistance: 0,
+    path: [[start, 0]],
+  };
+
+  let step = 1;
+  let currentPosition = start;
+
+  for (const req of requests) {
+    result.seekDistance += Math.abs(req - currentPosition);
+    result.sequence.push(req);
+    result.path?.push([req, step++]);
+    currentPosition = req;
+  }
+
+  return result;
+}
+
+// SSTF (Shortest Seek Time First) Disk Scheduling Algorithm
+// Always serves the pending request closest to the head. When two requests are equally
+// close, one on each side, the tie goes to the preferred direction
+export function simulateSSTF(
+  cylinders: number,
+  start: number,
+  requests: number[],
+  preferHigher: boolean = true // Tie-break: true = towards higher cylinders, false = towards lower cylinders
+): DiskResult {
+  const result: DiskResult = {
+    sequence: [start],
+    seekDistance: 0,
+    path: [[start, 0]],
+  };
+
+  const pending = [...requests];
+  let step = 1;
+  let currentPosition = start;
+
+  while (pending.length > 0) {
+    let best = 0;
+    for (let i = 1; i < pending.length; i++) {
+      const distance = Math.abs(pending[i] - currentPosition);
+      const bestDistance = Math.abs(pending[best] - currentPosition);
+      if (
+        distance < bestDistance ||
+        (distance === bestDistance &&
+          pending[i] !== pending[best] &&
+          (pending[i] > currentPosition) === preferHigher)
+      ) {
+        best = i;
+      }
+    }
+
+    const [req] = pending.splice(best, 1);
+    result.seekDistance += Math.abs(req - currentPosition);
+    result.sequence.push(req);
+    result.path?.push([req, step++]);
+    currentPosition = req;
+  }
+
+  return result;
+}
+
+// SCAN (Elevator) Disk Scheduling Algorithm
+// SCAN serves requests in one direction all the way to the end of the disk, then reverses.
+// Like C-SCAN here, the arm only travels to the end when requests remain behind it
+export function simulateSCAN(
+  cylinders: number,
+  start: number,
+  requests: number[],
+  initialDirection: boolean = true // true = towards higher cylinders, false = towards lower cylinders
+): DiskResult {
+  const result: DiskResult = {
+    sequence: [start],
+    seekDistance: 0,
+    path: [[start, 0]],
+    stops: [],
+  };
+
+  // Sort all requests in ascending order
+  const sortedRequests = [...requests].sort((a, b) => a - b);
+
+  // Split requests into groups; requests at the start position are served immediately
+  const higher = sortedRequests.filter((r) => r > start);
+  const lower = sortedRequests.filter((r) => r < start);
+
+  let step = 1;
+  let currentPosition = start;
+
+  const moveTo = (cylinder: number) => {
+    result.seekDistance += Math.abs(cylinder - currentPosition);
+    result.sequence.push(cylinder);
+    result.path?.push([cylinder, step++]);
+    currentPosition = cylinder;
+  };
+
+  const [ahead, behind, end] = initialDirection
+    ? [higher, [...lower].reverse(), cylinders - 1]
+    : [[...lower].reverse(), higher, 0];
+
+  ahead.forEach(moveTo);
+
+  // Continue to the end of the disk before reversing
+  if (behind.length > 0) {
+    if (currentPosition !== end) {
+      result.stops?.push(result.sequence.length);
+      moveTo(end);
+    }
+    behind.forEach(moveTo);
+  }
+
+  return result;
 }
 
 // LOOK Disk Scheduling Algorithm
@@ -89,12 +294,16 @@ export function simulateCSCAN(
   cylinders: number,
   start: number,
   requests: number[],
-  initialDirection: boolean = true // true = towards higher cylinders, false = towards lower cylinders
+  initialDirection: boolean = true, // true = towards higher cylinders, false = towards lower cylinders
+  countWraparound: boolean = false // Include the return jump in the seek distance
 ): DiskResult {
   const result: DiskResult = {
     sequence: [start],
     seekDistance: 0,
     path: [[start, 0]],
+    jumps: [],
+    wraparoundCounted: countWraparound,
+    stops: [],
   };
 
   // Sort all requests in ascending order
@@ -122,12 +331,16 @@ export function simulateCSCAN(
       // If we have lower requests, move to the end and wrap around
       if (currentPosition < cylinders - 1) {
         result.seekDistance += Math.abs(cylinders - 1 - currentPosition);
+        result.stops?.push(result.sequence.length);
         result.sequence.push(cylinders - 1);
         result.path?.push([cylinders - 1, step++]);
         currentPosition = cylinders - 1;
       }
 
-      // Jump to cylinder 0 (this move is NOT counted in seek distance)
+      // Jump to cylinder 0 (only counted in seek distance when asked to)
+      if (countWraparound) result.seekDistance += currentPosition;
+      result.jumps?.push(result.sequence.length);
+      result.stops?.push(result.sequence.length);
       result.sequence.push(0);
       result.path?.push([0, step++]);
       currentPosition = 0;
@@ -155,12 +368,16 @@ export function simulateCSCAN(
       // If we have higher requests, move to cylinder 0 and wrap around
       if (currentPosition > 0) {
         result.seekDistance += currentPosition; // Move to cylinder 0
+        result.stops?.push(result.sequence.length);
         result.sequence.push(0);
         result.path?.push([0, step++]);
         currentPosition = 0;
       }
 
-      // Jump to the max cylinder (not counted in seek distance)
+      // Jump to the max cylinder (only counted in seek distance when asked to)
+      if (countWraparound) result.seekDistance += cylinders - 1;
+      result.jumps?.push(result.sequence.length);
+      result.stops?.push(result.sequence.length);
       result.sequence.push(cylinders - 1);
       result.path?.push([cylinders - 1, step++]);
       currentPosition = cylinders - 1;
@@ -178,3 +395,366 @@ export function simulateCSCAN(
 
   return result;
 }
+
+// C-LOOK Disk Scheduling Algorithm
+// C-LOOK is like C-SCAN but, like LOOK, turns at the last request instead of the end of the
+// disk: it jumps straight from the last request in one direction to the furthest request
+// at the other end and carries on in the same direction
+export function simulateCLOOK(
+  cylinders: number,
+  start: number,
+  requests: number[],
+  initialDirection: boolean = true, // true = towards higher cylinders, false = towards lower cylinders
+  countWraparound: boolean = false // Include the return jump in the seek distance
+): DiskResult {
+  const result: DiskResult = {
+    sequence: [start],
+    seekDistance: 0,
+    path: [[start, 0]],
+    jumps: [],
+    wraparoundCounted: countWraparound,
+  };
+
+  // Sort all requests in ascending order
+  const sortedRequests = [...requests].sort((a, b) => a - b);
+
+  // Split requests into groups; requests at the start position are served immediately
+  const higher = sortedRequests.filter((r) => r > start);
+  const lower = sortedRequests.filter((r) => r < start);
+
+  let step = 1;
+  let currentPosition = start;
+
+  const moveTo = (cylinder: number, jump: boolean = false) => {
+    if (jump) result.jumps?.push(result.sequence.length);
+    if (!jump || countWraparound) {
+      result.seekDistance += Math.abs(cylinder - currentPosition);
+    }
+    result.sequence.push(cylinder);
+    result.path?.push([cylinder, step++]);
+    currentPosition = cylinder;
+  };
+
+  // Both passes run in the same direction, so the wrapped requests keep their order
+  const [ahead, wrapped] = initialDirection
+    ? [higher, lower]
+    : [[...lower].reverse(), [...higher].reverse()];
+
+  ahead.forEach((req) => moveTo(req));
+  wrapped.forEach((req, i) => moveTo(req, i === 0));
+
+  return result;
+}
+
+// Shared by N-Step SCAN and FSCAN: serve requests in frozen batches, each swept in the
+// current direction and reversed at its last request. Requests that arrive while a batch
+// is being served wait for a later batch, so a stream of new requests near the head can
+// never hold up the ones already in the batch. takeBatch picks the next batch from the
+// waiting queue, in arrival order
+function simulateBatches(
+  start: number,
+  requests: DiskRequest[],
+  initialDirection: boolean,
+  takeBatch: (waiting: DiskRequest[]) => DiskRequest[]
+): DiskResult {
+  const pending = [...requests].sort((a, b) => a.arrival - b.arrival);
+  const waiting: DiskRequest[] = [];
+  let active: DiskRequest[] = [];
+  let time = 0;
+  let batch = 0;
+  let currentPosition = start;
+  let upwards = initialDirection;
+
+  // Move every request that has arrived by now into the waiting queue
+  const admit = () => {
+    while (pending.length > 0 && pending[0].arrival <= time) {
+      waiting.push(pending.shift()!);
+    }
+  };
+
+  admit();
+  const result: DiskResult = {
+    sequence: [start],
+    seekDistance: 0,
+    path: [[start, 0]],
+    queue: [{ time, batch, active: [], waiting: [...waiting] }],
+  };
+
+  let step = 1;
+
+  while (pending.length > 0 || waiting.length > 0) {
+    if (waiting.length === 0) {
+      // Idle until the next request arrives
+      time = pending[0].arrival;
+      admit();
+    }
+
+    active = takeBatch(waiting);
+    waiting.splice(0, active.length);
+    batch++;
+
+    while (active.length > 0) {
+      const ahead = active.filter((r) =>
+        upwards ? r.cylinder >= currentPosition : r.cylinder <= currentPosition
+      );
+      if (ahead.length === 0) {
+        upwards = !upwards;
+        continue;
+      }
+
+      // Nearest request in the direction of travel
+      const next = ahead.reduce((best, r) =>
+        Math.abs(r.cylinder - currentPosition) < Math.abs(best.cylinder - currentPosition)
+          ? r
+          : best
+      );
+      active.splice(active.indexOf(next), 1);
+
+      const distance = Math.abs(next.cylinder - currentPosition);
+      result.seekDistance += distance;
+      time += distance;
+      currentPosition = next.cylinder;
+      admit();
+
+      result.sequence.push(next.cylinder);
+      result.path?.push([next.cylinder, step++]);
+      result.queue?.push({ time, batch, active: [...active], waiting: [...waiting] });
+    }
+  }
+
+  return result;
+}
+
+// N-Step SCAN Disk Scheduling Algorithm
+// The queue is split into batches of at most N requests in arrival order; each batch is
+// frozen and swept before the next one is taken
+export function simulateNStepSCAN(
+  cylinders: number,
+  start: number,
+  requests: DiskRequest[],
+  batchSize: number,
+  initialDirection: boolean = true // true = towards higher cylinders, false = towards lower cylinders
+): DiskResult {
+  return simulateBatches(start, requests, initialDirection, (waiting) =>
+    waiting.slice(0, batchSize)
+  );
+}
+
+// FSCAN Disk Scheduling Algorithm
+// Two queues: while one is being swept, every new request goes into the other. When the
+// sweep ends the queues swap, so each batch is everything that arrived during the last one
+export function simulateFSCAN(
+  cylinders: number,
+  start: number,
+  requests: DiskRequest[],
+  initialDirection: boolean = true // true = towards higher cylinders, false = towards lower cylinders
+): DiskResult {
+  return simulateBatches(start, requests, initialDirection, (waiting) => [...waiting]);
+}
+
+interface PendingRequest extends DiskRequest {
+  index: number; // Position in the request queue
+}
+
+interface DispatchChoice {
+  request: PendingRequest;
+  queue: string;
+  reason: string;
+}
+
+// Shared by Deadline and BFQ: admit requests as they arrive and let the scheduler pick
+// the next one whenever the head is free. The head idles while nothing is pending
+function simulateDispatcher(
+  start: number,
+  requests: DiskRequest[],
+  choose: (pending: PendingRequest[], head: number, time: number) => DispatchChoice
+): DiskResult {
+  const arrivals: PendingRequest[] = requests
+    .map((request, index) => ({ ...request, index }))
+    .sort((a, b) => a.arrival - b.arrival || a.index - b.index);
+  const pending: PendingRequest[] = [];
+  let time = 0;
+  let currentPosition = start;
+
+  const result: DiskResult = {
+    sequence: [start],
+    seekDistance: 0,
+    path: [[start, 0]],
+    dispatches: [],
+  };
+
+  let step = 1;
+
+  while (arrivals.length > 0 || pending.length > 0) {
+    if (pending.length === 0) time = Math.max(time, arrivals[0].arrival);
+    while (arrivals.length > 0 && arrivals[0].arrival <= time) {
+      pending.push(arrivals.shift()!);
+    }
+
+    const { request, queue, reason } = choose(pending, currentPosition, time);
+    pending.splice(pending.indexOf(request), 1);
+
+    const distance = Math.abs(request.cylinder - currentPosition);
+    result.seekDistance += distance;
+    time += distance;
+    currentPosition = request.cylinder;
+
+    result.sequence.push(request.cylinder);
+    result.path?.push([request.cylinder, step++]);
+    result.dispatches?.push({ request: request.index, time, queue, reason });
+  }
+
+  return result;
+}
+
+// Next request of a one-way elevator: the lowest cylinder at or above the head, if any
+function nextAbove(candidates: PendingRequest[], head: number): PendingRequest | undefined {
+  return candidates
+    .filter((request) => request.cylinder >= head)
+    .sort((a, b) => a.cylinder - b.cylinder || a.arrival - b.arrival || a.index - b.index)[0];
+}
+
+// Deadline I/O Scheduler (after Linux mq-deadline)
+// Reads and writes each have a sorted queue, served as a one-way elevator, and a FIFO
+// queue in arrival order with an expiry time per request. Requests are dispatched in
+// batches of up to fifoBatch in one direction. When a batch ends, reads are preferred
+// unless writes have been passed over writesStarved times. A new batch starts from the
+// oldest request if it has expired (or the elevator has nothing left above the head),
+// otherwise it carries on in sorted order
+export function simulateDeadline(
+  cylinders: number,
+  start: number,
+  requests: DiskRequest[],
+  options: DeadlineOptions
+): DiskResult {
+  let direction: "read" | "write" = "read";
+  let batchCount = 0;
+  let starved = 0;
+
+  return simulateDispatcher(start, requests, (pending, head, time) => {
+    const ofKind = (kind: "read" | "write") =>
+      pending.filter((request) => (request.write ? "write" : "read") === kind);
+
+    // Continue the current batch in sorted order while it lasts
+    if (batchCount > 0 && batchCount < options.fifoBatch) {
+      const next = nextAbove(ofKind(direction), head);
+      if (next) {
+        batchCount++;
+        return {
+          request: next,
+          queue: `${direction} sorted`,
+          reason: `Batch continues (${batchCount} of ${options.fifoBatch})`,
+        };
+      }
+    }
+
+    // Choose the direction of a new batch
+    const reads = ofKind("read");
+    const writes = ofKind("write");
+    let why: string;
+    if (reads.length > 0 && (writes.length === 0 || starved < options.writesStarved)) {
+      direction = "read";
+      if (writes.length > 0) starved++;
+      why =
+        writes.length > 0
+          ? `reads preferred (writes passed over ${starved} of ${options.writesStarved})`
+          : "only reads pending";
+    } else {
+      direction = "write";
+      why = reads.length > 0 ? `writes starved ${starved} times` : "only writes pending";
+      starved = 0;
+    }
+    batchCount = 1;
+
+    const candidates = ofKind(direction);
+    const expire = direction === "read" ? options.readExpire : options.writeExpire;
+    const oldest = candidates.reduce((first, request) =>
+      request.arrival < first.arrival ||
+      (request.arrival === first.arrival && request.index < first.index)
+        ? request
+        : first
+    );
+    if (time >= oldest.arrival + expire) {
+      return {
+        request: oldest,
+        queue: `${direction} FIFO`,
+        reason: `New ${direction} batch, ${why}; oldest request expired at ${oldest.arrival + expire}`,
+      };
+    }
+
+    const next = nextAbove(candidates, head);
+    if (!next) {
+      return {
+        request: oldest,
+        queue: `${direction} FIFO`,
+        reason: `New ${direction} batch, ${why}; nothing above the head, restart from the oldest`,
+      };
+    }
+    return {
+      request: next,
+      queue: `${direction} sorted`,
+      reason: `New ${direction} batch, ${why}`,
+    };
+  });
+}
+
+// Budget Fair Queueing I/O Scheduler (simplified BFQ)
+// Every process has its own queue, served as a one-way elevator, and the disk is handed
+// to one process at a time. A process keeps the disk until it has used its budget of
+// requests or has nothing left; the next turn goes to the backlogged process with the
+// least service so far (its virtual time). A process that was idle starts from the
+// smallest virtual time among the others, so it cannot bank service while away
+export function simulateBFQ(
+  cylinders: number,
+  start: number,
+  requests: DiskRequest[],
+  options: BFQOptions
+): DiskResult {
+  const owner = (request: DiskRequest) => request.process ?? "P0";
+  const virtualTime = new Map<string, number>();
+  let wasBacklogged = new Set<string>();
+  let active: string | null = null;
+  let used = 0;
+
+  return simulateDispatcher(start, requests, (pending, head) => {
+    const backlogged = Array.from(new Set(pending.map(owner))).sort();
+    const queueOf = (process: string) => pending.filter((request) => owner(request) === process);
+
+    // A process that was idle starts level with the least-served process that stayed busy
+    const busy = backlogged.filter((process) => wasBacklogged.has(process));
+    const floor = Math.min(...busy.map((process) => virtualTime.get(process)!));
+    backlogged
+      .filter((process) => !wasBacklogged.has(process))
+      .forEach((process) => {
+        const own = virtualTime.get(process) ?? 0;
+        virtualTime.set(process, busy.length > 0 ? Math.max(own, floor) : own);
+      });
+
+    let reason: string;
+    if (active !== null && used < options.budget && backlogged.includes(active)) {
+      used++;
+      reason = `Budget ${used} of ${options.budget}`;
+    } else {
+      const expired =
+        active === null
+          ? ""
+          : backlogged.includes(active)
+            ? `${active} used its budget; `
+            : `${active} has no requests left; `;
+
+      active = backlogged.reduce((best, process) =>
+        virtualTime.get(process)! < virtualTime.get(best)! ? process : best
+      );
+      used = 1;
+      reason = `${expired}${active} has the lowest virtual time (${virtualTime.get(active)})`;
+    }
+
+    virtualTime.set(active, virtualTime.get(active)! + 1);
+    const queue = queueOf(active);
+    const request =
+      nextAbove(queue, head) ??
+      queue.sort((a, b) => a.cylinder - b.cylinder || a.arrival - b.arrival)[0];
+    wasBacklogged = new Set(pending.filter((other) => other !== request).map(owner));
+    return { request, queue: `${active} queue`, reason };
+  });
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  DiskRequest,
+  DiskResult,
+  simulateBFQ,
+  simulateDeadline,
+  simulateFCFS,
+  simulateFSCAN,
+  simulateNStepSCAN,
+  simulateSSTF,
+} from "./disk";
+import { computeDiskMetrics } from "./diskMetrics";
+
+const deadline = { readExpire: 100, writeExpire: 500, fifoBatch: 4, writesStarved: 2 };
+
+// Arrival-based schedulers, run on 200 cylinders from cylinder 50
+const arrivalSchedulers: [string, (requests: DiskRequest[]) => DiskResult][] = [
+  ["N-Step SCAN", (requests) => simulateNStepSCAN(200, 50, requests, 3, true)],
+  ["FSCAN", (requests) => simulateFSCAN(200, 50, requests, true)],
+  ["Deadline", (requests) => simulateDeadline(200, 50, requests, deadline)],
+  ["BFQ", (requests) => simulateBFQ(200, 50, requests, { budget: 2 })],
+];
+
+const queue: DiskRequest[] = [
+  { cylinder: 82, arrival: 0, process: "P1" },
+  { cylinder: 170, arrival: 0, process: "P2", write: true },
+  { cylinder: 43, arrival: 0 },
+  { cylinder: 140, arrival: 5, process: "P1" },
+  { cylinder: 24, arrival: 10, process: "P2", write: true },
+  { cylinder: 16, arrival: 20 },
+  { cylinder: 190, arrival: 400, process: "P1" },
+  { cylinder: 50, arrival: 1000, write: true },
+];
+
+describe("computeDiskMetrics", () => {
+  it.each(arrivalSchedulers)("never serves a request before it arrives (%s)", (_, schedule) => {
+    const metrics = computeDiskMetrics(schedule(queue), queue, true)!;
+    expect(metrics.requests).toHaveLength(queue.length);
+    metrics.requests.forEach((request) => {
+      expect(request.wait).toBeGreaterThanOrEqual(0);
+      expect(request.servedAt).toBeGreaterThanOrEqual(request.arrival);
+    });
+  });
+
+  it.each(arrivalSchedulers)("counts idle time before a late arrival (%s)", (_, schedule) => {
+    const requests: DiskRequest[] = [
+      { cylinder: 10, arrival: 0 },
+      { cylinder: 10, arrival: 100 },
+    ];
+    const metrics = computeDiskMetrics(schedule(requests), requests, true)!;
+    expect(metrics.requests[1].servedAt).toBe(100);
+    expect(metrics.requests[1].wait).toBe(0);
+  });
+
+  it("measures FCFS waits in head movement with no bypasses", () => {
+    const requests: DiskRequest[] = [98, 183, 37, 122].map((cylinder) => ({ cylinder, arrival: 0 }));
+    const metrics = computeDiskMetrics(simulateFCFS(200, 53, [98, 183, 37, 122]), requests, false)!;
+    expect(metrics.requests.map((request) => request.wait)).toEqual([45, 130, 276, 361]);
+    expect(metrics.maxBypassed).toBe(0);
+    expect(metrics.maxWait).toBe(361);
+  });
+
+  it("counts the requests served ahead of a later-queued one as bypasses", () => {
+    // SSTF from 53 serves 65, 67, 37, 14, 98, 122, 124, 183
+    const cylinders = [98, 183, 37, 122, 14, 124, 65, 67];
+    const requests: DiskRequest[] = cylinders.map((cylinder) => ({ cylinder, arrival: 0 }));
+    const metrics = computeDiskMetrics(simulateSSTF(200, 53, cylinders), requests, false)!;
+    expect(metrics.requests.map((request) => request.bypassed)).toEqual([4, 6, 2, 3, 2, 2, 0, 0]);
+    expect(metrics.maxBypassed).toBe(6);
+  });
+
+  it("ranks bypasses by arrival time before queue position", () => {
+    // Served in queue order, so request 0 goes first although it arrives last
+    const requests: DiskRequest[] = [
+      { cylinder: 60, arrival: 5 },
+      { cylinder: 70, arrival: 0 },
+      { cylinder: 80, arrival: 0 },
+    ];
+    const schedule = simulateFCFS(200, 50, [60, 70, 80]);
+    const metrics = computeDiskMetrics(schedule, requests, true)!;
+    expect(metrics.requests.map((request) => request.bypassed)).toEqual([0, 1, 1]);
+  });
+
+  it("leaves out waits for an algorithm that ignores the queue's arrival times", () => {
+    expect(computeDiskMetrics(simulateFCFS(200, 53, [98, 183]), queue.slice(0, 2), false)).not.toBeNull();
+    const late: DiskRequest[] = [
+      { cylinder: 98, arrival: 0 },
+      { cylinder: 183, arrival: 300 },
+    ];
+    expect(computeDiskMetrics(simulateFCFS(200, 53, [98, 183]), late, false)).toBeNull();
+  });
+});
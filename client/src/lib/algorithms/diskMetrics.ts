@@ -0,0 +1,105 @@
+import { DiskRequest, DiskResult, matchServedRequests } from "./disk";
+
+export interface DiskRequestMetrics {
+  index: number; // Position in the request queue
+  cylinder: number;
+  arrival: number;
+  servedAt: number;
+  wait: number; // From arrival to service
+  bypassed: number; // Requests that arrived after this one but were served before it
+}
+
+export interface DiskWaitSummary {
+  meanWait: number;
+  waitVariance: number;
+  p95Wait: number;
+  p99Wait: number;
+  maxWait: number;
+  maxBypassed: number;
+}
+
+export interface DiskMetrics extends DiskWaitSummary {
+  requests: DiskRequestMetrics[]; // In queue order
+}
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+// Wait and fairness metrics for every request of a schedule
+// Time is measured in head movement, one unit per cylinder, the same scale as arrival
+// times; an uncounted wraparound jump takes no time. Algorithms that ignore arrival times
+// schedule every request from time 0, so their waits only mean something when every
+// request does arrive at 0; otherwise there are no metrics (null). A request is bypassed
+// each time one that arrived after it (or at the same time but later in the queue) is
+// served first, so FCFS never bypasses and a starved request collects a large count
+export function computeDiskMetrics(
+  result: DiskResult,
+  requests: DiskRequest[],
+  usesArrivals: boolean
+): DiskMetrics | null {
+  if (!usesArrivals && requests.some((request) => request.arrival !== 0)) return null;
+  const served = matchServedRequests(result, requests);
+
+  // Time the head reached each entry of the sequence
+  let time = 0;
+  const reachedAt = result.sequence.map((cylinder, i) => {
+    if (result.queue) return result.queue[i].time;
+    // Queue-based schedulers record the time after any idle wait for an arrival
+    if (result.dispatches) return i === 0 ? 0 : result.dispatches[i - 1].time;
+    if (i > 0 && (result.wraparoundCounted !== false || !result.jumps?.includes(i))) {
+      time += Math.abs(cylinder - result.sequence[i - 1]);
+    }
+    return time;
+  });
+
+  // Requests served so far, ascending by arrival then queue position; the ones ranked
+  // after a request are the ones that bypassed it
+  const comesAfter = (a: number, b: number) =>
+    requests[a].arrival > requests[b].arrival ||
+    (requests[a].arrival === requests[b].arrival && a > b);
+  const servedSoFar: number[] = [];
+  const metrics: DiskRequestMetrics[] = [];
+  served.forEach((indexes, i) =>
+    indexes.forEach((index) => {
+      // First position whose request comes after this one
+      let low = 0;
+      let high = servedSoFar.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (comesAfter(servedSoFar[middle], index)) high = middle;
+        else low = middle + 1;
+      }
+      const { cylinder, arrival } = requests[index];
+      metrics.push({
+        index,
+        cylinder,
+        arrival,
+        servedAt: reachedAt[i],
+        wait: reachedAt[i] - arrival,
+        bypassed: servedSoFar.length - low,
+      });
+      servedSoFar.splice(low, 0, index);
+    })
+  );
+  metrics.sort((a, b) => a.index - b.index);
+
+  const waits = metrics.map((request) => request.wait).sort((a, b) => a - b);
+  const meanWait = waits.length === 0 ? 0 : waits.reduce((sum, wait) => sum + wait, 0) / waits.length;
+  const waitVariance =
+    waits.length === 0
+      ? 0
+      : waits.reduce((sum, wait) => sum + (wait - meanWait) ** 2, 0) / waits.length;
+
+  return {
+    requests: metrics,
+    meanWait,
+    waitVariance,
+    p95Wait: percentile(waits, 95),
+    p99Wait: percentile(waits, 99),
+    maxWait: waits.length === 0 ? 0 : waits[waits.length - 1],
+    maxBypassed: Math.max(0, ...metrics.map((request) => request.bypassed)),
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { DiskRequest, simulateCLOOK, simulateFCFS } from "./disk";
+import { computeDiskTiming, DriveGeometry, seekTime } from "./diskTiming";
+
+// 6000 rpm with 10 sectors per track: one rotation takes 10 ms, one sector 1 ms
+const geometry: DriveGeometry = {
+  rpm: 6000,
+  sectorsPerTrack: 10,
+  heads: 2,
+  settleMs: 1,
+  sqrtMs: 0.5,
+  linearMs: 0.01,
+  seekThreshold: 100,
+};
+
+describe("seekTime", () => {
+  it("follows the square root curve up to the threshold, then a line", () => {
+    expect(seekTime(0, geometry)).toBe(0);
+    expect(seekTime(4, geometry)).toBe(2);
+    expect(seekTime(100, geometry)).toBe(6);
+    expect(seekTime(200, geometry)).toBeCloseTo(7);
+  });
+
+  it("is continuous at the threshold", () => {
+    expect(seekTime(100.001, geometry) - seekTime(99.999, geometry)).toBeLessThan(0.001);
+  });
+});
+
+describe("computeDiskTiming", () => {
+  it("waits for each sector to come round", () => {
+    const requests: DiskRequest[] = [
+      { cylinder: 4, arrival: 0, sector: 5 },
+      { cylinder: 4, arrival: 0, sector: 12 },
+    ];
+    const timing = computeDiskTiming(simulateFCFS(200, 0, [4, 4]), requests, geometry);
+    // Arrive at 2 ms over sector 2, wait 3 ms for sector 5 and read it; the head is then
+    // over sector 6, and sector 12 is sector 2 on the second head, 6 sectors on
+    expect(timing.steps.map((step) => step.finishMs)).toEqual([0, 6, 13]);
+    expect(timing.seekMs).toBe(2);
+    expect(timing.rotationalMs).toBe(9);
+    expect(timing.transferMs).toBe(2);
+    expect(timing.totalMs).toBe(13);
+    expect(timing.meanServiceMs).toBe(6.5);
+  });
+
+  it("times the C-LOOK return jump even when it is not counted as distance", () => {
+    const result = simulateCLOOK(200, 50, [60, 10]);
+    const requests: DiskRequest[] = [60, 10].map((cylinder) => ({ cylinder, arrival: 0 }));
+    expect(result.seekDistance).toBe(10);
+    expect(computeDiskTiming(result, requests, geometry).seekMs).toBeCloseTo(
+      seekTime(10, geometry) + seekTime(50, geometry)
+    );
+  });
+});
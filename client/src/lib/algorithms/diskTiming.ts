@@ -0,0 +1,110 @@
+import { DiskRequest, DiskResult, matchServedRequests } from "./disk";
+
+export interface DriveGeometry {
+  rpm: number;
+  sectorsPerTrack: number;
+  heads: number; // Tracks per cylinder; a request's sector is counted across all of them
+  settleMs: number; // Fixed cost of any seek: acceleration, deceleration and settling
+  sqrtMs: number; // Short seeks: ms per square root of a cylinder
+  linearMs: number; // Long seeks: ms per cylinder beyond the threshold
+  seekThreshold: number; // Seek distance (cylinders) where the curve turns linear
+}
+
+// Timing of one entry of a DiskResult sequence
+export interface DiskStepTiming {
+  cylinder: number;
+  sector?: number; // Undefined for the disk ends SCAN and C-SCAN travel to, which serve no request
+  seekMs: number;
+  rotationalMs: number;
+  transferMs: number;
+  finishMs: number; // Time the head finished this step
+}
+
+export interface DiskTiming {
+  steps: DiskStepTiming[]; // Aligned with result.sequence; step 0 covers requests at the start cylinder
+  requests: number;
+  seekMs: number;
+  rotationalMs: number;
+  transferMs: number;
+  totalMs: number;
+  meanServiceMs: number; // Seek, rotational and transfer time per request
+}
+
+// Seek time for a distance in cylinders
+// Short seeks are dominated by acceleration, so time grows with the square root of the
+// distance; past the threshold the arm coasts at full speed and time grows linearly.
+// The two pieces meet at the threshold, so the curve is continuous
+export function seekTime(distance: number, geometry: DriveGeometry): number {
+  if (distance === 0) return 0;
+  const shortPart = Math.sqrt(Math.min(distance, geometry.seekThreshold));
+  const longPart = Math.max(0, distance - geometry.seekThreshold);
+  return geometry.settleMs + geometry.sqrtMs * shortPart + geometry.linearMs * longPart;
+}
+
+// Time the served order of a schedule on a drive
+// The platter starts at sector 0 and spins continuously. After each seek the head waits
+// for the request's sector to come round, then reads one sector. Travel to the disk ends
+// costs seek time only; the return jump of C-SCAN/C-LOOK always takes time, even when it
+// is left out of the seek distance. Requests at the start cylinder that an
+// algorithm serves without moving are timed first, at step 0. Idle time between
+// arrivals is not counted
+export function computeDiskTiming(
+  result: DiskResult,
+  requests: DiskRequest[],
+  geometry: DriveGeometry
+): DiskTiming {
+  const rotationMs = 60000 / geometry.rpm;
+  const sectorMs = rotationMs / geometry.sectorsPerTrack;
+  let time = 0;
+
+  const timing: DiskTiming = {
+    steps: [],
+    requests: 0,
+    seekMs: 0,
+    rotationalMs: 0,
+    transferMs: 0,
+    totalMs: 0,
+    meanServiceMs: 0,
+  };
+
+  // Wait for the sector to reach the head, then read it
+  const serve = (step: DiskStepTiming, sector: number) => {
+    const target = sector % geometry.sectorsPerTrack; // Heads switch electronically, only the angle matters
+    const position = (time / sectorMs) % geometry.sectorsPerTrack;
+    const wait =
+      (((target - position) % geometry.sectorsPerTrack) + geometry.sectorsPerTrack) %
+      geometry.sectorsPerTrack;
+    step.rotationalMs += wait * sectorMs;
+    step.transferMs += sectorMs;
+    time += wait * sectorMs + sectorMs;
+    timing.requests++;
+  };
+
+  const served = matchServedRequests(result, requests);
+
+  result.sequence.forEach((cylinder, i) => {
+    const step: DiskStepTiming = {
+      cylinder,
+      seekMs: i === 0 ? 0 : seekTime(Math.abs(cylinder - result.sequence[i - 1]), geometry),
+      rotationalMs: 0,
+      transferMs: 0,
+      finishMs: 0,
+    };
+    time += step.seekMs;
+
+    served[i].forEach((index) => {
+      step.sector = requests[index].sector ?? 0;
+      serve(step, step.sector);
+    });
+
+    step.finishMs = time;
+    timing.seekMs += step.seekMs;
+    timing.rotationalMs += step.rotationalMs;
+    timing.transferMs += step.transferMs;
+    timing.steps.push(step);
+  });
+
+  timing.totalMs = time;
+  timing.meanServiceMs = timing.requests === 0 ? 0 : time / timing.requests;
+  return timing;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  simulateARB,
+  simulateEnhancedClock,
+  simulateFIFO,
+  simulateLFU,
+  simulateLRU,
+  simulateMFU,
+  simulateOPT,
+} from "./memory";
+
+// Reference string from Silberschatz et al., Operating System Concepts
+const textbook = [7, 0, 1, 2, 0, 3, 0, 4, 2, 3, 0, 3, 2, 1, 2, 0, 1, 7, 0, 1];
+
+describe("page replacement", () => {
+  it("matches the textbook fault counts with 3 frames", () => {
+    expect(simulateFIFO(3, textbook).faults).toBe(15);
+    expect(simulateLRU(3, textbook).faults).toBe(12);
+    expect(simulateOPT(3, textbook).faults).toBe(9);
+  });
+
+  it("shows Belady's anomaly under FIFO", () => {
+    const belady = [1, 2, 3, 4, 1, 2, 5, 1, 2, 3, 4, 5];
+    expect(simulateFIFO(3, belady).faults).toBe(9);
+    expect(simulateFIFO(4, belady).faults).toBe(10);
+  });
+});
+
+describe("simulateEnhancedClock", () => {
+  it("reports the victim's class before the sweep cleared its reference bit", () => {
+    // Page 1 is dirty, page 2 clean, both referenced: the sweep clears both
+    // reference bits and then evicts page 2, which it found in class (1,0)
+    const result = simulateEnhancedClock(2, [1, 2, 3], [true, false, false]);
+    const step = result.steps[2];
+    expect(step.replacedFrame).toBe(1);
+    expect(step.victimClass).toBe(2);
+    expect(step.writeBack).toBe(false);
+  });
+
+  it("writes back dirty victims only", () => {
+    const result = simulateEnhancedClock(3, textbook, textbook.map((page) => page === 0));
+    expect(result.faults + result.hits).toBe(textbook.length);
+    result.steps.forEach((step) => {
+      if (step.writeBack) expect(step.victimClass! % 2).toBe(1);
+    });
+  });
+});
+
+describe("simulateARB", () => {
+  it("keeps 32-bit history registers unsigned", () => {
+    const result = simulateARB(2, [1, 2, 1], { historyBits: 32 });
+    expect(result.steps[0].historyAfter![0]).toBe(2 ** 31);
+    // Two shifts, then the reference sets the top bit again
+    expect(result.steps[2].historyAfter).toEqual([2 ** 31 + 2 ** 29, 2 ** 30]);
+  });
+
+  it("shifts the registers once every shiftInterval references", () => {
+    const result = simulateARB(3, [1, 2, 3, 1, 2, 3, 1], { shiftInterval: 3 });
+    expect(result.steps.map((step) => step.resetBits)).toEqual([false, false, false, true, false, false, true]);
+    expect(result.shiftInterval).toBe(3);
+  });
+
+  it("cannot tell recent uses apart between ticks", () => {
+    // With no tick, pages 1 and 2 both only have the top bit set, so the lowest frame goes
+    // even though exact LRU would evict page 2
+    const result = simulateARB(2, [1, 2, 1, 3], { historyBits: 2, shiftInterval: 10 });
+    expect(result.steps[3].replacedFrame).toBe(0);
+    expect(result.steps[3].lruVictim).toBe(1);
+
+    const ticking = simulateARB(2, [1, 2, 1, 3], { historyBits: 2, shiftInterval: 1 });
+    expect(ticking.steps[3].replacedFrame).toBe(1);
+  });
+});
+
+describe("LFU and MFU", () => {
+  it("breaks LFU ties by load order or by frame index", () => {
+    // Every count is 1 when page 5 faults; frame 0 was reloaded with page 4
+    const refs = [1, 2, 3, 4, 5];
+    const fifo = simulateLFU(3, refs);
+    expect(fifo.steps[4].tiedFrames).toEqual([0, 1, 2]);
+    expect(fifo.steps[4].replacedFrame).toBe(1);
+    expect(simulateLFU(3, refs, { tieBreak: "lowest-index" }).steps[4].replacedFrame).toBe(0);
+  });
+
+  it("breaks MFU ties by load order or by last use", () => {
+    // Pages 1 and 2 both have count 2; page 1 was loaded first but used last
+    const refs = [1, 2, 3, 2, 1, 4];
+    const fifo = simulateMFU(3, refs);
+    expect(fifo.steps[5].tiedFrames).toEqual([0, 1]);
+    expect(fifo.steps[5].replacedFrame).toBe(0);
+    expect(simulateMFU(3, refs, { tieBreak: "lru" }).steps[5].replacedFrame).toBe(1);
+  });
+
+  it("halves the counters every decayInterval references", () => {
+    const refs = [1, 1, 1, 1, 2, 2, 3];
+    const decayed = simulateLFU(2, refs, { decayInterval: 2 });
+    expect(decayed.steps.map((step) => step.decayed)).toEqual([false, false, true, false, true, false, true]);
+    // Page 1 built up its count long ago; after decay it is the least frequently used
+    expect(decayed.steps[6].counts).toEqual([0, 1]);
+    expect(decayed.steps[6].replacedFrame).toBe(0);
+    expect(simulateLFU(2, refs).steps[6].replacedFrame).toBe(1);
+  });
+});
@@ -1,3 +1,5 @@
+import { simulate2Q, simulateARC, simulateClockPro, simulateLIRS } from "./adaptive";
+
 export interface MemoryStep {
   reference: number;
   frames: number[];
@@ -10,38 +12,263 @@ export interface MemoryStep {
   pointerPosition?: number;
   pointerPositionAfter?: number;
   orderOfUse?: number[]; // Added for LRU algorithm to track frame usage order
+  queueOrder?: number[]; // FIFO load order of frame indexes, oldest (next victim) first
+  nextUse?: (number | null)[]; // OPT: references until each frame's page is used again (null = never)
+  nextUseAfter?: (number | null)[];
+  isWrite?: boolean; // Reference was a write (marked with "w" in the reference string)
+  modifyBits?: number[]; // Enhanced Clock: dirty bit per frame
+  modifyBitsAfter?: number[];
+  sweepPath?: number[]; // Clock: frames the hand passed over while looking for a victim, in order
+  sweepClears?: boolean[]; // Clock: whether the hand cleared the reference bit at each sweepPath entry
+  victimClass?: number; // Enhanced Clock: (reference, modify) class of the victim, 0-3
+  writeBack?: boolean; // The evicted page was dirty and had to be written back
+  writtenBack?: number[]; // LRU/ARB: every dirty page evicted by this reference, prefetch evictions included
+  prefetched?: number[]; // LRU/ARB: pages read in alongside the faulting page
+  prefetchHit?: boolean; // LRU/ARB: hit on a prefetched page that had not been referenced yet
+  history?: number[]; // ARB: history registers the victim was chosen from (after any shift)
+  historyAfter?: number[];
+  lruVictim?: number; // ARB: frame exact LRU would have replaced on this fault
+  counts?: number[]; // LFU/MFU: reference counters the victim was chosen from (after any decay)
+  countsAfter?: number[];
+  decayed?: boolean; // LFU/MFU: counters were halved before this reference
+  tiedFrames?: number[]; // LFU/MFU: frames that shared the victim's count
+  cacheLists?: CacheList[]; // ARC/2Q/LIRS/CLOCK-Pro: the policy's internal lists after this reference
+  adaptiveTarget?: number; // ARC: target size p of T1; CLOCK-Pro: target number of cold pages
+}
+
+// One of a policy's internal page lists, in the order the policy keeps it
+export interface CacheList {
+  name: string;
+  pages: number[];
+  ghost?: boolean; // Remembers evicted pages only; none of them are resident
 }
 
+export type MemoryAlgorithm =
+  | "lru"
+  | "arb"
+  | "fifo"
+  | "opt"
+  | "clock"
+  | "eclock"
+  | "lfu"
+  | "mfu"
+  | "arc"
+  | "twoq"
+  | "lirs"
+  | "clockpro";
+
 export interface MemoryResult {
   steps: MemoryStep[];
   faults: number;
   hits: number;
+  historyBits?: number; // ARB configuration the result was produced with
+  shiftInterval?: number;
+  writeBacks?: number; // Dirty pages written back on eviction (LRU, ARB and Enhanced Clock)
+  prefetches?: number; // Pages read by sequential prefetch (LRU and ARB)
+  prefetchHits?: number; // Prefetched pages that were referenced before being evicted
+}
+
+// How LFU/MFU choose between frames with equal counts
+export type TieBreakPolicy = "fifo" | "lru" | "lowest-index";
+
+export interface CountingOptions {
+  tieBreak?: TieBreakPolicy; // Default "fifo"
+  decayInterval?: number; // Halve all counters every N references (0 or undefined = never)
+}
+
+// Demand paging settings shared by LRU and ARB
+export interface DemandPagingOptions {
+  writes?: boolean[]; // Per-reference write markers; written pages are dirty until evicted
+  prefetch?: number; // On a fault, also read the next k pages (0 or undefined = off)
+}
+
+// Algorithm-specific settings for runMemoryAlgorithm; each algorithm ignores the rest
+export interface MemoryRunOptions {
+  writes?: boolean[]; // Per-reference write markers (LRU, ARB and Enhanced Clock)
+  prefetch?: number; // Sequential prefetch depth (LRU and ARB)
+  arb?: ARBOptions;
+  counting?: CountingOptions; // LFU/MFU
+}
+
+export interface ARBOptions {
+  historyBits?: number; // Width of each history register, 1-32 (default 8)
+  shiftInterval?: number; // References between timer ticks that shift the registers (default 1)
+}
+
+// ARB settings with their defaults, and the mask for the most significant history bit
+// Registers are kept unsigned with >>> 0 so that a 32-bit history does not turn negative
+export function resolveARBOptions(options: ARBOptions = {}) {
+  const historyBits = options.historyBits ?? 8;
+  const shiftInterval = options.shiftInterval ?? 1;
+  return { historyBits, shiftInterval, msb: (1 << (historyBits - 1)) >>> 0 };
+}
+
+// Whether a timer tick shifts the ARB registers before the reference at this time
+export function isARBTick(time: number, shiftInterval: number): boolean {
+  return time > 0 && time % shiftInterval === 0;
+}
+
+// LRU victim: the candidate frame that comes first in the usage order (least recent first)
+export function lruVictim(orderOfUse: number[], candidates: number[]): number {
+  return orderOfUse.find((j) => candidates.includes(j)) ?? candidates[0];
+}
+
+// ARB victim: the candidate frame with the lowest history register; ties go to the first candidate
+export function arbVictim(history: number[], candidates: number[]): number {
+  return candidates.reduce((victim, j) => (history[j] < history[victim] ? j : victim));
+}
+
+// Run any of the page replacement algorithms by key
+export function runMemoryAlgorithm(
+  algorithm: MemoryAlgorithm,
+  frameCount: number,
+  refString: number[],
+  options: MemoryRunOptions = {}
+): MemoryResult {
+  switch (algorithm) {
+    case "fifo":
+      return simulateFIFO(frameCount, refString);
+    case "arb":
+      return simulateARB(frameCount, refString, options.arb, {
+        writes: options.writes,
+        prefetch: options.prefetch,
+      });
+    case "opt":
+      return simulateOPT(frameCount, refString);
+    case "clock":
+      return simulateClock(frameCount, refString);
+    case "eclock":
+      return simulateEnhancedClock(frameCount, refString, options.writes);
+    case "lfu":
+      return simulateLFU(frameCount, refString, options.counting);
+    case "mfu":
+      return simulateMFU(frameCount, refString, options.counting);
+    case "arc":
+      return simulateARC(frameCount, refString);
+    case "twoq":
+      return simulate2Q(frameCount, refString);
+    case "lirs":
+      return simulateLIRS(frameCount, refString);
+    case "clockpro":
+      return simulateClockPro(frameCount, refString);
+    case "lru":
+    default:
+      return simulateLRU(frameCount, refString, {
+        writes: options.writes,
+        prefetch: options.prefetch,
+      });
+  }
+}
+
+// FIFO (First-In, First-Out) Algorithm
+// Replaces the page that has been resident the longest, regardless of how often it is used
+export function simulateFIFO(
+  frameCount: number,
+  refString: number[]
+): MemoryResult {
+  const frames: number[] = new Array(frameCount).fill(-1);
+  // Queue of frame indexes in the order their pages were loaded
+  // The frame at the front holds the oldest page and is the next victim
+  const queueOrder: number[] = [];
+
+  const result: MemoryResult = {
+    steps: [],
+    faults: 0,
+    hits: 0,
+  };
+
+  for (let i = 0; i < refString.length; i++) {
+    const page = refString[i];
+    const step: MemoryStep = {
+      reference: page,
+      frames: [...frames],
+      framesAfter: [],
+      isFault: false,
+      queueOrder: [...queueOrder],
+    };
+
+    if (frames.includes(page)) {
+      // Page hit - FIFO does not reorder the queue on use
+      result.hits++;
+    } else {
+      // Page fault
+      result.faults++;
+      step.isFault = true;
+
+      if (frames.includes(-1)) {
+        // Empty frame available - load into the first empty frame
+        const emptyIndex = frames.indexOf(-1);
+        frames[emptyIndex] = page;
+        step.replacedFrame = emptyIndex;
+        queueOrder.push(emptyIndex);
+      } else {
+        // No empty frames - evict the page at the front of the queue
+        const replaceFrameIndex = queueOrder.shift()!;
+        step.replacedFrame = replaceFrameIndex;
+        frames[replaceFrameIndex] = page;
+        queueOrder.push(replaceFrameIndex);
+      }
+    }
+
+    step.framesAfter = [...frames];
+    step.queueOrder = [...queueOrder];
+    result.steps.push(step);
+  }
+
+  return result;
 }
 
 // LRU (Least Recently Used) Algorithm
+// With writes, pages carry a dirty bit and are written back when evicted. With prefetch,
+// a fault also reads the next k pages; they enter the usage order just behind the
+// faulting page, and none of the pages loaded by one fault can evict each other
 export function simulateLRU(
   frameCount: number,
-  refString: number[]
+  refString: number[],
+  paging: DemandPagingOptions = {}
 ): MemoryResult {
   const frames: number[] = new Array(frameCount).fill(-1);
   // Order array tracks indexes from least recently used to most recently used
   // Initially empty since no frames have been used yet
   const orderOfUse: number[] = [];
+  const writes = paging.writes ?? [];
+  const prefetch = Math.min(paging.prefetch ?? 0, frameCount - 1);
+  const modifyBits: number[] = new Array(frameCount).fill(0);
+  // Prefetched pages that have not been referenced since they were read in
+  const unreferenced = new Set<number>();
 
   const result: MemoryResult = {
     steps: [],
     faults: 0,
     hits: 0,
+    writeBacks: 0,
+    prefetches: 0,
+    prefetchHits: 0,
+  };
+
+  // Empty a frame for a new page, writing the old page back if it is dirty
+  const evict = (frameIndex: number, step: MemoryStep) => {
+    if (frames[frameIndex] === -1) return;
+    unreferenced.delete(frames[frameIndex]);
+    if (modifyBits[frameIndex] === 1) {
+      step.writtenBack!.push(frames[frameIndex]);
+      result.writeBacks!++;
+    }
   };
 
   for (let i = 0; i < refString.length; i++) {
     const page = refString[i];
+    const isWrite = writes[i] ?? false;
     const step: MemoryStep = {
       reference: page,
       frames: [...frames],
       framesAfter: [],
       isFault: false,
       orderOfUse: [...orderOfUse], // Store current usage order before any changes
+      isWrite,
+      modifyBits: [...modifyBits],
+      writtenBack: [],
+      prefetched: [],
     };
 
     // Check if page already in frames
@@ -49,6 +276,11 @@ export function simulateLRU(
     if (frameIndex !== -1) {
       // Page hit - update access order
       result.hits++;
+      if (isWrite) modifyBits[frameIndex] = 1;
+      if (unreferenced.delete(page)) {
+        step.prefetchHit = true;
+        result.prefetchHits!++;
+      }
 
       // Update the order to show this page is most recently used
       // Remove from current position (if exists) and add to end (most recently used)
@@ -75,19 +307,49 @@ export function simulateLRU(
         orderOfUse.push(emptyIndex);
       } else {
         // No empty frames - replace least recently used page (first in orderOfUse)
-        const replaceFrameIndex = orderOfUse[0];
+        const replaceFrameIndex = lruVictim(orderOfUse, frames.map((_, j) => j));
         step.replacedFrame = replaceFrameIndex;
+        evict(replaceFrameIndex, step);
+        step.writeBack = step.writtenBack!.length > 0;
         frames[replaceFrameIndex] = page;
 
         // Update order: remove from front (least recently used), add to back (most recently used)
-        orderOfUse.shift();
+        orderOfUse.splice(orderOfUse.indexOf(replaceFrameIndex), 1);
         orderOfUse.push(replaceFrameIndex);
       }
+      modifyBits[step.replacedFrame!] = isWrite ? 1 : 0;
+
+      // Sequential prefetch of the pages that follow, skipping any already resident
+      const loaded = [step.replacedFrame!];
+      for (let next = page + 1; next <= page + prefetch; next++) {
+        if (frames.includes(next)) continue;
+
+        let target = frames.indexOf(-1);
+        if (target === -1) {
+          target = lruVictim(
+            orderOfUse,
+            frames.map((_, j) => j).filter((j) => !loaded.includes(j))
+          );
+          evict(target, step);
+        }
+        frames[target] = next;
+        modifyBits[target] = 0;
+        unreferenced.add(next);
+        loaded.push(target);
+
+        const posIndex = orderOfUse.indexOf(target);
+        if (posIndex !== -1) orderOfUse.splice(posIndex, 1);
+        orderOfUse.splice(orderOfUse.length - 1, 0, target);
+
+        step.prefetched!.push(next);
+        result.prefetches!++;
+      }
     }
 
     step.framesAfter = [...frames];
     // Store updated usage order after all changes
     step.orderOfUse = [...orderOfUse];
+    step.modifyBitsAfter = [...modifyBits];
     result.steps.push(step);
   }
 
@@ -96,34 +358,64 @@ export function simulateLRU(
 
 // ARB (Additional Reference Bit) Algorithm implementation
 // This algorithm uses a history of reference bits to make replacement decisions
+// Writes and prefetch work as in LRU. A prefetched page has not been referenced, so it
+// starts with an empty history and is the first candidate for eviction until it is used
 export function simulateARB(
   frameCount: number,
-  refString: number[]
+  refString: number[],
+  options: ARBOptions = {},
+  paging: DemandPagingOptions = {}
 ): MemoryResult {
+  const { historyBits, shiftInterval, msb } = resolveARBOptions(options);
+
   const frames: number[] = new Array(frameCount).fill(-1);
-  // For each frame, store 8-bit reference history
+  // For each frame, store a historyBits-wide reference history
   // Higher values mean more recently/frequently used pages
   const refBitHistory: number[] = new Array(frameCount).fill(0);
   // We'll use a single bit for visualization purposes
   const refBits: number[] = new Array(frameCount).fill(0);
+  // Time of last use per frame, so each replacement can be compared with exact LRU
+  const lastUsed: number[] = new Array(frameCount).fill(-1);
   let framesFilled = 0;
+  const writes = paging.writes ?? [];
+  const prefetch = Math.min(paging.prefetch ?? 0, frameCount - 1);
+  const modifyBits: number[] = new Array(frameCount).fill(0);
+  // Prefetched pages that have not been referenced since they were read in
+  const unreferenced = new Set<number>();
 
-  // We'll keep a pointer for visualization compatibility with the UI
-  // In real ARB, there's no pointer as it's not a clock algorithm
-  // but we need this for the visualization
-  let pointer = 0;
-
-  // In true aging algorithm, we shift bits on every reference
   const result: MemoryResult = {
     steps: [],
     faults: 0,
     hits: 0,
+    historyBits,
+    shiftInterval,
+    writeBacks: 0,
+    prefetches: 0,
+    prefetchHits: 0,
   };
 
+  // Empty a frame for a new page, writing the old page back if it is dirty
+  const evict = (frameIndex: number, step: MemoryStep) => {
+    if (frames[frameIndex] === -1) return;
+    unreferenced.delete(frames[frameIndex]);
+    if (modifyBits[frameIndex] === 1) {
+      step.writtenBack!.push(frames[frameIndex]);
+      result.writeBacks!++;
+    }
+  };
+
+  // Frame with the lowest history register, ignoring the frames in skip
+  const lowestHistory = (skip: number[]) =>
+    arbVictim(
+      refBitHistory,
+      frames.map((_, j) => j).filter((j) => !skip.includes(j))
+    );
+
   for (let i = 0; i < refString.length; i++) {
     const page = refString[i];
-    // In true Aging algorithm, we shift on every reference
-    const shouldShiftBits = i > 0; // Shift on every reference except the first one
+    // Registers shift on a timer tick, which fires every shiftInterval references
+    const shouldShiftBits = isARBTick(i, shiftInterval);
+    const isWrite = writes[i] ?? false;
 
     const step: MemoryStep = {
       reference: page,
@@ -133,35 +425,46 @@ export function simulateARB(
       refBitsAfter: [],
       isFault: false,
       resetBits: shouldShiftBits,
-      pointerPosition: pointer,
-      pointerPositionAfter: pointer, // Will be updated if needed
+      isWrite,
+      modifyBits: [...modifyBits],
+      writtenBack: [],
+      prefetched: [],
     };
 
-    // Perform the shift operation on every reference (except the first)
+    // Perform the shift operation on each timer tick
     if (shouldShiftBits) {
       for (let j = 0; j < frameCount; j++) {
         if (frames[j] !== -1) {
           // Right shift the history (divide by 2)
-          refBitHistory[j] = refBitHistory[j] >> 1;
+          refBitHistory[j] = refBitHistory[j] >>> 1;
 
           // Update the single display bit for visualization
           // For true Aging algorithm, we display the MSB (Most Significant Bit)
-          refBits[j] = (refBitHistory[j] & 0x80) > 0 ? 1 : 0; // Get highest bit (bit 7)
+          refBits[j] = (refBitHistory[j] & msb) !== 0 ? 1 : 0;
         }
       }
     }
 
+    // Registers as they stand when this reference is handled (after any shift)
+    step.history = [...refBitHistory];
+
     // Check if page already in frames
     const frameIndex = frames.indexOf(page);
     if (frameIndex !== -1) {
       // Page hit - set the highest bit
       result.hits++;
 
-      // Set the highest bit (bit 7) for this page's history
-      refBitHistory[frameIndex] = refBitHistory[frameIndex] | 0x80; // OR with 10000000
+      // Set the highest bit for this page's history
+      refBitHistory[frameIndex] = (refBitHistory[frameIndex] | msb) >>> 0;
 
       // Set the display bit to show the MSB for visualization
       refBits[frameIndex] = 1; // MSB is now set to 1
+      lastUsed[frameIndex] = i;
+      if (isWrite) modifyBits[frameIndex] = 1;
+      if (unreferenced.delete(page)) {
+        step.prefetchHit = true;
+        result.prefetchHits!++;
+      }
     } else {
       // Page fault
       result.faults++;
@@ -173,41 +476,432 @@ export function simulateARB(
         frames[emptyIndex] = page;
 
         // Set highest bit for new page (according to canonical Aging algorithm)
-        refBitHistory[emptyIndex] = 0x80; // 10000000 in binary
+        refBitHistory[emptyIndex] = msb;
         refBits[emptyIndex] = 1; // MSB = 1
+        lastUsed[emptyIndex] = i;
 
         step.replacedFrame = emptyIndex;
         framesFilled++;
-
-        // Update pointer for visualization
-        pointer = (emptyIndex + 1) % frameCount;
-        step.pointerPositionAfter = pointer;
       } else {
         // All frames are filled - find the one with the lowest reference history
-        let minValue = Number.MAX_SAFE_INTEGER;
-        let victimIndex = 0;
+        const victimIndex = lowestHistory([]);
 
-        for (let j = 0; j < frameCount; j++) {
-          if (refBitHistory[j] < minValue) {
-            minValue = refBitHistory[j];
-            victimIndex = j;
+        // Record which frame exact LRU would have evicted at this point
+        let lruIndex = 0;
+        for (let j = 1; j < frameCount; j++) {
+          if (lastUsed[j] < lastUsed[lruIndex]) {
+            lruIndex = j;
           }
-        } // Replace the page with lowest reference history
+        }
+        step.lruVictim = lruIndex;
+
+        // Replace the page with lowest reference history
         step.replacedFrame = victimIndex;
+        evict(victimIndex, step);
+        step.writeBack = step.writtenBack!.length > 0;
         frames[victimIndex] = page;
 
         // Set highest bit for new page (according to canonical Aging algorithm)
-        refBitHistory[victimIndex] = 0x80; // 10000000 in binary
+        refBitHistory[victimIndex] = msb;
         refBits[victimIndex] = 1; // MSB = 1
+        lastUsed[victimIndex] = i;
+      }
+      modifyBits[step.replacedFrame!] = isWrite ? 1 : 0;
 
-        // Update pointer for visualization (point to the frame after the one we replaced)
-        pointer = (victimIndex + 1) % frameCount;
-        step.pointerPositionAfter = pointer;
+      // Sequential prefetch of the pages that follow, skipping any already resident
+      const loaded = [step.replacedFrame!];
+      for (let next = page + 1; next <= page + prefetch; next++) {
+        if (frames.includes(next)) continue;
+
+        let target = frames.indexOf(-1);
+        if (target === -1) {
+          target = lowestHistory(loaded);
+          evict(target, step);
+        } else {
+          framesFilled++;
+        }
+        frames[target] = next;
+        modifyBits[target] = 0;
+        refBitHistory[target] = 0;
+        refBits[target] = 0;
+        lastUsed[target] = i;
+        unreferenced.add(next);
+        loaded.push(target);
+
+        step.prefetched!.push(next);
+        result.prefetches!++;
       }
     }
 
     step.framesAfter = [...frames];
     step.refBitsAfter = [...refBits];
+    step.modifyBitsAfter = [...modifyBits];
+    step.historyAfter = [...refBitHistory];
+    // Frames ordered from least to most recently used, for comparison with LRU
+    step.orderOfUse = frames
+      .map((_, j) => j)
+      .filter((j) => frames[j] !== -1)
+      .sort((a, b) => lastUsed[a] - lastUsed[b]);
+    result.steps.push(step);
+  }
+
+  return result;
+}
+
+// OPT (Optimal / Belady's MIN) Algorithm
+// Replaces the page whose next use lies furthest in the future. It needs the whole
+// reference string in advance, so it serves as the lower bound for the other algorithms
+export function simulateOPT(
+  frameCount: number,
+  refString: number[]
+): MemoryResult {
+  const frames: number[] = new Array(frameCount).fill(-1);
+
+  // nextIndex[i] is the position of the next reference to refString[i] after i
+  // (Infinity if the page is never referenced again), built in one backward pass
+  const nextIndex: number[] = new Array(refString.length);
+  const upcoming = new Map<number, number>();
+  for (let i = refString.length - 1; i >= 0; i--) {
+    nextIndex[i] = upcoming.get(refString[i]) ?? Infinity;
+    upcoming.set(refString[i], i);
+  }
+
+  // Position of the next reference to the page held in each frame
+  const frameNextUse: number[] = new Array(frameCount).fill(Infinity);
+
+  // Convert absolute positions to a distance from the current reference for display
+  const distancesFrom = (position: number) =>
+    frames.map((page, j) =>
+      page === -1 || frameNextUse[j] === Infinity
+        ? null
+        : frameNextUse[j] - position
+    );
+
+  const result: MemoryResult = {
+    steps: [],
+    faults: 0,
+    hits: 0,
+  };
+
+  for (let i = 0; i < refString.length; i++) {
+    const page = refString[i];
+    const step: MemoryStep = {
+      reference: page,
+      frames: [...frames],
+      framesAfter: [],
+      isFault: false,
+      nextUse: distancesFrom(i),
+    };
+
+    const frameIndex = frames.indexOf(page);
+    if (frameIndex !== -1) {
+      // Page hit - only the look-ahead for this frame changes
+      result.hits++;
+      frameNextUse[frameIndex] = nextIndex[i];
+    } else {
+      // Page fault
+      result.faults++;
+      step.isFault = true;
+
+      let targetIndex = frames.indexOf(-1);
+      if (targetIndex === -1) {
+        // No empty frames - evict the page used furthest in the future
+        // Ties (pages never used again) go to the lowest frame index
+        targetIndex = 0;
+        for (let j = 1; j < frameCount; j++) {
+          if (frameNextUse[j] > frameNextUse[targetIndex]) {
+            targetIndex = j;
+          }
+        }
+      }
+
+      step.replacedFrame = targetIndex;
+      frames[targetIndex] = page;
+      frameNextUse[targetIndex] = nextIndex[i];
+    }
+
+    step.framesAfter = [...frames];
+    step.nextUseAfter = distancesFrom(i);
+    result.steps.push(step);
+  }
+
+  return result;
+}
+
+// Clock (Second-Chance) Algorithm
+// Frames form a circular buffer swept by a hand. A page with its reference bit set
+// gets a second chance: the bit is cleared and the hand moves on
+export function simulateClock(
+  frameCount: number,
+  refString: number[]
+): MemoryResult {
+  const frames: number[] = new Array(frameCount).fill(-1);
+  const refBits: number[] = new Array(frameCount).fill(0);
+  let pointer = 0;
+
+  const result: MemoryResult = {
+    steps: [],
+    faults: 0,
+    hits: 0,
+  };
+
+  for (let i = 0; i < refString.length; i++) {
+    const page = refString[i];
+    const step: MemoryStep = {
+      reference: page,
+      frames: [...frames],
+      refBits: [...refBits],
+      framesAfter: [],
+      refBitsAfter: [],
+      isFault: false,
+      pointerPosition: pointer,
+      pointerPositionAfter: pointer,
+      sweepPath: [],
+      sweepClears: [],
+    };
+
+    const frameIndex = frames.indexOf(page);
+    if (frameIndex !== -1) {
+      // Page hit - set the reference bit, the hand does not move
+      result.hits++;
+      refBits[frameIndex] = 1;
+    } else {
+      // Page fault
+      result.faults++;
+      step.isFault = true;
+
+      // Sweep until an empty frame or a frame with a clear reference bit is found
+      // This always terminates within two revolutions because bits are cleared on the way
+      while (frames[pointer] !== -1 && refBits[pointer] === 1) {
+        step.sweepPath!.push(pointer);
+        step.sweepClears!.push(true);
+        refBits[pointer] = 0;
+        pointer = (pointer + 1) % frameCount;
+      }
+      step.sweepPath!.push(pointer);
+      step.sweepClears!.push(false);
+
+      step.replacedFrame = pointer;
+      frames[pointer] = page;
+      refBits[pointer] = 1;
+      pointer = (pointer + 1) % frameCount;
+    }
+
+    step.framesAfter = [...frames];
+    step.refBitsAfter = [...refBits];
+    step.pointerPositionAfter = pointer;
+    result.steps.push(step);
+  }
+
+  return result;
+}
+
+// Enhanced Second-Chance (Enhanced Clock) Algorithm
+// Each frame is classified by its (reference, modify) bits:
+//   class 0 = (0,0) not recently used, clean  - best victim
+//   class 1 = (0,1) not recently used, dirty  - needs a write-back
+//   class 2 = (1,0) recently used, clean
+//   class 3 = (1,1) recently used, dirty      - worst victim
+// The hand looks for the lowest non-empty class, clearing reference bits as it goes
+export function simulateEnhancedClock(
+  frameCount: number,
+  refString: number[],
+  writes: boolean[] = []
+): MemoryResult {
+  const frames: number[] = new Array(frameCount).fill(-1);
+  const refBits: number[] = new Array(frameCount).fill(0);
+  const modifyBits: number[] = new Array(frameCount).fill(0);
+  let pointer = 0;
+
+  const result: MemoryResult = {
+    steps: [],
+    faults: 0,
+    hits: 0,
+    writeBacks: 0,
+  };
+
+  for (let i = 0; i < refString.length; i++) {
+    const page = refString[i];
+    const isWrite = writes[i] ?? false;
+    const step: MemoryStep = {
+      reference: page,
+      frames: [...frames],
+      refBits: [...refBits],
+      modifyBits: [...modifyBits],
+      framesAfter: [],
+      refBitsAfter: [],
+      modifyBitsAfter: [],
+      isFault: false,
+      isWrite,
+      pointerPosition: pointer,
+      pointerPositionAfter: pointer,
+      sweepPath: [],
+      sweepClears: [],
+    };
+
+    const frameIndex = frames.indexOf(page);
+    if (frameIndex !== -1) {
+      // Page hit - set the reference bit, and the modify bit on a write
+      result.hits++;
+      refBits[frameIndex] = 1;
+      if (isWrite) modifyBits[frameIndex] = 1;
+    } else {
+      // Page fault
+      result.faults++;
+      step.isFault = true;
+
+      let victim = frames.indexOf(-1);
+      if (victim !== -1) {
+        // Empty frame available - no sweep needed
+        pointer = victim;
+      } else {
+        // Alternate between two kinds of pass until a victim is found:
+        //   1. look for (0,0) without changing any bits
+        //   2. look for (0,1), clearing reference bits of the frames passed over
+        // After one of each, all reference bits are clear, so the second round must succeed
+        for (let pass = 0; victim === -1; pass++) {
+          const wantDirty = pass % 2 === 1;
+          for (let scanned = 0; scanned < frameCount; scanned++) {
+            step.sweepPath!.push(pointer);
+            if (refBits[pointer] === 0 && (modifyBits[pointer] === 1) === wantDirty) {
+              step.sweepClears!.push(false);
+              victim = pointer;
+              break;
+            }
+            const clears = wantDirty && refBits[pointer] === 1;
+            if (clears) refBits[pointer] = 0;
+            step.sweepClears!.push(clears);
+            pointer = (pointer + 1) % frameCount;
+          }
+        }
+
+        // Class as the hand first found the page, before this sweep cleared its reference bit
+        step.victimClass = step.refBits![victim] * 2 + modifyBits[victim];
+        step.writeBack = modifyBits[victim] === 1;
+        if (step.writeBack) result.writeBacks!++;
+      }
+
+      step.replacedFrame = victim;
+      frames[victim] = page;
+      refBits[victim] = 1;
+      modifyBits[victim] = isWrite ? 1 : 0;
+      pointer = (victim + 1) % frameCount;
+    }
+
+    step.framesAfter = [...frames];
+    step.refBitsAfter = [...refBits];
+    step.modifyBitsAfter = [...modifyBits];
+    step.pointerPositionAfter = pointer;
+    result.steps.push(step);
+  }
+
+  return result;
+}
+
+// LFU (Least Frequently Used) Algorithm
+// Replaces the page with the smallest reference count since it was loaded
+export function simulateLFU(
+  frameCount: number,
+  refString: number[],
+  options: CountingOptions = {}
+): MemoryResult {
+  return simulateCounting(false, frameCount, refString, options);
+}
+
+// MFU (Most Frequently Used) Algorithm
+// Replaces the page with the largest reference count, on the theory that a page
+// with a small count was probably just brought in and is yet to be used
+export function simulateMFU(
+  frameCount: number,
+  refString: number[],
+  options: CountingOptions = {}
+): MemoryResult {
+  return simulateCounting(true, frameCount, refString, options);
+}
+
+// Shared implementation of the counting-based algorithms
+function simulateCounting(
+  mostFrequent: boolean,
+  frameCount: number,
+  refString: number[],
+  options: CountingOptions
+): MemoryResult {
+  const tieBreak = options.tieBreak ?? "fifo";
+  const decayInterval = options.decayInterval ?? 0;
+
+  const frames: number[] = new Array(frameCount).fill(-1);
+  const counts: number[] = new Array(frameCount).fill(0);
+  // Load and last-use times per frame, used to break ties
+  const loadTime: number[] = new Array(frameCount).fill(-1);
+  const lastUsed: number[] = new Array(frameCount).fill(-1);
+
+  const tieKey = (j: number) =>
+    tieBreak === "fifo" ? loadTime[j] : tieBreak === "lru" ? lastUsed[j] : j;
+
+  const result: MemoryResult = {
+    steps: [],
+    faults: 0,
+    hits: 0,
+  };
+
+  for (let i = 0; i < refString.length; i++) {
+    const page = refString[i];
+    const shouldDecay = decayInterval > 0 && i > 0 && i % decayInterval === 0;
+
+    const step: MemoryStep = {
+      reference: page,
+      frames: [...frames],
+      framesAfter: [],
+      isFault: false,
+      decayed: shouldDecay,
+    };
+
+    // Aging the counters keeps pages that were hot long ago from staying resident forever
+    if (shouldDecay) {
+      for (let j = 0; j < frameCount; j++) {
+        counts[j] = counts[j] >> 1;
+      }
+    }
+    step.counts = [...counts];
+
+    const frameIndex = frames.indexOf(page);
+    if (frameIndex !== -1) {
+      // Page hit - count the reference
+      result.hits++;
+      counts[frameIndex]++;
+      lastUsed[frameIndex] = i;
+    } else {
+      // Page fault
+      result.faults++;
+      step.isFault = true;
+
+      let targetIndex = frames.indexOf(-1);
+      if (targetIndex === -1) {
+        // Find the lowest (LFU) or highest (MFU) count, then apply the tie-break policy
+        const targetCount = mostFrequent
+          ? Math.max(...counts)
+          : Math.min(...counts);
+        const tied = frames
+          .map((_, j) => j)
+          .filter((j) => counts[j] === targetCount);
+
+        targetIndex = tied.reduce((best, j) =>
+          tieKey(j) < tieKey(best) ? j : best
+        );
+        if (tied.length > 1) {
+          step.tiedFrames = tied;
+        }
+      }
+
+      step.replacedFrame = targetIndex;
+      frames[targetIndex] = page;
+      counts[targetIndex] = 1;
+      loadTime[targetIndex] = i;
+      lastUsed[targetIndex] = i;
+    }
+
+    step.framesAfter = [...frames];
+    step.countsAfter = [...counts];
     result.steps.push(step);
   }
 
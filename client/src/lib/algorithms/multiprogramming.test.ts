@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { simulateARB, simulateLRU } from "./memory";
+import {
+  allocateFrames,
+  FrameAllocation,
+  MultiprogrammingOptions,
+  ProcessSpec,
+  simulateMultiprogramming,
+  simulateThrashing,
+} from "./multiprogramming";
+
+const processes: ProcessSpec[] = [
+  { name: "A", refString: [1, 2, 3, 4, 1, 2, 5, 1, 2, 3, 4, 5], priority: 1 },
+  { name: "B", refString: [7, 8, 7, 8, 9, 7], priority: 3 },
+  { name: "C", refString: [1, 2, 3, 4, 5, 6, 7, 8, 1, 2], priority: 2 },
+];
+
+const options: MultiprogrammingOptions = {
+  totalFrames: 7,
+  allocation: "proportional",
+  scope: "local",
+  policy: "lru",
+  quantum: 2,
+};
+
+describe("allocateFrames", () => {
+  it.each(["equal", "proportional", "priority"] as FrameAllocation[])(
+    "hands out every frame, at least one each (%s)",
+    (allocation) => {
+      [3, 7, 10, 23].forEach((totalFrames) => {
+        const shares = allocateFrames(processes, totalFrames, allocation);
+        expect(shares.reduce((a, b) => a + b, 0)).toBe(totalFrames);
+        shares.forEach((share) => expect(share).toBeGreaterThanOrEqual(1));
+      });
+    }
+  );
+
+  it("sizes shares by distinct pages, weighted by priority", () => {
+    // A touches 5 pages, B 3 and C 8
+    expect(allocateFrames(processes, 9, "equal")).toEqual([3, 3, 3]);
+    expect(allocateFrames(processes, 19, "proportional")).toEqual([6, 4, 9]);
+    expect(allocateFrames(processes, 33, "priority")).toEqual([6, 10, 17]);
+  });
+});
+
+describe("simulateMultiprogramming", () => {
+  it.each(["lru", "arb"] as const)("never evicts another process's page under local replacement (%s)", (policy) => {
+    const result = simulateMultiprogramming(processes, { ...options, policy });
+    result.steps.forEach((step) => {
+      if (step.victim) expect(step.victim.process).toBe(step.process);
+      expect(step.stolen).not.toBe(true);
+      const held = step.frames.filter((owner) => owner?.process === step.process).length;
+      expect(held).toBeLessThanOrEqual(result.allocations[step.process]);
+    });
+  });
+
+  it("lets global replacement take frames from other processes", () => {
+    const result = simulateMultiprogramming(processes, { ...options, scope: "global" });
+    expect(result.steps.some((step) => step.stolen)).toBe(true);
+    expect(result.faults + result.hits).toBe(28);
+  });
+
+  it("matches the single-process simulators for one process", () => {
+    const [a] = processes;
+    const single = { ...options, totalFrames: 3, quantum: 1 };
+    expect(simulateMultiprogramming([a], single).faults).toBe(simulateLRU(3, a.refString).faults);
+    const arb = { historyBits: 4, shiftInterval: 2 };
+    expect(simulateMultiprogramming([a], { ...single, policy: "arb", arb }).faults).toBe(
+      simulateARB(3, a.refString, arb).faults
+    );
+  });
+});
+
+describe("simulateThrashing", () => {
+  it("loses CPU utilization once the working sets outgrow the frames", () => {
+    const points = simulateThrashing(processes, {
+      ...options,
+      totalFrames: 6,
+      scope: "global",
+      maxDegree: 6,
+      faultServiceTime: 10,
+    });
+    expect(points.map((point) => point.degree)).toEqual([1, 2, 3, 4, 5, 6]);
+    points.forEach((point) => {
+      expect(point.utilization).toBeGreaterThan(0);
+      expect(point.utilization).toBeLessThanOrEqual(1);
+    });
+    expect(points[5].faults).toBeGreaterThan(points[0].faults);
+    expect(points[5].utilization).toBeLessThan(points[0].utilization);
+  });
+});
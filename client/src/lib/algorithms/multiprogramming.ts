@@ -0,0 +1,391 @@
+import { arbVictim, ARBOptions, isARBTick, lruVictim, resolveARBOptions } from "./memory";
+
+export type FrameAllocation = "equal" | "proportional" | "priority";
+export type ReplacementScope = "global" | "local";
+export type SharedReplacementPolicy = "lru" | "arb";
+
+export interface ProcessSpec {
+  name: string;
+  refString: number[];
+  priority: number; // Larger numbers are more important (used by priority allocation)
+}
+
+export interface MultiprogrammingOptions {
+  totalFrames: number;
+  allocation: FrameAllocation;
+  scope: ReplacementScope;
+  policy: SharedReplacementPolicy;
+  quantum: number; // References a process runs before the next one is scheduled
+  order?: number[]; // Process indices visited cyclically (default round-robin 0..n-1)
+  arb?: ARBOptions;
+}
+
+export interface FrameOwner {
+  process: number;
+  page: number;
+}
+
+export interface MultiprogrammingStep {
+  time: number;
+  process: number;
+  reference: number;
+  isFault: boolean;
+  frames: (FrameOwner | null)[]; // Frame contents after this reference
+  frameIndex: number; // Frame that holds the page after this reference
+  victim?: FrameOwner; // Page evicted to make room, if any
+  stolen?: boolean; // Global replacement took the frame from another process
+}
+
+export interface ProcessStats {
+  faults: number;
+  hits: number;
+  allocatedFrames: number; // Frames granted by the allocation scheme
+  residentFrames: number; // Frames held at the end of the run
+}
+
+export interface MultiprogrammingResult {
+  steps: MultiprogrammingStep[];
+  processes: ProcessStats[];
+  faults: number;
+  hits: number;
+  allocations: number[];
+}
+
+export interface ThrashingOptions extends MultiprogrammingOptions {
+  maxDegree: number;
+  faultServiceTime: number; // Time to load one page, in units of one reference's CPU time
+}
+
+export interface ThrashingPoint {
+  degree: number;
+  utilization: number; // Fraction of time the CPU executed references
+  faults: number;
+  references: number;
+  elapsed: number;
+}
+
+interface FramePool {
+  access: (
+    process: number,
+    page: number
+  ) => { isFault: boolean; frameIndex: number; victim?: FrameOwner; stolen?: boolean };
+  snapshot: () => (FrameOwner | null)[];
+  residentCount: (process: number) => number;
+}
+
+// Split the frame pool between processes
+// Equal gives every process the same share. Proportional sizes each share by the number of
+// distinct pages a process touches. Priority weights that size by the process priority.
+// Leftover frames from rounding go to the largest fractional shares, and every process
+// receives at least one frame when there are enough to go around
+export function allocateFrames(
+  processes: ProcessSpec[],
+  totalFrames: number,
+  allocation: FrameAllocation
+): number[] {
+  const weights = processes.map((process) => {
+    const size = new Set(process.refString).size;
+    if (allocation === "equal") return 1;
+    if (allocation === "priority") return size * Math.max(process.priority, 1);
+    return size;
+  });
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  if (processes.length === 0 || totalWeight === 0) {
+    return processes.map(() => 0);
+  }
+
+  const minimum = totalFrames >= processes.length ? 1 : 0;
+  const spare = totalFrames - minimum * processes.length;
+  const exact = weights.map((weight) => (weight / totalWeight) * spare);
+  const shares = exact.map((value) => minimum + Math.floor(value));
+
+  let remaining = totalFrames - shares.reduce((a, b) => a + b, 0);
+  const byFraction = exact
+    .map((value, i) => ({ i, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.i - b.i);
+  for (let k = 0; remaining > 0; k = (k + 1) % byFraction.length) {
+    shares[byFraction[k].i]++;
+    remaining--;
+  }
+
+  return shares;
+}
+
+// Physical frames shared by every process, with the LRU or ARB victim selection of memory.ts
+// Local replacement keeps each process within its allocation and only evicts its own
+// pages. Global replacement lets a faulting process take any frame; under priority
+// allocation it may only take frames from processes of equal or lower priority
+function createFramePool(
+  totalFrames: number,
+  options: MultiprogrammingOptions,
+  allocations: number[],
+  priorities: number[]
+): FramePool {
+  const { shiftInterval, msb } = resolveARBOptions(options.arb);
+
+  const owners: (FrameOwner | null)[] = new Array(totalFrames).fill(null);
+  // Frame indexes from least to most recently used, across every process
+  const orderOfUse: number[] = [];
+  const history: number[] = new Array(totalFrames).fill(0);
+  let ticks = 0;
+
+  const residentCount = (process: number) =>
+    owners.filter((owner) => owner?.process === process).length;
+
+  const pickVictim = (candidates: number[]) =>
+    options.policy === "arb" ? arbVictim(history, candidates) : lruVictim(orderOfUse, candidates);
+
+  // Move a frame to the most recently used end of the usage order
+  const touch = (frameIndex: number) => {
+    const position = orderOfUse.indexOf(frameIndex);
+    if (position !== -1) orderOfUse.splice(position, 1);
+    orderOfUse.push(frameIndex);
+  };
+
+  const access = (process: number, page: number) => {
+    // Age every register on each timer tick
+    if (options.policy === "arb" && isARBTick(ticks, shiftInterval)) {
+      for (let j = 0; j < totalFrames; j++) history[j] = history[j] >>> 1;
+    }
+    ticks++;
+
+    const hitIndex = owners.findIndex(
+      (owner) => owner?.process === process && owner.page === page
+    );
+    if (hitIndex !== -1) {
+      touch(hitIndex);
+      history[hitIndex] = (history[hitIndex] | msb) >>> 0;
+      return { isFault: false, frameIndex: hitIndex };
+    }
+
+    let frameIndex = -1;
+    const freeIndex = owners.indexOf(null);
+
+    if (options.scope === "local") {
+      // Take a free frame only while under this process's allocation
+      if (residentCount(process) < allocations[process] && freeIndex !== -1) {
+        frameIndex = freeIndex;
+      } else {
+        const own = owners
+          .map((owner, j) => (owner?.process === process ? j : -1))
+          .filter((j) => j !== -1);
+        frameIndex = own.length > 0 ? pickVictim(own) : -1;
+      }
+    } else if (freeIndex !== -1) {
+      frameIndex = freeIndex;
+    } else {
+      const all = owners.map((_, j) => j);
+      const eligible =
+        options.allocation === "priority"
+          ? all.filter((j) => priorities[owners[j]!.process] <= priorities[process])
+          : all;
+      frameIndex = pickVictim(eligible.length > 0 ? eligible : all);
+    }
+
+    // A process with no frames at all cannot keep the page resident
+    if (frameIndex === -1) {
+      return { isFault: true, frameIndex: -1 };
+    }
+
+    const victim = owners[frameIndex] ?? undefined;
+    owners[frameIndex] = { process, page };
+    touch(frameIndex);
+    history[frameIndex] = msb;
+
+    return {
+      isFault: true,
+      frameIndex,
+      victim,
+      stolen: victim !== undefined && victim.process !== process,
+    };
+  };
+
+  return {
+    access,
+    snapshot: () => owners.map((owner) => (owner ? { ...owner } : null)),
+    residentCount,
+  };
+}
+
+// Interleave the processes' references on a shared frame pool
+// The schedule visits processes in `order` (round-robin by default), letting each run
+// `quantum` references per turn; finished processes are skipped
+export function simulateMultiprogramming(
+  processes: ProcessSpec[],
+  options: MultiprogrammingOptions
+): MultiprogrammingResult {
+  const allocations = allocateFrames(
+    processes,
+    options.totalFrames,
+    options.allocation
+  );
+  const pool = createFramePool(
+    options.totalFrames,
+    options,
+    allocations,
+    processes.map((process) => process.priority)
+  );
+  const order =
+    options.order && options.order.length > 0
+      ? options.order
+      : processes.map((_, i) => i);
+
+  const positions: number[] = processes.map(() => 0);
+  const stats: ProcessStats[] = processes.map((_, i) => ({
+    faults: 0,
+    hits: 0,
+    allocatedFrames: allocations[i],
+    residentFrames: 0,
+  }));
+  const result: MultiprogrammingResult = {
+    steps: [],
+    processes: stats,
+    faults: 0,
+    hits: 0,
+    allocations,
+  };
+
+  const totalReferences = processes.reduce(
+    (sum, process) => sum + process.refString.length,
+    0
+  );
+  let time = 0;
+  let turn = 0;
+  let lastProgress = 0;
+
+  // Stop once a full pass over the order runs nothing, so an order that leaves out
+  // a process cannot loop forever
+  while (time < totalReferences && turn - lastProgress < order.length) {
+    const process = order[turn % order.length];
+    turn++;
+
+    for (
+      let q = 0;
+      q < options.quantum && positions[process] < processes[process].refString.length;
+      q++
+    ) {
+      const page = processes[process].refString[positions[process]++];
+      const outcome = pool.access(process, page);
+
+      if (outcome.isFault) {
+        stats[process].faults++;
+        result.faults++;
+      } else {
+        stats[process].hits++;
+        result.hits++;
+      }
+
+      result.steps.push({
+        time,
+        process,
+        reference: page,
+        isFault: outcome.isFault,
+        frames: pool.snapshot(),
+        frameIndex: outcome.frameIndex,
+        victim: outcome.victim,
+        stolen: outcome.stolen,
+      });
+      time++;
+      lastProgress = turn;
+    }
+  }
+
+  stats.forEach((stat, i) => {
+    stat.residentFrames = pool.residentCount(i);
+  });
+
+  return result;
+}
+
+// CPU utilization as the degree of multiprogramming grows
+// Degree d runs d processes, cycling through the defined ones (each copy has its own
+// address space). Each reference costs one unit of CPU time; a fault blocks the process
+// while a single paging device loads the page, serving faults one at a time. The CPU
+// idles only when every process is blocked, so once the combined working sets exceed
+// the frame pool, faults queue at the device and utilization collapses (thrashing)
+export function simulateThrashing(
+  processes: ProcessSpec[],
+  options: ThrashingOptions
+): ThrashingPoint[] {
+  const points: ThrashingPoint[] = [];
+  if (processes.length === 0) return points;
+
+  for (let degree = 1; degree <= options.maxDegree; degree++) {
+    const running = Array.from({ length: degree }, (_, i) => processes[i % processes.length]);
+    const allocations = allocateFrames(running, options.totalFrames, options.allocation);
+    const pool = createFramePool(
+      options.totalFrames,
+      options,
+      allocations,
+      running.map((process) => process.priority)
+    );
+
+    const positions: number[] = running.map(() => 0);
+    const blockedUntil: number[] = running.map(() => 0);
+    let deviceFreeAt = 0;
+    let clock = 0;
+    let busy = 0;
+    let faults = 0;
+    let references = 0;
+    let next = 0;
+
+    const unfinished = () =>
+      running.some((process, i) => positions[i] < process.refString.length);
+
+    while (unfinished()) {
+      // Next ready process in round-robin order
+      let chosen = -1;
+      for (let k = 0; k < degree; k++) {
+        const i = (next + k) % degree;
+        if (positions[i] < running[i].refString.length && blockedUntil[i] <= clock) {
+          chosen = i;
+          break;
+        }
+      }
+
+      if (chosen === -1) {
+        // Every runnable process is waiting on the paging device
+        clock = Math.min(
+          ...running
+            .map((process, i) =>
+              positions[i] < process.refString.length ? blockedUntil[i] : Infinity
+            )
+        );
+        continue;
+      }
+
+      next = (chosen + 1) % degree;
+      for (
+        let q = 0;
+        q < options.quantum && positions[chosen] < running[chosen].refString.length;
+        q++
+      ) {
+        const page = running[chosen].refString[positions[chosen]++];
+        const { isFault } = pool.access(chosen, page);
+        clock++;
+        busy++;
+        references++;
+
+        if (isFault) {
+          // Queue the page load and block until it completes
+          faults++;
+          deviceFreeAt = Math.max(deviceFreeAt, clock) + options.faultServiceTime;
+          blockedUntil[chosen] = deviceFreeAt;
+          break;
+        }
+      }
+    }
+
+    // The run ends when the last page load has been serviced
+    const elapsed = Math.max(clock, ...blockedUntil);
+    points.push({
+      degree,
+      utilization: elapsed === 0 ? 0 : busy / elapsed,
+      faults,
+      references,
+      elapsed,
+    });
+  }
+
+  return points;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { hashPage, PageTableConfig, simulatePageTables } from "./pageTables";
+
+// 256-byte pages, four frames and two hash buckets, so even pages share bucket 0
+const config: PageTableConfig = {
+  addressBits: 16,
+  pageSize: 256,
+  levels: 2,
+  frameCount: 4,
+  buckets: 2,
+  entryBytes: 4,
+};
+
+const pages = [0, 2, 4, 1, 4, 2, 6];
+const result = simulatePageTables([{ name: "P0", addresses: pages.map((page) => page * 256) }], config);
+
+describe("hashPage", () => {
+  it("spreads processes and pages over the buckets", () => {
+    expect(hashPage(0, 4, 2)).toBe(0);
+    expect(hashPage(1, 4, 2)).toBe(1);
+  });
+});
+
+describe("simulatePageTables", () => {
+  it("searches the hashed chain up to the page, or all of it on a miss", () => {
+    // Page 6 is looked up before page 0 is evicted to make room, so it scans three entries
+    expect(result.steps.map((step) => step.searchLengths.hashed)).toEqual([0, 1, 2, 0, 1, 2, 3]);
+    expect(result.steps.map((step) => step.collision)).toEqual([false, true, true, false, false, false, true]);
+  });
+
+  it("searches the inverted table up to the page's frame", () => {
+    expect(result.steps[4].searchLengths.inverted).toBe(3);
+    expect(result.steps[0].searchLengths.inverted).toBe(4);
+    expect(result.steps.every((step) => step.searchLengths.conventional === 2)).toBe(true);
+  });
+
+  it("removes a FIFO victim from every structure", () => {
+    expect(result.steps[6].evicted).toEqual({ process: 0, page: 0 });
+    expect(result.invertedTable[0]).toEqual({ process: 0, page: 6 });
+    expect(result.hashedChains[0].map((entry) => entry.page)).toEqual([6, 4, 2]);
+    expect(result.anchorChains[0]).toEqual([0, 2, 1]);
+  });
+
+  it("summarizes space and chain lengths", () => {
+    const hashed = result.summaries.find((summary) => summary.structure === "hashed")!;
+    expect(hashed.maxSearch).toBe(3);
+    expect(hashed.averageSearch).toBeCloseTo(9 / 7);
+    expect(hashed.collisions).toBe(3);
+    expect(hashed.bytes).toBe(4 * 3 * 4 + 2 * 4);
+    // The root and one inner table of 16 entries each
+    expect(result.summaries.find((summary) => summary.structure === "conventional")!.bytes).toBe(32 * 4);
+  });
+});
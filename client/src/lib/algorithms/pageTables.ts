@@ -0,0 +1,207 @@
+import { splitAddress, splitAddressBits } from "./addressTranslation";
+
+export type PageTableStructure = "conventional" | "inverted" | "anchored" | "hashed";
+
+export interface AddressSpace {
+  name: string;
+  addresses: number[];
+}
+
+export interface PageTableConfig {
+  addressBits: number;
+  pageSize: number;
+  levels: number; // Levels of the conventional (forward-mapped) table
+  frameCount: number; // Physical frames, and so entries in the inverted table
+  buckets: number; // Hash buckets for the hashed table and the inverted table's anchor table
+  entryBytes: number; // Size of one table entry or pointer
+}
+
+export interface HashedEntry {
+  process: number;
+  page: number;
+  frame: number;
+}
+
+export interface PageTableStep {
+  process: number;
+  virtualAddress: number;
+  pageNumber: number;
+  offset: number;
+  frame: number;
+  isFault: boolean; // Page was not resident and had to be loaded
+  evicted?: { process: number; page: number }; // FIFO victim when memory was full
+  bucket: number; // Hash of (process, page), shared by the hashed and anchored tables
+  collision: boolean; // A fault inserted into a bucket that already had entries
+  searchLengths: Record<PageTableStructure, number>; // Entries examined to find (or rule out) the page
+}
+
+export interface StructureSummary {
+  structure: PageTableStructure;
+  bytes: number; // Memory the structure occupies at the end of the run
+  entries: number; // Entries allocated
+  averageSearch: number;
+  maxSearch: number;
+  collisions: number; // Inserts into a non-empty bucket (hash-based structures only)
+}
+
+export interface PageTableResult {
+  steps: PageTableStep[];
+  summaries: StructureSummary[];
+  invertedTable: ({ process: number; page: number } | null)[]; // Final contents, indexed by frame
+  hashedChains: HashedEntry[][]; // Final hashed-table chains per bucket, head first
+  anchorChains: number[][]; // Final anchor chains per bucket as frame numbers, head first
+}
+
+// Bucket for a (process, page) pair, used by both hash-based structures
+export function hashPage(process: number, page: number, buckets: number): number {
+  return (process * 31 + page) % buckets;
+}
+
+// Look up every address under four page-table organizations at once
+// Pages are loaded into frames on first use, with FIFO replacement once memory is full,
+// so all four structures always map the same resident set:
+// - conventional: one forward-mapped (multi-level) table per process; every lookup reads
+//   one entry per level, and its size depends on the address space touched
+// - inverted: one entry per physical frame holding (process, page), searched linearly
+// - anchored: the inverted table plus a hash anchor table whose chains link frames
+// - hashed: a global hash table of (process, page) -> frame elements chained per bucket
+export function simulatePageTables(
+  spaces: AddressSpace[],
+  config: PageTableConfig
+): PageTableResult {
+  const { offsetBits, levelBits } = splitAddressBits(
+    config.addressBits,
+    config.pageSize,
+    config.levels
+  );
+
+  // Interleave the processes one address at a time, as a round-robin scheduler would
+  const references: { process: number; address: number }[] = [];
+  const longest = Math.max(0, ...spaces.map((space) => space.addresses.length));
+  for (let i = 0; i < longest; i++) {
+    spaces.forEach((space, process) => {
+      if (i < space.addresses.length) {
+        references.push({ process, address: space.addresses[i] });
+      }
+    });
+  }
+
+  const inverted: ({ process: number; page: number } | null)[] = new Array(
+    config.frameCount
+  ).fill(null);
+  const hashedChains: HashedEntry[][] = Array.from({ length: config.buckets }, () => []);
+  const anchorChains: number[][] = Array.from({ length: config.buckets }, () => []);
+  const loadOrder: number[] = []; // Frames in the order they were filled, oldest first
+  // Conventional tables created so far, keyed by process and index prefix
+  const tables = new Set<string>();
+  spaces.forEach((_, process) => tables.add(`${process}:`));
+
+  const structures: PageTableStructure[] = ["conventional", "inverted", "anchored", "hashed"];
+  const totals: Record<PageTableStructure, number> = {
+    conventional: 0,
+    inverted: 0,
+    anchored: 0,
+    hashed: 0,
+  };
+  const maxima: Record<PageTableStructure, number> = { ...totals };
+  let collisions = 0;
+
+  const steps: PageTableStep[] = references.map(({ process, address }) => {
+    const { pageNumber, offset, levelIndexes } = splitAddress(address, offsetBits, levelBits);
+    const bucket = hashPage(process, pageNumber, config.buckets);
+    const matches = (entry: { process: number; page: number } | null) =>
+      entry !== null && entry.process === process && entry.page === pageNumber;
+
+    // Search each structure before any change is made
+    const invertedIndex = inverted.findIndex(matches);
+    const anchorIndex = anchorChains[bucket].findIndex((frame) => matches(inverted[frame]));
+    const hashedIndex = hashedChains[bucket].findIndex(matches);
+
+    const searchLengths: Record<PageTableStructure, number> = {
+      conventional: config.levels,
+      inverted: invertedIndex === -1 ? config.frameCount : invertedIndex + 1,
+      anchored: anchorIndex === -1 ? anchorChains[bucket].length : anchorIndex + 1,
+      hashed: hashedIndex === -1 ? hashedChains[bucket].length : hashedIndex + 1,
+    };
+
+    // The walk creates any inner conventional tables this page needs
+    for (let level = 1; level < config.levels; level++) {
+      tables.add(`${process}:${levelIndexes.slice(0, level).join("/")}`);
+    }
+
+    const step: PageTableStep = {
+      process,
+      virtualAddress: address,
+      pageNumber,
+      offset,
+      frame: invertedIndex,
+      isFault: invertedIndex === -1,
+      bucket,
+      collision: false,
+      searchLengths,
+    };
+
+    if (step.isFault) {
+      // Take a free frame, or evict the oldest page from every structure
+      let frame = inverted.indexOf(null);
+      if (frame === -1) {
+        frame = loadOrder.shift()!;
+        const victim = inverted[frame]!;
+        const victimBucket = hashPage(victim.process, victim.page, config.buckets);
+        hashedChains[victimBucket] = hashedChains[victimBucket].filter(
+          (entry) => !(entry.process === victim.process && entry.page === victim.page)
+        );
+        anchorChains[victimBucket] = anchorChains[victimBucket].filter((f) => f !== frame);
+        step.evicted = victim;
+      }
+
+      // New entries go at the head of their chain
+      step.collision = hashedChains[bucket].length > 0;
+      if (step.collision) collisions++;
+      inverted[frame] = { process, page: pageNumber };
+      hashedChains[bucket].unshift({ process, page: pageNumber, frame });
+      anchorChains[bucket].unshift(frame);
+      loadOrder.push(frame);
+      step.frame = frame;
+    }
+
+    structures.forEach((structure) => {
+      totals[structure] += searchLengths[structure];
+      maxima[structure] = Math.max(maxima[structure], searchLengths[structure]);
+    });
+
+    return step;
+  });
+
+  // Space at the end of the run. Conventional tables hold 2^bits entries per table; the
+  // inverted table holds one entry per frame, and the anchored variant adds a next-frame
+  // link per entry plus the anchor array; hashed elements hold a key, a frame and a link
+  const conventionalEntries = Array.from(tables).reduce((sum, key) => {
+    const depth = key.split(":")[1] === "" ? 0 : key.split(":")[1].split("/").length;
+    return sum + 2 ** levelBits[depth];
+  }, 0);
+  const resident = inverted.filter((entry) => entry !== null).length;
+  const entryCounts: Record<PageTableStructure, number> = {
+    conventional: conventionalEntries,
+    inverted: config.frameCount,
+    anchored: config.frameCount,
+    hashed: resident,
+  };
+  const bytes: Record<PageTableStructure, number> = {
+    conventional: conventionalEntries * config.entryBytes,
+    inverted: config.frameCount * config.entryBytes,
+    anchored: config.frameCount * 2 * config.entryBytes + config.buckets * config.entryBytes,
+    hashed: resident * 3 * config.entryBytes + config.buckets * config.entryBytes,
+  };
+
+  const summaries: StructureSummary[] = structures.map((structure) => ({
+    structure,
+    bytes: bytes[structure],
+    entries: entryCounts[structure],
+    averageSearch: steps.length === 0 ? 0 : totals[structure] / steps.length,
+    maxSearch: maxima[structure],
+    collisions: structure === "anchored" || structure === "hashed" ? collisions : 0,
+  }));
+
+  return { steps, summaries, invertedTable: inverted, hashedChains, anchorChains };
+}
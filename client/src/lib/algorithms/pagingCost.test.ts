@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { simulateFIFO, simulateLRU } from "./memory";
+import { computePagingCost, PagingCostModel } from "./pagingCost";
+
+const model: PagingCostModel = { hitNs: 100, faultNs: 1000, writeBackNs: 500 };
+
+describe("computePagingCost", () => {
+  it("charges every reference the access time and each fault the service time", () => {
+    // The textbook string takes 15 faults and 5 hits under FIFO with 3 frames
+    const refs = [7, 0, 1, 2, 0, 3, 0, 4, 2, 3, 0, 3, 2, 1, 2, 0, 1, 7, 0, 1];
+    const cost = computePagingCost(simulateFIFO(3, refs), model);
+    expect(cost.references).toBe(20);
+    expect(cost.totalNs).toBe(20 * 100 + 15 * 1000);
+    expect(cost.effectiveAccessTime).toBe(850);
+    expect(cost.ioCount).toBe(15);
+  });
+
+  it("adds a disk write for each dirty eviction", () => {
+    // Page 2 is written, then evicted by page 3
+    const result = simulateLRU(2, [1, 2, 1, 3], { writes: [false, true, false, false] });
+    const cost = computePagingCost(result, model);
+    expect(cost.writes).toBe(1);
+    expect(cost.totalNs).toBe(4 * 100 + 3 * 1000 + 500);
+    expect(cost.effectiveAccessTime).toBe(975);
+  });
+
+  it("counts prefetched pages as reads without charging them time", () => {
+    const result = simulateLRU(4, [1, 5], { prefetch: 1 });
+    const cost = computePagingCost(result, model);
+    expect(cost.reads).toBe(4);
+    expect(cost.ioCount).toBe(4);
+    expect(cost.totalNs).toBe(2 * 100 + 2 * 1000);
+  });
+
+  it("reports zero for an empty run", () => {
+    expect(computePagingCost(simulateFIFO(3, []), model).effectiveAccessTime).toBe(0);
+  });
+});
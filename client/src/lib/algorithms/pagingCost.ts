@@ -0,0 +1,37 @@
+import { MemoryResult } from "./memory";
+
+export interface PagingCostModel {
+  hitNs: number; // Memory access time for every reference
+  faultNs: number; // Page-fault service time, including the disk read
+  writeBackNs: number; // Writing one dirty page back to disk
+}
+
+export interface PagingCost {
+  references: number;
+  reads: number; // Pages read from disk: demand faults plus prefetched pages
+  writes: number; // Dirty pages written back
+  ioCount: number;
+  totalNs: number;
+  effectiveAccessTime: number; // Average time per reference, in ns
+}
+
+// Cost of a run under a cost model
+// Every reference pays the memory access time, each fault adds the fault service time
+// and each write-back adds its own disk write. Prefetched pages are read by the same
+// disk request as the faulting page, so they count as I/O but add no time of their own
+export function computePagingCost(result: MemoryResult, model: PagingCostModel): PagingCost {
+  const references = result.faults + result.hits;
+  const prefetches = result.prefetches ?? 0;
+  const writes = result.writeBacks ?? 0;
+  const totalNs =
+    references * model.hitNs + result.faults * model.faultNs + writes * model.writeBackNs;
+
+  return {
+    references,
+    reads: result.faults + prefetches,
+    writes,
+    ioCount: result.faults + prefetches + writes,
+    totalNs,
+    effectiveAccessTime: references === 0 ? 0 : totalNs / references,
+  };
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { DiskRequest, simulateFCFS } from "./disk";
+import { DriveGeometry } from "./diskTiming";
+import {
+  dataDisks,
+  planRequest,
+  RaidConfig,
+  RaidRequestPlan,
+  simulateRAID,
+  simulateRebuild,
+  stripeLayout,
+} from "./raid";
+
+const geometry: DriveGeometry = {
+  rpm: 6000,
+  sectorsPerTrack: 10,
+  heads: 2,
+  settleMs: 1,
+  sqrtMs: 0.5,
+  linearMs: 0.01,
+  seekThreshold: 100,
+};
+
+const raid5: RaidConfig = { level: "raid5", disks: 4, failed: [] };
+
+// Cells of a stripe written as d<block>, m<block>, p and q, one per disk
+const layout = (config: RaidConfig, stripe: number) =>
+  stripeLayout(config, stripe)
+    .map((cell) => (cell.kind === "data" ? `d${cell.block}` : cell.kind === "mirror" ? `m${cell.block}` : cell.kind[0]))
+    .join(" ");
+
+// Member operations written as R<disk> or W<disk>
+const ios = (plan: RaidRequestPlan) => plan.ios.map((io) => `${io.write ? "W" : "R"}${io.disk}`);
+
+describe("stripeLayout", () => {
+  it("rotates RAID 5 parity one disk to the left per stripe", () => {
+    expect(layout(raid5, 0)).toBe("d0 d1 d2 p");
+    expect(layout(raid5, 1)).toBe("d4 d5 p d3");
+    expect(layout(raid5, 2)).toBe("d8 p d6 d7");
+  });
+
+  it("keeps RAID 4 parity on the last disk", () => {
+    expect(layout({ level: "raid4", disks: 4, failed: [] }, 1)).toBe("d3 d4 d5 p");
+  });
+
+  it("puts RAID 6 Q right after P", () => {
+    expect(layout({ level: "raid6", disks: 5, failed: [] }, 0)).toBe("q d0 d1 d2 p");
+    expect(dataDisks("raid6", 5)).toBe(3);
+  });
+
+  it("mirrors neighbouring pairs in RAID 10", () => {
+    expect(layout({ level: "raid10", disks: 4, failed: [] }, 1)).toBe("d2 m2 d3 m3");
+  });
+});
+
+describe("planRequest", () => {
+  it("reads old data and parity before a small write", () => {
+    const plan = planRequest(raid5, { cylinder: 5, arrival: 0, write: true }, 0);
+    expect(plan.mode).toBe("Read-modify-write");
+    expect(ios(plan)).toEqual(["R1", "R2", "W1", "W2"]);
+  });
+
+  it("rebuilds a read from the surviving disks of the stripe", () => {
+    const plan = planRequest({ ...raid5, failed: [2] }, { cylinder: 2, arrival: 0 }, 0);
+    expect(ios(plan)).toEqual(["R0", "R1", "R3"]);
+  });
+
+  it("folds a write to a failed data disk into parity", () => {
+    const plan = planRequest({ ...raid5, failed: [0] }, { cylinder: 0, arrival: 0, write: true }, 0);
+    expect(ios(plan)).toEqual(["R1", "R2", "W3"]);
+  });
+
+  it("loses requests once more disks fail than parity covers", () => {
+    expect(planRequest({ ...raid5, failed: [1, 2] }, { cylinder: 0, arrival: 0 }, 0).lost).toBe(true);
+    expect(planRequest({ level: "raid0", disks: 4, failed: [2] }, { cylinder: 2, arrival: 0 }, 0).lost).toBe(true);
+    expect(planRequest({ level: "raid0", disks: 4, failed: [2] }, { cylinder: 1, arrival: 0 }, 0).lost).toBe(false);
+  });
+
+  it("writes every copy of a mirrored block and reads a surviving one", () => {
+    const raid10: RaidConfig = { level: "raid10", disks: 4, failed: [] };
+    expect(ios(planRequest(raid10, { cylinder: 3, arrival: 0, write: true }, 0))).toEqual(["W2", "W3"]);
+    expect(ios(planRequest({ level: "raid1", disks: 2, failed: [0] }, { cylinder: 4, arrival: 0 }, 0))).toEqual(["R1"]);
+  });
+});
+
+describe("simulateRAID", () => {
+  it("queues each operation on its member disk at the stripe's cylinder", () => {
+    const requests: DiskRequest[] = [
+      { cylinder: 5, arrival: 0, write: true },
+      { cylinder: 0, arrival: 0 },
+      { cylinder: 7, arrival: 0 },
+    ];
+    const result = simulateRAID(
+      raid5,
+      requests,
+      (member) => simulateFCFS(10, 0, member.map((request) => request.cylinder)),
+      geometry
+    );
+    expect(result.reads).toBe(4);
+    expect(result.writes).toBe(2);
+    expect(result.disks.map((run) => run.requests.length)).toEqual([1, 2, 2, 1]);
+    expect(result.disks[2].requests.map((request) => request.cylinder)).toEqual([1, 1]);
+    expect(result.arrayMs).toBe(Math.max(...result.disks.map((run) => run.timing!.totalMs)));
+  });
+});
+
+describe("simulateRebuild", () => {
+  it("reads a stripe's width of surviving disks for every stripe", () => {
+    const rebuild = simulateRebuild({ ...raid5, failed: [1] }, 3, geometry)!;
+    expect(rebuild.steps.map((step) => step.sources)).toEqual([
+      [0, 2, 3],
+      [0, 2, 3],
+      [0, 2, 3],
+    ]);
+    expect(rebuild.reads).toBe(9);
+    expect(rebuild.writes).toBe(3);
+  });
+
+  it("copies a lost mirror from its partner", () => {
+    const rebuild = simulateRebuild({ level: "raid10", disks: 4, failed: [1] }, 2, geometry)!;
+    expect(rebuild.steps.map((step) => step.sources)).toEqual([[0], [0]]);
+  });
+
+  it("has nothing to rebuild without a failure or with too many", () => {
+    expect(simulateRebuild(raid5, 3, geometry)).toBeNull();
+    expect(simulateRebuild({ ...raid5, failed: [1, 2] }, 3, geometry)).toBeNull();
+  });
+});
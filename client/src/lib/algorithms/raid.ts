@@ -0,0 +1,302 @@
+import { DiskRequest, DiskResult } from "./disk";
+import { computeDiskTiming, DiskTiming, DriveGeometry } from "./diskTiming";
+
+export type RaidLevel = "raid0" | "raid1" | "raid4" | "raid5" | "raid6" | "raid10";
+
+export interface RaidConfig {
+  level: RaidLevel;
+  disks: number;
+  failed: number[]; // Member disks marked failed
+}
+
+// What a member disk holds in one stripe: a logical block, a copy of one, or parity
+export type RaidCellKind = "data" | "mirror" | "parity" | "q";
+
+export interface RaidCell {
+  kind: RaidCellKind;
+  block?: number; // Logical block, for data and mirror cells
+}
+
+// One operation on a member disk; stripe s lives on cylinder s of every disk
+export interface RaidIO {
+  disk: number;
+  stripe: number;
+  write: boolean;
+  kind: RaidCellKind;
+}
+
+export interface RaidRequestPlan {
+  request: number; // Index into the request queue
+  block: number;
+  stripe: number;
+  write: boolean;
+  ios: RaidIO[];
+  mode: string; // How the array served it, e.g. read-modify-write
+  lost: boolean; // Too many failed disks: the block cannot be read or written
+}
+
+export interface RaidDiskRun {
+  disk: number;
+  failed: boolean;
+  requests: DiskRequest[]; // The member's own queue, built from the plans
+  result: DiskResult | null; // Null for a failed disk or an idle one
+  timing: DiskTiming | null;
+}
+
+export interface RaidResult {
+  plans: RaidRequestPlan[];
+  disks: RaidDiskRun[];
+  reads: number; // Member disk operations
+  writes: number;
+  lostRequests: number;
+  arrayMs: number; // Members work in parallel, so the busiest one sets the pace
+}
+
+export interface RaidRebuildStep {
+  stripe: number;
+  sources: number[]; // Surviving disks read to recreate the stripe
+  finishMs: number;
+}
+
+export interface RaidRebuild {
+  disks: number[]; // Replacements being written
+  steps: RaidRebuildStep[];
+  reads: number;
+  writes: number;
+  totalMs: number;
+}
+
+// Disks' worth of capacity that holds distinct data
+export function dataDisks(level: RaidLevel, disks: number): number {
+  switch (level) {
+    case "raid0":
+      return disks;
+    case "raid1":
+      return 1;
+    case "raid4":
+    case "raid5":
+      return disks - 1;
+    case "raid6":
+      return disks - 2;
+    case "raid10":
+      return disks / 2;
+  }
+}
+
+// Cells of one stripe, one per member disk
+// RAID 4 keeps parity on the last disk. RAID 5 rotates it one disk to the left per stripe
+// with data starting just after it (left-symmetric); RAID 6 puts Q right after P and
+// data after Q. RAID 10 stripes across mirrored pairs of neighbouring disks
+export function stripeLayout(config: RaidConfig, stripe: number): RaidCell[] {
+  const { level, disks } = config;
+  const width = dataDisks(level, disks);
+  const cells: RaidCell[] = new Array(disks);
+
+  switch (level) {
+    case "raid0":
+      for (let d = 0; d < disks; d++) cells[d] = { kind: "data", block: stripe * width + d };
+      break;
+    case "raid1":
+      for (let d = 0; d < disks; d++) cells[d] = { kind: d === 0 ? "data" : "mirror", block: stripe };
+      break;
+    case "raid10":
+      for (let d = 0; d < disks; d++) {
+        cells[d] = { kind: d % 2 === 0 ? "data" : "mirror", block: stripe * width + Math.floor(d / 2) };
+      }
+      break;
+    default: {
+      const parity = level === "raid4" ? disks - 1 : disks - 1 - (stripe % disks);
+      cells[parity] = { kind: "parity" };
+      if (level === "raid6") cells[(parity + 1) % disks] = { kind: "q" };
+      const first = level === "raid6" ? parity + 2 : parity + 1;
+      for (let i = 0; i < width; i++) {
+        // RAID 4 data always starts on disk 0
+        const d = level === "raid4" ? i : (first + i) % disks;
+        cells[d] = { kind: "data", block: stripe * width + i };
+      }
+    }
+  }
+
+  return cells;
+}
+
+// Member disk operations for one logical block request
+// Writes to parity levels read the old data and parity first (read-modify-write), unless
+// the data disk has failed, when the other data blocks are read and only parity is written
+// (reconstruct-write). A read from a failed disk is rebuilt from any width surviving cells
+// of the stripe (degraded read). Mirrors read the first surviving copy, alternating between
+// copies by block so both sides share the load, and write every surviving copy
+export function planRequest(config: RaidConfig, request: DiskRequest, index: number): RaidRequestPlan {
+  const { level, disks, failed } = config;
+  const width = dataDisks(level, disks);
+  const block = request.cylinder;
+  const stripe = Math.floor(block / width);
+  const write = request.write ?? false;
+  const cells = stripeLayout(config, stripe);
+  const alive = (d: number) => !failed.includes(d);
+  const io = (disk: number, isWrite: boolean): RaidIO => ({ disk, stripe, write: isWrite, kind: cells[disk].kind });
+
+  const plan: RaidRequestPlan = { request: index, block, stripe, write, ios: [], mode: "", lost: false };
+  const copies = cells.map((_, d) => d).filter((d) => cells[d].block === block);
+  const target = copies[0];
+
+  if (level === "raid0" || level === "raid1" || level === "raid10") {
+    const surviving = copies.filter(alive);
+    if (surviving.length === 0) {
+      plan.lost = true;
+      plan.mode = level === "raid0" ? "Lost: RAID 0 has no redundancy" : "Lost: every copy has failed";
+    } else if (write) {
+      plan.ios = surviving.map((d) => io(d, true));
+      plan.mode = copies.length > 1 ? `Mirrored write (${surviving.length} of ${copies.length} copies)` : "Write";
+    } else {
+      plan.ios = [io(surviving[block % surviving.length], false)];
+      plan.mode = surviving.length < copies.length ? "Read from the surviving copy" : "Read";
+    }
+    return plan;
+  }
+
+  const parityDisks = cells.map((_, d) => d).filter((d) => cells[d].kind === "parity" || cells[d].kind === "q");
+  const otherData = cells
+    .map((_, d) => d)
+    .filter((d) => cells[d].kind === "data" && d !== target);
+  const failedInStripe = cells.map((_, d) => d).filter((d) => !alive(d));
+  if (failedInStripe.length > parityDisks.length) {
+    plan.lost = true;
+    plan.mode = `Lost: ${failedInStripe.length} disks failed, parity covers ${parityDisks.length}`;
+    return plan;
+  }
+
+  if (!write) {
+    if (alive(target)) {
+      plan.ios = [io(target, false)];
+      plan.mode = "Read";
+    } else {
+      // Any width surviving cells determine the rest; prefer data, then P, then Q
+      const sources = [...otherData, ...parityDisks].filter(alive).slice(0, width);
+      plan.ios = sources.map((d) => io(d, false));
+      plan.mode = `Degraded read: rebuilt from ${sources.length} disks`;
+    }
+    return plan;
+  }
+
+  const survivingParity = parityDisks.filter(alive);
+  if (alive(target) && survivingParity.length === 0) {
+    plan.ios = [io(target, true)];
+    plan.mode = "Write only: parity disk failed";
+  } else if (alive(target)) {
+    plan.ios = [
+      io(target, false),
+      ...survivingParity.map((d) => io(d, false)),
+      io(target, true),
+      ...survivingParity.map((d) => io(d, true)),
+    ];
+    plan.mode = "Read-modify-write";
+  } else {
+    // Old parity stands in for any other data block that is also missing
+    const missing = otherData.filter((d) => !alive(d)).length;
+    const sources = [...otherData.filter(alive), ...survivingParity.slice(0, missing)];
+    plan.ios = [...sources.map((d) => io(d, false)), ...survivingParity.map((d) => io(d, true))];
+    plan.mode = "Reconstruct-write: data disk failed, new data folded into parity";
+  }
+  return plan;
+}
+
+// Map a request queue onto the array and run each member disk's queue through a scheduler
+// Every operation becomes a request on its member disk at the stripe's cylinder, keeping the
+// original arrival time, sector, owner and read/write; schedule runs one of the disk.ts
+// algorithms. Members are scheduled independently, so the reads of a read-modify-write are
+// not forced ahead of its writes
+export function simulateRAID(
+  config: RaidConfig,
+  requests: DiskRequest[],
+  schedule: (requests: DiskRequest[]) => DiskResult,
+  geometry?: DriveGeometry
+): RaidResult {
+  const plans = requests.map((request, index) => planRequest(config, request, index));
+
+  const disks: RaidDiskRun[] = Array.from({ length: config.disks }, (_, disk) => {
+    const failed = config.failed.includes(disk);
+    const memberRequests: DiskRequest[] = [];
+    plans.forEach((plan) =>
+      plan.ios
+        .filter((io) => io.disk === disk)
+        .forEach((io) => {
+          const request = requests[plan.request];
+          memberRequests.push({
+            cylinder: io.stripe,
+            arrival: request.arrival,
+            sector: request.sector,
+            write: io.write,
+            ...(request.process ? { process: request.process } : {}),
+          });
+        })
+    );
+
+    const result = failed || memberRequests.length === 0 ? null : schedule(memberRequests);
+    const timing = result && geometry ? computeDiskTiming(result, memberRequests, geometry) : null;
+    return { disk, failed, requests: memberRequests, result, timing };
+  });
+
+  const ios = plans.flatMap((plan) => plan.ios);
+  return {
+    plans,
+    disks,
+    reads: ios.filter((io) => !io.write).length,
+    writes: ios.filter((io) => io.write).length,
+    lostRequests: plans.filter((plan) => plan.lost).length,
+    arrayMs: Math.max(0, ...disks.map((run) => run.timing?.totalMs ?? 0)),
+  };
+}
+
+// Rebuild every failed disk onto a replacement, stripe by stripe from cylinder 0
+// Each stripe is read from the surviving disks in parallel and then written to the
+// replacements, so a stripe costs one sequential read plus one sequential write. Returns
+// null when there is nothing to rebuild or too many disks have failed
+export function simulateRebuild(
+  config: RaidConfig,
+  stripes: number,
+  geometry: DriveGeometry
+): RaidRebuild | null {
+  const { level, disks, failed } = config;
+  if (failed.length === 0 || level === "raid0") return null;
+
+  const width = dataDisks(level, disks);
+  const alive = (d: number) => !failed.includes(d);
+  if (level !== "raid1" && level !== "raid10" && failed.length > disks - width) return null;
+
+  // Both passes visit every cylinder in order; a block is one sector
+  const sweep: DiskResult = {
+    sequence: Array.from({ length: stripes }, (_, s) => s),
+    seekDistance: stripes - 1,
+  };
+  const sweepRequests: DiskRequest[] = sweep.sequence.map((cylinder) => ({ cylinder, arrival: 0, sector: 0 }));
+  const timing = computeDiskTiming(sweep, sweepRequests, geometry);
+
+  const rebuild: RaidRebuild = { disks: [...failed], steps: [], reads: 0, writes: 0, totalMs: 0 };
+  let previousMs = 0;
+
+  for (let stripe = 0; stripe < stripes; stripe++) {
+    const cells = stripeLayout(config, stripe);
+    let sources: number[];
+    if (level === "raid1" || level === "raid10") {
+      // A mirror copy of each lost cell
+      sources = Array.from(
+        new Set(
+          failed.map((d) => cells.findIndex((cell, other) => other !== d && alive(other) && cell.block === cells[d].block))
+        )
+      );
+      if (sources.includes(-1)) return null;
+    } else {
+      sources = cells.map((_, d) => d).filter(alive).slice(0, width);
+    }
+
+    const stepMs = timing.steps[stripe].finishMs - previousMs;
+    previousMs = timing.steps[stripe].finishMs;
+    rebuild.totalMs += 2 * stepMs;
+    rebuild.reads += sources.length;
+    rebuild.writes += failed.length;
+    rebuild.steps.push({ stripe, sources, finishMs: rebuild.totalMs });
+  }
+
+  return rebuild;
+}
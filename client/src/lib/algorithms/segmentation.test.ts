@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { checkSegmentAccess, LogicalAddress, SegmentEntry, simulateSegmentation } from "./segmentation";
+
+const table: SegmentEntry[] = [
+  { name: "code", base: 1000, limit: 400, read: true, write: false, execute: true },
+  { name: "data", base: 5000, limit: 300, read: true, write: true, execute: false },
+];
+
+describe("checkSegmentAccess", () => {
+  it("traps an offset at or beyond the limit", () => {
+    expect(checkSegmentAccess(table, { segment: 1, offset: 299, access: "r" })).toBeUndefined();
+    expect(checkSegmentAccess(table, { segment: 1, offset: 300, access: "r" })?.kind).toBe("limit-violation");
+  });
+
+  it("traps unknown segments and accesses the segment does not allow", () => {
+    expect(checkSegmentAccess(table, { segment: 2, offset: 0, access: "r" })?.kind).toBe("invalid-segment");
+    expect(checkSegmentAccess(table, { segment: 0, offset: 10, access: "w" })?.kind).toBe("protection-fault");
+    // The limit is checked before the protection bits
+    expect(checkSegmentAccess(table, { segment: 0, offset: 400, access: "w" })?.kind).toBe("limit-violation");
+  });
+});
+
+describe("simulateSegmentation", () => {
+  it("adds the offset to the segment base and produces no address for a trap", () => {
+    const addresses: LogicalAddress[] = [
+      { segment: 0, offset: 20, access: "x" },
+      { segment: 1, offset: 500, access: "r" },
+      { segment: 1, offset: 299, access: "w" },
+    ];
+    const result = simulateSegmentation(table, addresses, { mode: "segmentation" });
+    expect(result.steps.map((step) => step.physicalAddress)).toEqual([1020, undefined, 5299]);
+    expect(result.translated).toBe(2);
+    expect(result.traps).toBe(1);
+  });
+
+  it("pages each segment on demand and evicts the least recently used page", () => {
+    const addresses: LogicalAddress[] = [
+      { segment: 0, offset: 150, access: "r" },
+      { segment: 1, offset: 20, access: "r" },
+      { segment: 0, offset: 160, access: "r" },
+      { segment: 1, offset: 250, access: "w" },
+    ];
+    const result = simulateSegmentation(table, addresses, {
+      mode: "segmented-paging",
+      pageSize: 100,
+      frameCount: 2,
+    });
+    expect(result.steps.map((step) => step.physicalAddress)).toEqual([50, 120, 60, 150]);
+    expect(result.steps.map((step) => step.pageFault ?? false)).toEqual([true, true, false, true]);
+    expect(result.steps[3].evicted).toEqual({ segment: 1, page: 0 });
+    expect(result.pageTables![1].get(2)).toBe(1);
+    expect(result.pageTables![1].has(0)).toBe(false);
+  });
+});
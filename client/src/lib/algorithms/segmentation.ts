@@ -0,0 +1,166 @@
+export type AccessType = "r" | "w" | "x";
+export type SegmentationMode = "segmentation" | "segmented-paging";
+
+export interface SegmentEntry {
+  name: string;
+  base: number; // Physical start (pure segmentation only)
+  limit: number; // Segment length; valid offsets are 0..limit-1
+  read: boolean;
+  write: boolean;
+  execute: boolean;
+}
+
+export interface LogicalAddress {
+  segment: number;
+  offset: number;
+  access: AccessType;
+}
+
+export interface SegmentationFault {
+  kind: "invalid-segment" | "limit-violation" | "protection-fault";
+  message: string;
+}
+
+export interface SegmentationConfig {
+  mode: SegmentationMode;
+  pageSize?: number; // Segmented paging: bytes per page
+  frameCount?: number; // Segmented paging: physical frames shared by all segments
+}
+
+export interface SegmentationStep {
+  address: LogicalAddress;
+  fault?: SegmentationFault; // Set when the reference traps; no physical address is produced
+  physicalAddress?: number;
+  // Segmented paging only
+  page?: number;
+  pageOffset?: number;
+  frame?: number;
+  pageFault?: boolean; // The page was not resident and was loaded (not a trap)
+  evicted?: { segment: number; page: number }; // LRU victim when every frame was in use
+}
+
+export interface SegmentationResult {
+  steps: SegmentationStep[];
+  translated: number;
+  traps: number;
+  pageFaults: number;
+  pageTables?: Map<number, number>[]; // Segmented paging: final page -> frame map per segment
+}
+
+const ACCESS_NAMES: Record<AccessType, string> = {
+  r: "read",
+  w: "write",
+  x: "execute",
+};
+
+// Check a logical address against the segment table
+// Returns a fault describing the trap instead of throwing, so every reference still
+// produces a step the timeline can show
+export function checkSegmentAccess(
+  table: SegmentEntry[],
+  address: LogicalAddress
+): SegmentationFault | undefined {
+  const entry = table[address.segment];
+  if (!entry) {
+    return {
+      kind: "invalid-segment",
+      message: `Segment ${address.segment} is not in the segment table (${table.length} entries)`,
+    };
+  }
+
+  if (address.offset >= entry.limit) {
+    return {
+      kind: "limit-violation",
+      message: `Offset ${address.offset} is beyond the limit of ${entry.name} (${entry.limit})`,
+    };
+  }
+
+  const allowed =
+    address.access === "r" ? entry.read : address.access === "w" ? entry.write : entry.execute;
+  if (!allowed) {
+    return {
+      kind: "protection-fault",
+      message: `${entry.name} does not allow ${ACCESS_NAMES[address.access]} access`,
+    };
+  }
+
+  return undefined;
+}
+
+// Translate logical (segment, offset) addresses
+// Pure segmentation adds the offset to the segment base. Segmented paging gives each
+// segment its own page table: the offset splits into a page number and page offset, and
+// pages are loaded on demand into a shared pool of frames, replacing LRU when it is full
+export function simulateSegmentation(
+  table: SegmentEntry[],
+  addresses: LogicalAddress[],
+  config: SegmentationConfig
+): SegmentationResult {
+  const paged = config.mode === "segmented-paging";
+  const pageSize = config.pageSize ?? 1;
+  const frameCount = config.frameCount ?? 0;
+
+  const pageTables = table.map(() => new Map<number, number>());
+  const owners: ({ segment: number; page: number } | null)[] = new Array(frameCount).fill(null);
+  const lastUsed: number[] = new Array(frameCount).fill(-1);
+
+  const result: SegmentationResult = {
+    steps: [],
+    translated: 0,
+    traps: 0,
+    pageFaults: 0,
+    pageTables: paged ? pageTables : undefined,
+  };
+
+  addresses.forEach((address, time) => {
+    const step: SegmentationStep = { address };
+    const fault = checkSegmentAccess(table, address);
+
+    if (fault) {
+      step.fault = fault;
+      result.traps++;
+      result.steps.push(step);
+      return;
+    }
+
+    if (!paged) {
+      step.physicalAddress = table[address.segment].base + address.offset;
+    } else {
+      const page = Math.floor(address.offset / pageSize);
+      const pageOffset = address.offset % pageSize;
+      let frame = pageTables[address.segment].get(page);
+
+      step.page = page;
+      step.pageOffset = pageOffset;
+
+      if (frame === undefined) {
+        step.pageFault = true;
+        result.pageFaults++;
+
+        frame = owners.indexOf(null);
+        if (frame === -1) {
+          // Evict the least recently used page of any segment
+          frame = 0;
+          for (let j = 1; j < frameCount; j++) {
+            if (lastUsed[j] < lastUsed[frame]) frame = j;
+          }
+          const victim = owners[frame]!;
+          pageTables[victim.segment].delete(victim.page);
+          step.evicted = victim;
+        }
+
+        owners[frame] = { segment: address.segment, page };
+        pageTables[address.segment].set(page, frame);
+      }
+
+      lastUsed[frame] = time;
+      step.frame = frame;
+      step.physicalAddress = frame * pageSize + pageOffset;
+    }
+
+    result.translated++;
+    result.steps.push(step);
+  });
+
+  return result;
+}
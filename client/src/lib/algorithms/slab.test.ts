@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { simulateSlab, slabState } from "./slab";
+
+describe("simulateSlab", () => {
+  // Three 300-byte objects fit in a 1024-byte slab
+  const result = simulateSlab([{ name: "inode", objectSize: 300 }], 1024, [
+    { type: "allocate", cache: "inode", object: "a" },
+    { type: "allocate", cache: "inode", object: "b" },
+    { type: "allocate", cache: "inode", object: "c" },
+    { type: "allocate", cache: "inode", object: "d" },
+    { type: "free", object: "b" },
+    { type: "allocate", cache: "inode", object: "e" },
+    { type: "free", object: "d" },
+    { type: "shrink" },
+    { type: "allocate", cache: "inode", object: "f" },
+  ]);
+
+  it("creates a slab only when every slab is full", () => {
+    expect(result.steps[0].newSlab).toBe(true);
+    expect(result.steps[2].newSlab).toBeUndefined();
+    expect(result.steps[3].newSlab).toBe(true);
+    expect(result.steps[3].slot).toEqual({ cache: "inode", slab: 1, index: 0 });
+  });
+
+  it("fills partial slabs before empty ones", () => {
+    expect(result.steps[5].slot).toEqual({ cache: "inode", slab: 0, index: 1 });
+    expect(result.steps[6].caches[0].slabs.map(slabState)).toEqual(["full", "empty"]);
+  });
+
+  it("releases empty slabs on shrink", () => {
+    expect(result.steps[7].released).toBe(1);
+    expect(result.steps[7].slabMemory).toBe(1024);
+    expect(result.steps[7].fragmentation).toBeCloseTo(1 - 900 / 1024);
+    // Slab ids are never reused
+    expect(result.steps[8].slot).toEqual({ cache: "inode", slab: 2, index: 0 });
+    expect(result.slabsCreated).toBe(3);
+    expect(result.peakSlabMemory).toBe(2048);
+  });
+
+  it("rejects unknown caches and double frees", () => {
+    const failed = simulateSlab([{ name: "inode", objectSize: 300 }], 1024, [
+      { type: "allocate", cache: "dentry", object: "a" },
+      { type: "free", object: "a" },
+    ]);
+    expect(failed.failures).toBe(2);
+  });
+});
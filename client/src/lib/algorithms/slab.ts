@@ -0,0 +1,164 @@
+export interface SlabCacheSpec {
+  name: string;
+  objectSize: number;
+}
+
+export type SlabRequest =
+  | { type: "allocate"; cache: string; object: string }
+  | { type: "free"; object: string }
+  | { type: "shrink" }; // Return every empty slab to the page allocator
+
+export type SlabState = "full" | "partial" | "empty";
+
+export interface Slab {
+  id: number; // Unique within its cache, in creation order
+  objects: (string | null)[]; // One slot per object; null when the slot is free
+}
+
+export interface SlabCache {
+  name: string;
+  objectSize: number;
+  objectsPerSlab: number;
+  slabs: Slab[];
+}
+
+export interface SlabStep {
+  request: SlabRequest;
+  caches: SlabCache[]; // Caches after this request
+  success: boolean;
+  message: string;
+  slot?: { cache: string; slab: number; index: number }; // Slot allocated or freed
+  newSlab?: boolean; // The allocation had to create a slab
+  released?: number; // Slabs returned by a shrink
+  slabMemory: number; // Bytes held by all slabs
+  liveBytes: number; // Bytes used by allocated objects
+  fragmentation: number; // 1 - liveBytes / slabMemory
+}
+
+export interface SlabResult {
+  steps: SlabStep[];
+  failures: number;
+  slabsCreated: number;
+  peakSlabMemory: number;
+}
+
+export function slabState(slab: Slab): SlabState {
+  const used = slab.objects.filter((object) => object !== null).length;
+  if (used === 0) return "empty";
+  return used === slab.objects.length ? "full" : "partial";
+}
+
+// Run allocate/free/shrink requests against a set of object caches
+// Each cache carves fixed-size slabs into equal slots. An allocation takes the first free
+// slot of a partial slab, then of an empty one, and only creates a new slab when every
+// slab in the cache is full. Freed slots stay in their slab; empty slabs are kept for
+// reuse until a shrink releases them
+export function simulateSlab(
+  specs: SlabCacheSpec[],
+  slabSize: number,
+  requests: SlabRequest[]
+): SlabResult {
+  const caches: SlabCache[] = specs.map((spec) => ({
+    ...spec,
+    objectsPerSlab: Math.floor(slabSize / spec.objectSize),
+    slabs: [],
+  }));
+  const nextId = new Map<string, number>();
+
+  const result: SlabResult = { steps: [], failures: 0, slabsCreated: 0, peakSlabMemory: 0 };
+
+  // Cache, slab and slot currently holding an object
+  const locate = (object: string) => {
+    for (const cache of caches) {
+      for (const slab of cache.slabs) {
+        const index = slab.objects.indexOf(object);
+        if (index !== -1) return { cache, slab, index };
+      }
+    }
+    return null;
+  };
+
+  for (const request of requests) {
+    const step: Pick<SlabStep, "request" | "success" | "message" | "slot" | "newSlab" | "released"> = {
+      request,
+      success: true,
+      message: "",
+    };
+
+    if (request.type === "allocate") {
+      const cache = caches.find(({ name }) => name === request.cache);
+
+      if (!cache) {
+        step.success = false;
+        step.message = `No cache named ${request.cache}`;
+      } else if (locate(request.object)) {
+        step.success = false;
+        step.message = `${request.object} is already allocated`;
+      } else {
+        let slab =
+          cache.slabs.find((candidate) => slabState(candidate) === "partial") ??
+          cache.slabs.find((candidate) => slabState(candidate) === "empty");
+
+        if (!slab) {
+          const id = nextId.get(cache.name) ?? 0;
+          nextId.set(cache.name, id + 1);
+          slab = { id, objects: new Array(cache.objectsPerSlab).fill(null) };
+          cache.slabs.push(slab);
+          step.newSlab = true;
+          result.slabsCreated++;
+        }
+
+        const index = slab.objects.indexOf(null);
+        slab.objects[index] = request.object;
+        step.slot = { cache: cache.name, slab: slab.id, index };
+        step.message =
+          `${request.object} placed in ${cache.name} slab ${slab.id}, slot ${index}` +
+          (step.newSlab ? " (new slab)" : "");
+      }
+    } else if (request.type === "free") {
+      const found = locate(request.object);
+      if (!found) {
+        step.success = false;
+        step.message = `${request.object} is not allocated`;
+      } else {
+        found.slab.objects[found.index] = null;
+        step.slot = { cache: found.cache.name, slab: found.slab.id, index: found.index };
+        step.message = `${request.object} freed from ${found.cache.name} slab ${found.slab.id}, slot ${found.index}`;
+      }
+    } else {
+      let released = 0;
+      caches.forEach((cache) => {
+        const kept = cache.slabs.filter((slab) => slabState(slab) !== "empty");
+        released += cache.slabs.length - kept.length;
+        cache.slabs = kept;
+      });
+      step.released = released;
+      step.message = `Released ${released} empty slab${released === 1 ? "" : "s"}`;
+    }
+
+    if (!step.success) result.failures++;
+
+    let slabMemory = 0;
+    let liveBytes = 0;
+    caches.forEach((cache) => {
+      slabMemory += cache.slabs.length * slabSize;
+      cache.slabs.forEach((slab) => {
+        liveBytes += slab.objects.filter((object) => object !== null).length * cache.objectSize;
+      });
+    });
+    result.peakSlabMemory = Math.max(result.peakSlabMemory, slabMemory);
+
+    result.steps.push({
+      ...step,
+      caches: caches.map((cache) => ({
+        ...cache,
+        slabs: cache.slabs.map((slab) => ({ ...slab, objects: [...slab.objects] })),
+      })),
+      slabMemory,
+      liveBytes,
+      fragmentation: slabMemory === 0 ? 0 : 1 - liveBytes / slabMemory,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { DiskRequest } from "./disk";
+import { FLASH_TIMING, GCPolicy, simulateSSD, SSDConfig, validPages, WearLeveling } from "./ssd";
+
+const config: SSDConfig = {
+  logicalPages: 40,
+  pagesPerBlock: 4,
+  spareBlocks: 2,
+  gcThreshold: 1,
+  gcPolicy: "greedy",
+  wearLeveling: "none",
+  staticThreshold: 2,
+  passes: 20,
+  prefill: true,
+};
+
+// A few hot pages rewritten over and over among scattered cold ones, with some reads
+const workload: DiskRequest[] = Array.from({ length: 30 }, (_, i) => ({
+  cylinder: i % 3 === 0 ? (i * 7) % 40 : i % 5,
+  arrival: 0,
+  write: i % 4 !== 3,
+}));
+
+const policies: [GCPolicy, WearLeveling][] = [
+  ["greedy", "none"],
+  ["greedy", "dynamic"],
+  ["greedy", "static"],
+  ["costbenefit", "none"],
+  ["costbenefit", "static"],
+];
+
+describe("simulateSSD", () => {
+  it.each(policies)("never writes less to flash than the host asked for (%s, %s)", (gcPolicy, wearLeveling) => {
+    const result = simulateSSD(workload, { ...config, gcPolicy, wearLeveling });
+    expect(result.erases).toBeGreaterThan(0);
+    expect(result.writeAmplification).toBeGreaterThanOrEqual(1);
+    expect(result.writeAmplification).toBeCloseTo(
+      (result.hostWrites + result.gcWrites + result.wearLevelingWrites) / result.hostWrites
+    );
+  });
+
+  it.each(policies)("keeps the mapping table and the flash in step (%s, %s)", (gcPolicy, wearLeveling) => {
+    const result = simulateSSD(workload, { ...config, gcPolicy, wearLeveling });
+    result.steps.forEach((step) => {
+      step.mapping.forEach((ppn, lpn) => {
+        if (ppn === null) return;
+        expect(step.blocks[Math.floor(ppn / config.pagesPerBlock)].pages[ppn % config.pagesPerBlock]).toBe(lpn);
+      });
+      const mapped = step.mapping.filter((ppn) => ppn !== null).length;
+      expect(step.blocks.reduce((sum, block) => sum + validPages(block), 0)).toBe(mapped);
+    });
+    const last = result.steps[result.steps.length - 1];
+    expect(last.blocks.reduce((sum, block) => sum + block.eraseCount, 0)).toBe(result.erases);
+  });
+
+  it("writes to free pages without amplification until the flash fills", () => {
+    const writes: DiskRequest[] = Array.from({ length: 8 }, (_, lpn) => ({ cylinder: lpn, arrival: 0, write: true }));
+    const result = simulateSSD(writes, { ...config, logicalPages: 8, passes: 1, prefill: false });
+    expect(result.erases).toBe(0);
+    expect(result.writeAmplification).toBe(1);
+    expect(result.totalUs).toBe(8 * FLASH_TIMING.programUs);
+  });
+
+  it("reads a never-written page without touching flash", () => {
+    const reads: DiskRequest[] = [{ cylinder: 3, arrival: 0 }];
+    const result = simulateSSD(reads, { ...config, passes: 1, prefill: false });
+    expect(result.steps[0].ppn).toBeNull();
+    expect(result.totalUs).toBe(0);
+    expect(result.writeAmplification).toBe(0);
+  });
+});
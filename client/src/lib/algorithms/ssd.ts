@@ -0,0 +1,266 @@
+import { DiskRequest } from "./disk";
+
+// Flash operation latencies in microseconds, typical of MLC NAND
+export const FLASH_TIMING = { readUs: 50, programUs: 500, eraseUs: 3000 };
+
+export type GCPolicy = "greedy" | "costbenefit";
+export type WearLeveling = "none" | "dynamic" | "static";
+
+export interface SSDConfig {
+  logicalPages: number; // Pages the host can address; a request's cylinder is its logical page
+  pagesPerBlock: number;
+  spareBlocks: number; // Over-provisioning: blocks beyond those the logical pages need
+  gcThreshold: number; // Garbage collection runs while fewer blocks than this are free
+  gcPolicy: GCPolicy;
+  wearLeveling: WearLeveling;
+  staticThreshold: number; // Static wear leveling: erase-count gap that moves cold data
+  passes: number; // Times the request queue is replayed
+  prefill: boolean; // Start with every logical page written once, in order
+}
+
+// A physical page holds a logical page, stale data waiting for its block to be erased, or nothing
+export type SSDPage = number | "invalid" | null;
+
+export interface SSDBlock {
+  pages: SSDPage[];
+  eraseCount: number;
+  lastWrite: number; // Host writes so far when the block was last programmed
+}
+
+// One block reclaimed by garbage collection or static wear leveling
+export interface SSDErase {
+  block: number;
+  moved: number; // Valid pages copied out before the erase
+  wearLeveling: boolean; // Cold data moved by static wear leveling rather than garbage collection
+  reason: string;
+}
+
+export interface SSDStep {
+  request: number; // Index into the request queue
+  pass: number;
+  write: boolean;
+  lpn: number;
+  ppn: number | null; // Physical page read or programmed; null for a read of a never-written page
+  invalidated: number | null; // Write: the physical page holding the old copy
+  erases: SSDErase[];
+  timeUs: number; // Including any garbage collection the request triggered
+  blocks: SSDBlock[]; // Flash after this request
+  mapping: (number | null)[]; // Logical to physical page table after this request
+  message: string;
+}
+
+export interface SSDResult {
+  steps: SSDStep[];
+  blockCount: number;
+  hostReads: number;
+  hostWrites: number;
+  gcWrites: number;
+  wearLevelingWrites: number;
+  erases: number;
+  writeAmplification: number; // Flash page programs per host write
+  totalUs: number;
+}
+
+// Count of pages in a block holding live data
+export function validPages(block: SSDBlock): number {
+  return block.pages.filter((page) => typeof page === "number").length;
+}
+
+// Replay a request queue against NAND flash behind a page-level FTL
+// Flash pages cannot be overwritten: a write goes to the next free page of the open block
+// and the mapping table is pointed at it, leaving the old copy invalid. Once fewer than
+// gcThreshold blocks are free, garbage collection picks a victim (greedy: most invalid
+// pages; cost-benefit: (1 - u) / 2u scaled by age), copies its valid pages to the open
+// block and erases it. Dynamic wear leveling opens the least-erased free block; static
+// wear leveling also moves the data of the least-erased block in use once the erase-count
+// gap passes staticThreshold, so cold data stops pinning a fresh block. order lists
+// request indexes in service order; the cylinder of each request is its logical page
+export function simulateSSD(
+  requests: DiskRequest[],
+  config: SSDConfig,
+  order: number[] = requests.map((_, i) => i)
+): SSDResult {
+  const { pagesPerBlock } = config;
+  const blockCount = Math.ceil(config.logicalPages / pagesPerBlock) + config.spareBlocks;
+  const blocks: SSDBlock[] = Array.from({ length: blockCount }, () => ({
+    pages: new Array(pagesPerBlock).fill(null),
+    eraseCount: 0,
+    lastWrite: 0,
+  }));
+  const mapping: (number | null)[] = new Array(config.logicalPages).fill(null);
+  const free = blocks.map((_, i) => i);
+  let open: number | null = null;
+  let writePointer = 0;
+
+  const result: SSDResult = {
+    steps: [],
+    blockCount,
+    hostReads: 0,
+    hostWrites: 0,
+    gcWrites: 0,
+    wearLevelingWrites: 0,
+    erases: 0,
+    writeAmplification: 0,
+    totalUs: 0,
+  };
+
+  // Pages that can still be programmed without erasing anything
+  const room = () => (open === null ? 0 : pagesPerBlock - writePointer) + free.length * pagesPerBlock;
+
+  const inUse = (block: number) => block !== open && !free.includes(block);
+
+  // Program a logical page at the write frontier and invalidate its previous copy
+  const program = (lpn: number): number => {
+    if (open === null || writePointer === pagesPerBlock) {
+      // Wear leveling opens the least-erased free block, otherwise the oldest free one
+      let position = 0;
+      if (config.wearLeveling !== "none") {
+        position = free.reduce(
+          (best, block, i) => (blocks[block].eraseCount < blocks[free[best]].eraseCount ? i : best),
+          0
+        );
+      }
+      open = free.splice(position, 1)[0];
+      writePointer = 0;
+    }
+
+    const ppn = open * pagesPerBlock + writePointer++;
+    const old = mapping[lpn];
+    if (old !== null) blocks[Math.floor(old / pagesPerBlock)].pages[old % pagesPerBlock] = "invalid";
+    blocks[open].pages[ppn % pagesPerBlock] = lpn;
+    blocks[open].lastWrite = result.hostWrites;
+    mapping[lpn] = ppn;
+    return ppn;
+  };
+
+  // Copy the valid pages out of a block, then erase it
+  const reclaim = (block: number, wearLeveling: boolean, reason: string): SSDErase => {
+    let moved = 0;
+    blocks[block].pages.forEach((page) => {
+      if (typeof page === "number") {
+        program(page);
+        moved++;
+      }
+    });
+    blocks[block].pages.fill(null);
+    blocks[block].eraseCount++;
+    free.push(block);
+    result.erases++;
+    if (wearLeveling) result.wearLevelingWrites += moved;
+    else result.gcWrites += moved;
+    return { block, moved, wearLeveling, reason };
+  };
+
+  // Reclaim one victim; null when no block can be collected
+  const collect = (): SSDErase | null => {
+    const candidates = blocks
+      .map((block, i) => ({ i, valid: validPages(block), age: result.hostWrites - block.lastWrite }))
+      .filter(({ i, valid }) => inUse(i) && valid < pagesPerBlock && valid <= room());
+    if (candidates.length === 0) return null;
+
+    const score = ({ valid, age }: { valid: number; age: number }) => {
+      if (config.gcPolicy === "greedy") return pagesPerBlock - valid;
+      const u = valid / pagesPerBlock;
+      return u === 0 ? Infinity : ((1 - u) / (2 * u)) * (age + 1);
+    };
+    const victim = candidates.reduce((best, candidate) => (score(candidate) > score(best) ? candidate : best));
+
+    const reason =
+      config.gcPolicy === "greedy"
+        ? `${pagesPerBlock - victim.valid} of ${pagesPerBlock} pages invalid`
+        : `utilization ${Math.round((victim.valid / pagesPerBlock) * 100)}%, age ${victim.age}`;
+    return reclaim(victim.i, false, reason);
+  };
+
+  // Static wear leveling: free the least-erased block in use when it lags too far behind
+  const levelWear = (): SSDErase | null => {
+    const maxErases = Math.max(...blocks.map((block) => block.eraseCount));
+    const coldest = blocks
+      .map((block, i) => ({ i, erases: block.eraseCount, valid: validPages(block) }))
+      .filter(({ i, valid }) => inUse(i) && valid <= room())
+      .sort((a, b) => a.erases - b.erases || a.i - b.i)[0];
+    if (!coldest || maxErases - coldest.erases <= config.staticThreshold) return null;
+    return reclaim(
+      coldest.i,
+      true,
+      `erased ${coldest.erases} times, ${maxErases - coldest.erases} behind the most worn block`
+    );
+  };
+
+  if (config.prefill) {
+    mapping.forEach((_, lpn) => program(lpn));
+  }
+
+  for (let pass = 1; pass <= config.passes; pass++) {
+    order.forEach((index) => {
+      const request = requests[index];
+      const lpn = request.cylinder;
+      const erases: SSDErase[] = [];
+      let ppn: number | null = null;
+      let invalidated: number | null = null;
+      let timeUs = 0;
+      let message: string;
+
+      if (request.write) {
+        if (room() === 0) {
+          const erase = collect();
+          if (erase) erases.push(erase);
+        }
+        if (room() === 0) {
+          message = `Write of page ${lpn} failed: no free flash page could be reclaimed`;
+        } else {
+          invalidated = mapping[lpn];
+          ppn = program(lpn);
+          result.hostWrites++;
+          timeUs += FLASH_TIMING.programUs;
+          message =
+            invalidated === null
+              ? `Page ${lpn} written to physical page ${ppn}`
+              : `Page ${lpn} rewritten out of place to physical page ${ppn}; page ${invalidated} is now invalid`;
+
+          while (free.length < config.gcThreshold) {
+            const erase = collect();
+            if (!erase) break;
+            erases.push(erase);
+          }
+          if (config.wearLeveling === "static") {
+            const erase = levelWear();
+            if (erase) erases.push(erase);
+          }
+        }
+      } else {
+        ppn = mapping[lpn];
+        result.hostReads++;
+        if (ppn === null) {
+          message = `Page ${lpn} was never written; the read returns zeros without touching flash`;
+        } else {
+          timeUs += FLASH_TIMING.readUs;
+          message = `Page ${lpn} read from physical page ${ppn}`;
+        }
+      }
+
+      erases.forEach((erase) => {
+        timeUs += erase.moved * (FLASH_TIMING.readUs + FLASH_TIMING.programUs) + FLASH_TIMING.eraseUs;
+      });
+      result.totalUs += timeUs;
+
+      result.steps.push({
+        request: index,
+        pass,
+        write: request.write ?? false,
+        lpn,
+        ppn,
+        invalidated,
+        erases,
+        timeUs,
+        blocks: blocks.map((block) => ({ ...block, pages: [...block.pages] })),
+        mapping: [...mapping],
+        message,
+      });
+    });
+  }
+
+  const flashWrites = result.hostWrites + result.gcWrites + result.wearLevelingWrites;
+  result.writeAmplification = result.hostWrites === 0 ? 0 : flashWrites / result.hostWrites;
+  return result;
+}
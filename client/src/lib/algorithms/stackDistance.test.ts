@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { simulateLRU } from "./memory";
+import { computeMissRatioCurve, computeStackDistances } from "./stackDistance";
+
+const textbook = [7, 0, 1, 2, 0, 3, 0, 4, 2, 3, 0, 3, 2, 1, 2, 0, 1, 7, 0, 1];
+
+describe("computeStackDistances", () => {
+  it("measures the LRU stack depth of each reference", () => {
+    const analysis = computeStackDistances([1, 2, 3, 1, 1, 3, 2]);
+    expect(analysis.distances).toEqual([Infinity, Infinity, Infinity, 3, 1, 2, 3]);
+    expect(analysis.histogram).toEqual([0, 1, 1, 2]);
+    expect(analysis.coldMisses).toBe(3);
+    expect(analysis.distinctPages).toBe(3);
+  });
+});
+
+describe("computeMissRatioCurve", () => {
+  it("matches LRU simulated at every frame count", () => {
+    const curve = computeMissRatioCurve(computeStackDistances(textbook), 8);
+    expect(curve[2].faults).toBe(12);
+    curve.forEach((point) => {
+      expect(point.faults).toBe(simulateLRU(point.frames, textbook).faults);
+      expect(point.missRatio).toBe(point.faults / textbook.length);
+    });
+  });
+
+  it("levels off at the cold misses", () => {
+    const curve = computeMissRatioCurve(computeStackDistances(textbook), 10);
+    expect(curve[curve.length - 1].faults).toBe(new Set(textbook).size);
+  });
+});
@@ -0,0 +1,122 @@
+export interface StackDistanceResult {
+  distances: number[]; // LRU stack depth of each reference (1 = top), Infinity on first use
+  histogram: number[]; // histogram[d] = references found at depth d (index 0 unused)
+  coldMisses: number; // First references, which miss at every frame count
+  references: number;
+  distinctPages: number;
+}
+
+export interface MissRatioPoint {
+  frames: number;
+  faults: number;
+  missRatio: number;
+}
+
+// LRU stack distances for every reference in one pass
+// LRU is a stack algorithm: with c frames a reference hits exactly when its page is
+// within the top c entries of the LRU stack. The depth of a page equals the number of
+// distinct pages referenced since its previous use, plus one. A Fenwick tree over
+// positions marks the latest occurrence of each page, so that count is a range sum
+// and the whole pass is O(n log n) instead of O(n * pages)
+export function computeStackDistances(
+  refString: number[]
+): StackDistanceResult {
+  const n = refString.length;
+  const tree = new Int32Array(n + 1);
+
+  const add = (position: number, delta: number) => {
+    for (let i = position + 1; i <= n; i += i & -i) tree[i] += delta;
+  };
+  const prefixSum = (position: number) => {
+    let sum = 0;
+    for (let i = position + 1; i > 0; i -= i & -i) sum += tree[i];
+    return sum;
+  };
+
+  const lastPosition = new Map<number, number>();
+  const distances: number[] = new Array(n);
+  const histogram: number[] = [0];
+  let coldMisses = 0;
+
+  for (let i = 0; i < n; i++) {
+    const page = refString[i];
+    const previous = lastPosition.get(page);
+
+    if (previous === undefined) {
+      distances[i] = Infinity;
+      coldMisses++;
+    } else {
+      // Distinct pages touched strictly between the two uses, plus the page itself
+      const depth = prefixSum(i - 1) - prefixSum(previous) + 1;
+      distances[i] = depth;
+      while (histogram.length <= depth) histogram.push(0);
+      histogram[depth]++;
+      add(previous, -1);
+    }
+
+    add(i, 1);
+    lastPosition.set(page, i);
+  }
+
+  return {
+    distances,
+    histogram,
+    coldMisses,
+    references: n,
+    distinctPages: lastPosition.size,
+  };
+}
+
+// Fault count and miss ratio for every frame count from 1 to maxFrames
+// With c frames, a reference misses if it is cold or its stack depth is greater than c
+export function computeMissRatioCurve(
+  analysis: StackDistanceResult,
+  maxFrames: number
+): MissRatioPoint[] {
+  const { histogram, references } = analysis;
+
+  // Start with every reference counted as a miss, then remove the warm ones that fit
+  // Cold misses are never removed, so they remain no matter how many frames there are
+  let misses = references;
+  let depth = 0;
+  const curve: MissRatioPoint[] = [];
+
+  for (let frames = 1; frames <= maxFrames; frames++) {
+    while (depth < frames) {
+      depth++;
+      misses -= histogram[depth] ?? 0;
+    }
+    curve.push({
+      frames,
+      faults: misses,
+      missRatio: references === 0 ? 0 : misses / references,
+    });
+  }
+
+  return curve;
+}
+
+// Synthetic reference string with phase locality: most references fall in a small
+// hot set of pages that jumps to a new place 20 times over the string
+export function generateReferenceString(
+  length: number,
+  pageCount: number,
+  locality: number = 0.9
+): number[] {
+  const hotSetSize = Math.max(1, Math.round(pageCount / 10));
+  const phaseLength = Math.max(1, Math.round(length / 20));
+  const refString: number[] = new Array(length);
+  let hotStart = 0;
+
+  for (let i = 0; i < length; i++) {
+    if (i > 0 && i % phaseLength === 0) {
+      hotStart = Math.floor(Math.random() * pageCount);
+    }
+    refString[i] =
+      Math.random() < locality
+        ? (hotStart + Math.floor(Math.random() * hotSetSize)) % pageCount
+        : Math.floor(Math.random() * pageCount);
+  }
+
+  return refString;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { simulateLRU } from "./memory";
+import { simulatePFF, simulateWorkingSet } from "./workingSet";
+
+const textbook = [7, 0, 1, 2, 0, 3, 0, 4, 2, 3, 0, 3, 2, 1, 2, 0, 1, 7, 0, 1];
+
+describe("simulateWorkingSet", () => {
+  it("keeps the pages referenced in the last Δ references", () => {
+    const result = simulateWorkingSet([1, 2, 1, 3, 4, 1], 3);
+    expect(result.steps.map((step) => step.workingSet)).toEqual([
+      [1],
+      [1, 2],
+      [1, 2],
+      [1, 2, 3],
+      [1, 3, 4],
+      [1, 3, 4],
+    ]);
+    expect(result.steps.map((step) => step.isFault)).toEqual([true, true, false, true, true, false]);
+    expect(result.peakSize).toBe(3);
+  });
+
+  it("only takes compulsory faults when Δ spans the whole string", () => {
+    const result = simulateWorkingSet(textbook, textbook.length);
+    expect(result.faults).toBe(new Set(textbook).size);
+    expect(result.faults + result.hits).toBe(textbook.length);
+  });
+});
+
+describe("simulatePFF", () => {
+  it("behaves like LRU when the fault rate never crosses a threshold", () => {
+    const result = simulatePFF(textbook, { initialFrames: 3, lowerThreshold: 0, upperThreshold: 1, window: 4 });
+    expect(result.faults).toBe(simulateLRU(3, textbook).faults);
+    expect(result.steps.every((step) => step.allocatedFrames === 3)).toBe(true);
+  });
+
+  it("grows and shrinks within the allocation limits", () => {
+    const result = simulatePFF(textbook, {
+      initialFrames: 2,
+      lowerThreshold: 0.3,
+      upperThreshold: 0.6,
+      window: 4,
+      minFrames: 2,
+      maxFrames: 4,
+    });
+    const adjustments = result.steps.map((step) => step.adjustment).filter(Boolean);
+    expect(adjustments).toEqual(["grow", "grow", "shrink"]);
+    expect(result.peakFrames).toBe(4);
+    result.steps.forEach((step) => {
+      expect(step.allocatedFrames).toBeGreaterThanOrEqual(2);
+      expect(step.residentPages.length).toBeLessThanOrEqual(step.allocatedFrames);
+    });
+  });
+});
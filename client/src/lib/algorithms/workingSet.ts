@@ -0,0 +1,191 @@
+export interface WorkingSetStep {
+  time: number;
+  reference: number;
+  isFault: boolean;
+  workingSet: number[]; // Pages referenced in the last Δ references, including this one
+  size: number;
+}
+
+export interface WorkingSetResult {
+  steps: WorkingSetStep[];
+  faults: number;
+  hits: number;
+  averageSize: number;
+  peakSize: number;
+}
+
+export interface PFFOptions {
+  initialFrames: number;
+  lowerThreshold: number; // Fault rate (0-1) below which a frame is released
+  upperThreshold: number; // Fault rate (0-1) above which a frame is added
+  window: number; // Number of recent references the fault rate is measured over
+  minFrames?: number; // Default 1
+  maxFrames?: number; // Default unlimited
+}
+
+export interface PFFStep {
+  time: number;
+  reference: number;
+  isFault: boolean;
+  allocatedFrames: number; // Allocation after this reference
+  residentPages: number[];
+  faultRate: number; // Faults in the last `window` references / window
+  adjustment?: "grow" | "shrink";
+  evicted?: number[]; // Pages removed on this reference (replacement or shrinking)
+}
+
+export interface PFFResult {
+  steps: PFFStep[];
+  faults: number;
+  hits: number;
+  averageFrames: number;
+  peakFrames: number;
+}
+
+// Working-Set Model
+// The resident set is exactly the working set W(t, Δ): the pages referenced in the
+// last Δ references. A reference faults when its page was not used within the window,
+// so the allocation grows and shrinks with the program's locality
+export function simulateWorkingSet(
+  refString: number[],
+  delta: number
+): WorkingSetResult {
+  // Time of the most recent reference to each page
+  const lastUse = new Map<number, number>();
+
+  const result: WorkingSetResult = {
+    steps: [],
+    faults: 0,
+    hits: 0,
+    averageSize: 0,
+    peakSize: 0,
+  };
+  let totalSize = 0;
+
+  for (let t = 0; t < refString.length; t++) {
+    const page = refString[t];
+    const previous = lastUse.get(page);
+
+    // Resident if referenced within the Δ references before this one
+    const isFault = previous === undefined || t - previous > delta;
+    if (isFault) {
+      result.faults++;
+    } else {
+      result.hits++;
+    }
+    lastUse.set(page, t);
+
+    // Drop pages whose last reference has left the window
+    const workingSet: number[] = [];
+    lastUse.forEach((time, p) => {
+      if (t - time < delta) {
+        workingSet.push(p);
+      } else {
+        lastUse.delete(p);
+      }
+    });
+    workingSet.sort((a, b) => a - b);
+
+    totalSize += workingSet.length;
+    result.peakSize = Math.max(result.peakSize, workingSet.length);
+    result.steps.push({
+      time: t,
+      reference: page,
+      isFault,
+      workingSet,
+      size: workingSet.length,
+    });
+  }
+
+  result.averageSize =
+    refString.length === 0 ? 0 : totalSize / refString.length;
+  return result;
+}
+
+// Page-Fault-Frequency (PFF) Allocation
+// The process starts with a fixed number of frames and pages are replaced LRU within
+// that allocation. On every fault the recent fault rate is checked: above the upper
+// threshold the process is given another frame, below the lower threshold it gives one up
+export function simulatePFF(
+  refString: number[],
+  options: PFFOptions
+): PFFResult {
+  const minFrames = options.minFrames ?? 1;
+  const maxFrames = options.maxFrames ?? Infinity;
+  let allocated = Math.min(Math.max(options.initialFrames, minFrames), maxFrames);
+
+  // Resident pages ordered from least to most recently used
+  const resident: number[] = [];
+  // Whether each of the recent references faulted, for the sliding-window rate
+  const recentFaults: boolean[] = [];
+  let faultsInWindow = 0;
+
+  const result: PFFResult = {
+    steps: [],
+    faults: 0,
+    hits: 0,
+    averageFrames: 0,
+    peakFrames: allocated,
+  };
+  let totalFrames = 0;
+
+  for (let t = 0; t < refString.length; t++) {
+    const page = refString[t];
+    const position = resident.indexOf(page);
+    const isFault = position === -1;
+    const step: PFFStep = {
+      time: t,
+      reference: page,
+      isFault,
+      allocatedFrames: allocated,
+      residentPages: [],
+      faultRate: 0,
+    };
+
+    recentFaults.push(isFault);
+    if (isFault) faultsInWindow++;
+    if (recentFaults.length > options.window) {
+      if (recentFaults.shift()) faultsInWindow--;
+    }
+    const faultRate = faultsInWindow / options.window;
+
+    if (!isFault) {
+      // Page hit - move to the most recently used end
+      result.hits++;
+      resident.splice(position, 1);
+      resident.push(page);
+    } else {
+      result.faults++;
+
+      // Adjust the allocation only once the window holds enough history
+      if (recentFaults.length >= options.window) {
+        if (faultRate > options.upperThreshold && allocated < maxFrames) {
+          allocated++;
+          step.adjustment = "grow";
+        } else if (faultRate < options.lowerThreshold && allocated > minFrames) {
+          allocated--;
+          step.adjustment = "shrink";
+        }
+      }
+
+      // Make room for the new page within the (possibly smaller) allocation
+      const evicted: number[] = [];
+      while (resident.length >= allocated) {
+        evicted.push(resident.shift()!);
+      }
+      if (evicted.length > 0) step.evicted = evicted;
+      resident.push(page);
+    }
+
+    step.allocatedFrames = allocated;
+    step.residentPages = [...resident].sort((a, b) => a - b);
+    step.faultRate = faultRate;
+    totalFrames += allocated;
+    result.peakFrames = Math.max(result.peakFrames, allocated);
+    result.steps.push(step);
+  }
+
+  result.averageFrames =
+    refString.length === 0 ? 0 : totalFrames / refString.length;
+  return result;
+}
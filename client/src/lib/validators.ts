@@ -1,25 +1,34 @@
-export function validateMemoryInput(
-  frames: string,
-  referenceString: string
-): { valid: boolean; message: string; frameCount?: number; refArray?: number[] } {
-  // Validate frame count
-  const frameCount = parseInt(frames);
-  if (!frameCount || frameCount <= 0) {
-    return { valid: false, message: 'Number of frames must be a positive integer' };
-  }
+import { AllocationRequest } from './algorithms/contiguous';
+import { CowConfig, CowEvent } from './algorithms/copyOnWrite';
+import { BFQOptions, DeadlineOptions, DiskRequest } from './algorithms/disk';
+import { DriveGeometry } from './algorithms/diskTiming';
+import { ProcessSpec } from './algorithms/multiprogramming';
+import { AddressSpace } from './algorithms/pageTables';
+import { PagingCostModel } from './algorithms/pagingCost';
+import { dataDisks, RaidConfig, RaidLevel } from './algorithms/raid';
+import { AccessType, LogicalAddress, SegmentationMode, SegmentEntry } from './algorithms/segmentation';
+import { SlabCacheSpec, SlabRequest } from './algorithms/slab';
+import { GCPolicy, SSDConfig, WearLeveling } from './algorithms/ssd';
 
-  // Validate reference string
+// Shared by every simulator that takes a page reference string
+function parseReferenceString(
+  referenceString: string
+): { valid: boolean; message: string; refArray?: number[]; writeArray?: boolean[] } {
   const refStringValue = referenceString.trim();
   if (!refStringValue) {
     return { valid: false, message: 'Reference string is required' };
   }
 
+  // Each reference is a page number, optionally followed by "w" (write) or "r" (read), e.g. 3w
+  const tokens = refStringValue.split(/\s+/);
+  const writeArray = tokens.map(token => /w$/i.test(token));
+
   // Convert reference string to array of numbers
-  const refArray = refStringValue.split(/\s+/).map(Number);
+  const refArray = tokens.map(token => Number(token.replace(/[rw]$/i, '')));
   
   // Check if all values are valid numbers
-  if (refArray.some(isNaN)) {
-    return { valid: false, message: 'Reference string must contain only numbers separated by spaces' };
+  if (refArray.some(isNaN) || tokens.some(token => /^[rw]$/i.test(token))) {
+    return { valid: false, message: 'Reference string must contain only numbers separated by spaces (append w to mark a write, e.g. 3w)' };
   }
   
   // Check if all values are non-negative
@@ -27,14 +36,654 @@ export function validateMemoryInput(
     return { valid: false, message: 'Reference string must contain non-negative integers' };
   }
 
-  return { valid: true, message: '', frameCount, refArray };
+  return { valid: true, message: '', refArray, writeArray };
+}
+
+// Address width, page size, table levels and frames shared by the translation simulators
+function parseAddressLayout(
+  addressBits: string,
+  pageSize: string,
+  levels: string,
+  frames: string
+): { valid: boolean; message: string; addressBits?: number; pageSize?: number; levels?: number; frameCount?: number } {
+  // Validate address width
+  const bits = Number(addressBits);
+  if (!Number.isInteger(bits) || bits < 2 || bits > 52) {
+    return { valid: false, message: 'Address bits must be an integer between 2 and 52' };
+  }
+
+  // Validate page size
+  const size = Number(pageSize);
+  if (!Number.isInteger(size) || size < 1 || (size & (size - 1)) !== 0) {
+    return { valid: false, message: 'Page size must be a power of two (e.g. 4096)' };
+  }
+
+  const offsetBits = Math.log2(size);
+  if (offsetBits >= bits) {
+    return { valid: false, message: 'Page size must be smaller than the virtual address space' };
+  }
+
+  // Validate page-table levels
+  const levelCount = Number(levels);
+  if (!Number.isInteger(levelCount) || levelCount < 1 || levelCount > 4) {
+    return { valid: false, message: 'Page-table levels must be between 1 and 4' };
+  }
+
+  if (levelCount > bits - offsetBits) {
+    return { valid: false, message: `A ${bits - offsetBits}-bit page number cannot be split across ${levelCount} levels` };
+  }
+
+  // Validate frame count
+  const frameCount = parseInt(frames);
+  if (!frameCount || frameCount <= 0) {
+    return { valid: false, message: 'Number of frames must be a positive integer' };
+  }
+
+  return { valid: true, message: '', addressBits: bits, pageSize: size, levels: levelCount, frameCount };
+}
+
+// Virtual addresses for the translation simulators
+function parseAddresses(
+  addresses: string,
+  bits: number
+): { valid: boolean; message: string; addressArray?: number[] } {
+  // Addresses are hex with a 0x prefix or decimal, separated by spaces or commas
+  const tokens = addresses.trim() ? addresses.trim().split(/[\s,]+/) : [];
+  if (tokens.length === 0) {
+    return { valid: false, message: 'At least one virtual address is required' };
+  }
+
+  const addressArray = tokens.map(token =>
+    /^0x[0-9a-f]+$/i.test(token) ? parseInt(token, 16) : /^\d+$/.test(token) ? Number(token) : NaN
+  );
+  if (addressArray.some(isNaN)) {
+    return { valid: false, message: 'Addresses must be decimal or hex with a 0x prefix (e.g. 0x1A3F)' };
+  }
+
+  if (addressArray.some(address => address >= 2 ** bits)) {
+    return { valid: false, message: `Addresses must fit in ${bits} bits (below 0x${(2 ** bits).toString(16).toUpperCase()})` };
+  }
+
+  return { valid: true, message: '', addressArray };
+}
+
+export function validateMemoryInput(
+  frames: string,
+  referenceString: string
+): { valid: boolean; message: string; frameCount?: number; refArray?: number[]; writeArray?: boolean[] } {
+  // Validate frame count
+  const frameCount = parseInt(frames);
+  if (!frameCount || frameCount <= 0) {
+    return { valid: false, message: 'Number of frames must be a positive integer' };
+  }
+
+  const parsed = parseReferenceString(referenceString);
+  if (!parsed.valid) {
+    return parsed;
+  }
+
+  return { valid: true, message: '', frameCount, refArray: parsed.refArray, writeArray: parsed.writeArray };
+}
+
+export function validateARBOptions(
+  historyBits: string,
+  shiftInterval: string
+): { valid: boolean; message: string; historyBits?: number; shiftInterval?: number } {
+  // Validate history register width
+  const bits = Number(historyBits);
+  if (!Number.isInteger(bits) || bits < 1 || bits > 32) {
+    return { valid: false, message: 'History bits must be an integer between 1 and 32' };
+  }
+
+  // Validate shift interval
+  const interval = Number(shiftInterval);
+  if (!Number.isInteger(interval) || interval <= 0) {
+    return { valid: false, message: 'Shift interval must be a positive integer' };
+  }
+
+  return { valid: true, message: '', historyBits: bits, shiftInterval: interval };
+}
+
+export function validateCountingOptions(
+  decayInterval: string
+): { valid: boolean; message: string; decayInterval?: number } {
+  // An empty decay interval disables counter decay
+  if (!decayInterval.trim()) {
+    return { valid: true, message: '', decayInterval: 0 };
+  }
+
+  const interval = Number(decayInterval);
+  if (!Number.isInteger(interval) || interval < 0) {
+    return { valid: false, message: 'Decay interval must be a non-negative integer (0 disables decay)' };
+  }
+
+  return { valid: true, message: '', decayInterval: interval };
+}
+
+export function validatePagingOptions(
+  prefetch: string,
+  hitNs: string,
+  faultMs: string,
+  writeBackMs: string
+): { valid: boolean; message: string; prefetch?: number; costModel?: PagingCostModel } {
+  // Empty prefetch means no prefetching
+  const depth = prefetch.trim() === '' ? 0 : Number(prefetch);
+  if (!Number.isInteger(depth) || depth < 0) {
+    return { valid: false, message: 'Prefetch must be a non-negative integer' };
+  }
+
+  const values = [hitNs, faultMs, writeBackMs].map(value => Number(value));
+  if ([hitNs, faultMs, writeBackMs].some(value => !value.trim()) || values.some(value => isNaN(value) || value < 0)) {
+    return { valid: false, message: 'Costs must be non-negative numbers' };
+  }
+
+  // Fault and write-back times are entered in milliseconds
+  return {
+    valid: true,
+    message: '',
+    prefetch: depth,
+    costModel: { hitNs: values[0], faultNs: values[1] * 1e6, writeBackNs: values[2] * 1e6 },
+  };
+}
+
+export function validateWorkingSetInput(
+  delta: string,
+  referenceString: string
+): { valid: boolean; message: string; delta?: number; refArray?: number[] } {
+  // Validate window size
+  const windowSize = Number(delta);
+  if (!Number.isInteger(windowSize) || windowSize <= 0) {
+    return { valid: false, message: 'Window size (Δ) must be a positive integer' };
+  }
+
+  const parsed = parseReferenceString(referenceString);
+  if (!parsed.valid) {
+    return parsed;
+  }
+
+  return { valid: true, message: '', delta: windowSize, refArray: parsed.refArray };
+}
+
+export function validatePFFOptions(
+  initialFrames: string,
+  lowerThreshold: string,
+  upperThreshold: string,
+  window: string
+): { valid: boolean; message: string; initialFrames?: number; lowerThreshold?: number; upperThreshold?: number; window?: number } {
+  // Validate starting allocation
+  const frames = Number(initialFrames);
+  if (!Number.isInteger(frames) || frames <= 0) {
+    return { valid: false, message: 'Initial frames must be a positive integer' };
+  }
+
+  // Thresholds are entered as percentages
+  const lower = Number(lowerThreshold);
+  const upper = Number(upperThreshold);
+  if (!lowerThreshold.trim() || !upperThreshold.trim() || isNaN(lower) || isNaN(upper) || lower < 0 || upper > 100) {
+    return { valid: false, message: 'Fault-rate thresholds must be percentages between 0 and 100' };
+  }
+
+  if (lower >= upper) {
+    return { valid: false, message: 'Lower threshold must be below the upper threshold' };
+  }
+
+  // Validate measurement window
+  const windowSize = Number(window);
+  if (!Number.isInteger(windowSize) || windowSize <= 0) {
+    return { valid: false, message: 'Fault-rate window must be a positive integer' };
+  }
+
+  return { valid: true, message: '', initialFrames: frames, lowerThreshold: lower / 100, upperThreshold: upper / 100, window: windowSize };
+}
+
+export function validateMultiprogrammingInput(
+  processText: string,
+  frames: string,
+  quantum: string,
+  order: string
+): { valid: boolean; message: string; processes?: ProcessSpec[]; totalFrames?: number; quantum?: number; order?: number[] } {
+  // One process per line: "name: pages" or "name/priority: pages", e.g. P1/2: 1 2 3 1
+  const lines = processText.split('\n').map(line => line.trim()).filter(line => line !== '');
+  if (lines.length === 0) {
+    return { valid: false, message: 'Define at least one process' };
+  }
+
+  const processes: ProcessSpec[] = [];
+  for (const line of lines) {
+    const match = line.match(/^([^:/\s]+)\s*(?:\/\s*(\d+))?\s*:(.*)$/);
+    if (!match) {
+      return { valid: false, message: `Each process must look like "P1: 1 2 3" or "P1/2: 1 2 3" (got "${line}")` };
+    }
+
+    const parsed = parseReferenceString(match[3]);
+    if (!parsed.valid) {
+      return { valid: false, message: `${match[1]}: ${parsed.message}` };
+    }
+
+    const priority = match[2] === undefined ? 1 : Number(match[2]);
+    if (priority <= 0) {
+      return { valid: false, message: `${match[1]}: priority must be a positive integer` };
+    }
+
+    processes.push({ name: match[1], refString: parsed.refArray!, priority });
+  }
+
+  if (new Set(processes.map(process => process.name)).size !== processes.length) {
+    return { valid: false, message: 'Process names must be unique' };
+  }
+
+  // Validate frame pool
+  const totalFrames = Number(frames);
+  if (!Number.isInteger(totalFrames) || totalFrames <= 0) {
+    return { valid: false, message: 'Number of frames must be a positive integer' };
+  }
+
+  // Validate time slice
+  const quantumValue = Number(quantum);
+  if (!Number.isInteger(quantumValue) || quantumValue <= 0) {
+    return { valid: false, message: 'Quantum must be a positive integer' };
+  }
+
+  // An empty order means plain round-robin
+  const orderNames = order.trim() ? order.trim().split(/[\s,]+/) : [];
+  const orderArray = orderNames.map(name => processes.findIndex(process => process.name === name));
+  if (orderArray.some(index => index === -1)) {
+    return { valid: false, message: 'Schedule order must only name defined processes' };
+  }
+
+  if (orderArray.length > 0 && processes.some((_, i) => !orderArray.includes(i))) {
+    return { valid: false, message: 'Schedule order must include every process' };
+  }
+
+  return { valid: true, message: '', processes, totalFrames, quantum: quantumValue, order: orderArray };
+}
+
+export function validateThrashingOptions(
+  maxDegree: string,
+  faultServiceTime: string
+): { valid: boolean; message: string; maxDegree?: number; faultServiceTime?: number } {
+  // Validate degree range
+  const degree = Number(maxDegree);
+  if (!Number.isInteger(degree) || degree <= 0 || degree > 50) {
+    return { valid: false, message: 'Maximum degree of multiprogramming must be an integer between 1 and 50' };
+  }
+
+  // Validate paging device speed
+  const serviceTime = Number(faultServiceTime);
+  if (!Number.isInteger(serviceTime) || serviceTime <= 0) {
+    return { valid: false, message: 'Fault service time must be a positive integer' };
+  }
+
+  return { valid: true, message: '', maxDegree: degree, faultServiceTime: serviceTime };
+}
+
+export function validateCopyOnWriteInput(
+  parent: string,
+  pages: string,
+  frames: string,
+  eventText: string
+): { valid: boolean; message: string; config?: CowConfig; events?: CowEvent[] } {
+  const parentName = parent.trim();
+  if (!/^[A-Za-z]\w*$/.test(parentName)) {
+    return { valid: false, message: 'Parent process needs a name such as P0' };
+  }
+
+  const pageCount = Number(pages);
+  if (!Number.isInteger(pageCount) || pageCount <= 0 || pageCount > 32) {
+    return { valid: false, message: 'Pages per process must be an integer between 1 and 32' };
+  }
+
+  const frameCount = Number(frames);
+  if (!Number.isInteger(frameCount) || frameCount < pageCount || frameCount > 128) {
+    return { valid: false, message: `Frames must be an integer between ${pageCount} (the parent's pages) and 128` };
+  }
+
+  // One event per line or comma: "fork P0 P1", "P1 3w" writes page 3, "P1 3" reads it, "exit P1"
+  const lines = eventText.split(/[\n,]/).map(line => line.trim()).filter(line => line !== '');
+  if (lines.length === 0) {
+    return { valid: false, message: 'At least one event is required' };
+  }
+
+  const events: CowEvent[] = [];
+  for (const line of lines) {
+    const fork = line.match(/^fork\s+([A-Za-z]\w*)\s+([A-Za-z]\w*)$/i);
+    const exit = line.match(/^exit\s+([A-Za-z]\w*)$/i);
+    const access = line.match(/^([A-Za-z]\w*)\s+(\d+)([rw]?)$/i);
+
+    if (fork) {
+      events.push({ type: 'fork', parent: fork[1], child: fork[2] });
+    } else if (exit) {
+      events.push({ type: 'exit', process: exit[1] });
+    } else if (access) {
+      const page = Number(access[2]);
+      if (page >= pageCount) {
+        return { valid: false, message: `Page ${page} is outside the address space (0-${pageCount - 1})` };
+      }
+      events.push({ type: 'access', process: access[1], page, write: access[3].toLowerCase() === 'w' });
+    } else {
+      return { valid: false, message: `Events must look like "fork P0 P1", "P1 3w", "P1 3" or "exit P1" (got "${line}")` };
+    }
+  }
+
+  return { valid: true, message: '', config: { parent: parentName, pages: pageCount, frameCount }, events };
+}
+
+export function validateTranslationInput(
+  addresses: string,
+  addressBits: string,
+  pageSize: string,
+  levels: string,
+  frames: string,
+  tlbSize: string
+): { valid: boolean; message: string; addressArray?: number[]; addressBits?: number; pageSize?: number; levels?: number; frameCount?: number; tlbSize?: number } {
+  const layout = parseAddressLayout(addressBits, pageSize, levels, frames);
+  if (!layout.valid) {
+    return layout;
+  }
+
+  // Validate TLB size (0 means no TLB)
+  const tlbEntries = Number(tlbSize);
+  if (!Number.isInteger(tlbEntries) || tlbEntries < 0) {
+    return { valid: false, message: 'TLB size must be a non-negative integer' };
+  }
+
+  const parsed = parseAddresses(addresses, layout.addressBits!);
+  if (!parsed.valid) {
+    return parsed;
+  }
+
+  return { ...layout, addressArray: parsed.addressArray, tlbSize: tlbEntries };
+}
+
+export function validateLatencies(
+  tlbNs: string,
+  memoryNs: string,
+  faultMs: string
+): { valid: boolean; message: string; tlbNs?: number; memoryNs?: number; faultNs?: number } {
+  const values = [tlbNs, memoryNs, faultMs].map(value => Number(value));
+  if ([tlbNs, memoryNs, faultMs].some(value => !value.trim()) || values.some(value => isNaN(value) || value < 0)) {
+    return { valid: false, message: 'Latencies must be non-negative numbers' };
+  }
+
+  // Fault service time is entered in milliseconds
+  return { valid: true, message: '', tlbNs: values[0], memoryNs: values[1], faultNs: values[2] * 1e6 };
+}
+
+export function validatePageTableInput(
+  processText: string,
+  addressBits: string,
+  pageSize: string,
+  levels: string,
+  frames: string,
+  buckets: string,
+  entryBytes: string
+): { valid: boolean; message: string; spaces?: AddressSpace[]; addressBits?: number; pageSize?: number; levels?: number; frameCount?: number; buckets?: number; entryBytes?: number } {
+  const layout = parseAddressLayout(addressBits, pageSize, levels, frames);
+  if (!layout.valid) {
+    return layout;
+  }
+
+  // Validate hash table size
+  const bucketCount = Number(buckets);
+  if (!Number.isInteger(bucketCount) || bucketCount <= 0) {
+    return { valid: false, message: 'Hash buckets must be a positive integer' };
+  }
+
+  // Validate entry size
+  const bytes = Number(entryBytes);
+  if (!Number.isInteger(bytes) || bytes <= 0) {
+    return { valid: false, message: 'Entry size must be a positive number of bytes' };
+  }
+
+  // One process per line: "name: addresses"
+  const lines = processText.split('\n').map(line => line.trim()).filter(line => line !== '');
+  if (lines.length === 0) {
+    return { valid: false, message: 'Define at least one process' };
+  }
+
+  const spaces: AddressSpace[] = [];
+  for (const line of lines) {
+    const match = line.match(/^([^:\s]+)\s*:(.*)$/);
+    if (!match) {
+      return { valid: false, message: `Each process must look like "P1: 0x1A3F 0x2000" (got "${line}")` };
+    }
+
+    const parsed = parseAddresses(match[2], layout.addressBits!);
+    if (!parsed.valid) {
+      return { valid: false, message: `${match[1]}: ${parsed.message}` };
+    }
+
+    spaces.push({ name: match[1], addresses: parsed.addressArray! });
+  }
+
+  if (new Set(spaces.map(space => space.name)).size !== spaces.length) {
+    return { valid: false, message: 'Process names must be unique' };
+  }
+
+  return { ...layout, spaces, buckets: bucketCount, entryBytes: bytes };
+}
+
+export function validateSegmentationInput(
+  segmentText: string,
+  addressText: string,
+  mode: SegmentationMode,
+  pageSize: string,
+  frames: string
+): { valid: boolean; message: string; segments?: SegmentEntry[]; addresses?: LogicalAddress[]; pageSize?: number; frameCount?: number } {
+  // One segment per line: "name base limit permissions", e.g. code 1400 1000 rx
+  const lines = segmentText.split('\n').map(line => line.trim()).filter(line => line !== '');
+  if (lines.length === 0) {
+    return { valid: false, message: 'Define at least one segment' };
+  }
+
+  const segments: SegmentEntry[] = [];
+  for (const line of lines) {
+    const match = line.match(/^(\S+)\s+(\d+)\s+(\d+)\s+([rwx]+|-)$/i);
+    if (!match) {
+      return { valid: false, message: `Each segment must look like "code 1400 1000 rx" (got "${line}")` };
+    }
+
+    const limit = Number(match[3]);
+    if (limit <= 0) {
+      return { valid: false, message: `${match[1]}: limit must be a positive integer` };
+    }
+
+    const permissions = match[4].toLowerCase();
+    segments.push({
+      name: match[1],
+      base: Number(match[2]),
+      limit,
+      read: permissions.includes('r'),
+      write: permissions.includes('w'),
+      execute: permissions.includes('x'),
+    });
+  }
+
+  // Logical addresses as segment:offset with an optional access type, e.g. 2:53w
+  const tokens = addressText.trim() ? addressText.trim().split(/[\s,]+/) : [];
+  if (tokens.length === 0) {
+    return { valid: false, message: 'At least one logical address is required' };
+  }
+
+  const addresses: LogicalAddress[] = [];
+  for (const token of tokens) {
+    const match = token.match(/^(\d+):(\d+)([rwx]?)$/i);
+    if (!match) {
+      return { valid: false, message: `Addresses must look like segment:offset with an optional r, w or x (got "${token}")` };
+    }
+
+    addresses.push({
+      segment: Number(match[1]),
+      offset: Number(match[2]),
+      access: (match[3].toLowerCase() || 'r') as AccessType,
+    });
+  }
+
+  if (mode === 'segmentation') {
+    return { valid: true, message: '', segments, addresses };
+  }
+
+  // Validate page size
+  const size = Number(pageSize);
+  if (!Number.isInteger(size) || size < 1 || (size & (size - 1)) !== 0) {
+    return { valid: false, message: 'Page size must be a power of two (e.g. 256)' };
+  }
+
+  // Validate frame count
+  const frameCount = parseInt(frames);
+  if (!frameCount || frameCount <= 0) {
+    return { valid: false, message: 'Number of frames must be a positive integer' };
+  }
+
+  return { valid: true, message: '', segments, addresses, pageSize: size, frameCount };
+}
+
+export function validateAllocationInput(
+  memorySize: string,
+  requestText: string
+): { valid: boolean; message: string; memorySize?: number; requests?: AllocationRequest[] } {
+  // Validate memory size
+  const size = Number(memorySize);
+  if (!Number.isInteger(size) || size <= 0) {
+    return { valid: false, message: 'Memory size must be a positive integer' };
+  }
+
+  // One request per line or comma: "P1 212" allocates, "free P1" releases, "compact" compacts
+  const lines = requestText.split(/[\n,]/).map(line => line.trim()).filter(line => line !== '');
+  if (lines.length === 0) {
+    return { valid: false, message: 'At least one request is required' };
+  }
+
+  const requests: AllocationRequest[] = [];
+  for (const line of lines) {
+    const allocate = line.match(/^(?:alloc(?:ate)?\s+)?([A-Za-z]\w*)\s+(\d+)$/i);
+    const free = line.match(/^free\s+(\S+)$/i);
+
+    if (/^compact$/i.test(line)) {
+      requests.push({ type: 'compact' });
+    } else if (free) {
+      requests.push({ type: 'free', process: free[1] });
+    } else if (allocate) {
+      const requestSize = Number(allocate[2]);
+      if (requestSize <= 0) {
+        return { valid: false, message: `${allocate[1]}: size must be a positive integer` };
+      }
+      requests.push({ type: 'allocate', process: allocate[1], size: requestSize });
+    } else {
+      return { valid: false, message: `Requests must look like "P1 212", "free P1" or "compact" (got "${line}")` };
+    }
+  }
+
+  return { valid: true, message: '', memorySize: size, requests };
+}
+
+export function validateBuddyInput(
+  memorySize: string,
+  minBlock: string,
+  requestText: string
+): { valid: boolean; message: string; memorySize?: number; minBlock?: number; requests?: AllocationRequest[] } {
+  const isPowerOfTwo = (value: number) => Number.isInteger(Math.log2(value));
+
+  const parsed = validateAllocationInput(memorySize, requestText);
+  if (!parsed.valid) return parsed;
+
+  if (!isPowerOfTwo(parsed.memorySize!)) {
+    return { valid: false, message: 'Memory size must be a power of two' };
+  }
+
+  // Validate smallest block
+  const smallest = Number(minBlock);
+  if (!Number.isInteger(smallest) || smallest <= 0 || !isPowerOfTwo(smallest)) {
+    return { valid: false, message: 'Smallest block must be a power of two' };
+  }
+  if (smallest > parsed.memorySize!) {
+    return { valid: false, message: 'Smallest block cannot be larger than memory' };
+  }
+
+  if (parsed.requests!.some(request => request.type === 'compact')) {
+    return { valid: false, message: 'The buddy system does not support "compact"' };
+  }
+
+  return { ...parsed, minBlock: smallest };
 }
 
+export function validateSlabInput(
+  cacheText: string,
+  slabSize: string,
+  requestText: string
+): { valid: boolean; message: string; caches?: SlabCacheSpec[]; slabSize?: number; requests?: SlabRequest[] } {
+  // Validate slab size
+  const size = Number(slabSize);
+  if (!Number.isInteger(size) || size <= 0) {
+    return { valid: false, message: 'Slab size must be a positive integer' };
+  }
+
+  // One cache per line: name and object size
+  const cacheLines = cacheText.split('\n').map(line => line.trim()).filter(line => line !== '');
+  if (cacheLines.length === 0) {
+    return { valid: false, message: 'At least one cache is required' };
+  }
+
+  const caches: SlabCacheSpec[] = [];
+  for (const line of cacheLines) {
+    const match = line.match(/^([A-Za-z][\w-]*)\s+(\d+)$/);
+    if (!match) {
+      return { valid: false, message: `Caches must look like "inode 96" (got "${line}")` };
+    }
+    const objectSize = Number(match[2]);
+    if (objectSize <= 0 || objectSize > size) {
+      return { valid: false, message: `${match[1]}: object size must be between 1 and the slab size (${size})` };
+    }
+    if (caches.some(cache => cache.name === match[1])) {
+      return { valid: false, message: `Cache ${match[1]} is defined twice` };
+    }
+    caches.push({ name: match[1], objectSize });
+  }
+
+  // One request per line or comma: "inode a" allocates object a, "free a" releases it
+  const lines = requestText.split(/[\n,]/).map(line => line.trim()).filter(line => line !== '');
+  if (lines.length === 0) {
+    return { valid: false, message: 'At least one request is required' };
+  }
+
+  const requests: SlabRequest[] = [];
+  for (const line of lines) {
+    const free = line.match(/^free\s+(\S+)$/i);
+    const allocate = line.match(/^(?:alloc(?:ate)?\s+)?([A-Za-z][\w-]*)\s+(\S+)$/i);
+
+    if (/^shrink$/i.test(line)) {
+      requests.push({ type: 'shrink' });
+    } else if (free) {
+      requests.push({ type: 'free', object: free[1] });
+    } else if (allocate) {
+      if (!caches.some(cache => cache.name === allocate[1])) {
+        return { valid: false, message: `Unknown cache "${allocate[1]}"` };
+      }
+      requests.push({ type: 'allocate', cache: allocate[1], object: allocate[2] });
+    } else {
+      return { valid: false, message: `Requests must look like "inode a", "free a" or "shrink" (got "${line}")` };
+    }
+  }
+
+  return { valid: true, message: '', caches, slabSize: size, requests };
+}
+
+// Requests are cylinder numbers, optionally with an owner process as P1/, a sector as :sector,
+// an r or w operation and an arrival time as @time (e.g. P1/98:12w@5); missing sectors are 0,
+// operations default to reads and missing times mean waiting at time 0
 export function validateDiskInput(
   cylinders: string,
   headPosition: string,
-  requestQueue: string
-): { valid: boolean; message: string; cylinders?: number; start?: number; requestArray?: number[] } {
+  requestQueue: string,
+  checkRange: boolean = true // RAID requests are logical blocks, checked by validateRaidConfig
+): {
+  valid: boolean;
+  message: string;
+  cylinders?: number;
+  start?: number;
+  requestArray?: number[];
+  requests?: DiskRequest[];
+} {
   // Validate total cylinders
   const cylindersCount = parseInt(cylinders);
   if (!cylindersCount || cylindersCount <= 0) {
@@ -57,18 +706,248 @@ export function validateDiskInput(
     return { valid: false, message: 'Request queue is required' };
   }
 
-  // Convert request queue to array of numbers
-  const requestArray = requestsValue.split(',').map(r => parseInt(r.trim()));
-  
-  // Check if all values are valid numbers
-  if (requestArray.some(isNaN)) {
-    return { valid: false, message: 'Request queue must contain only numbers separated by commas' };
+  // Convert request queue to cylinder/arrival pairs
+  const requests: DiskRequest[] = [];
+  for (const token of requestsValue.split(',')) {
+    const match = token.trim().match(/^(?:([A-Za-z]\w*)\/)?(\d+)(?::(\d+))?([rw])?(?:\s*@\s*(\d+))?$/i);
+    if (!match) {
+      return {
+        valid: false,
+        message: `Invalid request "${token.trim()}": use [process/]cylinder[:sector][r|w][@time] (e.g., P1/98:12w@5)`,
+      };
+    }
+    requests.push({
+      cylinder: parseInt(match[2]),
+      sector: match[3] ? parseInt(match[3]) : 0,
+      arrival: match[5] ? parseInt(match[5]) : 0,
+      ...(match[1] ? { process: match[1].toUpperCase() } : {}),
+      write: match[4]?.toLowerCase() === 'w',
+    });
   }
-  
+
+  const requestArray = requests.map(r => r.cylinder);
+
   // Check if all values are within range
-  if (requestArray.some(num => num < 0 || num >= cylindersCount)) {
+  if (checkRange && requestArray.some(num => num < 0 || num >= cylindersCount)) {
     return { valid: false, message: `Request queue must contain integers between 0 and ${cylindersCount-1}` };
   }
 
-  return { valid: true, message: '', cylinders: cylindersCount, start, requestArray };
+  return { valid: true, message: '', cylinders: cylindersCount, start, requestArray, requests };
+}
+
+export function validateBatchSize(
+  batchSize: string
+): { valid: boolean; message: string; batchSize?: number } {
+  // N-Step SCAN: requests per frozen batch
+  const value = Number(batchSize);
+  if (!Number.isInteger(value) || value < 1) {
+    return { valid: false, message: 'Batch size N must be a positive integer' };
+  }
+  return { valid: true, message: '', batchSize: value };
+}
+
+export function validateDeadlineOptions(
+  readExpire: string,
+  writeExpire: string,
+  fifoBatch: string,
+  writesStarved: string
+): { valid: boolean; message: string; options?: DeadlineOptions } {
+  // Validate expiry times
+  const expiries = [readExpire, writeExpire].map(value => Number(value));
+  if (expiries.some(value => !Number.isInteger(value) || value < 0)) {
+    return { valid: false, message: 'Read and write expiry must be non-negative integers' };
+  }
+
+  // Validate batching
+  const batch = Number(fifoBatch);
+  if (!Number.isInteger(batch) || batch < 1) {
+    return { valid: false, message: 'FIFO batch must be a positive integer' };
+  }
+
+  const starved = Number(writesStarved);
+  if (!Number.isInteger(starved) || starved < 0) {
+    return { valid: false, message: 'Writes starved must be a non-negative integer' };
+  }
+
+  return {
+    valid: true,
+    message: '',
+    options: { readExpire: expiries[0], writeExpire: expiries[1], fifoBatch: batch, writesStarved: starved },
+  };
+}
+
+export function validateBFQOptions(
+  budget: string
+): { valid: boolean; message: string; options?: BFQOptions } {
+  // Requests per process turn
+  const value = Number(budget);
+  if (!Number.isInteger(value) || value < 1) {
+    return { valid: false, message: 'Budget must be a positive integer' };
+  }
+  return { valid: true, message: '', options: { budget: value } };
+}
+
+export function validateDriveGeometry(
+  rpm: string,
+  sectorsPerTrack: string,
+  heads: string,
+  settleMs: string,
+  sqrtMs: string,
+  linearMs: string,
+  seekThreshold: string,
+  requests: DiskRequest[] = []
+): { valid: boolean; message: string; geometry?: DriveGeometry } {
+  // Validate the platter layout
+  const layout = [rpm, sectorsPerTrack, heads].map(value => Number(value));
+  if (layout.some(value => !Number.isInteger(value) || value < 1)) {
+    return { valid: false, message: 'RPM, sectors per track and heads must be positive integers' };
+  }
+
+  // Validate the seek curve
+  const curve = [settleMs, sqrtMs, linearMs, seekThreshold];
+  if (curve.some(value => !value.trim() || isNaN(Number(value)) || Number(value) < 0)) {
+    return { valid: false, message: 'Seek curve parameters must be non-negative numbers' };
+  }
+
+  // Sectors are numbered across every track of the cylinder
+  const sectorsPerCylinder = layout[1] * layout[2];
+  const outOfRange = requests.find(request => (request.sector ?? 0) >= sectorsPerCylinder);
+  if (outOfRange) {
+    return {
+      valid: false,
+      message: `Sector ${outOfRange.sector} is out of range: a cylinder has sectors 0-${sectorsPerCylinder - 1}`,
+    };
+  }
+
+  return {
+    valid: true,
+    message: '',
+    geometry: {
+      rpm: layout[0],
+      sectorsPerTrack: layout[1],
+      heads: layout[2],
+      settleMs: Number(settleMs),
+      sqrtMs: Number(sqrtMs),
+      linearMs: Number(linearMs),
+      seekThreshold: Number(seekThreshold),
+    },
+  };
+}
+
+// Keeps the erase-count heatmap and the per-step flash snapshots a manageable size
+const MAX_SSD_BLOCKS = 256;
+const MAX_SSD_PASSES = 50;
+
+export function validateSSDConfig(
+  logicalPages: number,
+  pagesPerBlock: string,
+  spareBlocks: string,
+  gcThreshold: string,
+  staticThreshold: string,
+  passes: string,
+  gcPolicy: GCPolicy,
+  wearLeveling: WearLeveling,
+  prefill: boolean
+): { valid: boolean; message: string; config?: SSDConfig } {
+  // Validate the flash layout
+  const pages = Number(pagesPerBlock);
+  if (!Number.isInteger(pages) || pages < 1) {
+    return { valid: false, message: 'Pages per block must be a positive integer' };
+  }
+
+  const spare = Number(spareBlocks);
+  if (!Number.isInteger(spare) || spare < 1) {
+    return { valid: false, message: 'Spare blocks must be a positive integer: out-of-place writes need somewhere to go' };
+  }
+
+  const blockCount = Math.ceil(logicalPages / pages) + spare;
+  if (blockCount > MAX_SSD_BLOCKS) {
+    return {
+      valid: false,
+      message: `The drive would have ${blockCount} blocks; use fewer logical pages or larger blocks (at most ${MAX_SSD_BLOCKS} blocks)`,
+    };
+  }
+
+  // Validate garbage collection and wear leveling
+  const threshold = Number(gcThreshold);
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > spare) {
+    return { valid: false, message: `GC threshold must be an integer between 1 and the spare blocks (${spare})` };
+  }
+
+  const gap = Number(staticThreshold);
+  if (!Number.isInteger(gap) || gap < 0) {
+    return { valid: false, message: 'Static wear leveling threshold must be a non-negative integer' };
+  }
+
+  const passCount = Number(passes);
+  if (!Number.isInteger(passCount) || passCount < 1 || passCount > MAX_SSD_PASSES) {
+    return { valid: false, message: `Passes must be an integer between 1 and ${MAX_SSD_PASSES}` };
+  }
+
+  return {
+    valid: true,
+    message: '',
+    config: {
+      logicalPages,
+      pagesPerBlock: pages,
+      spareBlocks: spare,
+      gcThreshold: threshold,
+      gcPolicy,
+      wearLeveling,
+      staticThreshold: gap,
+      passes: passCount,
+      prefill,
+    },
+  };
+}
+
+// Smallest member count for each RAID level
+const MIN_RAID_DISKS: Record<RaidLevel, number> = {
+  raid0: 2,
+  raid1: 2,
+  raid4: 3,
+  raid5: 3,
+  raid6: 4,
+  raid10: 4,
+};
+const MAX_RAID_DISKS = 12;
+
+export function validateRaidConfig(
+  level: RaidLevel,
+  disks: string,
+  failedDisks: string,
+  cylinders: number,
+  requests: DiskRequest[]
+): { valid: boolean; message: string; config?: RaidConfig; capacity?: number } {
+  // Validate the member count
+  const count = Number(disks);
+  const minimum = MIN_RAID_DISKS[level];
+  if (!Number.isInteger(count) || count < minimum || count > MAX_RAID_DISKS) {
+    return { valid: false, message: `This RAID level needs between ${minimum} and ${MAX_RAID_DISKS} disks` };
+  }
+  if (level === 'raid10' && count % 2 !== 0) {
+    return { valid: false, message: 'RAID 10 needs an even number of disks to form mirrored pairs' };
+  }
+
+  // Failed disks: comma-separated member numbers, may be empty
+  const failedValue = failedDisks.trim();
+  const failed = failedValue ? failedValue.split(',').map(token => Number(token.trim())) : [];
+  if (failed.some(disk => !Number.isInteger(disk) || disk < 0 || disk >= count)) {
+    return { valid: false, message: `Failed disks must be disk numbers between 0 and ${count - 1}` };
+  }
+  if (new Set(failed).size !== failed.length) {
+    return { valid: false, message: 'Each failed disk may only be listed once' };
+  }
+
+  // Every member has one block per cylinder
+  const capacity = dataDisks(level, count) * cylinders;
+  const outOfRange = requests.find(request => request.cylinder >= capacity);
+  if (outOfRange) {
+    return {
+      valid: false,
+      message: `Block ${outOfRange.cylinder} is out of range: the array holds blocks 0-${capacity - 1}`,
+    };
+  }
+
+  return { valid: true, message: '', config: { level, disks: count, failed: failed.sort((a, b) => a - b) }, capacity };
 }
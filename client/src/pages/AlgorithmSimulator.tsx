@@ -1,6 +1,8 @@
 import React from 'react';
 import { Layout } from '@/components/Layout';
 import { MemoryTab } from '@/components/simulator/MemoryTab';
+import { TranslationTab } from '@/components/simulator/TranslationTab';
+import { AllocationTab } from '@/components/simulator/AllocationTab';
 import { DiskTab } from '@/components/simulator/DiskTab';
 import { ComparisonTab } from '@/components/simulator/ComparisonTab';
 import { useSimulation } from '@/contexts/SimulationContext';
@@ -11,6 +13,8 @@ export default function AlgorithmSimulator() {
   return (
     <Layout>
       {activeTab === 'memory' && <MemoryTab />}
+      {activeTab === 'translation' && <TranslationTab />}
+      {activeTab === 'allocation' && <AllocationTab />}
       {activeTab === 'disk' && <DiskTab />}
       {activeTab === 'comparison' && <ComparisonTab />}
     </Layout>